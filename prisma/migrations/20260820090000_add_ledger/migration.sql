@@ -0,0 +1,46 @@
+-- Double-entry ledger underneath wallet balances.
+
+-- CreateTable
+CREATE TABLE `ledger_accounts` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `code` VARCHAR(80) NOT NULL,
+    `kind` VARCHAR(30) NOT NULL,
+    `currency` VARCHAR(20) NOT NULL,
+    `wallet_id` INTEGER NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `ledger_accounts_code_key`(`code`),
+    UNIQUE INDEX `ledger_accounts_wallet_id_key`(`wallet_id`),
+    INDEX `ledger_accounts_kind_currency_idx`(`kind`, `currency`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `ledger_entries` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `journal_id` VARCHAR(40) NOT NULL,
+    `account_id` INTEGER NOT NULL,
+    `direction` VARCHAR(10) NOT NULL,
+    `amount` DECIMAL(20, 8) NOT NULL,
+    `currency` VARCHAR(20) NOT NULL,
+    `balance_after` DECIMAL(20, 8) NULL,
+    `transaction_id` INTEGER NULL,
+    `reference` VARCHAR(100) NULL,
+    `description` VARCHAR(255) NULL,
+    `metadata` JSON NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `ledger_entries_journal_id_idx`(`journal_id`),
+    INDEX `ledger_entries_account_id_created_at_idx`(`account_id`, `created_at`),
+    INDEX `ledger_entries_transaction_id_idx`(`transaction_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `ledger_accounts` ADD CONSTRAINT `ledger_accounts_wallet_id_fkey` FOREIGN KEY (`wallet_id`) REFERENCES `wallets`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ledger_entries` ADD CONSTRAINT `ledger_entries_account_id_fkey` FOREIGN KEY (`account_id`) REFERENCES `ledger_accounts`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ledger_entries` ADD CONSTRAINT `ledger_entries_transaction_id_fkey` FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- Nightly wallet reconciliation runs and their mismatches.
+
+-- CreateTable
+CREATE TABLE `reconciliation_runs` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'running',
+    `trigger` VARCHAR(20) NOT NULL DEFAULT 'schedule',
+    `wallets_checked` INTEGER NOT NULL DEFAULT 0,
+    `mismatch_count` INTEGER NOT NULL DEFAULT 0,
+    `error_message` TEXT NULL,
+    `started_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `finished_at` DATETIME(3) NULL,
+
+    INDEX `reconciliation_runs_started_at_idx`(`started_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `reconciliation_mismatches` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `run_id` INTEGER NOT NULL,
+    `user_id` INTEGER NULL,
+    `wallet_id` INTEGER NULL,
+    `currency` VARCHAR(20) NOT NULL,
+    `check` VARCHAR(30) NOT NULL,
+    `expected` DECIMAL(20, 8) NOT NULL,
+    `actual` DECIMAL(20, 8) NOT NULL,
+    `difference` DECIMAL(20, 8) NOT NULL,
+    `details` JSON NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `reconciliation_mismatches_run_id_idx`(`run_id`),
+    INDEX `reconciliation_mismatches_user_id_idx`(`user_id`),
+    INDEX `reconciliation_mismatches_check_idx`(`check`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `reconciliation_mismatches` ADD CONSTRAINT `reconciliation_mismatches_run_id_fkey` FOREIGN KEY (`run_id`) REFERENCES `reconciliation_runs`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- Idempotency-Key storage for money-moving POST endpoints.
+
+-- CreateTable
+CREATE TABLE `idempotency_keys` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `key` VARCHAR(255) NOT NULL,
+    `method` VARCHAR(10) NOT NULL,
+    `path` VARCHAR(255) NOT NULL,
+    `request_hash` VARCHAR(64) NOT NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'processing',
+    `response_status` INTEGER NULL,
+    `response_body` JSON NULL,
+    `expires_at` DATETIME(3) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `idempotency_keys_user_id_key_key`(`user_id`, `key`),
+    INDEX `idempotency_keys_expires_at_idx`(`expires_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `idempotency_keys` ADD CONSTRAINT `idempotency_keys_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
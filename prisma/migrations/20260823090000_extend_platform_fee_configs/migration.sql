@@ -0,0 +1,11 @@
+-- Fee engine: resolve platform fees by service, channel, currency and country.
+
+-- AlterTable
+ALTER TABLE `platform_fee_configs` ADD COLUMN `currency` VARCHAR(20) NULL,
+    ADD COLUMN `country_code` VARCHAR(10) NULL,
+    ADD COLUMN `min_fee` DECIMAL(20, 8) NULL,
+    ADD COLUMN `max_fee` DECIMAL(20, 8) NULL,
+    ADD COLUMN `tiers` JSON NULL;
+
+-- CreateIndex
+CREATE INDEX `platform_fee_configs_service_type_currency_idx` ON `platform_fee_configs`(`service_type`, `currency`);
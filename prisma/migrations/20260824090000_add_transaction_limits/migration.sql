@@ -0,0 +1,20 @@
+-- Per-KYC-tier transaction limits (per-transaction, daily, weekly, monthly).
+
+-- CreateTable
+CREATE TABLE `transaction_limits` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `kyc_tier` INTEGER NOT NULL,
+    `service_type` VARCHAR(40) NOT NULL,
+    `currency` VARCHAR(20) NOT NULL,
+    `per_transaction_max` DECIMAL(20, 8) NULL,
+    `daily_limit` DECIMAL(20, 8) NULL,
+    `weekly_limit` DECIMAL(20, 8) NULL,
+    `monthly_limit` DECIMAL(20, 8) NULL,
+    `is_active` BOOLEAN NOT NULL DEFAULT true,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `transaction_limits_kyc_tier_service_type_currency_key`(`kyc_tier`, `service_type`, `currency`),
+    INDEX `transaction_limits_service_type_currency_idx`(`service_type`, `currency`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
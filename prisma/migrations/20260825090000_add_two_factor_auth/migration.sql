@@ -0,0 +1,22 @@
+-- TOTP two-factor authentication (RFC 6238) with hashed backup codes.
+
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `two_factor_enabled` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `two_factor_secret` VARCHAR(255) NULL,
+    ADD COLUMN `two_factor_confirmed_at` DATETIME(3) NULL,
+    ADD COLUMN `two_factor_last_used_step` INTEGER NULL;
+
+-- CreateTable
+CREATE TABLE `two_factor_backup_codes` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `code_hash` VARCHAR(255) NOT NULL,
+    `used_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `two_factor_backup_codes_user_id_idx`(`user_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `two_factor_backup_codes` ADD CONSTRAINT `two_factor_backup_codes_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,70 @@
+-- Rule-based fraud scoring: configurable rules, per-transaction assessments, per-user profiles.
+
+-- CreateTable
+CREATE TABLE `risk_rules` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `code` VARCHAR(60) NOT NULL,
+    `name` VARCHAR(120) NOT NULL,
+    `description` VARCHAR(255) NULL,
+    `weight` INTEGER NOT NULL,
+    `params` JSON NULL,
+    `is_active` BOOLEAN NOT NULL DEFAULT true,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `risk_rules_code_key`(`code`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `risk_assessments` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `transaction_id` INTEGER NULL,
+    `p2p_order_id` INTEGER NULL,
+    `service_type` VARCHAR(40) NOT NULL,
+    `channel` VARCHAR(40) NULL,
+    `amount` DECIMAL(20, 8) NOT NULL,
+    `currency` VARCHAR(20) NOT NULL,
+    `score` INTEGER NOT NULL,
+    `level` VARCHAR(10) NOT NULL,
+    `decision` VARCHAR(20) NOT NULL,
+    `triggered_rules` JSON NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `risk_assessments_user_id_idx`(`user_id`),
+    INDEX `risk_assessments_transaction_id_idx`(`transaction_id`),
+    INDEX `risk_assessments_p2p_order_id_idx`(`p2p_order_id`),
+    INDEX `risk_assessments_level_idx`(`level`),
+    INDEX `risk_assessments_created_at_idx`(`created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `user_risk_profiles` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `score` INTEGER NOT NULL DEFAULT 0,
+    `max_score` INTEGER NOT NULL DEFAULT 0,
+    `level` VARCHAR(10) NOT NULL DEFAULT 'low',
+    `assessment_count` INTEGER NOT NULL DEFAULT 0,
+    `hold_count` INTEGER NOT NULL DEFAULT 0,
+    `last_rules` JSON NULL,
+    `last_assessed_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `user_risk_profiles_user_id_key`(`user_id`),
+    INDEX `user_risk_profiles_level_idx`(`level`),
+    INDEX `user_risk_profiles_max_score_idx`(`max_score`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `risk_assessments` ADD CONSTRAINT `risk_assessments_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `risk_assessments` ADD CONSTRAINT `risk_assessments_transaction_id_fkey` FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `user_risk_profiles` ADD CONSTRAINT `user_risk_profiles_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
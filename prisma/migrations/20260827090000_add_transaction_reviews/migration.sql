@@ -0,0 +1,39 @@
+-- Manual review queue for held withdrawals, conversions and crypto sends.
+
+-- CreateTable
+CREATE TABLE `transaction_reviews` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `subject_type` VARCHAR(30) NOT NULL,
+    `transaction_id` INTEGER NULL,
+    `transaction_ids` JSON NULL,
+    `busha_trade_id` INTEGER NULL,
+    `amount` DECIMAL(20, 8) NOT NULL,
+    `currency` VARCHAR(20) NOT NULL,
+    `reason` VARCHAR(30) NOT NULL,
+    `stage` VARCHAR(30) NOT NULL,
+    `risk_assessment_id` INTEGER NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'pending',
+    `required_approvals` INTEGER NOT NULL DEFAULT 1,
+    `approvals` JSON NULL,
+    `locked_wallet_id` INTEGER NULL,
+    `locked_amount` DECIMAL(20, 8) NOT NULL DEFAULT 0,
+    `decision_note` VARCHAR(500) NULL,
+    `decided_by_id` INTEGER NULL,
+    `decided_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `transaction_reviews_status_idx`(`status`),
+    INDEX `transaction_reviews_user_id_idx`(`user_id`),
+    INDEX `transaction_reviews_transaction_id_idx`(`transaction_id`),
+    INDEX `transaction_reviews_busha_trade_id_idx`(`busha_trade_id`),
+    INDEX `transaction_reviews_created_at_idx`(`created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `transaction_reviews` ADD CONSTRAINT `transaction_reviews_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `transaction_reviews` ADD CONSTRAINT `transaction_reviews_transaction_id_fkey` FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
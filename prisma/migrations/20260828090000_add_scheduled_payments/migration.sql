@@ -0,0 +1,62 @@
+-- Scheduled and recurring transfers and bill payments.
+
+-- CreateTable
+CREATE TABLE `scheduled_payments` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `kind` VARCHAR(20) NOT NULL,
+    `recipient_type` VARCHAR(20) NOT NULL,
+    `rhinox_pay_id` VARCHAR(64) NULL,
+    `payment_method_id` INTEGER NULL,
+    `beneficiary_id` INTEGER NULL,
+    `bill_details` JSON NULL,
+    `amount` DECIMAL(20, 8) NOT NULL,
+    `currency` VARCHAR(10) NOT NULL,
+    `country_code` VARCHAR(10) NOT NULL,
+    `frequency` VARCHAR(10) NOT NULL,
+    `description` VARCHAR(255) NULL,
+    `start_at` DATETIME(3) NOT NULL,
+    `end_at` DATETIME(3) NULL,
+    `next_run_at` DATETIME(3) NULL,
+    `retry_at` DATETIME(3) NULL,
+    `retry_count` INTEGER NOT NULL DEFAULT 0,
+    `reminded_for` DATETIME(3) NULL,
+    `last_run_at` DATETIME(3) NULL,
+    `run_count` INTEGER NOT NULL DEFAULT 0,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'active',
+    `last_error` VARCHAR(500) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `scheduled_payments_user_id_idx`(`user_id`),
+    INDEX `scheduled_payments_status_next_run_at_idx`(`status`, `next_run_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `scheduled_payment_runs` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `scheduled_payment_id` INTEGER NOT NULL,
+    `scheduled_for` DATETIME(3) NOT NULL,
+    `attempt` INTEGER NOT NULL DEFAULT 1,
+    `status` VARCHAR(20) NOT NULL,
+    `transaction_id` INTEGER NULL,
+    `error` VARCHAR(500) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `scheduled_payment_runs_scheduled_payment_id_idx`(`scheduled_payment_id`),
+    INDEX `scheduled_payment_runs_created_at_idx`(`created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `scheduled_payments` ADD CONSTRAINT `scheduled_payments_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `scheduled_payments` ADD CONSTRAINT `scheduled_payments_payment_method_id_fkey` FOREIGN KEY (`payment_method_id`) REFERENCES `user_payment_methods`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `scheduled_payments` ADD CONSTRAINT `scheduled_payments_beneficiary_id_fkey` FOREIGN KEY (`beneficiary_id`) REFERENCES `beneficiaries`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `scheduled_payment_runs` ADD CONSTRAINT `scheduled_payment_runs_scheduled_payment_id_fkey` FOREIGN KEY (`scheduled_payment_id`) REFERENCES `scheduled_payments`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- Indexed lookup key for Tatum address webhooks (see normalizeDepositAddress).
+
+-- AlterTable
+-- Binary collation: TRON/Solana/BTC addresses are case-sensitive, so matches must be exact
+ALTER TABLE `deposit_addresses` ADD COLUMN `normalized_address` VARCHAR(255) CHARACTER SET utf8mb4 COLLATE utf8mb4_bin NULL;
+
+-- Backfill: EVM hex addresses are lowercased, everything else is kept as-is (trimmed)
+UPDATE `deposit_addresses`
+SET `normalized_address` = CASE
+    WHEN BINARY LEFT(TRIM(`address`), 2) = '0x' THEN LOWER(TRIM(`address`))
+    ELSE TRIM(`address`)
+END
+WHERE `normalized_address` IS NULL;
+
+-- CreateIndex
+CREATE INDEX `deposit_addresses_normalized_address_idx` ON `deposit_addresses`(`normalized_address`);
@@ -0,0 +1,29 @@
+-- Unified webhook inbox with retries and dead-lettering for all providers.
+
+-- CreateTable
+CREATE TABLE `webhook_inbox_events` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `provider` VARCHAR(20) NOT NULL,
+    `event_type` VARCHAR(100) NULL,
+    `dedupe_key` VARCHAR(255) NOT NULL,
+    `payload` JSON NOT NULL,
+    `headers` JSON NULL,
+    `ip_address` VARCHAR(100) NULL,
+    `user_agent` VARCHAR(255) NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'received',
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `next_attempt_at` DATETIME(3) NULL,
+    `last_error` TEXT NULL,
+    `result` VARCHAR(255) NULL,
+    `received_count` INTEGER NOT NULL DEFAULT 1,
+    `processed_at` DATETIME(3) NULL,
+    `replayed_at` DATETIME(3) NULL,
+    `replayed_by_id` INTEGER NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `webhook_inbox_events_provider_dedupe_key_key`(`provider`, `dedupe_key`),
+    INDEX `webhook_inbox_events_status_next_attempt_at_idx`(`status`, `next_attempt_at`),
+    INDEX `webhook_inbox_events_provider_created_at_idx`(`provider`, `created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
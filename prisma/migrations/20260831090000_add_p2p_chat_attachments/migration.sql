@@ -0,0 +1,11 @@
+-- File attachments and payment proofs in P2P order chat.
+
+-- AlterTable
+ALTER TABLE `p2p_chat_messages` ADD COLUMN `attachment_url` VARCHAR(500) NULL,
+    ADD COLUMN `attachment_name` VARCHAR(255) NULL,
+    ADD COLUMN `attachment_mime_type` VARCHAR(100) NULL,
+    ADD COLUMN `attachment_size` INTEGER NULL,
+    ADD COLUMN `is_payment_proof` BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX `p2p_chat_messages_order_id_is_payment_proof_idx` ON `p2p_chat_messages`(`order_id`, `is_payment_proof`);
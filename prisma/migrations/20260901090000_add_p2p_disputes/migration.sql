@@ -0,0 +1,61 @@
+-- P2P order disputes with evidence, admin assignment and SLA deadlines.
+
+-- CreateTable
+CREATE TABLE `p2p_disputes` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `order_id` INTEGER NOT NULL,
+    `opened_by_id` INTEGER NULL,
+    `reason_code` VARCHAR(50) NOT NULL,
+    `description` TEXT NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'open',
+    `assigned_to_id` INTEGER NULL,
+    `resolution` VARCHAR(20) NULL,
+    `resolution_note` TEXT NULL,
+    `resolved_by_id` INTEGER NULL,
+    `response_due_at` DATETIME(3) NOT NULL,
+    `resolution_due_at` DATETIME(3) NOT NULL,
+    `responded_at` DATETIME(3) NULL,
+    `under_review_at` DATETIME(3) NULL,
+    `resolved_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `p2p_disputes_order_id_key`(`order_id`),
+    INDEX `p2p_disputes_status_idx`(`status`),
+    INDEX `p2p_disputes_opened_by_id_idx`(`opened_by_id`),
+    INDEX `p2p_disputes_assigned_to_id_idx`(`assigned_to_id`),
+    INDEX `p2p_disputes_created_at_idx`(`created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `p2p_dispute_evidence` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `dispute_id` INTEGER NOT NULL,
+    `user_id` INTEGER NOT NULL,
+    `message` TEXT NULL,
+    `attachment_url` VARCHAR(500) NULL,
+    `attachment_name` VARCHAR(255) NULL,
+    `attachment_mime_type` VARCHAR(100) NULL,
+    `attachment_size` INTEGER NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `p2p_dispute_evidence_dispute_id_idx`(`dispute_id`),
+    INDEX `p2p_dispute_evidence_user_id_idx`(`user_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `p2p_disputes` ADD CONSTRAINT `p2p_disputes_order_id_fkey` FOREIGN KEY (`order_id`) REFERENCES `p2p_orders`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `p2p_disputes` ADD CONSTRAINT `p2p_disputes_opened_by_id_fkey` FOREIGN KEY (`opened_by_id`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `p2p_disputes` ADD CONSTRAINT `p2p_disputes_assigned_to_id_fkey` FOREIGN KEY (`assigned_to_id`) REFERENCES `admin_users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `p2p_dispute_evidence` ADD CONSTRAINT `p2p_dispute_evidence_dispute_id_fkey` FOREIGN KEY (`dispute_id`) REFERENCES `p2p_disputes`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `p2p_dispute_evidence` ADD CONSTRAINT `p2p_dispute_evidence_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
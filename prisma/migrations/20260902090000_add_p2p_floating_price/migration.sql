@@ -0,0 +1,7 @@
+-- Floating-price P2P ads: margin over a reference rate, bounded by a floor and a ceiling.
+
+-- AlterTable
+ALTER TABLE `p2p_ads` ADD COLUMN `price_type` VARCHAR(10) NOT NULL DEFAULT 'fixed',
+    ADD COLUMN `price_margin` DECIMAL(8, 4) NULL,
+    ADD COLUMN `price_floor` DECIMAL(20, 8) NULL,
+    ADD COLUMN `price_ceiling` DECIMAL(20, 8) NULL;
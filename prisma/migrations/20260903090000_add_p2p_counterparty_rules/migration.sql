@@ -0,0 +1,26 @@
+-- Counterparty requirements on P2P ads and per-user P2P block lists.
+
+-- AlterTable
+ALTER TABLE `p2p_ads` ADD COLUMN `min_kyc_tier` INTEGER NULL,
+    ADD COLUMN `min_account_age_days` INTEGER NULL,
+    ADD COLUMN `min_completed_orders` INTEGER NULL,
+    ADD COLUMN `allowed_countries` JSON NULL;
+
+-- CreateTable
+CREATE TABLE `p2p_user_blocks` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `blocker_id` INTEGER NOT NULL,
+    `blocked_id` INTEGER NOT NULL,
+    `reason` VARCHAR(255) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `p2p_user_blocks_blocker_id_blocked_id_key`(`blocker_id`, `blocked_id`),
+    INDEX `p2p_user_blocks_blocked_id_idx`(`blocked_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `p2p_user_blocks` ADD CONSTRAINT `p2p_user_blocks_blocker_id_fkey` FOREIGN KEY (`blocker_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `p2p_user_blocks` ADD CONSTRAINT `p2p_user_blocks_blocked_id_fkey` FOREIGN KEY (`blocked_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
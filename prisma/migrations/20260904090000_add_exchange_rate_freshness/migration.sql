@@ -0,0 +1,8 @@
+-- Exchange rate provenance: where each rate came from and when it was quoted.
+
+-- AlterTable
+ALTER TABLE `exchange_rates` ADD COLUMN `source` VARCHAR(50) NOT NULL DEFAULT 'manual',
+    ADD COLUMN `as_of` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3);
+
+-- Existing rates were last quoted when they were last updated
+UPDATE `exchange_rates` SET `as_of` = `updated_at`;
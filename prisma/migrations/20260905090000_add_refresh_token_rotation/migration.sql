@@ -0,0 +1,18 @@
+-- Rotating refresh tokens: each token belongs to a family (one login) and a device session.
+-- The table was never written to; clear it so the new NOT NULL column can be added.
+DELETE FROM `refresh_tokens`;
+
+-- AlterTable
+ALTER TABLE `refresh_tokens` ADD COLUMN `family_id` VARCHAR(36) NOT NULL,
+    ADD COLUMN `session_id` INTEGER NULL,
+    ADD COLUMN `used_at` DATETIME(3) NULL,
+    ADD COLUMN `revoked_at` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `refresh_tokens_family_id_idx` ON `refresh_tokens`(`family_id`);
+
+-- CreateIndex
+CREATE INDEX `refresh_tokens_session_id_idx` ON `refresh_tokens`(`session_id`);
+
+-- AddForeignKey
+ALTER TABLE `refresh_tokens` ADD CONSTRAINT `refresh_tokens_session_id_fkey` FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- Admin broadcasts are delivered in batches by a job, optionally at a scheduled time.
+-- Existing broadcasts were delivered synchronously and stay "sent".
+
+-- AlterTable
+ALTER TABLE `admin_notifications` ADD COLUMN `segment` JSON NULL,
+    ADD COLUMN `status` VARCHAR(20) NOT NULL DEFAULT 'sent',
+    ADD COLUMN `scheduled_at` DATETIME(3) NULL,
+    ADD COLUMN `recipient_count` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `last_user_id` INTEGER NULL,
+    ADD COLUMN `started_at` DATETIME(3) NULL,
+    ADD COLUMN `completed_at` DATETIME(3) NULL,
+    ADD COLUMN `last_error` TEXT NULL,
+    ADD COLUMN `updated_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3);
+
+UPDATE `admin_notifications` SET `recipient_count` = `sent_count`, `completed_at` = `created_at`;
+
+-- AlterTable
+ALTER TABLE `notifications` ADD COLUMN `opened_at` DATETIME(3) NULL,
+    ADD COLUMN `broadcast_id` INTEGER NULL;
+
+-- CreateIndex
+CREATE INDEX `admin_notifications_status_scheduled_at_idx` ON `admin_notifications`(`status`, `scheduled_at`);
+
+-- CreateIndex
+CREATE INDEX `notifications_broadcast_id_is_read_idx` ON `notifications`(`broadcast_id`, `is_read`);
+
+-- AddForeignKey
+ALTER TABLE `notifications` ADD CONSTRAINT `notifications_broadcast_id_fkey` FOREIGN KEY (`broadcast_id`) REFERENCES `admin_notifications`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
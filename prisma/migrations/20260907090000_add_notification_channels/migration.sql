@@ -0,0 +1,73 @@
+-- Notification events fan out to email, SMS and push per user preference.
+
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `locale` VARCHAR(10) NOT NULL DEFAULT 'en';
+
+-- CreateTable
+CREATE TABLE `notification_preferences` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `category` VARCHAR(30) NOT NULL,
+    `channel` VARCHAR(20) NOT NULL,
+    `enabled` BOOLEAN NOT NULL,
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `notification_preferences_user_id_category_channel_key`(`user_id`, `category`, `channel`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `push_devices` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `token` VARCHAR(255) NOT NULL,
+    `platform` VARCHAR(20) NOT NULL,
+    `device_name` VARCHAR(255) NULL,
+    `last_seen_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `push_devices_token_key`(`token`),
+    INDEX `push_devices_user_id_idx`(`user_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `notification_deliveries` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `user_id` INTEGER NOT NULL,
+    `notification_id` INTEGER NULL,
+    `event` VARCHAR(50) NOT NULL,
+    `category` VARCHAR(30) NOT NULL,
+    `channel` VARCHAR(20) NOT NULL,
+    `provider` VARCHAR(30) NOT NULL,
+    `locale` VARCHAR(10) NOT NULL,
+    `recipient` VARCHAR(255) NOT NULL,
+    `subject` VARCHAR(255) NULL,
+    `body` TEXT NOT NULL,
+    `html` LONGTEXT NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'pending',
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `next_attempt_at` DATETIME(3) NULL,
+    `last_error` TEXT NULL,
+    `provider_message_id` VARCHAR(255) NULL,
+    `sent_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `notification_deliveries_user_id_created_at_idx`(`user_id`, `created_at`),
+    INDEX `notification_deliveries_status_next_attempt_at_idx`(`status`, `next_attempt_at`),
+    INDEX `notification_deliveries_notification_id_idx`(`notification_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `notification_preferences` ADD CONSTRAINT `notification_preferences_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `push_devices` ADD CONSTRAINT `push_devices_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `notification_deliveries` ADD CONSTRAINT `notification_deliveries_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `notification_deliveries` ADD CONSTRAINT `notification_deliveries_notification_id_fkey` FOREIGN KEY (`notification_id`) REFERENCES `notifications`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- Referral program: Rhinox Pay IDs double as referral codes; referral reward rules pay out through user_rewards.
+
+-- AlterTable
+ALTER TABLE `user_rewards` ADD COLUMN `referral_id` INTEGER NULL;
+
+-- CreateTable
+CREATE TABLE `referrals` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `referrer_id` INTEGER NOT NULL,
+    `referee_id` INTEGER NOT NULL,
+    `code` VARCHAR(20) NOT NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'pending',
+    `signup_device_id` VARCHAR(128) NULL,
+    `signup_ip` VARCHAR(64) NULL,
+    `flags` JSON NULL,
+    `kyc_verified_at` DATETIME(3) NULL,
+    `first_transaction_id` INTEGER NULL,
+    `qualified_at` DATETIME(3) NULL,
+    `reviewed_by_id` INTEGER NULL,
+    `review_note` VARCHAR(500) NULL,
+    `reviewed_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `referrals_referee_id_key`(`referee_id`),
+    INDEX `referrals_referrer_id_status_idx`(`referrer_id`, `status`),
+    INDEX `referrals_status_idx`(`status`),
+    INDEX `referrals_created_at_idx`(`created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `user_rewards_referral_id_idx` ON `user_rewards`(`referral_id`);
+
+-- AddForeignKey
+ALTER TABLE `referrals` ADD CONSTRAINT `referrals_referrer_id_fkey` FOREIGN KEY (`referrer_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `referrals` ADD CONSTRAINT `referrals_referee_id_fkey` FOREIGN KEY (`referee_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `user_rewards` ADD CONSTRAINT `user_rewards_referral_id_fkey` FOREIGN KEY (`referral_id`) REFERENCES `referrals`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- P2P chat messages from Rhinox support (appeal rulings) have no user sender.
+
+-- DropForeignKey
+ALTER TABLE `p2p_chat_messages` DROP FOREIGN KEY `p2p_chat_messages_sender_id_fkey`;
+
+-- AlterTable
+ALTER TABLE `p2p_chat_messages` MODIFY `sender_id` INTEGER NULL;
+
+-- AddForeignKey
+ALTER TABLE `p2p_chat_messages` ADD CONSTRAINT `p2p_chat_messages_sender_id_fkey` FOREIGN KEY (`sender_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -654,6 +654,8 @@ async function main() {
       update: {
         rate: rateDecimal,
         inverseRate: inverseRateDecimal,
+        source: 'seed',
+        asOf: new Date(),
         isActive: true,
       },
       create: {
@@ -661,6 +663,8 @@ async function main() {
         toCurrency: rate.to,
         rate: rateDecimal,
         inverseRate: inverseRateDecimal,
+        source: 'seed',
+        asOf: new Date(),
         isActive: true,
       },
     });
@@ -0,0 +1,57 @@
+/**
+ * Fill deposit_addresses.normalized_address for rows that do not have it yet.
+ *
+ * The migration backfills existing rows in SQL; run this after deploying to catch
+ * rows written by instances still running the previous release.
+ *
+ * Usage:
+ *   npm run deposit-addresses:backfill
+ *   npm run deposit-addresses:backfill:dev
+ *   npm run deposit-addresses:backfill:dev -- --all   (recompute every row)
+ */
+import 'dotenv/config';
+import prisma from '../src/core/config/database.js';
+import { normalizeDepositAddress } from '../src/services/tatum/tatum-blockchain.util.js';
+
+const BATCH_SIZE = 1000;
+const recomputeAll = process.argv.slice(2).includes('--all');
+
+async function main() {
+  let lastId = 0;
+  let updated = 0;
+  let unchanged = 0;
+
+  for (;;) {
+    const rows = await prisma.depositAddress.findMany({
+      where: { id: { gt: lastId }, ...(recomputeAll ? {} : { normalizedAddress: null }) },
+      select: { id: true, address: true, normalizedAddress: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    });
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      const normalizedAddress = normalizeDepositAddress(row.address);
+      if (normalizedAddress === row.normalizedAddress) {
+        unchanged++;
+        continue;
+      }
+      await prisma.depositAddress.update({ where: { id: row.id }, data: { normalizedAddress } });
+      updated++;
+    }
+
+    lastId = rows[rows.length - 1].id;
+    console.log(`  ...up to id ${lastId}`);
+  }
+
+  console.log('\nDone.');
+  console.log(`  Updated: ${updated}`);
+  console.log(`  Unchanged: ${unchanged}`);
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
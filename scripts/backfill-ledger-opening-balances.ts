@@ -0,0 +1,69 @@
+/**
+ * Journal the current balance of every wallet as an opening ledger entry.
+ * Run once after the ledger migration; wallets that already have entries are skipped.
+ *
+ * Usage:
+ *   npm run ledger:backfill
+ *   npm run ledger:backfill:dev
+ *   npm run ledger:backfill:dev -- --wallet-id=42
+ */
+import 'dotenv/config';
+import prisma from '../src/core/config/database.js';
+import { recordOpeningBalance } from '../src/services/ledger/index.js';
+
+const args = process.argv.slice(2);
+const walletIdArg = args.find((a) => a.startsWith('--wallet-id='))?.split('=')[1];
+
+async function getTargetWalletIds(): Promise<number[]> {
+  if (walletIdArg) {
+    const id = parseInt(walletIdArg, 10);
+    if (isNaN(id)) {
+      throw new Error(`Invalid --wallet-id=${walletIdArg}`);
+    }
+    return [id];
+  }
+
+  const wallets = await prisma.wallet.findMany({
+    where: { ledgerAccount: null },
+    select: { id: true },
+    orderBy: { id: 'asc' },
+  });
+  return wallets.map((w) => w.id);
+}
+
+async function main() {
+  const walletIds = await getTargetWalletIds();
+  console.log(`Processing ${walletIds.length} wallet(s)...`);
+
+  let journaled = 0;
+  let skipped = 0;
+  let errors = 0;
+
+  for (const walletId of walletIds) {
+    try {
+      const result = await prisma.$transaction((tx) => recordOpeningBalance(tx, walletId));
+      if (result) {
+        journaled++;
+        console.log(
+          `OK wallet ${walletId}: opening balance ${result.balance.toString()}, locked ${result.lockedBalance.toString()}`
+        );
+      } else {
+        skipped++;
+      }
+    } catch (err: unknown) {
+      errors++;
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`FAIL wallet ${walletId}: ${msg}`);
+    }
+  }
+
+  console.log('\nDone.');
+  console.log(`  Journaled: ${journaled}`);
+  console.log(`  Skipped: ${skipped}`);
+  console.log(`  Errors: ${errors}`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
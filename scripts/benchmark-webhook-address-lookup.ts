@@ -0,0 +1,172 @@
+/**
+ * Benchmark Tatum address-webhook processing against a large seeded address set.
+ *
+ * Seeds a throwaway user + virtual account with N deposit addresses (EVM in mixed
+ * case and TRON-style base58), then measures:
+ *   - findDepositAddressByWebhookAddress for seeded addresses (must resolve to the right row)
+ *   - processBlockchainWebhook for unknown addresses (full webhook path, no ledger writes)
+ * The seeded rows are deleted afterwards unless --keep is passed.
+ *
+ * Never run against production: it writes to the database it is pointed at.
+ *
+ * Usage:
+ *   npm run benchmark:webhook-lookup:dev
+ *   npm run benchmark:webhook-lookup:dev -- --addresses=100000 --lookups=5000
+ *   npm run benchmark:webhook-lookup:dev -- --keep
+ *
+ * Flags:
+ *   --addresses=N   Deposit addresses to seed (default 50000)
+ *   --lookups=N     Lookups per scenario (default 2000)
+ *   --keep          Leave the seeded rows in place
+ */
+import 'dotenv/config';
+import { randomBytes } from 'crypto';
+import prisma from '../src/core/config/database.js';
+import {
+  findDepositAddressByWebhookAddress,
+  processBlockchainWebhook,
+} from '../src/jobs/tatum/process-webhook.job.js';
+import { normalizeDepositAddress } from '../src/services/tatum/tatum-blockchain.util.js';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const SEED_BATCH_SIZE = 5000;
+
+const args = process.argv.slice(2);
+const readArg = (name: string, fallback: number) => {
+  const value = args.find((a) => a.startsWith(`--${name}=`))?.split('=')[1];
+  const parsed = value ? parseInt(value, 10) : fallback;
+  if (isNaN(parsed) || parsed <= 0) {
+    throw new Error(`Invalid --${name}=${value}`);
+  }
+  return parsed;
+};
+const addressCount = readArg('addresses', 50_000);
+const lookupCount = readArg('lookups', 2000);
+const keep = args.includes('--keep');
+
+/** EVM address with random casing, like an EIP-55 checksummed address */
+function randomEvmAddress(): string {
+  const hex = randomBytes(20).toString('hex');
+  return `0x${[...hex].map((c) => (Math.random() < 0.5 ? c.toUpperCase() : c)).join('')}`;
+}
+
+function randomTronAddress(): string {
+  const bytes = randomBytes(33);
+  return `T${[...bytes].map((b) => BASE58_ALPHABET[b % BASE58_ALPHABET.length]).join('')}`;
+}
+
+function summarize(label: string, timingsMs: number[]) {
+  const sorted = [...timingsMs].sort((a, b) => a - b);
+  const pick = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+  const avg = sorted.reduce((sum, t) => sum + t, 0) / sorted.length;
+  console.log(
+    `${label}: n=${sorted.length} avg=${avg.toFixed(2)}ms p50=${pick(50).toFixed(2)}ms ` +
+      `p95=${pick(95).toFixed(2)}ms p99=${pick(99).toFixed(2)}ms max=${sorted[sorted.length - 1].toFixed(2)}ms`
+  );
+}
+
+async function seed(runId: string) {
+  const user = await prisma.user.create({
+    data: {
+      email: `webhook-benchmark-${runId}@benchmark.invalid`,
+      passwordHash: 'benchmark',
+      isActive: false,
+    },
+  });
+  const virtualAccount = await prisma.virtualAccount.create({
+    data: {
+      userId: user.id,
+      blockchain: 'ethereum',
+      currency: 'ETH',
+      accountId: `benchmark-${runId}`,
+    },
+  });
+
+  const seeded: { address: string; tron: boolean }[] = [];
+  for (let offset = 0; offset < addressCount; offset += SEED_BATCH_SIZE) {
+    const batch = Array.from({ length: Math.min(SEED_BATCH_SIZE, addressCount - offset) }, (_, i) => {
+      const tron = (offset + i) % 4 === 0;
+      return { address: tron ? randomTronAddress() : randomEvmAddress(), tron };
+    });
+    await prisma.depositAddress.createMany({
+      data: batch.map(({ address, tron }) => ({
+        virtualAccountId: virtualAccount.id,
+        blockchain: tron ? 'tron' : 'ethereum',
+        currency: tron ? 'TRX' : 'ETH',
+        address,
+        normalizedAddress: normalizeDepositAddress(address),
+        index: 0,
+      })),
+    });
+    seeded.push(...batch);
+    console.log(`  seeded ${seeded.length}/${addressCount}`);
+  }
+
+  return { userId: user.id, seeded };
+}
+
+async function main() {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Refusing to run the benchmark with NODE_ENV=production');
+  }
+
+  const runId = `${Date.now()}-${randomBytes(3).toString('hex')}`;
+  console.log(`Seeding ${addressCount} deposit addresses...`);
+  const seedStart = performance.now();
+  const { userId, seeded } = await seed(runId);
+  console.log(`Seeded in ${((performance.now() - seedStart) / 1000).toFixed(1)}s\n`);
+
+  try {
+    // Hits: webhooks arrive lowercased (EVM) or exactly as issued (TRON)
+    const hitTimings: number[] = [];
+    let mismatches = 0;
+    for (let i = 0; i < lookupCount; i++) {
+      const { address, tron } = seeded[Math.floor(Math.random() * seeded.length)];
+      const webhookAddress = tron ? address : address.toLowerCase();
+      const start = performance.now();
+      const record = await findDepositAddressByWebhookAddress(webhookAddress);
+      hitTimings.push(performance.now() - start);
+      if (record?.address !== address) mismatches++;
+    }
+    summarize('Lookup (seeded addresses)', hitTimings);
+    if (mismatches > 0) {
+      console.error(`  ${mismatches} lookups did not resolve to the seeded address`);
+      process.exitCode = 1;
+    }
+
+    // Misses through the full webhook path: ends at deposit_address_not_found, nothing is credited
+    const missTimings: number[] = [];
+    for (let i = 0; i < lookupCount; i++) {
+      const start = performance.now();
+      const result = await processBlockchainWebhook({
+        subscriptionType: 'INCOMING_NATIVE_TX',
+        address: i % 4 === 0 ? randomTronAddress() : randomEvmAddress(),
+        counterAddress: randomEvmAddress(),
+        txId: `benchmark-${runId}-${i}`,
+        amount: '0.01',
+        chain: 'ethereum-mainnet',
+      });
+      missTimings.push(performance.now() - start);
+      if (result.reason !== 'deposit_address_not_found') {
+        console.error(`  unexpected result for unknown address: ${JSON.stringify(result)}`);
+        process.exitCode = 1;
+      }
+    }
+    summarize('processBlockchainWebhook (unknown addresses)', missTimings);
+  } finally {
+    if (keep) {
+      console.log(`\n--keep: seeded rows left under user ${userId}`);
+    } else {
+      // Virtual account and deposit addresses cascade from the user
+      await prisma.user.delete({ where: { id: userId } });
+      console.log('\nSeeded rows removed.');
+    }
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
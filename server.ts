@@ -7,16 +7,24 @@ import cookieParser from 'cookie-parser';
 import swaggerUi from 'swagger-ui-express';
 import dotenv from 'dotenv';
 import { ModuleLoader } from './src/core/utils/module-loader.js';
-import { AuthModule, WalletModule, KYCModule, HomeModule, CountryModule, CryptoModule, BushaModule, DepositModule, ExchangeModule, ConversionModule, TransferModule, PaymentSettingsModule, P2PModule, P2POrderModule, P2PChatModule, P2PReviewModule, BankAccountModule, TransactionHistoryModule, BillPaymentModule, SupportChatModule, NotificationModule, RewardsModule, AdminModule } from './src/modules/index.js';
+import { AuthModule, WalletModule, KYCModule, HomeModule, CountryModule, CryptoModule, BushaModule, DepositModule, ExchangeModule, ConversionModule, TransferModule, PaymentSettingsModule, P2PModule, P2POrderModule, P2PChatModule, P2PReviewModule, P2PDisputeModule, BankAccountModule, TransactionHistoryModule, BillPaymentModule, SupportChatModule, NotificationModule, RewardsModule, FeesModule, ScheduledPaymentsModule, RealtimeModule, AdminModule } from './src/modules/index.js';
 import { authMiddleware } from './src/core/middleware/auth.middleware.js';
 import { adminAuthMiddleware } from './src/core/middleware/admin-auth.middleware.js';
 import { requirePermission } from './src/core/middleware/require-permission.middleware.js';
 import ApiError from './src/core/utils/ApiError.js';
 import { swaggerSpec } from './src/core/config/swagger.js';
-import { PalmPayWebhookService } from './src/services/palmpay/palmpay.webhook.service.js';
 import { FlutterwaveWebhookService } from './src/services/flutterwave/flutterwave.webhook.service.js';
 import { BushaAppService } from './src/services/busha/busha.app.service.js';
+import { WebhookInboxService } from './src/services/webhook-inbox/index.js';
 import { startBushaJobs } from './src/jobs/busha/start-busha-jobs.js';
+import { startReconciliationJob } from './src/jobs/reconciliation/start-reconciliation-job.js';
+import { startScheduledPaymentsJob } from './src/jobs/scheduled-payments/start-scheduled-payments-job.js';
+import { startWebhookInboxJob } from './src/jobs/webhook-inbox/start-webhook-inbox-job.js';
+import { startP2POrderSweeperJob } from './src/jobs/p2p-orders/start-p2p-order-sweeper-job.js';
+import { startBroadcastJob } from './src/jobs/broadcasts/start-broadcast-job.js';
+import { startNotificationDeliveryJob } from './src/jobs/notification-deliveries/start-notification-delivery-job.js';
+import { startReferralJob } from './src/jobs/referrals/start-referral-job.js';
+import { realtimeGateway } from './src/core/realtime/index.js';
 
 // Load environment variables
 dotenv.config();
@@ -249,8 +257,10 @@ app.get('/debug/uploads', (_, res) => {
 // ============================================
 // Swagger Documentation
 // ============================================
-// Trust proxy to detect HTTPS correctly (if behind reverse proxy)
-app.set('trust proxy', true);
+// Trust only the reverse proxies in front of the app (TRUST_PROXY: hop count, or
+// comma-separated proxy addresses/subnets) so clients cannot spoof req.ip with X-Forwarded-For
+const trustProxy = process.env.TRUST_PROXY?.trim() || '1';
+app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy.split(',').map((entry) => entry.trim()));
 
 // Custom Swagger UI setup with HTTPS support
 const swaggerUiOptions: swaggerUi.SwaggerUiOptions = {
@@ -378,6 +388,10 @@ moduleLoader.registerMany([
     // Public routes (view reviews) don't need auth - handled in module
     // Protected routes (create/update/delete review) require auth - handled in module
   },
+  {
+    module: new P2PDisputeModule(),
+    // Auth is applied per route in the module, ahead of evidence uploads
+  },
   {
     module: new BankAccountModule(),
     // Public route - no auth required
@@ -402,6 +416,18 @@ moduleLoader.registerMany([
     module: new RewardsModule(),
     middleware: [authMiddleware],
   },
+  {
+    module: new FeesModule(),
+    middleware: [authMiddleware],
+  },
+  {
+    module: new ScheduledPaymentsModule(),
+    middleware: [authMiddleware],
+  },
+  {
+    module: new RealtimeModule(),
+    middleware: [authMiddleware],
+  },
 ]);
 
 // Register exchange admin routes separately (require auth)
@@ -415,15 +441,18 @@ app.use('/api/crypto', cryptoModule.getPublicRouter());
 // Register webhook route separately (no auth)
 app.use('/api/crypto/webhooks', cryptoModule.getWebhookRouter());
 
+// Provider webhooks are stored in the webhook inbox, then processed with retries
+const webhookInboxService = new WebhookInboxService();
+const webhookContext = (req: express.Request) => ({
+  headers: req.headers,
+  ipAddress: req.ip || req.socket.remoteAddress,
+  userAgent: req.get('user-agent'),
+});
+
 // Register PalmPay webhook routes separately (no auth, PalmPay requires plain text success)
-const palmPayWebhookService = new PalmPayWebhookService();
 const handlePalmPayWebhook = async (req: express.Request, res: express.Response) => {
   try {
-    await palmPayWebhookService.handleWebhook(req.body, {
-      headers: req.headers,
-      ipAddress: req.ip || req.socket.remoteAddress,
-      userAgent: req.get('user-agent'),
-    });
+    await webhookInboxService.receiveAndProcess('palmpay', req.body, webhookContext(req));
   } catch (error) {
     console.error('[PalmPay Webhook] Failed to persist/process webhook:', error);
   }
@@ -442,16 +471,13 @@ app.post('/api/webhooks/flutterwave', async (req: express.Request, res: express.
       return res.status(401).json({ success: false, message: 'Invalid signature' });
     }
 
-    await flutterwaveWebhookService.handleWebhook(req.body, {
-      headers: req.headers,
-      ipAddress: req.ip || req.socket.remoteAddress,
-      userAgent: req.get('user-agent'),
-    });
+    await webhookInboxService.receiveAndProcess('flutterwave', req.body, webhookContext(req));
 
     return res.status(200).json({ success: true });
   } catch (error) {
-    console.error('[Flutterwave Webhook] Failed to process webhook:', error);
-    return res.status(200).json({ success: true });
+    // Only reached when the event could not be stored: ask Flutterwave to redeliver
+    console.error('[Flutterwave Webhook] Failed to persist webhook:', error);
+    return res.status(500).json({ success: false });
   }
 });
 
@@ -468,16 +494,12 @@ app.post('/api/webhooks/busha', async (req: express.Request, res: express.Respon
       return res.status(401).json({ success: false, message: 'Invalid signature' });
     }
 
-    const event = String(req.body?.event || '');
-    if (event.startsWith('customer')) {
-      await bushaAppService.handleCustomerWebhook(req.body);
-    } else {
-      await bushaAppService.handleTransferWebhook(req.body);
-    }
+    await webhookInboxService.receiveAndProcess('busha', req.body, webhookContext(req));
     return res.status(200).json({ success: true });
   } catch (error) {
-    console.error('[Busha Webhook] Failed to process webhook:', error);
-    return res.status(200).json({ success: true });
+    // Only reached when the event could not be stored: ask Busha to redeliver
+    console.error('[Busha Webhook] Failed to persist webhook:', error);
+    return res.status(500).json({ success: false });
   }
 });
 
@@ -521,4 +543,12 @@ app.listen(PORT, () => {
   console.log(`📦 Registered modules: ${moduleLoader.getAllModules().map(m => m.name).join(', ')}`);
   console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
   startBushaJobs();
+  startReconciliationJob();
+  startScheduledPaymentsJob();
+  startWebhookInboxJob();
+  startP2POrderSweeperJob();
+  startBroadcastJob();
+  startNotificationDeliveryJob();
+  startReferralJob();
+  realtimeGateway.start();
 });
\ No newline at end of file
@@ -10,6 +10,7 @@ export type AdminTokenPayload = {
   adminId: number;
   role: string;
   type?: string;
+  exp?: number;
 };
 
 export const generateAdminAccessToken = (adminId: number, role: string): string => {
@@ -25,7 +26,7 @@ export const verifyAdminToken = (token: string): AdminTokenPayload | null => {
     const decoded = jwt.verify(token, ADMIN_SECRET) as AdminTokenPayload & { type?: string };
     if (decoded.type === 'admin_refresh') return null;
     if (!decoded.adminId) return null;
-    return { adminId: Number(decoded.adminId), role: decoded.role, type: decoded.type };
+    return { adminId: Number(decoded.adminId), role: decoded.role, type: decoded.type, exp: decoded.exp };
   } catch {
     return null;
   }
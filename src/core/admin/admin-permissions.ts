@@ -12,10 +12,19 @@ const ROLE_PERMISSIONS: Record<AdminRole, string[]> = {
     'wallets.read',
     'exchange.read',
     'exchange.write',
+    'limits.read',
+    'limits.write',
     'p2p.read',
     'p2p.write',
     'master_wallet.read',
     'analytics.read',
+    'risk.read',
+    'risk.write',
+    'reviews.read',
+    'reviews.write',
+    'reconciliation.read',
+    'webhooks.read',
+    'webhooks.write',
     'rewards.read',
     'rewards.write',
     'support.read',
@@ -177,14 +177,18 @@ const options: swaggerJsdoc.Options = {
       { name: 'P2P - VENDOR (Ad Creation)', description: 'VENDOR ONLY: Create new P2P buy and sell ads' },
       { name: 'P2P - VENDOR (Order Management)', description: 'VENDOR ONLY: Manage orders received for your ads. Accept, decline, mark payment received. Routes: /api/p2p/vendor/orders/*' },
       { name: 'P2P - USER (Browse & Order)', description: 'USER: Browse ads to buy/sell, create orders, manage your orders. Routes: /api/p2p/user/*' },
+      { name: 'P2P - Block List', description: 'Users you do not trade with. Blocks hide ads and prevent orders in both directions. Routes: /api/p2p/blocks' },
       { name: 'P2P - PUBLIC', description: 'PUBLIC: Browse P2P ads without authentication. Routes: /api/p2p/ads/browse, /api/p2p/ads/:id' },
       { name: 'P2P Chat', description: 'Chat messages between buyer and vendor for orders' },
       { name: 'P2P Review', description: 'Reviews left by users after order completion' },
+      { name: 'P2P Dispute', description: 'Disputes on P2P orders, evidence and resolution progress' },
       { name: 'Bank Accounts', description: 'Public bank account information for deposits' },
       { name: 'Transaction History', description: 'Transaction history with chart data and filtering' },
       { name: 'Bill Payment', description: 'Bill payments (airtime, data, electricity, cable TV, betting, internet)' },
+      { name: 'Scheduled Payments', description: 'One-off future-dated and recurring transfers and bill payments' },
       { name: 'Support Chat', description: 'Support chat conversations between users and support agents' },
       { name: 'Notifications', description: 'User notifications for transactions, P2P, conversions, etc.' },
+      { name: 'Realtime', description: 'Server-Sent Events stream for chat, order status and notifications' },
       { name: 'Health', description: 'Health check endpoints' },
     ],
   },
@@ -5,6 +5,7 @@ import prisma from '../config/database.js';
 export interface AdminRequest extends Request {
   adminId?: number;
   adminRole?: string;
+  tokenExpiresAt?: Date;
   admin?: {
     id: number;
     email: string;
@@ -46,6 +47,7 @@ export const adminAuthMiddleware = async (req: AdminRequest, res: Response, next
     req.adminId = admin.id;
     req.adminRole = admin.role;
     req.admin = admin;
+    req.tokenExpiresAt = payload.exp ? new Date(payload.exp * 1000) : undefined;
     next();
   } catch (error) {
     next(error);
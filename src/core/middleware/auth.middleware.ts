@@ -93,6 +93,7 @@ const authenticateUser = async (
     req.body._user = isUser;
     (req as any).user = isUser;
     (req as any).userId = isUser.id;
+    (req as any).tokenExpiresAt = decoded.exp ? new Date(decoded.exp * 1000) : undefined;
 
     next();
   } catch (error) {
@@ -0,0 +1,153 @@
+import { createHash } from 'crypto';
+import { type Request, type Response, type NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import ApiError from '../utils/ApiError.js';
+import { prisma } from '../config/database.js';
+
+const HEADER = 'idempotency-key';
+const MAX_KEY_LENGTH = 255;
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+/** A processing row older than this belongs to a request that died without releasing it */
+const PROCESSING_LEASE_MS = 2 * 60 * 1000;
+
+/** JSON with sorted object keys so logically equal bodies hash the same. */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const hashRequest = (req: Request, path: string) => {
+  // _user is attached by the auth middleware, not sent by the client
+  const { _user, ...body } = (req.body || {}) as Record<string, unknown>;
+  return createHash('sha256')
+    .update(`${req.method}\n${path}\n${stableStringify(body)}`)
+    .digest('hex');
+};
+
+/**
+ * Idempotency Middleware
+ * Honors an optional `Idempotency-Key` header on money-moving POSTs.
+ * - First request: runs the handler and stores its response per user + key
+ * - Replay with the same body: returns the stored response (Idempotent-Replayed: true)
+ * - Replay with a different body, or while the first is still running: 409
+ * Must run after the auth middleware. 5xx responses are not stored so the client can retry,
+ * and neither are requests whose connection closed before the response was sent.
+ */
+const idempotency = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.get(HEADER)?.trim();
+  if (!key) {
+    next();
+    return;
+  }
+
+  try {
+    if (key.length > MAX_KEY_LENGTH) {
+      throw ApiError.badRequest(`Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`);
+    }
+
+    const userId = (req as any).userId || (req as any).user?.id;
+    if (!userId) {
+      throw ApiError.unauthorized('You are not logged in');
+    }
+
+    const path = req.originalUrl.split('?')[0];
+    const requestHash = hashRequest(req, path);
+
+    // Keys are only remembered for KEY_TTL_MS; a processing row past its lease is abandoned
+    const now = Date.now();
+    await prisma.idempotencyKey.deleteMany({
+      where: {
+        userId,
+        key,
+        OR: [
+          { expiresAt: { lte: new Date(now) } },
+          { status: 'processing', updatedAt: { lte: new Date(now - PROCESSING_LEASE_MS) } },
+        ],
+      },
+    });
+
+    let record;
+    try {
+      record = await prisma.idempotencyKey.create({
+        data: {
+          userId,
+          key,
+          method: req.method,
+          path,
+          requestHash,
+          expiresAt: new Date(Date.now() + KEY_TTL_MS),
+        },
+      });
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+
+      const existing = await prisma.idempotencyKey.findUnique({
+        where: { userId_key: { userId, key } },
+      });
+
+      if (!existing || existing.requestHash !== requestHash) {
+        throw ApiError.conflict('Idempotency-Key has already been used with a different request');
+      }
+
+      if (existing.status !== 'completed' || existing.responseStatus == null) {
+        throw ApiError.conflict('A request with this Idempotency-Key is still being processed');
+      }
+
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(existing.responseStatus).json(existing.responseBody);
+      return;
+    }
+
+    let responseBody: unknown;
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      return originalJson(body);
+    };
+
+    // 'close' also fires after 'finish'; only the first event settles the row
+    let settled = false;
+    const settle = () => {
+      if (settled) return;
+      settled = true;
+
+      const persist =
+        !res.writableFinished || res.statusCode >= 500
+          ? prisma.idempotencyKey.deleteMany({ where: { id: record.id } })
+          : prisma.idempotencyKey.update({
+              where: { id: record.id },
+              data: {
+                status: 'completed',
+                responseStatus: res.statusCode,
+                responseBody:
+                  responseBody === undefined ? Prisma.JsonNull : (responseBody as Prisma.InputJsonValue),
+              },
+            });
+      persist.catch((error: unknown) => console.error('[Idempotency] Failed to store response:', error));
+    };
+    res.on('finish', settle);
+    res.on('close', settle);
+
+    next();
+  } catch (error) {
+    if (error instanceof ApiError) {
+      next(error);
+      return;
+    }
+    console.error('[Idempotency] Unexpected error:', error);
+    next(ApiError.internal('Something went wrong'));
+  }
+};
+
+export default idempotency;
+export { idempotency as idempotencyMiddleware };
@@ -1,5 +1,7 @@
 import path from 'path';
+import type { NextFunction, Request, Response } from 'express';
 import multer from 'multer';
+import ApiError from '../utils/ApiError.js';
 
 /**
  * Multer Storage Configuration
@@ -58,3 +60,42 @@ export const uploadMultiple = (fieldName: string, maxCount?: number) =>
   upload.array(fieldName, maxCount);
 export const uploadFields = (fields: multer.Field[]) => upload.fields(fields);
 
+/**
+ * Single optional file restricted by MIME type, extension and size.
+ * `allowedTypes` maps each accepted MIME type to its accepted extensions.
+ * Rejections are passed on as 400 ApiErrors.
+ */
+export const uploadSingleRestricted = (
+  fieldName: string,
+  options: { allowedTypes: Record<string, string[]>; maxFileSize: number }
+) => {
+  const restricted = multer({
+    storage: storage,
+    limits: { fileSize: options.maxFileSize, files: 1 },
+    fileFilter: (req, file, cb) => {
+      const extensions = options.allowedTypes[file.mimetype];
+      const ext = path.extname(file.originalname).toLowerCase();
+      if (extensions?.includes(ext)) {
+        cb(null, true);
+      } else {
+        const allowed = [...new Set(Object.values(options.allowedTypes).flat())].join(', ');
+        cb(ApiError.badRequest(`Unsupported file type. Allowed: ${allowed}`));
+      }
+    },
+  }).single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    restricted(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        const limit =
+          options.maxFileSize >= 1024 * 1024
+            ? `${Math.floor(options.maxFileSize / (1024 * 1024))}MB`
+            : `${Math.floor(options.maxFileSize / 1024)}KB`;
+        const message = err.code === 'LIMIT_FILE_SIZE' ? `File must not exceed ${limit}` : err.message;
+        return next(ApiError.badRequest(message));
+      }
+      next(err);
+    });
+  };
+};
+
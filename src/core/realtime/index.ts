@@ -0,0 +1,3 @@
+export * from './realtime.bus.js';
+export * from './realtime.events.js';
+export * from './realtime.gateway.js';
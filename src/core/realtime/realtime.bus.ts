@@ -0,0 +1,68 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Who should receive an event. Admin events go to every connected admin holding
+ * `permission`, or only to `adminIds` when given.
+ */
+export type RealtimeAudience = {
+  userIds?: number[];
+  admins?: {
+    permission: string;
+    adminIds?: number[];
+  };
+};
+
+export interface RealtimeEvent {
+  type: string;
+  audience: RealtimeAudience;
+  data: Record<string, unknown>;
+  at: string;
+}
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+/**
+ * Carries events from the code that produces them to the gateway holding the
+ * client connections. Multi-node deployments plug in a bus backed by a shared
+ * broker so an event published on one node reaches connections on every node.
+ */
+export interface RealtimeBus {
+  publish(event: RealtimeEvent): void;
+  /** Returns an unsubscribe function */
+  subscribe(listener: RealtimeListener): () => void;
+}
+
+const EVENT_NAME = 'realtime';
+
+/**
+ * Single-node bus: producers and the gateway share this process
+ */
+export class InProcessRealtimeBus implements RealtimeBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: RealtimeEvent): void {
+    this.emitter.emit(EVENT_NAME, event);
+  }
+
+  subscribe(listener: RealtimeListener): () => void {
+    this.emitter.on(EVENT_NAME, listener);
+    return () => {
+      this.emitter.off(EVENT_NAME, listener);
+    };
+  }
+}
+
+let bus: RealtimeBus = new InProcessRealtimeBus();
+
+export function getRealtimeBus(): RealtimeBus {
+  return bus;
+}
+
+/** Swap the bus implementation. Call before the gateway starts. */
+export function setRealtimeBus(next: RealtimeBus): void {
+  bus = next;
+}
@@ -0,0 +1,115 @@
+import { getRealtimeBus, type RealtimeAudience } from './realtime.bus.js';
+
+export const RealtimeEventType = {
+  P2P_CHAT_MESSAGE: 'p2p.chat.message',
+  P2P_CHAT_READ: 'p2p.chat.read',
+  P2P_CHAT_TYPING: 'p2p.chat.typing',
+  P2P_ORDER_STATUS: 'p2p.order.status',
+  SUPPORT_MESSAGE: 'support.message',
+  SUPPORT_READ: 'support.read',
+  SUPPORT_TYPING: 'support.typing',
+  NOTIFICATION_CREATED: 'notification.created',
+} as const;
+
+export type RealtimeEventTypeValue = (typeof RealtimeEventType)[keyof typeof RealtimeEventType];
+
+const SUPPORT_PERMISSION = 'support.read';
+
+/** Fire-and-forget — never blocks or throws to callers */
+export function publishRealtime(
+  type: RealtimeEventTypeValue,
+  audience: RealtimeAudience,
+  data: Record<string, unknown>
+): void {
+  try {
+    getRealtimeBus().publish({ type, audience, data, at: new Date().toISOString() });
+  } catch (error) {
+    console.error(`[Realtime] Failed to publish ${type}:`, error);
+  }
+}
+
+/** Support events go to the assigned agent, or every support admin while unassigned */
+function supportAdmins(assignedTo?: number | null): RealtimeAudience['admins'] {
+  return { permission: SUPPORT_PERMISSION, adminIds: assignedTo ? [assignedTo] : undefined };
+}
+
+export function publishP2PChatMessage(message: {
+  id: number;
+  orderId: number;
+  senderId: number | null;
+  receiverId: number;
+  [key: string]: unknown;
+}): void {
+  publishRealtime(
+    RealtimeEventType.P2P_CHAT_MESSAGE,
+    { userIds: message.senderId ? [message.receiverId, message.senderId] : [message.receiverId] },
+    { orderId: message.orderId, message }
+  );
+}
+
+export function publishP2PChatRead(orderId: number, readerId: number, counterpartyId: number, readAt: Date): void {
+  publishRealtime(
+    RealtimeEventType.P2P_CHAT_READ,
+    { userIds: [counterpartyId] },
+    { orderId, readerId, readAt: readAt.toISOString() }
+  );
+}
+
+export function publishP2PChatTyping(orderId: number, userId: number, counterpartyId: number, isTyping: boolean): void {
+  publishRealtime(RealtimeEventType.P2P_CHAT_TYPING, { userIds: [counterpartyId] }, { orderId, userId, isTyping });
+}
+
+/** Order status transitions go to both sides of the order */
+export function publishP2POrderStatus(
+  order: { id: number; userId: number; vendorId: number; status: string },
+  previousStatus?: string | null
+): void {
+  publishRealtime(
+    RealtimeEventType.P2P_ORDER_STATUS,
+    { userIds: [order.userId, order.vendorId] },
+    { orderId: order.id, status: order.status, previousStatus: previousStatus ?? null }
+  );
+}
+
+export function publishSupportMessage(
+  chat: { id: number; userId: number; assignedTo?: number | null },
+  message: Record<string, unknown>
+): void {
+  publishRealtime(
+    RealtimeEventType.SUPPORT_MESSAGE,
+    { userIds: [chat.userId], admins: supportAdmins(chat.assignedTo) },
+    { chatId: chat.id, message }
+  );
+}
+
+/** The user has read the agent replies in a chat */
+export function publishSupportRead(
+  chat: { id: number; userId: number; assignedTo?: number | null },
+  readAt: Date
+): void {
+  publishRealtime(
+    RealtimeEventType.SUPPORT_READ,
+    { admins: supportAdmins(chat.assignedTo) },
+    { chatId: chat.id, readAt: readAt.toISOString() }
+  );
+}
+
+export function publishSupportTyping(
+  chat: { id: number; userId: number; assignedTo?: number | null },
+  fromSupport: boolean,
+  isTyping: boolean
+): void {
+  publishRealtime(
+    RealtimeEventType.SUPPORT_TYPING,
+    fromSupport ? { userIds: [chat.userId] } : { admins: supportAdmins(chat.assignedTo) },
+    { chatId: chat.id, fromSupport, isTyping }
+  );
+}
+
+export function publishNotification(notification: { id: number; userId: number; [key: string]: unknown }): void {
+  publishRealtime(
+    RealtimeEventType.NOTIFICATION_CREATED,
+    { userIds: [notification.userId] },
+    { notification }
+  );
+}
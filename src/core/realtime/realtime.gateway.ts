@@ -0,0 +1,185 @@
+import type { Request, Response } from 'express';
+import { hasPermission } from '../admin/admin-permissions.js';
+import { getRealtimeBus, type RealtimeEvent } from './realtime.bus.js';
+
+const HEARTBEAT_MS = 25_000;
+const CLIENT_RETRY_MS = 5000;
+const MAX_CONNECTIONS_PER_ACCOUNT = 5;
+// setTimeout fires immediately for delays above a signed 32-bit int
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+type AdminConnections = {
+  role: string;
+  connections: Set<Response>;
+};
+
+/**
+ * Realtime Gateway
+ * Holds the Server-Sent Events connections open on this node and writes each
+ * bus event to the connections of the users and admins it is addressed to.
+ * Events are not replayed: clients refetch over REST after reconnecting.
+ */
+export class RealtimeGateway {
+  private users = new Map<number, Set<Response>>();
+  private admins = new Map<number, AdminConnections>();
+  private unsubscribe: (() => void) | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    this.unsubscribe = getRealtimeBus().subscribe((event) => this.deliver(event));
+    this.heartbeat = setInterval(() => this.ping(), HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  connectUser(req: Request, res: Response, userId: number, expiresAt?: Date): void {
+    let connections = this.users.get(userId);
+    if (!connections) {
+      connections = new Set();
+      this.users.set(userId, connections);
+    }
+
+    this.open(req, res, connections, { kind: 'user', id: userId }, expiresAt, () => {
+      if (connections.size === 0) this.users.delete(userId);
+    });
+  }
+
+  connectAdmin(req: Request, res: Response, admin: { id: number; role: string }, expiresAt?: Date): void {
+    let entry = this.admins.get(admin.id);
+    if (!entry) {
+      entry = { role: admin.role, connections: new Set() };
+      this.admins.set(admin.id, entry);
+    }
+    entry.role = admin.role;
+
+    const connections = entry.connections;
+    this.open(req, res, connections, { kind: 'admin', id: admin.id }, expiresAt, () => {
+      if (connections.size === 0) this.admins.delete(admin.id);
+    });
+  }
+
+  getStats() {
+    let userConnections = 0;
+    for (const connections of this.users.values()) userConnections += connections.size;
+    let adminConnections = 0;
+    for (const entry of this.admins.values()) adminConnections += entry.connections.size;
+
+    return {
+      users: this.users.size,
+      userConnections,
+      admins: this.admins.size,
+      adminConnections,
+    };
+  }
+
+  private open(
+    req: Request,
+    res: Response,
+    connections: Set<Response>,
+    client: { kind: 'user' | 'admin'; id: number },
+    expiresAt: Date | undefined,
+    onEmpty: () => void
+  ): void {
+    if (connections.size >= MAX_CONNECTIONS_PER_ACCOUNT) {
+      res.status(429).json({ success: false, message: 'Too many open realtime connections' });
+      if (connections.size === 0) onEmpty();
+      return;
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Stop reverse proxies (nginx) from buffering the stream
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    req.socket.setKeepAlive(true);
+
+    connections.add(res);
+    this.write(res, `retry: ${CLIENT_RETRY_MS}\n\n`);
+    this.write(res, this.format('ready', { [client.kind === 'user' ? 'userId' : 'adminId']: client.id }));
+
+    // The token was only checked on connect: end the stream when it expires so the
+    // client reconnects (and re-authenticates) with a fresh one
+    const expiry = expiresAt
+      ? setTimeout(() => {
+          this.write(res, this.format('session.expired', {}));
+          res.end();
+          release();
+        }, Math.min(Math.max(expiresAt.getTime() - Date.now(), 0), MAX_TIMER_MS))
+      : null;
+    expiry?.unref();
+
+    const release = () => {
+      if (expiry) clearTimeout(expiry);
+      if (!connections.delete(res)) return;
+      if (connections.size === 0) onEmpty();
+    };
+    req.on('close', release);
+  }
+
+  private deliver(event: RealtimeEvent): void {
+    const chunk = this.format(event.type, { ...event.data, at: event.at });
+
+    for (const userId of new Set(event.audience.userIds ?? [])) {
+      for (const res of this.users.get(userId) ?? []) {
+        this.write(res, chunk);
+      }
+    }
+
+    const admins = event.audience.admins;
+    if (!admins) {
+      return;
+    }
+
+    const targeted = admins.adminIds?.length ? new Set(admins.adminIds) : null;
+    for (const [adminId, entry] of this.admins) {
+      if (targeted && !targeted.has(adminId)) continue;
+      if (!hasPermission(entry.role, admins.permission)) continue;
+      for (const res of entry.connections) {
+        this.write(res, chunk);
+      }
+    }
+  }
+
+  /** Comment line keeps idle connections from being closed by proxies */
+  private ping(): void {
+    for (const connections of this.users.values()) {
+      for (const res of connections) this.write(res, ': ping\n\n');
+    }
+    for (const entry of this.admins.values()) {
+      for (const res of entry.connections) this.write(res, ': ping\n\n');
+    }
+  }
+
+  private format(type: string, data: Record<string, unknown>): string {
+    return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+  }
+
+  private write(res: Response, chunk: string): void {
+    if (res.writableEnded) {
+      return;
+    }
+    try {
+      res.write(chunk);
+      // compression() buffers output until flushed
+      (res as any).flush?.();
+    } catch (error) {
+      console.error('[Realtime] Failed to write to connection:', error);
+    }
+  }
+}
+
+export const realtimeGateway = new RealtimeGateway();
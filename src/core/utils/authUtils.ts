@@ -7,7 +7,7 @@ import jwt from 'jsonwebtoken';
  * @note This function ONLY accepts access tokens (signed with JWT_SECRET)
  *       Refresh tokens should NOT be used for API authentication
  */
-export const verifyToken = async (token: string): Promise<{ id: string | number; userId?: string | number } | null> => {
+export const verifyToken = async (token: string): Promise<{ id: string | number; userId?: string | number; exp?: number } | null> => {
   // ONLY verify with JWT_SECRET (access tokens only)
   // Refresh tokens should NOT be accepted here for security
   const secret = process.env.ACCESS_TOKEN_SECRET || 'e97c25d5-90f8-4e3f-939c-b1ab2cac407d';
@@ -17,6 +17,7 @@ export const verifyToken = async (token: string): Promise<{ id: string | number;
       userId?: string | number;
       id?: string | number;
       type?: string; // Check if it's a refresh token (should be rejected)
+      purpose?: string; // Pending-login tokens (2FA, new device) carry a purpose
       iat?: number;
       exp?: number;
     };
@@ -41,6 +42,14 @@ export const verifyToken = async (token: string): Promise<{ id: string | number;
       return null;
     }
 
+    // Reject pending-login tokens: they only prove the password, not the second step
+    if (decoded.purpose) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('[verifyToken] Rejected: Token is a pending-login token');
+      }
+      return null;
+    }
+
     // Extract userId - it could be in userId or id field
     const userId = decoded.userId ?? decoded.id;
     
@@ -59,6 +68,7 @@ export const verifyToken = async (token: string): Promise<{ id: string | number;
     return {
       id: userId,
       userId: userId,
+      exp: decoded.exp,
     };
   } catch (error: any) {
     // Token is invalid or expired
@@ -42,9 +42,10 @@ const createTransporter = () => {
 };
 
 /**
- * Send email (exported for use in other services)
+ * Send email and report failures to the caller, for senders that retry.
+ * Returns the SMTP message id, or null when SMTP is not configured.
  */
-export const sendEmail = async (to: string, subject: string, html: string): Promise<void> => {
+export const deliverEmail = async (to: string, subject: string, html: string): Promise<string | null> => {
   const transporter = createTransporter();
   const fromEmail = process.env.FROM_EMAIL || process.env.SMTP_USER || 'noreply@rhinoxpay.com';
   const fromName = process.env.FROM_NAME || 'Rhinox Pay';
@@ -63,18 +64,26 @@ export const sendEmail = async (to: string, subject: string, html: string): Prom
     console.log('   - SMTP_PASS (your password/app password)');
     console.log('   - FROM_EMAIL (sender email)');
     console.log('---');
-    return;
+    return null;
   }
 
-  try {
-    const info = await transporter.sendMail({
-      from: `"${fromName}" <${fromEmail}>`,
-      to: to,
-      subject: subject,
-      html: html,
-    });
+  const info = await transporter.sendMail({
+    from: `"${fromName}" <${fromEmail}>`,
+    to: to,
+    subject: subject,
+    html: html,
+  });
 
-    console.log('📧 Email sent successfully:', info.messageId);
+  console.log('📧 Email sent successfully:', info.messageId);
+  return info.messageId ?? null;
+};
+
+/**
+ * Send email (exported for use in other services)
+ */
+export const sendEmail = async (to: string, subject: string, html: string): Promise<void> => {
+  try {
+    await deliverEmail(to, subject, html);
   } catch (error: any) {
     console.error('❌ Failed to send email:', error.message);
     // Don't throw - log error but don't break the flow
@@ -127,6 +136,24 @@ export const sendOTPEmail = async (
   await sendEmail(email, subject, message);
 };
 
+/**
+ * Email alerting the user that their transaction PIN was locked after repeated failures
+ */
+export const buildPinLockedEmail = (lockedUntil: Date): { subject: string; html: string } => {
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <h2 style="color: #333;">Transaction PIN Locked</h2>
+      <p>Your transaction PIN was entered incorrectly too many times and has been locked until <strong>${lockedUntil.toUTCString()}</strong>.</p>
+      <p>Payments, transfers and other actions that need your PIN are unavailable until then.</p>
+      <p style="color: #c0392b;">If these attempts were not made by you, change your password and contact support immediately.</p>
+      <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+      <p style="color: #999; font-size: 11px;">This is an automated message from Rhinox Pay. Please do not reply to this email.</p>
+    </div>
+  `;
+
+  return { subject: 'Transaction PIN Locked - Rhinox Pay', html };
+};
+
 /**
  * Generate 6-digit OTP code
  */
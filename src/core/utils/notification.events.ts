@@ -1,6 +1,7 @@
-import { NotificationService } from '../../modules/notification/notification.service.js';
+import { NotificationDispatchService } from '../../services/notification-channels/index.js';
+import { buildPinLockedEmail } from './email.service.js';
 
-const notificationService = new NotificationService();
+const dispatchService = new NotificationDispatchService();
 
 export const NotificationAction = {
   LOGIN: 'login',
@@ -9,6 +10,7 @@ export const NotificationAction = {
   LOGOUT: 'logout',
   PIN_SETUP: 'pin_setup',
   PIN_CHANGED: 'pin_changed',
+  PIN_LOCKED: 'pin_locked',
   PASSWORD_RESET: 'password_reset',
   CRYPTO_DEPOSIT: 'crypto_deposit',
   FIAT_DEPOSIT: 'fiat_deposit',
@@ -22,6 +24,14 @@ export const NotificationAction = {
   P2P_PAYMENT_CONFIRMED: 'p2p_payment_confirmed',
   P2P_ORDER_COMPLETED: 'p2p_order_completed',
   P2P_ORDER_CANCELLED: 'p2p_order_cancelled',
+  P2P_ORDER_EXPIRED: 'p2p_order_expired',
+  P2P_ORDER_DISPUTED: 'p2p_order_disputed',
+  P2P_DISPUTE_OPENED: 'p2p_dispute_opened',
+  P2P_DISPUTE_UPDATED: 'p2p_dispute_updated',
+  P2P_APPEAL_RESOLVED: 'p2p_appeal_resolved',
+  TRANSACTION_REVIEW: 'transaction_review',
+  SCHEDULED_PAYMENT: 'scheduled_payment',
+  REFERRAL: 'referral',
 } as const;
 
 type NotificationType = 'transaction' | 'p2p' | 'conversion' | 'general' | 'promotional';
@@ -38,25 +48,20 @@ export type NotifyPayload = {
   reference?: string;
   link?: string;
   metadata?: Record<string, unknown>;
+  /** Detailed email sent instead of the generic notification email */
+  email?: { subject: string; html: string };
 };
 
-/** Fire-and-forget — never blocks or throws to callers */
+/**
+ * Fire-and-forget — never blocks or throws to callers. Fans out to in-app, email,
+ * SMS and push per the user's notification preferences.
+ */
 export function notifyUser(payload: NotifyPayload): void {
   void (async () => {
     try {
-      await notificationService.createNotification(payload.userId, {
-        type: payload.type,
-        title: payload.title,
-        ...(payload.message !== undefined && { message: payload.message }),
-        status: payload.status ?? 'success',
-        ...(payload.amount !== undefined && { amount: payload.amount }),
-        ...(payload.currency !== undefined && { currency: payload.currency }),
-        ...(payload.reference !== undefined && { reference: payload.reference }),
-        ...(payload.link !== undefined && { link: payload.link }),
-        ...(payload.metadata !== undefined && { metadata: payload.metadata }),
-      });
+      await dispatchService.dispatch(payload);
     } catch (error) {
-      console.error('[notifyUser] Failed to create notification:', error);
+      console.error('[notifyUser] Failed to dispatch notification:', error);
     }
   })();
 }
@@ -120,6 +125,18 @@ export function notifyPinChanged(userId: number): void {
   });
 }
 
+export function notifyPinLocked(userId: number, lockedUntil: Date): void {
+  notifyUser({
+    userId,
+    type: 'general',
+    title: 'Transaction PIN locked',
+    message: `Too many incorrect PIN attempts. Your PIN is locked until ${lockedUntil.toUTCString()}.`,
+    status: 'warning',
+    metadata: { action: NotificationAction.PIN_LOCKED, lockedUntil: lockedUntil.toISOString() },
+    email: buildPinLockedEmail(lockedUntil),
+  });
+}
+
 export function notifyPasswordReset(userId: number): void {
   notifyUser({
     userId,
@@ -156,7 +173,13 @@ export function notifyCryptoDeposit(
 
 export function notifyFiatDeposit(
   userId: number,
-  data: { amount: string; currency: string; reference: string; creditedAmount?: string }
+  data: {
+    amount: string;
+    currency: string;
+    reference: string;
+    creditedAmount?: string;
+    email?: NotifyPayload['email'];
+  }
 ): void {
   notifyUser({
     userId,
@@ -171,6 +194,7 @@ export function notifyFiatDeposit(
     reference: data.reference,
     link: `/transactions/${data.reference}`,
     metadata: { action: NotificationAction.FIAT_DEPOSIT, channel: 'fiat' },
+    ...(data.email && { email: data.email }),
   });
 }
 
@@ -267,6 +291,7 @@ export function notifyConversion(
     toAmount: string;
     toCurrency: string;
     reference: string;
+    email?: NotifyPayload['email'];
   }
 ): void {
   notifyUser({
@@ -284,6 +309,7 @@ export function notifyConversion(
       fromAmount: data.fromAmount,
       fromCurrency: data.fromCurrency,
     },
+    ...(data.email && { email: data.email }),
   });
 }
 
@@ -325,6 +351,104 @@ export function notifyBillPayment(
   });
 }
 
+export function notifyTransactionReview(
+  userId: number,
+  data: {
+    decision: 'held' | 'approved' | 'rejected';
+    amount: string;
+    currency: string;
+    reference?: string;
+    reason?: string;
+  }
+): void {
+  const titles = {
+    held: 'Transaction under review',
+    approved: 'Transaction approved',
+    rejected: 'Transaction rejected',
+  };
+  const messages = {
+    held: `Your transaction of ${data.amount} ${data.currency} is being reviewed. We'll notify you once it's done.`,
+    approved: `Your transaction of ${data.amount} ${data.currency} was approved.`,
+    rejected: `Your transaction of ${data.amount} ${data.currency} was rejected and any held funds were returned to your wallet.${data.reason ? ` Reason: ${data.reason}` : ''}`,
+  };
+
+  notifyUser({
+    userId,
+    type: 'transaction',
+    title: titles[data.decision],
+    message: messages[data.decision],
+    status: data.decision === 'approved' ? 'success' : data.decision === 'rejected' ? 'error' : 'info',
+    amount: data.amount,
+    currency: data.currency,
+    ...(data.reference && { reference: data.reference, link: `/transactions/${data.reference}` }),
+    metadata: { action: NotificationAction.TRANSACTION_REVIEW, decision: data.decision },
+  });
+}
+
+export function notifyScheduledPayment(
+  userId: number,
+  data: {
+    event: 'reminder' | 'skipped' | 'failed';
+    amount: string;
+    currency: string;
+    scheduledFor: Date;
+    description?: string | null;
+    reason?: string;
+  }
+): void {
+  const label = data.description ? ` (${data.description})` : '';
+  const titles = {
+    reminder: 'Upcoming scheduled payment',
+    skipped: 'Scheduled payment skipped',
+    failed: 'Scheduled payment failed',
+  };
+  const messages = {
+    reminder: `Your scheduled payment of ${data.amount} ${data.currency}${label} will run on ${data.scheduledFor.toUTCString()}. Make sure your wallet is funded.`,
+    skipped: `Your scheduled payment of ${data.amount} ${data.currency}${label} was skipped because your wallet balance was too low.`,
+    failed: `Your scheduled payment of ${data.amount} ${data.currency}${label} could not be completed.${data.reason ? ` Reason: ${data.reason}` : ''}`,
+  };
+
+  notifyUser({
+    userId,
+    type: 'transaction',
+    title: titles[data.event],
+    message: messages[data.event],
+    status: data.event === 'reminder' ? 'info' : data.event === 'skipped' ? 'warning' : 'error',
+    amount: data.amount,
+    currency: data.currency,
+    metadata: {
+      action: NotificationAction.SCHEDULED_PAYMENT,
+      event: data.event,
+      scheduledFor: data.scheduledFor.toISOString(),
+    },
+  });
+}
+
+export function notifyReferral(userId: number, data: { event: 'qualified' | 'bonus'; refereeName?: string }): void {
+  const titles = {
+    qualified: 'Referral completed',
+    bonus: 'Referral bonus unlocked',
+  };
+  const messages = {
+    qualified: `${data.refereeName || 'Your friend'} verified their identity and made their first transaction. Check Rewards for your referral reward.`,
+    bonus: 'You made your first transaction after joining with a referral code. Check Rewards for your bonus.',
+  };
+
+  notifyUser({
+    userId,
+    type: 'promotional',
+    title: titles[data.event],
+    message: messages[data.event],
+    status: 'success',
+    link: '/rewards',
+    metadata: {
+      action: NotificationAction.REFERRAL,
+      event: data.event,
+      ...(data.refereeName && { refereeName: data.refereeName }),
+    },
+  });
+}
+
 export function notifyP2P(
   userId: number,
   data: {
@@ -66,10 +66,9 @@ export const sendDepositInitiatedEmail = async (
 };
 
 /**
- * Send deposit success email
+ * Deposit success email, sent with the deposit notification (notifyFiatDeposit, notifyConversion)
  */
-export const sendDepositSuccessEmail = async (
-  email: string,
+export const buildDepositSuccessEmail = (
   data: {
     amount: string;
     currency: string;
@@ -83,7 +82,7 @@ export const sendDepositSuccessEmail = async (
     provider?: string | null;
     date: string;
   }
-): Promise<void> => {
+): { subject: string; html: string } => {
   const subject = `Deposit Successful - ${data.amount} ${data.currency}`;
   
   const providerSection = data.provider ? `<p><strong>Provider:</strong> ${data.provider}</p>` : '';
@@ -113,6 +112,6 @@ export const sendDepositSuccessEmail = async (
     </div>
   `;
 
-  await sendEmail(email, subject, message);
+  return { subject, html: message };
 };
 
@@ -1,5 +1,10 @@
 import bcrypt from 'bcryptjs';
 import { prisma } from '../config/database.js';
+import { ThrottleService } from '../../services/throttle/index.js';
+import { notifyPinLocked } from './notification.events.js';
+import { verifyTwoFactorCode } from './two-factor.service.js';
+
+const throttleService = new ThrottleService();
 
 export interface TransactionSecurityUser {
   id: number;
@@ -12,6 +17,26 @@ export interface TransactionSecurityUser {
 export interface TransactionSecurityInput {
   pin?: string;
   emailOtp?: string;
+  totpCode?: string;
+}
+
+/** Throws TooManyAttemptsError while the user's PIN is locked */
+export async function assertPinNotLocked(userId: number): Promise<void> {
+  await throttleService.assertAllowed('pin', { account: userId });
+}
+
+/**
+ * Count a wrong PIN. When this locks the PIN the user is alerted on their security channels.
+ */
+export async function recordPinFailure(userId: number): Promise<void> {
+  const [lockout] = await throttleService.recordFailure('pin', { account: userId });
+  if (lockout) {
+    notifyPinLocked(userId, lockout.lockedUntil);
+  }
+}
+
+export async function recordPinSuccess(userId: number): Promise<void> {
+  await throttleService.recordSuccess('pin', { account: userId });
 }
 
 export async function assertTransactionSecurity(
@@ -19,7 +44,17 @@ export async function assertTransactionSecurity(
   input: TransactionSecurityInput
 ): Promise<void> {
   if (user.verifyTransactionsWith2FA) {
-    throw new Error('Two-factor authentication for transactions is coming soon');
+    if (!input.totpCode) {
+      throw new Error('Two-factor authentication code is required');
+    }
+
+    await throttleService.assertAllowed('two_factor', { account: user.id });
+    const isValidCode = await verifyTwoFactorCode(user.id, input.totpCode);
+    if (!isValidCode) {
+      await throttleService.recordFailure('two_factor', { account: user.id });
+      throw new Error('Invalid two-factor authentication code');
+    }
+    await throttleService.recordSuccess('two_factor', { account: user.id });
   }
 
   if (user.verifyTransactionsWithPin) {
@@ -31,10 +66,13 @@ export async function assertTransactionSecurity(
       throw new Error('PIN is required');
     }
 
+    await assertPinNotLocked(user.id);
     const isValidPin = await bcrypt.compare(input.pin, user.pinHash);
     if (!isValidPin) {
+      await recordPinFailure(user.id);
       throw new Error('Invalid PIN');
     }
+    await recordPinSuccess(user.id);
   }
 
   if (user.verifyTransactionsWithEmail) {
@@ -42,6 +80,7 @@ export async function assertTransactionSecurity(
       throw new Error('Email OTP is required');
     }
 
+    await throttleService.assertAllowed('transaction_otp', { account: user.id });
     const otpRecord = await prisma.oTP.findFirst({
       where: {
         userId: user.id,
@@ -58,8 +97,10 @@ export async function assertTransactionSecurity(
     });
 
     if (!otpRecord) {
+      await throttleService.recordFailure('transaction_otp', { account: user.id });
       throw new Error('Invalid or expired email OTP');
     }
+    await throttleService.recordSuccess('transaction_otp', { account: user.id });
 
     await prisma.oTP.update({
       where: { id: otpRecord.id },
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database.js';
+import { decryptPrivateKey } from './encryption.js';
+import { verifyTotp } from './totp.js';
+
+const BACKUP_CODE_COUNT = 10;
+const BACKUP_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Backup codes are high-entropy, so a plain SHA-256 is enough and lets us look them up directly
+ */
+function hashBackupCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeBackupCode(code)).digest('hex');
+}
+
+function normalizeBackupCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function generateBackupCode(): string {
+  const bytes = crypto.randomBytes(10);
+  let code = '';
+  for (const byte of bytes) {
+    code += BACKUP_CODE_ALPHABET[byte % BACKUP_CODE_ALPHABET.length];
+  }
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+/**
+ * Replace a user's backup codes with a fresh set. Returns the plaintext codes (shown once).
+ */
+export async function regenerateBackupCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, generateBackupCode);
+
+  await prisma.$transaction([
+    prisma.twoFactorBackupCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorBackupCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashBackupCode(code) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+export async function countRemainingBackupCodes(userId: number): Promise<number> {
+  return prisma.twoFactorBackupCode.count({ where: { userId, usedAt: null } });
+}
+
+/**
+ * Verify a 6-digit TOTP code or a one-time backup code for a user with 2FA enabled.
+ * A TOTP time step is only accepted once; backup codes are burned on use.
+ */
+export async function verifyTwoFactorCode(userId: number, code: string | undefined): Promise<boolean> {
+  if (!code) {
+    return false;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, twoFactorSecret: true, twoFactorLastUsedStep: true },
+  });
+  if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+    return false;
+  }
+
+  const trimmed = code.trim();
+  if (/^\d{6}$/.test(trimmed)) {
+    const step = verifyTotp(decryptPrivateKey(user.twoFactorSecret), trimmed);
+    if (step === null || (user.twoFactorLastUsedStep !== null && step <= user.twoFactorLastUsedStep)) {
+      return false;
+    }
+
+    // Conditional update so two concurrent requests cannot both use the same step
+    const updated = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+      },
+      data: { twoFactorLastUsedStep: step },
+    });
+    return updated.count === 1;
+  }
+
+  const consumed = await prisma.twoFactorBackupCode.updateMany({
+    where: { userId, codeHash: hashBackupCode(trimmed), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return consumed.count === 1;
+}
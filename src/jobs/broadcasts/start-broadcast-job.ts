@@ -0,0 +1,31 @@
+import { BroadcastService } from '../../services/broadcast/index.js';
+
+let started = false;
+let running = false;
+
+export function startBroadcastJob() {
+  if (started || process.env.BROADCASTS_ENABLED === 'false') return;
+  started = true;
+  const service = new BroadcastService();
+  const pollMs = Number(process.env.BROADCASTS_POLL_MS || 30_000);
+
+  setInterval(() => {
+    if (running) return;
+    running = true;
+    service
+      .processDue()
+      .then((result) => {
+        if (result.delivered > 0 || result.completed > 0 || result.failed > 0) {
+          console.log(
+            `[Broadcasts] delivered ${result.delivered} notifications, ${result.completed} broadcasts completed, ${result.failed} failed`
+          );
+        }
+      })
+      .catch((error) => console.error('[Broadcasts]', error))
+      .finally(() => {
+        running = false;
+      });
+  }, pollMs);
+
+  console.log(`Broadcast job started poll=${pollMs}ms batchSize=${service.getBatchSize()}`);
+}
@@ -0,0 +1,31 @@
+import { NotificationDispatchService } from '../../services/notification-channels/index.js';
+
+let started = false;
+let running = false;
+
+export function startNotificationDeliveryJob() {
+  if (started || process.env.NOTIFICATION_DELIVERY_ENABLED === 'false') return;
+  started = true;
+  const service = new NotificationDispatchService();
+  const pollMs = Number(process.env.NOTIFICATION_DELIVERY_POLL_MS || 30_000);
+
+  setInterval(() => {
+    if (running) return;
+    running = true;
+    service
+      .processDue()
+      .then((result) => {
+        if (result.picked > 0) {
+          console.log(
+            `[Notification deliveries] retried ${result.picked} deliveries: ${result.sent} sent, ${result.failed} failed`
+          );
+        }
+      })
+      .catch((error) => console.error('[Notification deliveries]', error))
+      .finally(() => {
+        running = false;
+      });
+  }, pollMs);
+
+  console.log(`Notification delivery job started poll=${pollMs}ms maxAttempts=${service.getMaxAttempts()}`);
+}
@@ -0,0 +1,34 @@
+import { P2POrderService } from '../../modules/p2p-order/p2p-order.service.js';
+
+let started = false;
+let running = false;
+
+export function startP2POrderSweeperJob() {
+  if (started || process.env.P2P_ORDER_SWEEPER_ENABLED === 'false') return;
+  started = true;
+  const service = new P2POrderService();
+  const pollMs = Number(process.env.P2P_ORDER_SWEEPER_POLL_MS || 60_000);
+
+  setInterval(() => {
+    if (running) return;
+    running = true;
+    service
+      .sweepOrders()
+      .then((result) => {
+        if (result.expired > 0 || result.escalated > 0 || result.failed > 0) {
+          console.log(
+            `[P2P sweeper] expired ${result.expired}, escalated ${result.escalated} to dispute, ${result.failed} failed`
+          );
+        }
+      })
+      .catch((error) => console.error('[P2P sweeper]', error))
+      .finally(() => {
+        running = false;
+      });
+  }, pollMs);
+
+  console.log(
+    `P2P order sweeper started poll=${pollMs}ms pendingTimeout=${service.getPendingTimeoutMinutes()}m ` +
+      `escalateAfter=${service.getDisputeEscalationMinutes()}m`
+  );
+}
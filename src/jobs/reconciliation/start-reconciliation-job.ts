@@ -0,0 +1,39 @@
+import { ReconciliationService } from '../../services/reconciliation/reconciliation.service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let started = false;
+
+/** Milliseconds until the next occurrence of `hour`:00 server time. */
+function msUntilHour(hour: number): number {
+  const now = new Date();
+  const next = new Date(now);
+  next.setHours(hour, 0, 0, 0);
+  if (next <= now) next.setTime(next.getTime() + DAY_MS);
+  return next.getTime() - now.getTime();
+}
+
+export function startReconciliationJob() {
+  if (started || process.env.RECONCILIATION_ENABLED === 'false') return;
+  started = true;
+  const service = new ReconciliationService();
+  const hour = Number(process.env.RECONCILIATION_HOUR || 2);
+
+  const run = () => {
+    service
+      .run('schedule')
+      .then((result) =>
+        console.log(
+          `[Reconciliation] run #${result.id} checked ${result.walletsChecked} wallets, ${result.mismatchCount} mismatches`
+        )
+      )
+      .catch((error) => console.error('[Reconciliation]', error));
+  };
+
+  setTimeout(() => {
+    run();
+    setInterval(run, DAY_MS);
+  }, msUntilHour(hour));
+
+  console.log(`Reconciliation job scheduled daily at ${String(hour).padStart(2, '0')}:00`);
+}
@@ -0,0 +1,31 @@
+import { ReferralService } from '../../modules/rewards/referral.service.js';
+
+let started = false;
+let running = false;
+
+export function startReferralJob() {
+  if (started || process.env.REFERRALS_ENABLED === 'false') return;
+  started = true;
+  const service = new ReferralService();
+  const pollMs = Number(process.env.REFERRALS_POLL_MS || 60_000);
+
+  setInterval(() => {
+    if (running) return;
+    running = true;
+    service
+      .processPending()
+      .then((result) => {
+        if (result.expired > 0 || result.qualified > 0 || result.flagged > 0) {
+          console.log(
+            `[Referrals] ${result.qualified} qualified, ${result.flagged} flagged for review, ${result.expired} expired`
+          );
+        }
+      })
+      .catch((error) => console.error('[Referrals]', error))
+      .finally(() => {
+        running = false;
+      });
+  }, pollMs);
+
+  console.log(`Referral job started poll=${pollMs}ms qualifyDays=${service.getQualifyDays()}`);
+}
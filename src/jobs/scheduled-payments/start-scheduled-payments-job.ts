@@ -0,0 +1,29 @@
+import { ScheduledPaymentsService } from '../../modules/scheduled-payments/scheduled-payments.service.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let started = false;
+let running = false;
+
+export function startScheduledPaymentsJob() {
+  if (started || process.env.SCHEDULED_PAYMENTS_ENABLED === 'false') return;
+  started = true;
+  const service = new ScheduledPaymentsService();
+  const pollMs = Number(process.env.SCHEDULED_PAYMENTS_POLL_MS || 60_000);
+  const reminderMs = Number(process.env.SCHEDULED_PAYMENT_REMINDER_HOURS || 12) * HOUR_MS;
+
+  setInterval(() => {
+    // Skip the tick while the previous one is still paying out
+    if (running) return;
+    running = true;
+    service
+      .sendReminders(reminderMs)
+      .then(() => service.runDue())
+      .catch((error) => console.error('[Scheduled payments]', error))
+      .finally(() => {
+        running = false;
+      });
+  }, pollMs);
+
+  console.log(`Scheduled payments job started poll=${pollMs}ms reminder=${reminderMs / HOUR_MS}h`);
+}
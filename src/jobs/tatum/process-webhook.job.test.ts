@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { findDepositAddressByWebhookAddress } from './process-webhook.job.js';
+import { normalizeDepositAddress } from '../../services/tatum/tatum-blockchain.util.js';
+
+type DepositAddressRow = {
+  id: number;
+  virtualAccountId: number;
+  address: string;
+  normalizedAddress: string | null;
+};
+
+const { rows, findFirst, findMany } = vi.hoisted(() => {
+  const rows: DepositAddressRow[] = [];
+  const findFirst = vi.fn(async (args: { where: { normalizedAddress: string } }) => {
+    const matches = rows
+      .filter((row) => row.normalizedAddress === args.where.normalizedAddress)
+      .sort((a, b) => a.id - b.id);
+    return matches[0] ? { ...matches[0], virtualAccount: { id: matches[0].virtualAccountId } } : null;
+  });
+  return { rows, findFirst, findMany: vi.fn() };
+});
+
+vi.mock('../../core/config/database.js', () => {
+  const prisma = { depositAddress: { findFirst, findMany } };
+  return { default: prisma, prisma };
+});
+
+vi.mock('../../core/utils/notification.events.js', () => ({
+  notifyCryptoDeposit: vi.fn(),
+}));
+
+/** Store a row the way the address writers do */
+function seed(id: number, virtualAccountId: number, address: string) {
+  rows.push({ id, virtualAccountId, address, normalizedAddress: normalizeDepositAddress(address) });
+}
+
+describe('findDepositAddressByWebhookAddress', () => {
+  beforeEach(() => {
+    rows.length = 0;
+    findFirst.mockClear();
+    findMany.mockClear();
+  });
+
+  it('resolves mixed-case and checksummed EVM addresses to the same virtual account', async () => {
+    const checksummed = '0x52908400098527886E0F7030069857D2E4169EE7';
+    seed(1, 10, checksummed);
+    seed(2, 20, '0xde709f2102306220921060314715629080e2fb77');
+
+    const variants = [
+      checksummed,
+      checksummed.toLowerCase(),
+      '0x52908400098527886e0F7030069857d2E4169Ee7',
+      `  ${checksummed}  `,
+    ];
+
+    for (const variant of variants) {
+      const found = await findDepositAddressByWebhookAddress(variant);
+      expect(found?.virtualAccount.id).toBe(10);
+    }
+  });
+
+  it('keeps non-EVM addresses case-sensitive', async () => {
+    seed(1, 10, 'TJRabPrwbZy45sbavfcjinPJC18kjpRTv8');
+
+    expect((await findDepositAddressByWebhookAddress('TJRabPrwbZy45sbavfcjinPJC18kjpRTv8'))?.virtualAccount.id).toBe(10);
+    expect(await findDepositAddressByWebhookAddress('tjrabprwbzy45sbavfcjinpjc18kjprtv8')).toBeNull();
+  });
+
+  it('returns the oldest row when an address backs several virtual accounts', async () => {
+    seed(7, 70, '0xAbC0000000000000000000000000000000000001');
+    seed(3, 30, '0xabc0000000000000000000000000000000000001');
+
+    const found = await findDepositAddressByWebhookAddress('0xABC0000000000000000000000000000000000001');
+    expect(found?.virtualAccount.id).toBe(30);
+  });
+
+  it('does a single indexed lookup instead of scanning every address', async () => {
+    for (let i = 1; i <= 1000; i++) {
+      seed(i, i, `0x${i.toString(16).padStart(40, 'A')}`);
+    }
+
+    const found = await findDepositAddressByWebhookAddress(`0x${(500).toString(16).padStart(40, 'a')}`);
+
+    expect(found?.virtualAccount.id).toBe(500);
+    expect(findFirst).toHaveBeenCalledTimes(1);
+    expect(findFirst.mock.calls[0][0].where).toEqual({
+      normalizedAddress: `0x${(500).toString(16).padStart(40, 'a')}`,
+    });
+    expect(findMany).not.toHaveBeenCalled();
+  });
+
+  it('ignores blank addresses without querying', async () => {
+    expect(await findDepositAddressByWebhookAddress('   ')).toBeNull();
+    expect(findFirst).not.toHaveBeenCalled();
+  });
+});
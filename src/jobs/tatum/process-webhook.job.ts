@@ -3,6 +3,7 @@ import { Decimal } from 'decimal.js';
 import prisma from '../../core/config/database.js';
 import {
   normalizeBlockchain,
+  normalizeDepositAddress,
   tokenContractMatches,
 } from '../../services/tatum/tatum-blockchain.util.js';
 import { notifyCryptoDeposit } from '../../core/utils/notification.events.js';
@@ -12,30 +13,23 @@ export type WebhookProcessResult = {
   reason?: string;
 };
 
-function normalizeAddress(addr: string | null | undefined): string | null {
-  if (!addr) return null;
-  const trimmed = addr.trim();
-  if (trimmed.startsWith('0x')) {
-    return trimmed.toLowerCase();
-  }
-  return trimmed;
-}
-
-async function findDepositAddressByWebhookAddress(webhookAddr: string) {
-  const normalized = normalizeAddress(webhookAddr);
+/**
+ * Single indexed lookup on deposit_addresses.normalized_address.
+ * The same address can back several virtual accounts on one chain; the oldest row wins.
+ */
+export async function findDepositAddressByWebhookAddress(webhookAddr: string) {
+  const normalized = normalizeDepositAddress(webhookAddr);
   if (!normalized) return null;
 
-  const candidates = await prisma.depositAddress.findMany({
+  return prisma.depositAddress.findFirst({
+    where: { normalizedAddress: normalized },
     include: {
       virtualAccount: {
         include: { walletCurrency: true },
       },
     },
+    orderBy: { id: 'asc' },
   });
-
-  return (
-    candidates.find((da) => normalizeAddress(da.address) === normalized) ?? null
-  );
 }
 
 async function resolveWalletCurrencyForToken(
@@ -59,6 +53,53 @@ async function resolveWalletCurrencyForToken(
   );
 }
 
+/**
+ * Webhook inbox handler for Tatum: credit the deposit, then record it in
+ * webhook_responses (the txId record is what makes later deliveries duplicates).
+ */
+export async function handleTatumWebhook(
+  webhookData: Record<string, unknown>
+): Promise<WebhookProcessResult> {
+  const result = await processBlockchainWebhook(webhookData);
+  if (!result.processed) {
+    return result;
+  }
+
+  await prisma.webhookResponse.create({
+    data: {
+      accountId: webhookData.accountId ? String(webhookData.accountId) : null,
+      subscriptionType: webhookData.subscriptionType
+        ? String(webhookData.subscriptionType)
+        : null,
+      amount: webhookData.amount ? new Decimal(String(webhookData.amount)) : null,
+      reference: webhookData.reference ? String(webhookData.reference) : null,
+      currency: webhookData.currency ? String(webhookData.currency) : null,
+      txId: webhookData.txId ? String(webhookData.txId) : null,
+      blockHeight: webhookData.blockHeight
+        ? BigInt(String(webhookData.blockHeight))
+        : null,
+      blockHash: webhookData.blockHash ? String(webhookData.blockHash) : null,
+      fromAddress:
+        (webhookData.from as string) ||
+        (webhookData.counterAddress as string) ||
+        null,
+      toAddress:
+        (webhookData.to as string) || (webhookData.address as string) || null,
+      contractAddress: webhookData.contractAddress
+        ? String(webhookData.contractAddress)
+        : null,
+      transactionDate: webhookData.timestamp
+        ? new Date(Number(webhookData.timestamp) * 1000)
+        : null,
+    },
+  }).catch((err) => {
+    // The deposit is already credited; a retry must not credit it again
+    console.error('[Tatum webhook] Failed to record webhook response:', err);
+  });
+
+  return result;
+}
+
 /**
  * Process inbound Tatum v4 address webhooks and credit virtual_accounts.
  */
@@ -77,7 +118,7 @@ export async function processBlockchainWebhook(
       where: { address: { not: null } },
     });
     const isMasterDeposit = masterWallets.some(
-      (mw) => normalizeAddress(mw.address) === normalizeAddress(webhookAddress)
+      (mw) => normalizeDepositAddress(mw.address) === normalizeDepositAddress(webhookAddress)
     );
     if (isMasterDeposit) {
       return { processed: false, reason: 'master_wallet' };
@@ -137,7 +178,7 @@ export async function processBlockchainWebhook(
       where: { address: { not: null } },
     });
     const fromMaster = masterWallets.some(
-      (mw) => normalizeAddress(mw.address) === normalizeAddress(counterAddress)
+      (mw) => normalizeDepositAddress(mw.address) === normalizeDepositAddress(counterAddress)
     );
     if (fromMaster) {
       return { processed: false, reason: 'from_master_wallet' };
@@ -0,0 +1,31 @@
+import { WebhookInboxService } from '../../services/webhook-inbox/index.js';
+
+let started = false;
+let running = false;
+
+export function startWebhookInboxJob() {
+  if (started || process.env.WEBHOOK_INBOX_ENABLED === 'false') return;
+  started = true;
+  const service = new WebhookInboxService();
+  const pollMs = Number(process.env.WEBHOOK_INBOX_POLL_MS || 30_000);
+
+  setInterval(() => {
+    if (running) return;
+    running = true;
+    service
+      .processDue()
+      .then((result) => {
+        if (result.picked > 0) {
+          console.log(
+            `[Webhook inbox] retried ${result.picked} events: ${result.processed} processed, ${result.failed} failed`
+          );
+        }
+      })
+      .catch((error) => console.error('[Webhook inbox]', error))
+      .finally(() => {
+        running = false;
+      });
+  }, pollMs);
+
+  console.log(`Webhook inbox job started poll=${pollMs}ms maxAttempts=${service.getMaxAttempts()}`);
+}
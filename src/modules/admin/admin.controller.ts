@@ -6,8 +6,12 @@ import { AdminAuthService } from './services/admin-auth.service.js';
 import { AdminDashboardService, AdminUsersService } from './services/admin-dashboard.service.js';
 import { AdminTransactionsService, AdminKycService, AdminWalletsService } from './services/admin-operations.service.js';
 import { AdminExchangeService, AdminP2PService } from './services/admin-market.service.js';
-import { AdminMasterWalletService, AdminAnalyticsService, AdminRewardsService } from './services/admin-insights.service.js';
+import { AdminMasterWalletService, AdminAnalyticsService, AdminRewardsService, AdminReconciliationService } from './services/admin-insights.service.js';
 import { AdminSupportService, AdminNotificationsService, AdminStaffService } from './services/admin-platform.service.js';
+import { AdminReviewsService } from './services/admin-reviews.service.js';
+import { AdminWebhooksService } from './services/admin-webhooks.service.js';
+import { AdminDisputesService } from './services/admin-disputes.service.js';
+import { realtimeGateway } from '../../core/realtime/index.js';
 
 export class AdminController {
   private authService = new AdminAuthService();
@@ -21,9 +25,13 @@ export class AdminController {
   private masterWalletService = new AdminMasterWalletService();
   private analyticsService = new AdminAnalyticsService();
   private rewardsService = new AdminRewardsService();
+  private reconciliationService = new AdminReconciliationService();
   private supportService = new AdminSupportService();
   private notificationsService = new AdminNotificationsService();
   private staffService = new AdminStaffService();
+  private reviewsService = new AdminReviewsService();
+  private webhooksService = new AdminWebhooksService();
+  private disputesService = new AdminDisputesService();
 
   private async audit(req: AdminRequest, action: string, resource: string, resourceId?: string | number, metadata?: Record<string, unknown>) {
     if (!req.adminId) return;
@@ -66,6 +74,11 @@ export class AdminController {
     }
   };
 
+  /** Server-Sent Events: support chat activity, filtered by the admin's permissions */
+  realtimeStream = async (req: AdminRequest, res: Response) => {
+    realtimeGateway.connectAdmin(req, res, { id: req.adminId!, role: req.adminRole || '' }, req.tokenExpiresAt);
+  };
+
   dashboardStats = async (req: AdminRequest, res: Response) => {
     const data = await this.dashboardService.getStats(parseAdminListQuery(req));
     return res.json({ success: true, data });
@@ -188,6 +201,25 @@ export class AdminController {
     }
   };
 
+  userLockouts = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.usersService.getLockouts(req.params.id);
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(404).json({ success: false, message: error.message });
+    }
+  };
+
+  unlockUser = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.usersService.unlock(req.params.id, req.body?.action);
+      await this.audit(req, 'unlock', 'users', data.userId, { actions: data.unlocked });
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
   userP2P = async (req: AdminRequest, res: Response) => {
     try {
       const data = await this.usersService.getUserP2P(req.params.id);
@@ -281,17 +313,50 @@ export class AdminController {
   };
 
   createFee = async (req: AdminRequest, res: Response) => {
-    const data = await this.exchangeService.createFee(req.body);
-    await this.audit(req, 'create', 'fees', data.id, req.body);
-    return res.status(201).json({ success: true, data });
+    try {
+      const data = await this.exchangeService.createFee(req.body);
+      await this.audit(req, 'create', 'fees', data.id, req.body);
+      return res.status(201).json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
   };
 
   updateFee = async (req: AdminRequest, res: Response) => {
-    const data = await this.exchangeService.updateFee(Number(req.params.id), req.body);
-    await this.audit(req, 'update', 'fees', req.params.id, req.body);
+    try {
+      const data = await this.exchangeService.updateFee(Number(req.params.id), req.body);
+      await this.audit(req, 'update', 'fees', req.params.id, req.body);
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
+  listLimits = async (req: AdminRequest, res: Response) => {
+    const data = await this.exchangeService.listLimits(parseAdminListQuery(req));
     return res.json({ success: true, data });
   };
 
+  setLimit = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.exchangeService.setLimit(req.body);
+      await this.audit(req, 'set', 'limits', data.id, req.body);
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
+  updateLimit = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.exchangeService.updateLimit(Number(req.params.id), req.body);
+      await this.audit(req, 'update', 'limits', req.params.id, req.body);
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
   p2pStats = async (req: AdminRequest, res: Response) => {
     const data = await this.p2pService.getStats(parseAdminListQuery(req));
     return res.json({ success: true, data });
@@ -325,11 +390,84 @@ export class AdminController {
   };
 
   resolveAppeal = async (req: AdminRequest, res: Response) => {
-    const data = await this.p2pService.resolveAppeal(Number(req.params.orderId), req.body.winner);
-    await this.audit(req, 'resolve', 'p2p_appeals', req.params.orderId, req.body);
+    try {
+      const { ruling, winner, buyerAmount, reason } = req.body;
+      const data = await this.p2pService.resolveAppeal(Number(req.params.orderId), req.adminId!, {
+        ruling,
+        winner,
+        buyerAmount,
+        reason,
+      });
+      await this.audit(req, 'resolve', 'p2p_appeals', req.params.orderId, {
+        outcome: data.outcome,
+        buyerAmount: data.buyerAmount,
+        sellerAmount: data.sellerAmount,
+        cryptoCurrency: data.cryptoCurrency,
+        reason,
+      });
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
+  listDisputes = async (req: AdminRequest, res: Response) => {
+    const data = await this.disputesService.list(parseAdminListQuery(req), req.adminId!);
     return res.json({ success: true, data });
   };
 
+  getDispute = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.disputesService.getById(Number(req.params.id));
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(404).json({ success: false, message: error.message });
+    }
+  };
+
+  assignDispute = async (req: AdminRequest, res: Response) => {
+    try {
+      const adminId = req.body.adminId ? Number(req.body.adminId) : req.adminId!;
+      const data = await this.disputesService.assign(Number(req.params.id), adminId);
+      await this.audit(req, 'assign', 'p2p_disputes', req.params.id, { assignedToId: adminId });
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
+  reviewDispute = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.disputesService.startReview(Number(req.params.id), req.adminId!);
+      await this.audit(req, 'review', 'p2p_disputes', req.params.id);
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
+  resolveDispute = async (req: AdminRequest, res: Response) => {
+    try {
+      const { ruling, buyerAmount, reason } = req.body;
+      const data = await this.disputesService.resolve(Number(req.params.id), req.adminId!, {
+        ruling,
+        buyerAmount,
+        reason,
+      });
+      await this.audit(req, 'resolve', 'p2p_disputes', req.params.id, {
+        orderId: data.id,
+        outcome: data.outcome,
+        buyerAmount: data.buyerAmount,
+        sellerAmount: data.sellerAmount,
+        cryptoCurrency: data.cryptoCurrency,
+        reason,
+      });
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
   appealChat = async (req: AdminRequest, res: Response) => {
     const data = await this.p2pService.getAppealChat(Number(req.params.orderId));
     return res.json({ success: true, data });
@@ -360,6 +498,109 @@ export class AdminController {
     return res.json({ success: true, data });
   };
 
+  listRiskAssessments = async (req: AdminRequest, res: Response) => {
+    const data = await this.analyticsService.listRiskAssessments(parseAdminListQuery(req));
+    return res.json({ success: true, data });
+  };
+
+  listRiskRules = async (_req: AdminRequest, res: Response) => {
+    const data = await this.analyticsService.listRiskRules();
+    return res.json({ success: true, data });
+  };
+
+  updateRiskRule = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.analyticsService.updateRiskRule(String(req.params.code), req.body);
+      await this.audit(req, 'update', 'risk_rules', data.id, req.body);
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
+  holdTransaction = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.analyticsService.holdTransaction(Number(req.params.id));
+      await this.audit(req, 'hold', 'transactions', req.params.id, req.body);
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
+  listReviews = async (req: AdminRequest, res: Response) => {
+    const data = await this.reviewsService.list(parseAdminListQuery(req));
+    return res.json({ success: true, data });
+  };
+
+  getReview = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.reviewsService.getById(Number(req.params.id));
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(404).json({ success: false, message: error.message });
+    }
+  };
+
+  approveReview = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.reviewsService.approve(Number(req.params.id), req.adminId!, req.body?.note);
+      await this.audit(req, 'approve', 'transaction_reviews', req.params.id, {
+        note: req.body?.note,
+        approvals: data.review.approvals.length,
+        requiredApprovals: data.review.requiredApprovals,
+        executed: data.executed,
+        executionError: data.executionError,
+      });
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
+  rejectReview = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.reviewsService.reject(Number(req.params.id), req.adminId!, req.body?.reason);
+      await this.audit(req, 'reject', 'transaction_reviews', req.params.id, { reason: req.body?.reason });
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
+  listWebhooks = async (req: AdminRequest, res: Response) => {
+    const data = await this.webhooksService.list(parseAdminListQuery(req));
+    return res.json({ success: true, data });
+  };
+
+  getWebhook = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.webhooksService.getById(Number(req.params.id));
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(404).json({ success: false, message: error.message });
+    }
+  };
+
+  replayWebhook = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.webhooksService.replay(Number(req.params.id), req.adminId!);
+      await this.audit(req, 'replay', 'webhook_inbox_events', req.params.id, {
+        provider: data.provider,
+        status: data.status,
+        lastError: data.lastError,
+      });
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
+  reconciliation = async (req: AdminRequest, res: Response) => {
+    const data = await this.reconciliationService.list(parseAdminListQuery(req));
+    return res.json({ success: true, data });
+  };
+
   listRewardRules = async (req: AdminRequest, res: Response) => {
     const data = await this.rewardsService.listRules(parseAdminListQuery(req));
     return res.json({ success: true, data });
@@ -388,6 +629,27 @@ export class AdminController {
     return res.json({ success: true, data });
   };
 
+  listReferrals = async (req: AdminRequest, res: Response) => {
+    const data = await this.rewardsService.listReferrals(parseAdminListQuery(req));
+    return res.json({ success: true, data });
+  };
+
+  referralStats = async (req: AdminRequest, res: Response) => {
+    const data = await this.rewardsService.getReferralStats(parseAdminListQuery(req));
+    return res.json({ success: true, data });
+  };
+
+  reviewReferral = async (req: AdminRequest, res: Response) => {
+    try {
+      const { decision, note } = req.body ?? {};
+      const data = await this.rewardsService.reviewReferral(Number(req.params.id), req.adminId!, decision, note);
+      await this.audit(req, decision, 'referrals', data.id, { note, flags: data.flags });
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
   listSupportChats = async (req: AdminRequest, res: Response) => {
     const data = await this.supportService.listChats(parseAdminListQuery(req));
     return res.json({ success: true, data });
@@ -427,21 +689,87 @@ export class AdminController {
     return res.json({ success: true, data });
   };
 
+  sendSupportTyping = async (req: AdminRequest, res: Response) => {
+    try {
+      const isTyping = req.body?.isTyping !== false && req.body?.isTyping !== 'false';
+      const data = await this.supportService.sendTyping(Number(req.params.id), isTyping);
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(404).json({ success: false, message: error.message });
+    }
+  };
+
   listNotifications = async (req: AdminRequest, res: Response) => {
     const data = await this.notificationsService.list(parseAdminListQuery(req));
     return res.json({ success: true, data });
   };
 
   sendNotification = async (req: AdminRequest, res: Response) => {
-    const data = await this.notificationsService.send({ ...req.body, adminId: req.adminId! });
-    await this.audit(req, 'send', 'notifications', data.id, req.body);
-    return res.status(201).json({ success: true, data });
+    try {
+      const data = await this.notificationsService.send({ ...req.body, adminId: req.adminId! });
+      await this.audit(req, 'send', 'notifications', data.id, {
+        ...req.body,
+        userSegment: data.userSegment,
+        segment: data.segment,
+        scheduledAt: data.scheduledAt,
+      });
+      return res.status(201).json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
+  previewNotificationAudience = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.notificationsService.previewAudience(req.body ?? {});
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
+  notificationStats = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.notificationsService.getStats(Number(req.params.id));
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(404).json({ success: false, message: error.message });
+    }
+  };
+
+  cancelNotification = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.notificationsService.cancel(Number(req.params.id));
+      await this.audit(req, 'cancel', 'notifications', data.id, { sentCount: data.sentCount });
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
   };
 
   deleteNotification = async (req: AdminRequest, res: Response) => {
-    await this.notificationsService.deleteNotification(Number(req.params.id));
-    await this.audit(req, 'delete', 'notifications', req.params.id);
-    return res.json({ success: true, data: { deleted: true } });
+    try {
+      await this.notificationsService.deleteNotification(Number(req.params.id));
+      await this.audit(req, 'delete', 'notifications', req.params.id);
+      return res.json({ success: true, data: { deleted: true } });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+  };
+
+  listNotificationDeliveries = async (req: AdminRequest, res: Response) => {
+    const data = await this.notificationsService.listDeliveries(parseAdminListQuery(req));
+    return res.json({ success: true, data });
+  };
+
+  retryNotificationDelivery = async (req: AdminRequest, res: Response) => {
+    try {
+      const data = await this.notificationsService.retryDelivery(Number(req.params.id));
+      await this.audit(req, 'retry', 'notification_deliveries', data.id, { status: data.status, channel: data.channel });
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
   };
 
   listBanners = async (req: AdminRequest, res: Response) => {
@@ -28,6 +28,9 @@ export class AdminModule implements IModule {
     this.router.get('/auth/me', auth, c.me);
     this.router.post('/auth/logout', auth, c.logout);
 
+    // Realtime
+    this.router.get('/realtime/stream', auth, c.realtimeStream);
+
     // Dashboard
     this.router.get('/dashboard/stats', auth, perm('dashboard.read'), c.dashboardStats);
     this.router.get('/dashboard/charts', auth, perm('dashboard.read'), c.dashboardCharts);
@@ -46,6 +49,8 @@ export class AdminModule implements IModule {
     this.router.get('/users/:id/transactions', auth, perm('transactions.read'), c.userTransactions);
     this.router.get('/users/:id/kyc', auth, perm('kyc.read'), c.userKyc);
     this.router.get('/users/:id/p2p', auth, perm('users.read'), c.userP2P);
+    this.router.get('/users/:id/lockouts', auth, perm('users.read'), c.userLockouts);
+    this.router.post('/users/:id/unlock', auth, perm('users.write'), c.unlockUser);
 
     // Transactions
     this.router.get('/transactions', auth, perm('transactions.read'), c.listTransactions);
@@ -69,6 +74,11 @@ export class AdminModule implements IModule {
     this.router.post('/fees', auth, perm('exchange.write'), c.createFee);
     this.router.patch('/fees/:id', auth, perm('exchange.write'), c.updateFee);
 
+    // Transaction limits
+    this.router.get('/limits', auth, perm('limits.read'), c.listLimits);
+    this.router.put('/limits', auth, perm('limits.write'), c.setLimit);
+    this.router.patch('/limits/:id', auth, perm('limits.write'), c.updateLimit);
+
     // P2P
     this.router.get('/p2p/stats', auth, perm('p2p.read'), c.p2pStats);
     this.router.get('/p2p/ads', auth, perm('p2p.read'), c.listP2PAds);
@@ -78,6 +88,11 @@ export class AdminModule implements IModule {
     this.router.get('/p2p/appeals', auth, perm('p2p.read'), c.listAppeals);
     this.router.post('/p2p/appeals/:orderId/resolve', auth, perm('p2p.write'), c.resolveAppeal);
     this.router.get('/p2p/appeals/:orderId/chat', auth, perm('p2p.read'), c.appealChat);
+    this.router.get('/p2p/disputes', auth, perm('p2p.read'), c.listDisputes);
+    this.router.get('/p2p/disputes/:id', auth, perm('p2p.read'), c.getDispute);
+    this.router.patch('/p2p/disputes/:id/assign', auth, perm('p2p.write'), c.assignDispute);
+    this.router.post('/p2p/disputes/:id/review', auth, perm('p2p.write'), c.reviewDispute);
+    this.router.post('/p2p/disputes/:id/resolve', auth, perm('p2p.write'), c.resolveDispute);
     this.router.get('/p2p/payment-methods/:userId', auth, perm('p2p.read'), c.paymentMethods);
 
     // Master wallet
@@ -88,12 +103,35 @@ export class AdminModule implements IModule {
     this.router.get('/analytics/general', auth, perm('analytics.read'), c.analyticsGeneral);
     this.router.get('/analytics/fraud', auth, perm('analytics.read'), c.analyticsFraud);
 
+    // Risk engine
+    this.router.get('/risk/assessments', auth, perm('risk.read'), c.listRiskAssessments);
+    this.router.get('/risk/rules', auth, perm('risk.read'), c.listRiskRules);
+    this.router.put('/risk/rules/:code', auth, perm('risk.write'), c.updateRiskRule);
+    this.router.post('/risk/transactions/:id/hold', auth, perm('risk.write'), c.holdTransaction);
+
+    // Manual review queue
+    this.router.get('/reviews', auth, perm('reviews.read'), c.listReviews);
+    this.router.get('/reviews/:id', auth, perm('reviews.read'), c.getReview);
+    this.router.post('/reviews/:id/approve', auth, perm('reviews.write'), c.approveReview);
+    this.router.post('/reviews/:id/reject', auth, perm('reviews.write'), c.rejectReview);
+
+    // Webhook inbox
+    this.router.get('/webhooks', auth, perm('webhooks.read'), c.listWebhooks);
+    this.router.get('/webhooks/:id', auth, perm('webhooks.read'), c.getWebhook);
+    this.router.post('/webhooks/:id/replay', auth, perm('webhooks.write'), c.replayWebhook);
+
+    // Reconciliation
+    this.router.get('/reconciliation', auth, perm('reconciliation.read'), c.reconciliation);
+
     // Rewards
     this.router.get('/rewards/rules', auth, perm('rewards.read'), c.listRewardRules);
     this.router.post('/rewards/rules', auth, perm('rewards.write'), c.createRewardRule);
     this.router.patch('/rewards/rules/:id', auth, perm('rewards.write'), c.updateRewardRule);
     this.router.delete('/rewards/rules/:id', auth, perm('rewards.write'), c.deleteRewardRule);
     this.router.get('/rewards/claims', auth, perm('rewards.read'), c.rewardClaims);
+    this.router.get('/rewards/referrals', auth, perm('rewards.read'), c.listReferrals);
+    this.router.get('/rewards/referrals/stats', auth, perm('rewards.read'), c.referralStats);
+    this.router.post('/rewards/referrals/:id/review', auth, perm('rewards.write'), c.reviewReferral);
 
     // Support
     this.router.get('/support/chats', auth, perm('support.read'), c.listSupportChats);
@@ -101,11 +139,17 @@ export class AdminModule implements IModule {
     this.router.patch('/support/chats/:id/assign', auth, perm('support.write'), c.assignSupportChat);
     this.router.patch('/support/chats/:id/status', auth, perm('support.write'), c.updateSupportStatus);
     this.router.post('/support/chats/:id/messages', auth, perm('support.write'), uploadSingle('image'), c.sendSupportMessage);
+    this.router.post('/support/chats/:id/typing', auth, perm('support.write'), c.sendSupportTyping);
 
     // Notifications / Banners
     this.router.get('/notifications', auth, perm('notifications.read'), c.listNotifications);
     this.router.post('/notifications/send', auth, perm('notifications.write'), c.sendNotification);
+    this.router.post('/notifications/audience-preview', auth, perm('notifications.read'), c.previewNotificationAudience);
+    this.router.get('/notifications/:id/stats', auth, perm('notifications.read'), c.notificationStats);
+    this.router.post('/notifications/:id/cancel', auth, perm('notifications.write'), c.cancelNotification);
     this.router.delete('/notifications/:id', auth, perm('notifications.write'), c.deleteNotification);
+    this.router.get('/notification-deliveries', auth, perm('notifications.read'), c.listNotificationDeliveries);
+    this.router.post('/notification-deliveries/:id/retry', auth, perm('notifications.write'), c.retryNotificationDelivery);
     this.router.get('/banners', auth, perm('notifications.read'), c.listBanners);
     this.router.post('/banners', auth, perm('notifications.write'), uploadSingle('image'), c.createBanner);
     this.router.patch('/banners/:id', auth, perm('notifications.write'), uploadSingle('image'), c.updateBanner);
@@ -5,6 +5,7 @@ import {
   paginatedResponse,
   type AdminListQuery,
 } from '../../../core/admin/admin-query.helpers.js';
+import { ThrottleService, type ThrottleAction } from '../../../services/throttle/index.js';
 import { WalletService } from '../../wallet/wallet.service.js';
 
 export class AdminDashboardService {
@@ -166,6 +167,7 @@ export class AdminDashboardService {
 
 export class AdminUsersService {
   private walletService = new WalletService();
+  private throttleService = new ThrottleService();
 
   async resolveUserId(identifier: string | number): Promise<number> {
     if (typeof identifier === 'number' && identifier > 0) return identifier;
@@ -409,6 +411,19 @@ export class AdminUsersService {
     return this.walletService.getAllBalances(userId);
   }
 
+  /**
+   * Failed-attempt counters and lockouts (sign-in, OTPs, PIN) on the user's account
+   */
+  async getLockouts(identifier: string | number) {
+    const userId = await this.resolveUserId(identifier);
+    return { userId, lockouts: await this.throttleService.getAccountStatus(userId) };
+  }
+
+  async unlock(identifier: string | number, action?: string) {
+    const userId = await this.resolveUserId(identifier);
+    return this.throttleService.unlockAccount(userId, action as ThrottleAction | undefined);
+  }
+
   async getUserP2P(identifier: string | number) {
     const userId = await this.resolveUserId(identifier);
     const [ads, orders] = await Promise.all([
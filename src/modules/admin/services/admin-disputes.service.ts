@@ -0,0 +1,126 @@
+import prisma from '../../../core/config/database.js';
+import {
+  buildDateFilter,
+  formatUserName,
+  paginatedResponse,
+  type AdminListQuery,
+} from '../../../core/admin/admin-query.helpers.js';
+import { formatChatAttachment } from '../../p2p-chat/p2p-chat.service.js';
+import { P2PDisputeService } from '../../p2p-dispute/p2p-dispute.service.js';
+import { AdminP2PService } from './admin-market.service.js';
+
+const partySelect = { select: { id: true, firstName: true, lastName: true, email: true } };
+
+export class AdminDisputesService {
+  private disputeService = new P2PDisputeService();
+  private p2pService = new AdminP2PService();
+
+  /**
+   * Disputes queue. Unresolved disputes are listed oldest-deadline first.
+   * Filters: status, assignedTo (admin id or `me`/`unassigned`), overdue=true, reasonCode.
+   */
+  async list(query: AdminListQuery, adminId: number) {
+    const now = new Date();
+    const where: any = { ...buildDateFilter(query.from, query.to) };
+    if (query.status && query.status !== 'All') where.status = query.status;
+    if (query.reasonCode) where.reasonCode = String(query.reasonCode);
+    if (query.assignedTo === 'me') where.assignedToId = adminId;
+    else if (query.assignedTo === 'unassigned') where.assignedToId = null;
+    else if (query.assignedTo) where.assignedToId = Number(query.assignedTo);
+    if (query.overdue === 'true') {
+      where.status = { not: 'resolved' };
+      where.resolutionDueAt = { lt: now };
+    }
+
+    const [disputes, total, open, underReview, overdue] = await Promise.all([
+      prisma.p2PDispute.findMany({
+        where,
+        include: {
+          order: { include: { user: partySelect, vendor: partySelect } },
+          assignedTo: { select: { id: true, firstName: true, lastName: true, email: true } },
+          _count: { select: { evidence: true } },
+        },
+        orderBy: where.status === 'resolved' ? { resolvedAt: 'desc' } : { resolutionDueAt: 'asc' },
+        take: query.limit,
+        skip: query.skip,
+      }),
+      prisma.p2PDispute.count({ where }),
+      prisma.p2PDispute.count({ where: { status: 'open' } }),
+      prisma.p2PDispute.count({ where: { status: 'under_review' } }),
+      prisma.p2PDispute.count({ where: { status: { not: 'resolved' }, resolutionDueAt: { lt: now } } }),
+    ]);
+
+    const items = disputes.map((dispute) => ({
+      id: dispute.id,
+      orderId: dispute.orderId,
+      orderStatus: dispute.order.status,
+      buyer: formatUserName(dispute.order.type === 'buy' ? dispute.order.vendor : dispute.order.user),
+      seller: formatUserName(dispute.order.type === 'buy' ? dispute.order.user : dispute.order.vendor),
+      token: dispute.order.cryptoCurrency,
+      qty: Number(dispute.order.cryptoAmount),
+      amount: Number(dispute.order.fiatAmount),
+      currency: dispute.order.fiatCurrency,
+      reasonCode: dispute.reasonCode,
+      automatic: dispute.openedById === null,
+      status: dispute.status,
+      assignedTo: dispute.assignedTo,
+      evidenceCount: dispute._count.evidence,
+      responseDueAt: dispute.responseDueAt,
+      respondedAt: dispute.respondedAt,
+      resolutionDueAt: dispute.resolutionDueAt,
+      overdue: dispute.status !== 'resolved' && now > dispute.resolutionDueAt,
+      resolution: dispute.resolution,
+      date: dispute.createdAt,
+    }));
+
+    return paginatedResponse(items, total, query.page, query.limit, { open, underReview, overdue });
+  }
+
+  async getById(id: number) {
+    const dispute = await prisma.p2PDispute.findUnique({
+      where: { id },
+      include: {
+        order: { include: { user: partySelect, vendor: partySelect, ad: true } },
+        openedBy: partySelect,
+        assignedTo: { select: { id: true, firstName: true, lastName: true, email: true } },
+        evidence: { orderBy: { createdAt: 'asc' }, include: { user: partySelect } },
+      },
+    });
+    if (!dispute) throw new Error('Dispute not found');
+
+    const buyerId = dispute.order.type === 'buy' ? dispute.order.vendorId : dispute.order.userId;
+    return {
+      ...dispute,
+      buyerId,
+      overdue: dispute.status !== 'resolved' && new Date() > dispute.resolutionDueAt,
+      evidence: dispute.evidence.map((item) => ({
+        ...item,
+        party: item.userId === buyerId ? 'buyer' : 'seller',
+        attachment: formatChatAttachment(item),
+      })),
+    };
+  }
+
+  async assign(id: number, adminId: number) {
+    return this.disputeService.assign(id, adminId);
+  }
+
+  async startReview(id: number, adminId: number) {
+    return this.disputeService.startReview(id, adminId);
+  }
+
+  /**
+   * Settle the escrow through the appeal flow; the dispute is closed there
+   */
+  async resolve(
+    id: number,
+    adminId: number,
+    data: { ruling?: 'release' | 'refund' | 'split'; buyerAmount?: string | number; reason: string }
+  ) {
+    const dispute = await prisma.p2PDispute.findUnique({ where: { id } });
+    if (!dispute) throw new Error('Dispute not found');
+    if (dispute.status === 'resolved') throw new Error('Dispute is already resolved');
+
+    return this.p2pService.resolveAppeal(dispute.orderId, adminId, data);
+  }
+}
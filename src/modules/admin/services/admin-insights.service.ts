@@ -5,6 +5,15 @@ import {
   paginatedResponse,
   type AdminListQuery,
 } from '../../../core/admin/admin-query.helpers.js';
+import { RiskService } from '../../../services/risk/index.js';
+import { ReviewService } from '../../../services/review/index.js';
+import { ReferralService } from '../../rewards/referral.service.js';
+
+const RISK_PREDICTIONS: Record<string, string> = {
+  high: 'Suspicious',
+  medium: 'Review',
+  low: 'Normal',
+};
 
 export class AdminMasterWalletService {
   async getBalances(query: AdminListQuery) {
@@ -48,6 +57,9 @@ export class AdminMasterWalletService {
 }
 
 export class AdminAnalyticsService {
+  private riskService = new RiskService();
+  private reviewService = new ReviewService();
+
   async getGeneral(query: AdminListQuery) {
     const dateFilter = buildDateFilter(query.from, query.to);
     const transactions = await prisma.transaction.findMany({
@@ -76,69 +88,160 @@ export class AdminAnalyticsService {
     };
   }
 
+  /**
+   * Users ranked by their latest risk score from the fraud engine
+   */
   async getFraud(query: AdminListQuery) {
-    const since = query.from || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-    const users = await prisma.user.findMany({
-      where: { createdAt: { gte: since } },
-      include: {
-        wallets: {
-          include: {
-            transactions: {
-              where: { createdAt: { gte: since } },
-              select: { amount: true, status: true, type: true, createdAt: true },
+    const where: any = { ...buildDateFilter(query.from, query.to, 'lastAssessedAt') };
+    if (query.riskLevel && query.riskLevel !== 'All') {
+      where.level = String(query.riskLevel).toLowerCase();
+    }
+    if (query.search) {
+      where.user = {
+        OR: [
+          { firstName: { contains: query.search } },
+          { lastName: { contains: query.search } },
+          { email: { contains: query.search } },
+        ],
+      };
+    }
+
+    const [profiles, total] = await Promise.all([
+      prisma.userRiskProfile.findMany({
+        where,
+        include: {
+          user: {
+            select: {
+              firstName: true,
+              lastName: true,
+              email: true,
+              riskAssessments: { orderBy: { createdAt: 'desc' }, take: 1 },
             },
           },
         },
-      },
-      take: 100,
+        orderBy: [{ score: 'desc' }, { lastAssessedAt: 'desc' }],
+        take: query.limit,
+        skip: query.skip,
+      }),
+      prisma.userRiskProfile.count({ where }),
+    ]);
+
+    const rows = profiles.map((profile) => {
+      const latest = profile.user.riskAssessments[0];
+      return {
+        id: profile.userId,
+        name: formatUserName(profile.user),
+        amount: latest ? Number(latest.amount) : 0,
+        currency: latest?.currency || null,
+        type: latest?.serviceType || 'mixed',
+        prediction: RISK_PREDICTIONS[profile.level] || 'Normal',
+        confidence: profile.score,
+        riskLevel: profile.level.charAt(0).toUpperCase() + profile.level.slice(1),
+        maxScore: profile.maxScore,
+        holdCount: profile.holdCount,
+        triggeredRules: latest?.triggeredRules || [],
+        transactionId: latest?.transactionId || null,
+        date: profile.lastAssessedAt,
+      };
     });
 
-    const rows = users
-      .map((user) => {
-        const txs = user.wallets.flatMap((w) => w.transactions);
-        const failed = txs.filter((tx) => tx.status === 'failed').length;
-        const totalAmount = txs.reduce((sum, tx) => sum + Number(tx.amount), 0);
-        const velocity = txs.length;
-        let riskLevel = 'Low';
-        let prediction = 'Normal';
-        let confidence = 75;
-
-        if (failed >= 3 || totalAmount > 1000000 || velocity > 20) {
-          riskLevel = 'High';
-          prediction = 'Suspicious';
-          confidence = 92;
-        } else if (failed >= 1 || velocity > 10) {
-          riskLevel = 'Medium';
-          prediction = 'Review';
-          confidence = 84;
-        }
+    return paginatedResponse(rows, total, query.page, query.limit);
+  }
 
-        return {
-          id: user.id,
-          name: formatUserName(user),
-          amount: totalAmount,
-          type: txs[0]?.type || 'mixed',
-          prediction,
-          confidence,
-          riskLevel,
-          date: user.createdAt,
-        };
-      })
-      .filter((row) => {
-        if (query.riskLevel && query.riskLevel !== 'All') {
-          return row.riskLevel.toLowerCase() === String(query.riskLevel).toLowerCase();
-        }
-        if (query.search) {
-          return row.name.toLowerCase().includes(String(query.search).toLowerCase());
-        }
-        return true;
-      });
-
-    return paginatedResponse(rows.slice(query.skip, query.skip + query.limit), rows.length, query.page, query.limit);
+  async listRiskAssessments(query: AdminListQuery) {
+    const where: any = { ...buildDateFilter(query.from, query.to) };
+    if (query.userId) where.userId = Number(query.userId);
+    if (query.transactionId) where.transactionId = Number(query.transactionId);
+    if (query.riskLevel && query.riskLevel !== 'All') where.level = String(query.riskLevel).toLowerCase();
+    if (query.decision) where.decision = String(query.decision);
+    if (query.serviceType) where.serviceType = String(query.serviceType);
+
+    const [assessments, total] = await Promise.all([
+      prisma.riskAssessment.findMany({
+        where,
+        include: {
+          user: { select: { id: true, firstName: true, lastName: true, email: true } },
+          transaction: { select: { id: true, reference: true, status: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: query.limit,
+        skip: query.skip,
+      }),
+      prisma.riskAssessment.count({ where }),
+    ]);
+
+    const items = assessments.map((assessment) => ({
+      id: assessment.id,
+      userId: assessment.userId,
+      name: formatUserName(assessment.user),
+      serviceType: assessment.serviceType,
+      channel: assessment.channel,
+      amount: assessment.amount.toString(),
+      currency: assessment.currency,
+      score: assessment.score,
+      level: assessment.level,
+      decision: assessment.decision,
+      triggeredRules: assessment.triggeredRules,
+      transaction: assessment.transaction,
+      p2pOrderId: assessment.p2pOrderId,
+      date: assessment.createdAt,
+    }));
+
+    return paginatedResponse(items, total, query.page, query.limit);
+  }
+
+  async listRiskRules() {
+    return this.riskService.listRules();
+  }
+
+  async updateRiskRule(code: string, body: any) {
+    return this.riskService.upsertRule(code, {
+      name: body.name,
+      description: body.description,
+      weight: body.weight,
+      params: body.params,
+      isActive: body.isActive,
+    });
+  }
+
+  /**
+   * Manually hold a pending transaction (and its conversion pair) for review
+   */
+  async holdTransaction(id: number) {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id },
+      include: { wallet: { select: { userId: true } } },
+    });
+    if (!transaction) throw new Error('Transaction not found');
+    if (transaction.status !== 'pending') {
+      throw new Error(`Only pending transactions can be held. Current status: ${transaction.status}`);
+    }
+
+    const metadata = (transaction.metadata as any) || {};
+    const isConversion = transaction.channel === 'conversion';
+    const debitId = isConversion && metadata.debitTransactionId ? Number(metadata.debitTransactionId) : id;
+    const creditId = isConversion ? Number(metadata.creditTransactionId || id) : null;
+
+    const review = await this.reviewService.holdForReview({
+      userId: transaction.wallet.userId,
+      subjectType: isConversion
+        ? 'conversion'
+        : (transaction.type as 'transfer' | 'withdrawal' | 'bill_payment'),
+      transactionIds: creditId && creditId !== debitId ? [debitId, creditId] : [id],
+      amount: transaction.amount.toString(),
+      currency: transaction.currency,
+      reason: 'manual',
+      stage: 'pre_confirmation',
+      reference: transaction.reference,
+    });
+
+    return review;
   }
 }
 
 export class AdminRewardsService {
+  private referralService = new ReferralService();
+
   async listRules(query: AdminListQuery) {
     const where: any = {};
     if (query.service) where.service = String(query.service);
@@ -213,4 +316,188 @@ export class AdminRewardsService {
       await this.getStats(query)
     );
   }
+
+  async listReferrals(query: AdminListQuery) {
+    const where: any = { ...buildDateFilter(query.from, query.to) };
+    if (query.status && query.status !== 'All') where.status = String(query.status).toLowerCase();
+    if (query.referrerId) where.referrerId = Number(query.referrerId);
+    if (query.search) {
+      where.OR = [
+        { code: { contains: query.search } },
+        { referrer: { email: { contains: query.search } } },
+        { referee: { email: { contains: query.search } } },
+      ];
+    }
+
+    const userSelect = { id: true, email: true, firstName: true, lastName: true, rhinoxPayId: true };
+    const [items, total] = await Promise.all([
+      prisma.referral.findMany({
+        where,
+        skip: query.skip,
+        take: query.limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          referrer: { select: userSelect },
+          referee: { select: userSelect },
+          rewards: { select: { id: true, userId: true, status: true, rule: { select: { name: true, rewardValue: true } } } },
+        },
+      }),
+      prisma.referral.count({ where }),
+    ]);
+
+    return paginatedResponse(
+      items.map((referral) => ({
+        id: referral.id,
+        code: referral.code,
+        status: referral.status,
+        flags: referral.flags ?? [],
+        referrer: { ...referral.referrer, name: formatUserName(referral.referrer) },
+        referee: { ...referral.referee, name: formatUserName(referral.referee) },
+        signupIp: referral.signupIp,
+        kycVerifiedAt: referral.kycVerifiedAt,
+        firstTransactionId: referral.firstTransactionId,
+        qualifiedAt: referral.qualifiedAt,
+        rewards: referral.rewards.map((reward) => ({
+          id: reward.id,
+          recipient: reward.userId === referral.referrerId ? 'referrer' : 'referee',
+          title: reward.rule.name,
+          value: reward.rule.rewardValue,
+          status: reward.status,
+        })),
+        reviewedById: referral.reviewedById,
+        reviewNote: referral.reviewNote,
+        reviewedAt: referral.reviewedAt,
+        createdAt: referral.createdAt,
+      })),
+      total,
+      query.page,
+      query.limit,
+      await this.getReferralStats(query)
+    );
+  }
+
+  /**
+   * Referral funnel, rewards paid and top referrers for the date range
+   */
+  async getReferralStats(query: AdminListQuery) {
+    const dateFilter = buildDateFilter(query.from, query.to);
+    const [byStatus, rewardsGranted, rewardsClaimed, topReferrers] = await Promise.all([
+      prisma.referral.groupBy({ by: ['status'], where: dateFilter, _count: { _all: true } }),
+      prisma.userReward.count({ where: { referralId: { not: null }, referral: dateFilter } }),
+      prisma.userReward.count({ where: { referralId: { not: null }, referral: dateFilter, status: 'claimed' } }),
+      prisma.referral.groupBy({
+        by: ['referrerId'],
+        where: { ...dateFilter, status: 'qualified' },
+        _count: { _all: true },
+        orderBy: { _count: { referrerId: 'desc' } },
+        take: 10,
+      }),
+    ]);
+
+    const counts = Object.fromEntries(byStatus.map((row) => [row.status, row._count._all]));
+    const total = byStatus.reduce((sum, row) => sum + row._count._all, 0);
+    const referrers = await prisma.user.findMany({
+      where: { id: { in: topReferrers.map((row) => row.referrerId) } },
+      select: { id: true, email: true, firstName: true, lastName: true, rhinoxPayId: true },
+    });
+
+    return {
+      totalReferrals: total,
+      pending: counts.pending ?? 0,
+      qualified: counts.qualified ?? 0,
+      flagged: counts.flagged ?? 0,
+      rejected: counts.rejected ?? 0,
+      expired: counts.expired ?? 0,
+      qualificationRate: total ? Number((((counts.qualified ?? 0) / total) * 100).toFixed(2)) : 0,
+      rewardsGranted,
+      rewardsClaimed,
+      topReferrers: topReferrers.map((row) => {
+        const user = referrers.find((entry) => entry.id === row.referrerId);
+        return {
+          userId: row.referrerId,
+          name: formatUserName(user),
+          rhinoxPayId: user?.rhinoxPayId ?? null,
+          qualifiedReferrals: row._count._all,
+        };
+      }),
+    };
+  }
+
+  async reviewReferral(id: number, adminId: number, decision: string, note?: string) {
+    return this.referralService.review(id, adminId, decision, note);
+  }
+}
+
+export class AdminReconciliationService {
+  /** Mismatches of one run (latest completed run by default), with the run summary as stats. */
+  async list(query: AdminListQuery) {
+    const runId = query.runId ? Number(query.runId) : undefined;
+    const run = runId
+      ? await prisma.reconciliationRun.findUnique({ where: { id: runId } })
+      : await prisma.reconciliationRun.findFirst({ where: { status: { not: 'running' } }, orderBy: { startedAt: 'desc' } });
+
+    if (!run) {
+      return paginatedResponse([], 0, query.page, query.limit, { run: null });
+    }
+
+    const where: any = { runId: run.id };
+    if (query.check) where.check = String(query.check);
+    if (query.currency) where.currency = String(query.currency).toUpperCase();
+    if (query.userId) where.userId = Number(query.userId);
+
+    const [items, total, byCheck] = await Promise.all([
+      prisma.reconciliationMismatch.findMany({
+        where,
+        skip: query.skip,
+        take: query.limit,
+        orderBy: { id: 'asc' },
+      }),
+      prisma.reconciliationMismatch.count({ where }),
+      prisma.reconciliationMismatch.groupBy({
+        by: ['check'],
+        where: { runId: run.id },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const userIds = Array.from(new Set(items.map((item) => item.userId).filter((id): id is number => id != null)));
+    const owners = userIds.length
+      ? await prisma.user.findMany({
+          where: { id: { in: userIds } },
+          select: { id: true, firstName: true, lastName: true, email: true },
+        })
+      : [];
+
+    return paginatedResponse(
+      items.map((item) => ({
+        id: item.id,
+        userId: item.userId,
+        user: formatUserName(owners.find((u) => u.id === item.userId)),
+        walletId: item.walletId,
+        currency: item.currency,
+        check: item.check,
+        expected: item.expected.toString(),
+        actual: item.actual.toString(),
+        difference: item.difference.toString(),
+        details: item.details,
+        createdAt: item.createdAt,
+      })),
+      total,
+      query.page,
+      query.limit,
+      {
+        run: {
+          id: run.id,
+          status: run.status,
+          trigger: run.trigger,
+          walletsChecked: run.walletsChecked,
+          mismatchCount: run.mismatchCount,
+          errorMessage: run.errorMessage,
+          startedAt: run.startedAt,
+          finishedAt: run.finishedAt,
+        },
+        byCheck: Object.fromEntries(byCheck.map((row) => [row.check, row._count._all])),
+      }
+    );
+  }
 }
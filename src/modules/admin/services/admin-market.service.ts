@@ -1,3 +1,4 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../../../core/config/database.js';
 import {
   buildDateFilter,
@@ -5,10 +6,19 @@ import {
   paginatedResponse,
   type AdminListQuery,
 } from '../../../core/admin/admin-query.helpers.js';
+import { publishP2POrderStatus } from '../../../core/realtime/index.js';
 import { ExchangeService } from '../../exchange/exchange.service.js';
+import { formatChatAttachment } from '../../p2p-chat/p2p-chat.service.js';
+import { FeeService } from '../../fees/fees.service.js';
+import { type FeeTier } from '../../fees/fees.constants.js';
+import { LimitService } from '../../limits/limits.service.js';
+import { KYC_TIERS, LIMIT_SERVICE_TYPES, type LimitServiceType } from '../../limits/limits.constants.js';
+import { P2POrderService } from '../../p2p-order/p2p-order.service.js';
 
 export class AdminExchangeService {
   private exchangeService = new ExchangeService();
+  private feeService = new FeeService();
+  private limitService = new LimitService();
 
   async listRates(query: AdminListQuery) {
     const rates = await prisma.exchangeRate.findMany({
@@ -21,6 +31,9 @@ export class AdminExchangeService {
       otherCurrency: rate.toCurrency,
       marketRate: Number(rate.rate),
       rhinoxRate: Number(rate.inverseRate || rate.rate),
+      source: rate.source,
+      asOf: rate.asOf,
+      stale: this.exchangeService.isStale(rate.asOf),
       updatedAt: rate.updatedAt,
     }));
 
@@ -48,7 +61,8 @@ export class AdminExchangeService {
       data.fromCurrency,
       data.toCurrency,
       data.marketRate,
-      data.rhinoxRate
+      data.rhinoxRate,
+      { source: 'admin' }
     );
   }
 
@@ -56,6 +70,7 @@ export class AdminExchangeService {
     const where: any = {};
     if (query.walletType) where.walletType = String(query.walletType);
     if (query.serviceType) where.serviceType = String(query.serviceType);
+    if (query.currency) where.currency = String(query.currency).toUpperCase();
 
     const [items, total] = await Promise.all([
       prisma.platformFeeConfig.findMany({
@@ -74,26 +89,200 @@ export class AdminExchangeService {
     walletType: string;
     serviceType: string;
     subType?: string;
+    currency?: string;
+    countryCode?: string;
     feeType?: string;
     value: number;
+    minFee?: number;
+    maxFee?: number;
+    tiers?: FeeTier[];
   }) {
+    this.feeService.validateRule(data);
     return prisma.platformFeeConfig.create({
       data: {
         walletType: data.walletType,
         serviceType: data.serviceType,
         subType: data.subType,
+        currency: data.currency ? data.currency.toUpperCase() : undefined,
+        countryCode: data.countryCode ? data.countryCode.toUpperCase() : undefined,
         feeType: data.feeType || 'percentage',
         value: data.value,
+        minFee: data.minFee,
+        maxFee: data.maxFee,
+        tiers: data.tiers ? (data.tiers as unknown as Prisma.InputJsonValue) : undefined,
       },
     });
   }
 
-  async updateFee(id: number, data: Partial<{ value: number; isActive: boolean }>) {
-    return prisma.platformFeeConfig.update({ where: { id }, data });
+  async updateFee(
+    id: number,
+    data: Partial<{
+      value: number;
+      isActive: boolean;
+      feeType: string;
+      minFee: number | null;
+      maxFee: number | null;
+      tiers: FeeTier[] | null;
+    }>
+  ) {
+    const existing = await prisma.platformFeeConfig.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error('Fee config not found');
+    }
+
+    this.feeService.validateRule({
+      feeType: data.feeType ?? existing.feeType,
+      value: data.value,
+      minFee: data.minFee !== undefined ? data.minFee : existing.minFee != null ? Number(existing.minFee) : null,
+      maxFee: data.maxFee !== undefined ? data.maxFee : existing.maxFee != null ? Number(existing.maxFee) : null,
+      tiers: data.tiers !== undefined ? data.tiers : (existing.tiers as unknown as FeeTier[] | null),
+    });
+
+    const { tiers, ...rest } = data;
+    return prisma.platformFeeConfig.update({
+      where: { id },
+      data: {
+        ...rest,
+        ...(tiers !== undefined
+          ? { tiers: tiers === null ? Prisma.DbNull : (tiers as unknown as Prisma.InputJsonValue) }
+          : {}),
+      },
+    });
+  }
+
+  async listLimits(query: AdminListQuery) {
+    const tiers = query.kycTier ? [Number(query.kycTier)] : KYC_TIERS;
+    const rows = await prisma.transactionLimit.findMany({
+      where: { kycTier: { in: tiers } },
+    });
+    const rowByKey = new Map(rows.map((row) => [`${row.kycTier}:${row.serviceType}:${row.currency}`, row]));
+
+    let items: any[] = [];
+    for (const tier of tiers) {
+      const effective = await this.limitService.listTierLimits(tier);
+      items.push(
+        ...effective.map((limit) => {
+          const row = rowByKey.get(`${tier}:${limit.serviceType}:${limit.currency}`);
+          return { id: row?.id ?? null, ...limit, isActive: true, source: row ? 'config' : 'default' };
+        })
+      );
+    }
+    // Disabled rows are not effective but should still be visible to admins
+    items.push(
+      ...rows
+        .filter((row) => !row.isActive)
+        .map((row) => ({
+          id: row.id,
+          kycTier: row.kycTier,
+          serviceType: row.serviceType,
+          currency: row.currency,
+          perTransactionMax: row.perTransactionMax != null ? Number(row.perTransactionMax) : null,
+          dailyLimit: row.dailyLimit != null ? Number(row.dailyLimit) : null,
+          weeklyLimit: row.weeklyLimit != null ? Number(row.weeklyLimit) : null,
+          monthlyLimit: row.monthlyLimit != null ? Number(row.monthlyLimit) : null,
+          isActive: false,
+          source: 'config',
+        }))
+    );
+
+    if (query.serviceType) items = items.filter((item) => item.serviceType === query.serviceType);
+    if (query.currency) {
+      const currency = String(query.currency).toUpperCase();
+      items = items.filter((item) => item.currency === currency);
+    }
+
+    const start = query.skip || 0;
+    const paged = items.slice(start, start + query.limit);
+    return paginatedResponse(paged, items.length, query.page, query.limit);
+  }
+
+  async setLimit(data: {
+    kycTier: number;
+    serviceType: string;
+    currency: string;
+    perTransactionMax?: number | null;
+    dailyLimit?: number | null;
+    weeklyLimit?: number | null;
+    monthlyLimit?: number | null;
+    isActive?: boolean;
+  }) {
+    const kycTier = Number(data.kycTier);
+    if (!KYC_TIERS.includes(kycTier)) {
+      throw new Error(`Invalid kycTier. Must be one of: ${KYC_TIERS.join(', ')}`);
+    }
+    if (!LIMIT_SERVICE_TYPES.includes(data.serviceType as LimitServiceType)) {
+      throw new Error(`Invalid serviceType. Must be one of: ${LIMIT_SERVICE_TYPES.join(', ')}`);
+    }
+    if (!data.currency) {
+      throw new Error('currency is required');
+    }
+    this.validateLimitAmounts(data);
+
+    const currency = data.currency.toUpperCase();
+    const values = {
+      perTransactionMax: data.perTransactionMax ?? null,
+      dailyLimit: data.dailyLimit ?? null,
+      weeklyLimit: data.weeklyLimit ?? null,
+      monthlyLimit: data.monthlyLimit ?? null,
+      isActive: data.isActive ?? true,
+    };
+
+    return prisma.transactionLimit.upsert({
+      where: { kycTier_serviceType_currency: { kycTier, serviceType: data.serviceType, currency } },
+      create: { kycTier, serviceType: data.serviceType, currency, ...values },
+      update: values,
+    });
+  }
+
+  async updateLimit(
+    id: number,
+    data: Partial<{
+      perTransactionMax: number | null;
+      dailyLimit: number | null;
+      weeklyLimit: number | null;
+      monthlyLimit: number | null;
+      isActive: boolean;
+    }>
+  ) {
+    const existing = await prisma.transactionLimit.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error('Transaction limit not found');
+    }
+    this.validateLimitAmounts(data);
+
+    return prisma.transactionLimit.update({
+      where: { id },
+      data: {
+        perTransactionMax: data.perTransactionMax,
+        dailyLimit: data.dailyLimit,
+        weeklyLimit: data.weeklyLimit,
+        monthlyLimit: data.monthlyLimit,
+        isActive: data.isActive,
+      },
+    });
+  }
+
+  private validateLimitAmounts(data: {
+    perTransactionMax?: number | null;
+    dailyLimit?: number | null;
+    weeklyLimit?: number | null;
+    monthlyLimit?: number | null;
+  }) {
+    for (const [field, value] of Object.entries(data)) {
+      if (
+        ['perTransactionMax', 'dailyLimit', 'weeklyLimit', 'monthlyLimit'].includes(field) &&
+        value != null &&
+        (isNaN(Number(value)) || Number(value) < 0)
+      ) {
+        throw new Error(`${field} must be a non-negative number`);
+      }
+    }
   }
 }
 
 export class AdminP2PService {
+  private p2pOrderService = new P2POrderService();
+
   async getStats(query: AdminListQuery) {
     const dateFilter = buildDateFilter(query.from, query.to);
     const [ads, orders, completedOrders] = await Promise.all([
@@ -134,6 +323,8 @@ export class AdminP2PService {
         country: ad.countryCode,
         qty: Number(ad.volume),
         amount: Number(ad.price),
+        priceType: ad.priceType,
+        priceMargin: ad.priceMargin ? Number(ad.priceMargin) : null,
         status: ad.status,
         createdAt: ad.createdAt,
       })),
@@ -185,7 +376,9 @@ export class AdminP2PService {
   }
 
   async updateOrderStatus(id: number, status: string) {
-    return prisma.p2POrder.update({ where: { id }, data: { status } });
+    const updated = await prisma.p2POrder.update({ where: { id }, data: { status } });
+    publishP2POrderStatus(updated);
+    return updated;
   }
 
   async listAppeals(query: AdminListQuery) {
@@ -200,7 +393,7 @@ export class AdminP2PService {
         skip: query.skip,
         take: query.limit,
         orderBy: { updatedAt: 'desc' },
-        include: { user: true, vendor: true, ad: true },
+        include: { user: true, vendor: true, ad: true, dispute: true },
       }),
       prisma.p2POrder.count({ where }),
     ]);
@@ -217,6 +410,9 @@ export class AdminP2PService {
         qty: Number(order.cryptoAmount),
         amount: Number(order.fiatAmount),
         status: order.status,
+        disputeId: order.dispute?.id ?? null,
+        disputeStatus: order.dispute?.status ?? null,
+        reasonCode: order.dispute?.reasonCode ?? null,
         date: order.createdAt,
       })),
       total,
@@ -225,19 +421,55 @@ export class AdminP2PService {
     );
   }
 
-  async resolveAppeal(orderId: number, winner: 'buyer' | 'seller' | 'vendor' | 'user') {
-    return prisma.p2POrder.update({
-      where: { id: orderId },
-      data: { status: 'completed', metadata: { appealWinner: winner, resolvedAt: new Date().toISOString() } },
+  /**
+   * Resolve an appeal by settling the frozen escrow.
+   * Accepts an explicit ruling (release | refund | split) or the legacy `winner` field.
+   */
+  async resolveAppeal(
+    orderId: number,
+    adminId: number,
+    data: {
+      ruling?: 'release' | 'refund' | 'split';
+      winner?: 'buyer' | 'seller' | 'vendor' | 'user';
+      buyerAmount?: string | number;
+      reason: string;
+    }
+  ) {
+    let outcome = data.ruling;
+
+    if (!outcome && data.winner) {
+      const order = await prisma.p2POrder.findUnique({ where: { id: orderId } });
+      if (!order) throw new Error('Order not found');
+      // ad type 'buy' → vendor is buyer; 'sell' → vendor is seller
+      const vendorIsBuyer = order.type === 'buy';
+      const buyerWins =
+        data.winner === 'buyer' ||
+        (data.winner === 'vendor' && vendorIsBuyer) ||
+        (data.winner === 'user' && !vendorIsBuyer);
+      outcome = buyerWins ? 'release' : 'refund';
+    }
+
+    if (!outcome) {
+      throw new Error('ruling is required (release, refund or split)');
+    }
+
+    // Settlement closes the order's dispute in the same transaction
+    return this.p2pOrderService.settleAppeal(orderId, {
+      outcome,
+      buyerAmount: data.buyerAmount,
+      reason: data.reason,
+      adminId,
     });
   }
 
   async getAppealChat(orderId: number) {
-    return prisma.p2PChatMessage.findMany({
+    const messages = await prisma.p2PChatMessage.findMany({
       where: { orderId },
       orderBy: { createdAt: 'asc' },
       include: { sender: true, receiver: true },
     });
+    // isPaymentProof marks the buyer's payment receipts among the attachments
+    return messages.map((msg) => ({ ...msg, attachment: formatChatAttachment(msg) }));
   }
 
   async getPaymentMethods(userId: number) {
@@ -1,3 +1,4 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../../../core/config/database.js';
 import {
   buildDateFilter,
@@ -5,6 +6,16 @@ import {
   paginatedResponse,
   type AdminListQuery,
 } from '../../../core/admin/admin-query.helpers.js';
+import { publishSupportMessage, publishSupportTyping } from '../../../core/realtime/index.js';
+import {
+  BROADCAST_MAX_SCHEDULE_DAYS,
+  BroadcastAudienceService,
+  BroadcastService,
+  type BroadcastSegment,
+} from '../../../services/broadcast/index.js';
+import { NotificationDispatchService } from '../../../services/notification-channels/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export class AdminSupportService {
   async listChats(query: AdminListQuery) {
@@ -94,7 +105,7 @@ export class AdminSupportService {
       throw new Error('Message or image is required');
     }
 
-    return prisma.supportMessage.create({
+    const supportMessage = await prisma.supportMessage.create({
       data: {
         chatId,
         senderId: chat.userId,
@@ -103,12 +114,29 @@ export class AdminSupportService {
         isFromSupport: true,
       },
     });
+
+    publishSupportMessage(chat, { ...supportMessage, adminId });
+
+    return supportMessage;
+  }
+
+  async sendTyping(chatId: number, isTyping: boolean) {
+    const chat = await prisma.supportChat.findUnique({ where: { id: chatId } });
+    if (!chat) throw new Error('Support chat not found');
+
+    publishSupportTyping(chat, true, isTyping);
+    return { chatId, isTyping };
   }
 }
 
 export class AdminNotificationsService {
+  private audienceService = new BroadcastAudienceService();
+  private broadcastService = new BroadcastService();
+  private dispatchService = new NotificationDispatchService();
+
   async list(query: AdminListQuery) {
     const where: any = { ...buildDateFilter(query.from, query.to) };
+    if (query.status && query.status !== 'All') where.status = String(query.status).toLowerCase();
     const [items, total] = await Promise.all([
       prisma.adminNotification.findMany({
         where,
@@ -120,45 +148,132 @@ export class AdminNotificationsService {
       prisma.adminNotification.count({ where }),
     ]);
 
-    return paginatedResponse(items, total, query.page, query.limit);
+    const engagement = await this.getEngagement(items.map((item) => item.id));
+    return paginatedResponse(
+      items.map((item) => ({ ...item, ...engagement.get(item.id)! })),
+      total,
+      query.page,
+      query.limit
+    );
   }
 
+  /**
+   * Queue a broadcast for the delivery job, now or at `scheduledAt`
+   */
   async send(data: {
     title: string;
     message: string;
     countries?: string[];
     userSegment?: string;
+    segment?: BroadcastSegment;
+    scheduledAt?: string;
     adminId: number;
   }) {
-    const users = await prisma.user.findMany({
-      where: data.countries?.length
-        ? { country: { code: { in: data.countries.map((c) => c.toUpperCase()) } } }
-        : {},
-      select: { id: true },
-    });
+    const title = data.title?.trim();
+    const message = data.message?.trim();
+    if (!title || !message) {
+      throw new Error('title and message are required');
+    }
+    if (title.length > 255) {
+      throw new Error('title must not exceed 255 characters');
+    }
 
-    if (users.length) {
-      await prisma.notification.createMany({
-        data: users.map((user) => ({
-          userId: user.id,
-          type: 'promotional',
-          title: data.title,
-          message: data.message,
-          status: 'info',
-        })),
-      });
+    const { userSegment, segment } = this.audienceService.resolveSegment(data);
+    const now = new Date();
+    let scheduledAt = now;
+    if (data.scheduledAt) {
+      scheduledAt = new Date(data.scheduledAt);
+      if (Number.isNaN(scheduledAt.getTime())) {
+        throw new Error('scheduledAt must be a valid date');
+      }
+      if (scheduledAt.getTime() > now.getTime() + BROADCAST_MAX_SCHEDULE_DAYS * DAY_MS) {
+        throw new Error(`scheduledAt must be within ${BROADCAST_MAX_SCHEDULE_DAYS} days`);
+      }
+      if (scheduledAt < now) scheduledAt = now;
     }
 
     return prisma.adminNotification.create({
       data: {
         adminId: data.adminId,
-        title: data.title,
-        message: data.message,
-        countries: data.countries || [],
-        userSegment: data.userSegment,
-        sentCount: users.length,
+        title,
+        message,
+        countries: segment.countries ?? [],
+        userSegment,
+        segment: segment as Prisma.InputJsonValue,
+        status: 'scheduled',
+        scheduledAt,
+      },
+    });
+  }
+
+  /**
+   * Number of users a segment would reach right now
+   */
+  async previewAudience(data: { countries?: string[]; userSegment?: string; segment?: BroadcastSegment }) {
+    const { userSegment, segment } = this.audienceService.resolveSegment(data);
+    const recipients = await this.audienceService.countAudience(segment, this.broadcastService.getBatchSize());
+    return { userSegment, segment, recipients };
+  }
+
+  /**
+   * Delivery progress and read/open rates of one broadcast
+   */
+  async getStats(id: number) {
+    const broadcast = await prisma.adminNotification.findUnique({
+      where: { id },
+      include: { admin: { select: { firstName: true, lastName: true, email: true } } },
+    });
+    if (!broadcast) throw new Error('Broadcast not found');
+
+    const [stats, firstRead] = await Promise.all([
+      this.getEngagement([id]),
+      prisma.notification.findFirst({
+        where: { broadcastId: id, isRead: true },
+        orderBy: { readAt: 'asc' },
+        select: { readAt: true },
+      }),
+    ]);
+    const { readCount, openedCount } = stats.get(id)!;
+
+    return {
+      ...broadcast,
+      delivery: {
+        status: broadcast.status,
+        recipientCount: broadcast.recipientCount,
+        sentCount: broadcast.sentCount,
+        progress: broadcast.recipientCount
+          ? Math.min(100, Math.round((broadcast.sentCount / broadcast.recipientCount) * 10000) / 100)
+          : null,
+        scheduledAt: broadcast.scheduledAt,
+        startedAt: broadcast.startedAt,
+        completedAt: broadcast.completedAt,
+        lastError: broadcast.lastError,
       },
+      engagement: {
+        readCount,
+        openedCount,
+        readRate: broadcast.sentCount ? Math.round((readCount / broadcast.sentCount) * 10000) / 100 : null,
+        openRate: broadcast.sentCount ? Math.round((openedCount / broadcast.sentCount) * 10000) / 100 : null,
+        firstReadAt: firstRead?.readAt ?? null,
+      },
+    };
+  }
+
+  /**
+   * Stop a scheduled broadcast, or one being delivered. Notifications already
+   * delivered are kept.
+   */
+  async cancel(id: number) {
+    const { count } = await prisma.adminNotification.updateMany({
+      where: { id, status: { in: ['scheduled', 'sending'] } },
+      data: { status: 'cancelled', completedAt: new Date() },
     });
+    if (count === 0) {
+      const broadcast = await prisma.adminNotification.findUnique({ where: { id }, select: { status: true } });
+      if (!broadcast) throw new Error('Broadcast not found');
+      throw new Error(`Broadcast is already ${broadcast.status}`);
+    }
+    return prisma.adminNotification.findUniqueOrThrow({ where: { id } });
   }
 
   async listBanners(query: AdminListQuery) {
@@ -188,8 +303,84 @@ export class AdminNotificationsService {
   }
 
   async deleteNotification(id: number) {
+    const broadcast = await prisma.adminNotification.findUnique({ where: { id }, select: { status: true } });
+    if (!broadcast) throw new Error('Broadcast not found');
+    if (broadcast.status === 'sending') {
+      throw new Error('Cancel the broadcast before deleting it');
+    }
     return prisma.adminNotification.delete({ where: { id } });
   }
+
+  /**
+   * Email, SMS and push delivery log with provider results and retry state
+   */
+  async listDeliveries(query: AdminListQuery) {
+    const where: any = { ...buildDateFilter(query.from, query.to) };
+    if (query.status && query.status !== 'All') where.status = String(query.status).toLowerCase();
+    if (query.channel) where.channel = String(query.channel).toLowerCase();
+    if (query.category) where.category = String(query.category).toLowerCase();
+    if (query.userId) where.userId = Number(query.userId);
+    if (query.search) {
+      where.OR = [
+        { recipient: { contains: query.search } },
+        { event: { contains: query.search } },
+        { subject: { contains: query.search } },
+      ];
+    }
+
+    const [items, total, byStatus] = await Promise.all([
+      prisma.notificationDelivery.findMany({
+        where,
+        skip: query.skip,
+        take: query.limit,
+        orderBy: { createdAt: 'desc' },
+        omit: { html: true },
+        include: { user: { select: { firstName: true, lastName: true, email: true } } },
+      }),
+      prisma.notificationDelivery.count({ where }),
+      prisma.notificationDelivery.groupBy({ by: ['status'], where, _count: { _all: true } }),
+    ]);
+
+    return paginatedResponse(
+      items.map((item) => ({ ...item, user: { ...item.user, name: formatUserName(item.user) } })),
+      total,
+      query.page,
+      query.limit,
+      { byStatus: Object.fromEntries(byStatus.map((row) => [row.status, row._count._all])) }
+    );
+  }
+
+  async retryDelivery(id: number) {
+    return this.dispatchService.retry(id);
+  }
+
+  /** Read (isRead) and opened counts of delivered notifications per broadcast */
+  private async getEngagement(ids: number[]) {
+    const [read, opened] = ids.length
+      ? await Promise.all([
+          prisma.notification.groupBy({
+            by: ['broadcastId'],
+            where: { broadcastId: { in: ids }, isRead: true },
+            _count: { _all: true },
+          }),
+          prisma.notification.groupBy({
+            by: ['broadcastId'],
+            where: { broadcastId: { in: ids }, openedAt: { not: null } },
+            _count: { _all: true },
+          }),
+        ])
+      : [[], []];
+
+    return new Map(
+      ids.map((id) => [
+        id,
+        {
+          readCount: read.find((row) => row.broadcastId === id)?._count._all ?? 0,
+          openedCount: opened.find((row) => row.broadcastId === id)?._count._all ?? 0,
+        },
+      ])
+    );
+  }
 }
 
 export class AdminStaffService {
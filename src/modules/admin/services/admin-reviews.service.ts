@@ -0,0 +1,316 @@
+import prisma from '../../../core/config/database.js';
+import {
+  buildDateFilter,
+  formatUserName,
+  paginatedResponse,
+  type AdminListQuery,
+} from '../../../core/admin/admin-query.helpers.js';
+import { notifyTransactionReview } from '../../../core/utils/notification.events.js';
+import { REVIEW_HOLD_STATUS, ReviewService } from '../../../services/review/index.js';
+import { BushaAppService } from '../../../services/busha/busha.app.service.js';
+import { TransferService } from '../../transfer/transfer.service.js';
+import { ConversionService } from '../../conversion/conversion.service.js';
+
+type ReviewApproval = { adminId: number; note: string | null; at: string };
+
+export class AdminReviewsService {
+  private reviewService = new ReviewService();
+  private transferService = new TransferService();
+  private conversionService = new ConversionService();
+  private bushaService = new BushaAppService();
+
+  async list(query: AdminListQuery) {
+    const where: any = { ...buildDateFilter(query.from, query.to) };
+    where.status = query.status && query.status !== 'All' ? query.status : 'pending';
+    if (query.subjectType) where.subjectType = String(query.subjectType);
+    if (query.reason) where.reason = String(query.reason);
+    if (query.userId) where.userId = Number(query.userId);
+
+    const [reviews, total, pending, awaitingSecondApproval] = await Promise.all([
+      prisma.transactionReview.findMany({
+        where,
+        include: { user: { select: { id: true, firstName: true, lastName: true, email: true } } },
+        orderBy: { createdAt: where.status === 'pending' ? 'asc' : 'desc' },
+        take: query.limit,
+        skip: query.skip,
+      }),
+      prisma.transactionReview.count({ where }),
+      prisma.transactionReview.count({ where: { status: 'pending' } }),
+      prisma.transactionReview.count({ where: { status: 'pending', requiredApprovals: { gt: 1 } } }),
+    ]);
+
+    const items = reviews.map((review) => this.toListItem(review));
+    return paginatedResponse(items, total, query.page, query.limit, { pending, awaitingSecondApproval });
+  }
+
+  async getById(id: number) {
+    const review = await prisma.transactionReview.findUnique({
+      where: { id },
+      include: { user: { select: { id: true, firstName: true, lastName: true, email: true, phone: true } } },
+    });
+    if (!review) throw new Error('Review not found');
+
+    const transactionIds = this.transactionIds(review);
+    const [transactions, bushaTrade, riskAssessment] = await Promise.all([
+      transactionIds.length
+        ? prisma.transaction.findMany({ where: { id: { in: transactionIds } } })
+        : Promise.resolve([]),
+      review.bushaTradeId ? prisma.bushaTradeLog.findUnique({ where: { id: review.bushaTradeId } }) : null,
+      review.riskAssessmentId ? prisma.riskAssessment.findUnique({ where: { id: review.riskAssessmentId } }) : null,
+    ]);
+
+    return {
+      ...this.toListItem(review),
+      user: review.user,
+      transactions,
+      bushaTrade,
+      riskAssessment,
+    };
+  }
+
+  /**
+   * Record an approval. Once the required number of distinct admins have approved,
+   * the held operation is released: pre-confirmation holds return to pending,
+   * pre-payout holds unlock the funds and pay out.
+   */
+  async approve(id: number, adminId: number, note?: string) {
+    const review = await prisma.transactionReview.findUnique({ where: { id } });
+    if (!review) throw new Error('Review not found');
+    if (review.status !== 'pending') throw new Error(`Review is already ${review.status}`);
+
+    const approvals = (review.approvals as ReviewApproval[] | null) || [];
+    if (approvals.some((approval) => approval.adminId === adminId)) {
+      throw new Error('You have already approved this review. A different admin must give the second approval');
+    }
+
+    const nextApprovals: ReviewApproval[] = [
+      ...approvals,
+      { adminId, note: note || null, at: new Date().toISOString() },
+    ];
+
+    if (nextApprovals.length < review.requiredApprovals) {
+      const claimed = await prisma.transactionReview.updateMany({
+        where: { id, status: 'pending', updatedAt: review.updatedAt },
+        data: { approvals: nextApprovals },
+      });
+      if (claimed.count !== 1) throw new Error('Review was updated by another admin. Reload and try again');
+      return { review: await this.getById(id), executed: false, executionError: null };
+    }
+
+    // Claim the decision so two final approvals cannot both release the funds
+    const claimed = await prisma.transactionReview.updateMany({
+      where: { id, status: 'pending', updatedAt: review.updatedAt },
+      data: {
+        status: 'approved',
+        approvals: nextApprovals,
+        decisionNote: note || null,
+        decidedById: adminId,
+        decidedAt: new Date(),
+      },
+    });
+    if (claimed.count !== 1) throw new Error('Review was updated by another admin. Reload and try again');
+
+    let executionError: string | null = null;
+    const progress = { lockReleased: false };
+    try {
+      await this.release(review, progress);
+      notifyTransactionReview(review.userId, {
+        decision: 'approved',
+        amount: review.amount.toString(),
+        currency: review.currency,
+      });
+    } catch (error: any) {
+      console.error(`[Reviews] Release failed for review ${id}`, error);
+      executionError = error.message || 'Release failed';
+      try {
+        if (await this.reopen(review, approvals, progress.lockReleased)) {
+          executionError = `${executionError}. The review is back in the queue; approve it again to retry`;
+        }
+      } catch (reopenError) {
+        console.error(`[Reviews] Could not reopen review ${id} after a failed release`, reopenError);
+      }
+    }
+
+    return { review: await this.getById(id), executed: executionError === null, executionError };
+  }
+
+  /**
+   * Reject a held operation: unlock any locked funds and fail the held transactions
+   */
+  async reject(id: number, adminId: number, reason: string) {
+    if (!reason || !String(reason).trim()) throw new Error('reason is required');
+
+    const review = await prisma.transactionReview.findUnique({ where: { id } });
+    if (!review) throw new Error('Review not found');
+    if (review.status !== 'pending') throw new Error(`Review is already ${review.status}`);
+
+    const now = new Date();
+    await prisma.$transaction(async (tx) => {
+      const claimed = await tx.transactionReview.updateMany({
+        where: { id, status: 'pending' },
+        data: { status: 'rejected', decisionNote: reason, decidedById: adminId, decidedAt: now },
+      });
+      if (claimed.count !== 1) throw new Error('Review was already decided');
+
+      await this.reviewService.releaseLock(tx, review);
+
+      for (const transactionId of this.transactionIds(review)) {
+        const transaction = await tx.transaction.findUnique({ where: { id: transactionId } });
+        if (!transaction || transaction.status !== REVIEW_HOLD_STATUS) continue;
+        await tx.transaction.update({
+          where: { id: transactionId },
+          data: {
+            status: 'failed',
+            metadata: {
+              ...((transaction.metadata as any) || {}),
+              reviewRejected: true,
+              rejectionReason: reason,
+              rejectedAt: now.toISOString(),
+            },
+          },
+        });
+      }
+
+      if (review.bushaTradeId) {
+        await tx.bushaTradeLog.updateMany({
+          where: { id: review.bushaTradeId, status: REVIEW_HOLD_STATUS },
+          data: { status: 'rejected' },
+        });
+      }
+    });
+
+    notifyTransactionReview(review.userId, {
+      decision: 'rejected',
+      amount: review.amount.toString(),
+      currency: review.currency,
+      reason,
+    });
+
+    return this.getById(id);
+  }
+
+  private async release(
+    review: {
+      id: number;
+      stage: string;
+      subjectType: string;
+      transactionId: number | null;
+      transactionIds: unknown;
+      bushaTradeId: number | null;
+      lockedWalletId: number | null;
+      lockedAmount: unknown;
+    },
+    progress: { lockReleased: boolean }
+  ) {
+    if (review.stage === 'pre_confirmation') {
+      for (const transactionId of this.transactionIds(review)) {
+        const transaction = await prisma.transaction.findUnique({ where: { id: transactionId } });
+        if (!transaction || transaction.status !== REVIEW_HOLD_STATUS) continue;
+        await prisma.transaction.update({
+          where: { id: transactionId },
+          data: {
+            status: 'pending',
+            metadata: { ...((transaction.metadata as any) || {}), reviewApproved: true },
+          },
+        });
+      }
+      return;
+    }
+
+    const lock = {
+      id: review.id,
+      lockedWalletId: review.lockedWalletId,
+      lockedAmount: String(review.lockedAmount),
+    };
+
+    // Wallet payouts release the lock in the same database transaction as their debit
+    if (review.subjectType === 'withdrawal' && review.transactionId) {
+      await this.transferService.completeReviewedWithdrawal(review.transactionId, lock);
+    } else if (review.subjectType === 'conversion' && review.transactionId) {
+      await this.conversionService.completeReviewedConversion(review.transactionId, lock);
+    } else if (review.subjectType === 'crypto_send' && review.bushaTradeId) {
+      await prisma.$transaction((tx) => this.reviewService.releaseLock(tx, lock));
+      progress.lockReleased = true;
+      await this.bushaService.completeReviewedSend(review.bushaTradeId);
+    } else {
+      throw new Error(`Cannot release ${review.subjectType} review ${review.id}`);
+    }
+  }
+
+  /**
+   * Undo a final approval whose release failed before the held operation ran:
+   * the review returns to pending without the last approval and its funds are locked again.
+   * Returns false when the operation already moved on (paid out, refunded or failed).
+   */
+  private async reopen(
+    review: {
+      id: number;
+      transactionId: number | null;
+      transactionIds: unknown;
+      bushaTradeId: number | null;
+      lockedWalletId: number | null;
+      lockedAmount: unknown;
+    },
+    approvals: ReviewApproval[],
+    lockReleased: boolean
+  ) {
+    const transactionIds = this.transactionIds(review);
+    const [heldTransactions, heldTrades] = await Promise.all([
+      transactionIds.length
+        ? prisma.transaction.count({ where: { id: { in: transactionIds }, status: REVIEW_HOLD_STATUS } })
+        : 0,
+      review.bushaTradeId
+        ? prisma.bushaTradeLog.count({ where: { id: review.bushaTradeId, status: REVIEW_HOLD_STATUS } })
+        : 0,
+    ]);
+    if (heldTransactions + heldTrades === 0) return false;
+
+    await prisma.$transaction(async (tx) => {
+      const reopened = await tx.transactionReview.updateMany({
+        where: { id: review.id, status: 'approved' },
+        data: { status: 'pending', approvals, decisionNote: null, decidedById: null, decidedAt: null },
+      });
+      if (reopened.count !== 1) throw new Error('Review was updated concurrently');
+
+      if (lockReleased) {
+        await this.reviewService.restoreLock(tx, {
+          id: review.id,
+          lockedWalletId: review.lockedWalletId,
+          lockedAmount: String(review.lockedAmount),
+        });
+      }
+    });
+    return true;
+  }
+
+  private transactionIds(review: { transactionId: number | null; transactionIds: unknown }): number[] {
+    if (Array.isArray(review.transactionIds) && review.transactionIds.length) {
+      return review.transactionIds.map(Number);
+    }
+    return review.transactionId ? [review.transactionId] : [];
+  }
+
+  private toListItem(review: any) {
+    const approvals = (review.approvals as ReviewApproval[] | null) || [];
+    return {
+      id: review.id,
+      userId: review.userId,
+      name: review.user ? formatUserName(review.user) : undefined,
+      subjectType: review.subjectType,
+      transactionId: review.transactionId,
+      bushaTradeId: review.bushaTradeId,
+      amount: review.amount.toString(),
+      currency: review.currency,
+      reason: review.reason,
+      stage: review.stage,
+      status: review.status,
+      requiredApprovals: review.requiredApprovals,
+      approvals,
+      lockedAmount: review.lockedAmount.toString(),
+      decisionNote: review.decisionNote,
+      decidedById: review.decidedById,
+      decidedAt: review.decidedAt,
+      date: review.createdAt,
+    };
+  }
+}
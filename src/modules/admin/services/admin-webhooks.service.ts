@@ -0,0 +1,68 @@
+import prisma from '../../../core/config/database.js';
+import {
+  buildDateFilter,
+  paginatedResponse,
+  type AdminListQuery,
+} from '../../../core/admin/admin-query.helpers.js';
+import { WebhookInboxService } from '../../../services/webhook-inbox/index.js';
+
+export class AdminWebhooksService {
+  private inboxService = new WebhookInboxService();
+
+  async list(query: AdminListQuery) {
+    const where: any = { ...buildDateFilter(query.from, query.to) };
+    if (query.status && query.status !== 'All') where.status = query.status;
+    if (query.provider) where.provider = String(query.provider);
+    if (query.eventType) where.eventType = String(query.eventType);
+    if (query.search) where.dedupeKey = { contains: query.search };
+
+    const [events, total, failed, deadLetter, pending] = await Promise.all([
+      prisma.webhookInboxEvent.findMany({
+        where,
+        select: {
+          id: true,
+          provider: true,
+          eventType: true,
+          dedupeKey: true,
+          status: true,
+          attempts: true,
+          nextAttemptAt: true,
+          lastError: true,
+          result: true,
+          receivedCount: true,
+          processedAt: true,
+          replayedAt: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        take: query.limit,
+        skip: query.skip,
+      }),
+      prisma.webhookInboxEvent.count({ where }),
+      prisma.webhookInboxEvent.count({ where: { status: 'failed' } }),
+      prisma.webhookInboxEvent.count({ where: { status: 'dead_letter' } }),
+      prisma.webhookInboxEvent.count({ where: { status: { in: ['received', 'processing'] } } }),
+    ]);
+
+    const items = events.map((event) => ({ ...event, date: event.createdAt }));
+    return paginatedResponse(items, total, query.page, query.limit, {
+      failed,
+      deadLetter,
+      pending,
+      maxAttempts: this.inboxService.getMaxAttempts(),
+    });
+  }
+
+  async getById(id: number) {
+    const event = await prisma.webhookInboxEvent.findUnique({ where: { id } });
+    if (!event) throw new Error('Webhook event not found');
+    return event;
+  }
+
+  /**
+   * Re-run a webhook through its provider handler; returns the event after the attempt
+   */
+  async replay(id: number, adminId: number) {
+    return this.inboxService.replay(id, adminId);
+  }
+}
@@ -1,5 +1,6 @@
 import { type Request, type Response } from 'express';
 import { AuthService, EmailNotVerifiedError } from './auth.service.js';
+import { TooManyAttemptsError } from '../../services/throttle/index.js';
 import { isValidOtpCode, otpValidationMessage } from '../../core/utils/password.validation.js';
 
 /**
@@ -66,6 +67,13 @@ export class AuthController {
    *                 type: boolean
    *                 example: true
    *                 description: Must be true. Indicates user has accepted Terms & Conditions and Privacy Policy.
+   *               referralCode:
+   *                 type: string
+   *                 example: "RXPAB12CD34"
+   *                 description: Optional. Rhinox Pay ID of the user who invited this user. Rejected with 400 when it does not match an active user.
+   *               deviceId:
+   *                 type: string
+   *                 description: Optional. Stable identifier of the signing-up device, used by referral anti-abuse checks.
    *     responses:
    *       201:
    *         description: User registered successfully. OTP sent to email. Auth tokens returned for immediate use.
@@ -105,7 +113,16 @@ export class AuthController {
    *                     accessToken:
    *                       type: string
    *                       example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
-   *                       description: JWT access token for authentication. Include in Authorization header as "Bearer {token}". Token is long-lived (365 days).
+   *                       description: JWT access token for authentication. Include in Authorization header as "Bearer {token}". Short-lived (15 minutes by default); renew it with POST /api/auth/refresh.
+   *                     accessTokenExpiresAt:
+   *                       type: string
+   *                       format: date-time
+   *                     refreshToken:
+   *                       type: string
+   *                       description: Single-use token for POST /api/auth/refresh. Store it securely; each refresh returns a new one.
+   *                     refreshTokenExpiresAt:
+   *                       type: string
+   *                       format: date-time
    *                     message:
    *                       type: string
    *                       example: "Registration successful. Please verify your email with the OTP sent to your email."
@@ -138,7 +155,9 @@ export class AuthController {
         lastName, 
         countryId,
         termsAccepted,
+        referralCode,
         deviceName,
+        deviceId,
       } = req.body;
 
       // Validate required fields
@@ -179,10 +198,12 @@ export class AuthController {
           lastName,
           countryId,
           termsAccepted,
+          referralCode,
         },
         req.ip || req.socket.remoteAddress,
         req.get('user-agent'),
-        deviceName
+        deviceName,
+        deviceId
       );
 
       return res.status(201).json({
@@ -240,10 +261,21 @@ export class AuthController {
    *                     accessToken:
    *                       type: string
    *                       example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
-   *                       description: JWT access token for authentication. Include in Authorization header as "Bearer {token}". Token is long-lived (365 days).
+   *                       description: JWT access token for authentication. Include in Authorization header as "Bearer {token}". Short-lived (15 minutes by default); renew it with POST /api/auth/refresh.
+   *                     accessTokenExpiresAt:
+   *                       type: string
+   *                       format: date-time
+   *                     refreshToken:
+   *                       type: string
+   *                       description: Single-use token for POST /api/auth/refresh. Store it securely; each refresh returns a new one.
+   *                     refreshTokenExpiresAt:
+   *                       type: string
+   *                       format: date-time
    *       401:
    *         description: Invalid credentials
    *         $ref: '#/components/schemas/Error'
+   *       429:
+   *         description: Too many failed attempts; retry after the `Retry-After` header (seconds)
    */
   async login(req: Request, res: Response) {
     try {
@@ -273,6 +305,9 @@ export class AuthController {
         data: result,
       });
     } catch (error: any) {
+      if (error instanceof TooManyAttemptsError) {
+        return this.tooManyAttempts(res, error);
+      }
       if (error instanceof EmailNotVerifiedError) {
         return res.status(403).json({
           success: false,
@@ -320,6 +355,9 @@ export class AuthController {
 
       return res.json({ success: true, data: result });
     } catch (error: any) {
+      if (error instanceof TooManyAttemptsError) {
+        return this.tooManyAttempts(res, error);
+      }
       return res.status(400).json({
         success: false,
         message: error.message || 'Device verification failed',
@@ -327,6 +365,37 @@ export class AuthController {
     }
   }
 
+  async verifyTwoFactorLogin(req: Request, res: Response) {
+    try {
+      const { pendingLoginToken, code, deviceName } = req.body;
+
+      if (!pendingLoginToken || !code) {
+        return res.status(400).json({
+          success: false,
+          message: 'Verification token and two-factor code are required',
+        });
+      }
+
+      const ipAddress = req.ip || req.socket.remoteAddress;
+      const userAgent = req.get('user-agent');
+
+      const result = await this.service.verifyTwoFactorLogin(
+        pendingLoginToken,
+        String(code),
+        ipAddress,
+        userAgent,
+        deviceName
+      );
+
+      return res.json({ success: true, data: result });
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message || 'Two-factor verification failed',
+      });
+    }
+  }
+
   async resendDeviceLoginOTP(req: Request, res: Response) {
     try {
       const { pendingLoginToken } = req.body;
@@ -349,6 +418,80 @@ export class AuthController {
     }
   }
 
+  /**
+   * @swagger
+   * /api/auth/refresh:
+   *   post:
+   *     summary: Refresh the access token
+   *     description: |
+   *       Exchanges a refresh token for a new access token and a new refresh token. Each refresh token
+   *       can be used once; using one again ends the device session and revokes every token issued from
+   *       that login, so the user must log in again. Terminating a session also revokes its refresh tokens.
+   *     tags: [Auth]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - refreshToken
+   *             properties:
+   *               refreshToken:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: New token pair
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     accessToken:
+   *                       type: string
+   *                     accessTokenExpiresAt:
+   *                       type: string
+   *                       format: date-time
+   *                     refreshToken:
+   *                       type: string
+   *                     refreshTokenExpiresAt:
+   *                       type: string
+   *                       format: date-time
+   *       401:
+   *         description: Refresh token invalid, expired, revoked or already used
+   *         $ref: '#/components/schemas/Error'
+   */
+  async refreshToken(req: Request, res: Response) {
+    try {
+      const { refreshToken } = req.body || {};
+
+      if (!refreshToken || typeof refreshToken !== 'string') {
+        return res.status(400).json({
+          success: false,
+          message: 'Refresh token is required',
+        });
+      }
+
+      const result = await this.service.refreshTokens(refreshToken);
+
+      return res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      return res.status(401).json({
+        success: false,
+        message: error.message || 'Failed to refresh token',
+      });
+    }
+  }
+
   /**
    * @swagger
    * /api/auth/logout:
@@ -587,7 +730,16 @@ export class AuthController {
    *                     accessToken:
    *                       type: string
    *                       example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
-   *                       description: JWT access token for authentication. Include in Authorization header as "Bearer {token}". Token is long-lived (365 days).
+   *                       description: JWT access token for authentication. Include in Authorization header as "Bearer {token}". Short-lived (15 minutes by default); renew it with POST /api/auth/refresh.
+   *                     accessTokenExpiresAt:
+   *                       type: string
+   *                       format: date-time
+   *                     refreshToken:
+   *                       type: string
+   *                       description: Single-use token for POST /api/auth/refresh. Store it securely; each refresh returns a new one.
+   *                     refreshTokenExpiresAt:
+   *                       type: string
+   *                       format: date-time
    *                     message:
    *                       type: string
    *                       example: "Email verified successfully"
@@ -609,6 +761,8 @@ export class AuthController {
    *       401:
    *         description: Unauthorized or user ID missing
    *         $ref: '#/components/schemas/Error'
+   *       429:
+   *         description: Too many failed attempts; retry after the `Retry-After` header (seconds)
    */
   async verifyEmail(req: Request, res: Response) {
     try {
@@ -637,13 +791,16 @@ export class AuthController {
         });
       }
 
-      const result = await this.service.verifyEmailOTP(userId, code);
+      const result = await this.service.verifyEmailOTP(userId, code, req.ip || req.socket.remoteAddress);
 
       return res.json({
         success: true,
         data: result,
       });
     } catch (error: any) {
+      if (error instanceof TooManyAttemptsError) {
+        return this.tooManyAttempts(res, error);
+      }
       return res.status(400).json({
         success: false,
         message: error.message || 'Email verification failed',
@@ -1061,6 +1218,8 @@ export class AuthController {
    *       401:
    *         description: Unauthorized
    *         $ref: '#/components/schemas/Error'
+   *       429:
+   *         description: Too many failed attempts; retry after the `Retry-After` header (seconds)
    */
   async changePIN(req: Request, res: Response) {
     try {
@@ -1096,6 +1255,9 @@ export class AuthController {
         data: result,
       });
     } catch (error: any) {
+      if (error instanceof TooManyAttemptsError) {
+        return this.tooManyAttempts(res, error);
+      }
       return res.status(400).json({
         success: false,
         message: error.message || 'Failed to change PIN',
@@ -1293,6 +1455,8 @@ export class AuthController {
    *           - "Invalid email or OTP"
    *           - "Invalid or expired OTP"
    *         $ref: '#/components/schemas/Error'
+   *       429:
+   *         description: Too many failed attempts; retry after the `Retry-After` header (seconds)
    */
   async verifyPasswordResetOTP(req: Request, res: Response) {
     try {
@@ -1312,13 +1476,16 @@ export class AuthController {
         });
       }
 
-      const result = await this.service.verifyPasswordResetOTP(email, otp);
+      const result = await this.service.verifyPasswordResetOTP(email, otp, req.ip || req.socket.remoteAddress);
 
       return res.json({
         success: true,
         data: result,
       });
     } catch (error: any) {
+      if (error instanceof TooManyAttemptsError) {
+        return this.tooManyAttempts(res, error);
+      }
       return res.status(400).json({
         success: false,
         message: error.message || 'Failed to verify OTP',
@@ -1390,6 +1557,8 @@ export class AuthController {
    *           - "Invalid or expired OTP. Please request a new password reset."
    *           - "Password must be at least 8 characters long"
    *         $ref: '#/components/schemas/Error'
+   *       429:
+   *         description: Too many failed attempts; retry after the `Retry-After` header (seconds)
    */
   async resetPassword(req: Request, res: Response) {
     try {
@@ -1416,13 +1585,16 @@ export class AuthController {
         });
       }
 
-      const result = await this.service.resetPassword(email, otp, newPassword);
+      const result = await this.service.resetPassword(email, otp, newPassword, req.ip || req.socket.remoteAddress);
 
       return res.json({
         success: true,
         data: result,
       });
     } catch (error: any) {
+      if (error instanceof TooManyAttemptsError) {
+        return this.tooManyAttempts(res, error);
+      }
       return res.status(400).json({
         success: false,
         message: error.message || 'Failed to reset password',
@@ -1470,6 +1642,101 @@ export class AuthController {
     }
   }
 
+  async getTwoFactorStatus(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const result = await this.service.getTwoFactorStatus(userId);
+      return res.json({ success: true, data: result });
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message || 'Failed to fetch two-factor status',
+      });
+    }
+  }
+
+  async setupTwoFactor(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const result = await this.service.beginTwoFactorEnrollment(userId);
+      return res.json({ success: true, data: result });
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message || 'Failed to start two-factor setup',
+      });
+    }
+  }
+
+  async confirmTwoFactor(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const { code } = req.body;
+      if (!code) {
+        return res.status(400).json({ success: false, message: 'Code is required' });
+      }
+
+      const result = await this.service.confirmTwoFactorEnrollment(userId, String(code));
+      return res.json({ success: true, data: result });
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message || 'Failed to confirm two-factor setup',
+      });
+    }
+  }
+
+  async regenerateTwoFactorBackupCodes(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const result = await this.service.regenerateTwoFactorBackupCodes(userId, String(req.body.code || ''));
+      return res.json({ success: true, data: result });
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message || 'Failed to regenerate backup codes',
+      });
+    }
+  }
+
+  async disableTwoFactor(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const { password } = req.body;
+      if (!password) {
+        return res.status(400).json({ success: false, message: 'Password is required' });
+      }
+
+      const result = await this.service.disableTwoFactor(userId, password);
+      return res.json({ success: true, data: result });
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message || 'Failed to disable two-factor authentication',
+      });
+    }
+  }
+
   async sendTransactionVerificationOTP(req: Request, res: Response) {
     try {
       const userId = (req as any).userId || (req as any).user?.id;
@@ -1553,5 +1820,15 @@ export class AuthController {
       });
     }
   }
+
+  private tooManyAttempts(res: Response, error: TooManyAttemptsError) {
+    res.setHeader('Retry-After', String(error.retryAfterSeconds));
+    return res.status(429).json({
+      success: false,
+      code: error.code,
+      message: error.message,
+      data: { retryAfterSeconds: error.retryAfterSeconds },
+    });
+  }
 }
 
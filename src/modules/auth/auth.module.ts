@@ -33,6 +33,8 @@ export class AuthModule implements IModule {
     this.router.post('/login', this.controller.login.bind(this.controller));
     this.router.post('/verify-device-login', this.controller.verifyDeviceLogin.bind(this.controller));
     this.router.post('/resend-device-login-otp', this.controller.resendDeviceLoginOTP.bind(this.controller));
+    this.router.post('/verify-2fa-login', this.controller.verifyTwoFactorLogin.bind(this.controller));
+    this.router.post('/refresh', this.controller.refreshToken.bind(this.controller));
     this.router.post('/logout', authMiddleware, this.controller.logout.bind(this.controller));
     
     // Email verification (can be called without auth for new registrations)
@@ -68,6 +70,13 @@ export class AuthModule implements IModule {
     this.router.patch('/security-settings', authMiddleware, this.controller.updateSecuritySettings.bind(this.controller));
     this.router.post('/transaction-verification-otp', authMiddleware, this.controller.sendTransactionVerificationOTP.bind(this.controller));
 
+    // Two-factor authentication (TOTP)
+    this.router.get('/2fa', authMiddleware, this.controller.getTwoFactorStatus.bind(this.controller));
+    this.router.post('/2fa/setup', authMiddleware, this.controller.setupTwoFactor.bind(this.controller));
+    this.router.post('/2fa/confirm', authMiddleware, this.controller.confirmTwoFactor.bind(this.controller));
+    this.router.post('/2fa/backup-codes', authMiddleware, this.controller.regenerateTwoFactorBackupCodes.bind(this.controller));
+    this.router.post('/2fa/disable', authMiddleware, this.controller.disableTwoFactor.bind(this.controller));
+
     // Device sessions
     this.router.get('/sessions', authMiddleware, this.controller.getSessions.bind(this.controller));
     this.router.delete('/sessions/others', authMiddleware, this.controller.revokeOtherSessions.bind(this.controller));
@@ -1,3 +1,5 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import jwt, { type SignOptions } from 'jsonwebtoken';
 import prisma from '../../core/config/database.js';
@@ -17,6 +19,19 @@ import {
 } from '../../core/constants/supported-countries.js';
 import { ensureRhinoxPayId, generateUniqueRhinoxPayId } from '../../core/utils/rhinox-pay-id.service.js';
 import { initializeUserWallets } from '../../services/user-wallet-init.service.js';
+import { ThrottleService } from '../../services/throttle/index.js';
+import { ReferralService } from '../rewards/referral.service.js';
+import { assertPinNotLocked, recordPinFailure, recordPinSuccess } from '../../core/utils/transactionSecurity.js';
+import { encryptPrivateKey, decryptPrivateKey } from '../../core/utils/encryption.js';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../../core/utils/totp.js';
+import {
+  countRemainingBackupCodes,
+  regenerateBackupCodes,
+  verifyTwoFactorCode,
+} from '../../core/utils/two-factor.service.js';
+
+const DEFAULT_ACCESS_TOKEN_EXPIRES_IN = '15m';
+const DEFAULT_REFRESH_TOKEN_EXPIRES_DAYS = 30;
 
 export class EmailNotVerifiedError extends Error {
   readonly code = 'EMAIL_NOT_VERIFIED';
@@ -35,6 +50,8 @@ export class EmailNotVerifiedError extends Error {
  * Business logic for authentication
  */
 export class AuthService {
+  private throttleService = new ThrottleService();
+  private referralService = new ReferralService();
 
   /**
    * Register a new user
@@ -48,10 +65,12 @@ export class AuthService {
       lastName: string;
       countryId?: string;
       termsAccepted: boolean;
+      referralCode?: string;
     },
     ipAddress?: string,
     userAgent?: string,
-    deviceName?: string
+    deviceName?: string,
+    deviceId?: string
   ) {
     // Check if user exists
     const existingUser = await prisma.user.findUnique({
@@ -92,6 +111,9 @@ export class AuthService {
       }
     }
 
+    // Referral codes are Rhinox Pay IDs of existing users
+    const referrer = data.referralCode?.trim() ? await this.referralService.findReferrer(data.referralCode) : null;
+
     // Hash password
     const passwordHash = await bcrypt.hash(data.password, 10);
     const rhinoxPayId = await generateUniqueRhinoxPayId();
@@ -107,6 +129,16 @@ export class AuthService {
       isEmailVerified: false, // Will be verified after OTP
       rhinoxPayId,
       ...(parsedCountryId && { countryId: parsedCountryId }),
+      ...(referrer && {
+        referredBy: {
+          create: {
+            referrerId: referrer.id,
+            code: referrer.code,
+            signupDeviceId: deviceId?.trim().slice(0, 128) || null,
+            signupIp: ipAddress?.slice(0, 64) || null,
+          },
+        },
+      }),
     };
     
     const user = await prisma.user.create({
@@ -130,31 +162,8 @@ export class AuthService {
     // Send OTP email
     await sendOTPEmail(user.email, otpCode, 'email');
 
-    // Generate tokens immediately after registration
-    const tokens = this.generateTokens(user.id.toString());
-
-    // Create session
-    const sessionData: any = {
-      userId: user.id,
-      token: tokens.accessToken,
-      expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year
-    };
-
-    if (ipAddress) {
-      sessionData.ipAddress = ipAddress;
-    }
-
-    if (userAgent) {
-      sessionData.userAgent = userAgent;
-    }
-
-    if (deviceName) {
-      sessionData.deviceName = deviceName;
-    }
-
-    await prisma.session.create({
-      data: sessionData,
-    });
+    // Generate tokens and a device session immediately after registration
+    const tokens = await this.createSession(user.id, ipAddress, userAgent, deviceName);
 
     notifyRegistration(user.id);
 
@@ -189,15 +198,23 @@ export class AuthService {
     const user = await prisma.user.findUnique({
       where: { email },
     });
+
+    // Unknown emails are counted against the email so they lock out like real accounts
+    const throttleSubject = { account: user?.id ?? email, ip: ipAddress, device: deviceId };
+    await this.throttleService.assertAllowed('login', throttleSubject);
+
     if (!user) {
+      await this.throttleService.recordFailure('login', throttleSubject);
       throw new Error('Invalid credentials');
     }
 
     // Verify password
     const isValid = await bcrypt.compare(password, user.passwordHash);
     if (!isValid) {
+      await this.throttleService.recordFailure('login', throttleSubject);
       throw new Error('Invalid credentials');
     }
+    await this.throttleService.recordSuccess('login', throttleSubject);
 
     // Check if user is active
     if (!user.isActive) {
@@ -236,6 +253,10 @@ export class AuthService {
       });
     }
 
+    if (user.twoFactorEnabled) {
+      return this.initiateTwoFactorLogin(user.id, deviceName);
+    }
+
     return this.completeLogin(user, ipAddress, userAgent, deviceName);
   }
 
@@ -246,6 +267,61 @@ export class AuthService {
     }) as string;
   }
 
+  private initiateTwoFactorLogin(userId: number, deviceName?: string) {
+    const jwtSecret = process.env.JWT_SECRET || 'your-secret-key';
+    const pendingLoginToken = jwt.sign({ userId, purpose: 'two_factor_login' }, jwtSecret, {
+      expiresIn: '5m',
+    }) as string;
+
+    return {
+      requiresTwoFactor: true,
+      pendingLoginToken,
+      deviceName: deviceName || null,
+      message: 'Enter the code from your authenticator app or a backup code.',
+    };
+  }
+
+  /**
+   * Complete a login for a user with 2FA enabled (TOTP or backup code)
+   */
+  async verifyTwoFactorLogin(
+    pendingLoginToken: string,
+    code: string,
+    ipAddress?: string,
+    userAgent?: string,
+    deviceName?: string
+  ) {
+    const jwtSecret = process.env.JWT_SECRET || 'your-secret-key';
+    let payload: { userId?: number; purpose?: string };
+
+    try {
+      payload = jwt.verify(pendingLoginToken, jwtSecret) as typeof payload;
+    } catch {
+      throw new Error('Verification session expired. Please login again.');
+    }
+
+    if (payload.purpose !== 'two_factor_login' || !payload.userId) {
+      throw new Error('Invalid verification session');
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: payload.userId } });
+    if (!user || !user.isActive) {
+      throw new Error('User not found');
+    }
+
+    const throttleSubject = { account: user.id, ip: ipAddress };
+    await this.throttleService.assertAllowed('two_factor', throttleSubject);
+
+    const isValid = await verifyTwoFactorCode(user.id, code);
+    if (!isValid) {
+      await this.throttleService.recordFailure('two_factor', throttleSubject);
+      throw new Error('Invalid two-factor authentication code');
+    }
+    await this.throttleService.recordSuccess('two_factor', throttleSubject);
+
+    return this.completeLogin(user, ipAddress, userAgent, deviceName);
+  }
+
   private async initiateDeviceLoginVerification(
     user: { id: number; email: string },
     deviceId: string,
@@ -314,6 +390,9 @@ export class AuthService {
       throw new Error('User not found');
     }
 
+    const throttleSubject = { account: user.id, ip: ipAddress, device: normalizedDeviceId };
+    await this.throttleService.assertAllowed('device_login', throttleSubject);
+
     const otp = await prisma.oTP.findFirst({
       where: {
         userId: user.id,
@@ -326,8 +405,10 @@ export class AuthService {
     });
 
     if (!otp) {
+      await this.throttleService.recordFailure('device_login', throttleSubject);
       throw new Error('Invalid or expired OTP code');
     }
+    await this.throttleService.recordSuccess('device_login', throttleSubject);
 
     await prisma.oTP.update({
       where: { id: otp.id },
@@ -352,6 +433,10 @@ export class AuthService {
       },
     });
 
+    if (user.twoFactorEnabled) {
+      return this.initiateTwoFactorLogin(user.id, deviceName);
+    }
+
     return this.completeLogin(user, ipAddress, userAgent, deviceName);
   }
 
@@ -389,19 +474,7 @@ export class AuthService {
     userAgent?: string,
     deviceName?: string
   ) {
-    const tokens = this.generateTokens(user.id.toString());
-
-    const sessionData: any = {
-      userId: user.id,
-      token: tokens.accessToken,
-      expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
-    };
-
-    if (ipAddress) sessionData.ipAddress = ipAddress;
-    if (userAgent) sessionData.userAgent = userAgent;
-    if (deviceName) sessionData.deviceName = deviceName;
-
-    await prisma.session.create({ data: sessionData });
+    const tokens = await this.createSession(user.id, ipAddress, userAgent, deviceName);
     notifyLogin(user.id, ipAddress ?? null);
 
     const rhinoxPayId = await ensureRhinoxPayId(user.id);
@@ -421,11 +494,11 @@ export class AuthService {
 
   /**
    * Generate JWT access token
-   * Token doesn't expire (or very long expiration)
+   * Short-lived (JWT_EXPIRES_IN, 15 minutes by default); clients renew it with a refresh token
    */
   private generateTokens(userId: string) {
     const jwtSecret = process.env.JWT_SECRET || 'your-secret-key';
-    const expiresInValue: string = process.env.JWT_EXPIRES_IN || '365d';
+    const expiresInValue: string = process.env.JWT_EXPIRES_IN || DEFAULT_ACCESS_TOKEN_EXPIRES_IN;
     
     // Use type assertion to satisfy TypeScript strict types
     const accessToken = jwt.sign(
@@ -433,8 +506,129 @@ export class AuthService {
       jwtSecret,
       { expiresIn: expiresInValue as any }
     ) as string;
+    const { exp } = jwt.decode(accessToken) as { exp: number };
+
+    return { accessToken, accessTokenExpiresAt: new Date(exp * 1000) };
+  }
+
+  /**
+   * Start a device session: an access token plus the first refresh token of a new family.
+   * The session lives as long as its refresh token and is extended on every rotation.
+   */
+  private async createSession(userId: number, ipAddress?: string, userAgent?: string, deviceName?: string) {
+    const tokens = this.generateTokens(userId.toString());
+    const refreshToken = randomBytes(48).toString('base64url');
+    const expiresAt = this.getRefreshTokenExpiry();
+
+    await prisma.session.create({
+      data: {
+        userId,
+        token: tokens.accessToken,
+        expiresAt,
+        ...(ipAddress && { ipAddress }),
+        ...(userAgent && { userAgent }),
+        ...(deviceName && { deviceName }),
+        refreshTokens: {
+          create: {
+            userId,
+            token: this.hashRefreshToken(refreshToken),
+            familyId: randomUUID(),
+            expiresAt,
+          },
+        },
+      },
+    });
 
-    return { accessToken };
+    return { ...tokens, refreshToken, refreshTokenExpiresAt: expiresAt };
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token.
+   * Each refresh token works once. Presenting a used token again means it was copied,
+   * so the whole family is revoked and the device session ends.
+   */
+  async refreshTokens(refreshToken: string) {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { token: this.hashRefreshToken(refreshToken) },
+      include: { user: { select: { isActive: true } } },
+    });
+
+    if (!stored) {
+      throw new Error('Invalid refresh token');
+    }
+
+    if (stored.usedAt) {
+      await this.revokeRefreshTokenFamily(stored.familyId, stored.sessionId);
+      throw new Error('Refresh token has already been used. Please log in again.');
+    }
+
+    if (stored.revokedAt || !stored.sessionId || stored.expiresAt <= new Date()) {
+      throw new Error('Refresh token has expired or been revoked. Please log in again.');
+    }
+
+    if (!stored.user.isActive) {
+      throw new Error('Account is deactivated');
+    }
+
+    const now = new Date();
+    const claimed = await prisma.refreshToken.updateMany({
+      where: { id: stored.id, usedAt: null, revokedAt: null },
+      data: { usedAt: now },
+    });
+    if (claimed.count !== 1) {
+      // Another request rotated this token first
+      await this.revokeRefreshTokenFamily(stored.familyId, stored.sessionId);
+      throw new Error('Refresh token has already been used. Please log in again.');
+    }
+
+    const tokens = this.generateTokens(stored.userId.toString());
+    const nextRefreshToken = randomBytes(48).toString('base64url');
+    const expiresAt = this.getRefreshTokenExpiry();
+
+    await prisma.$transaction([
+      prisma.refreshToken.create({
+        data: {
+          userId: stored.userId,
+          token: this.hashRefreshToken(nextRefreshToken),
+          familyId: stored.familyId,
+          sessionId: stored.sessionId,
+          expiresAt,
+        },
+      }),
+      prisma.session.update({
+        where: { id: stored.sessionId },
+        data: { token: tokens.accessToken, expiresAt },
+      }),
+    ]);
+
+    return { ...tokens, refreshToken: nextRefreshToken, refreshTokenExpiresAt: expiresAt };
+  }
+
+  private async revokeRefreshTokenFamily(familyId: string, sessionId: number | null) {
+    await prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (sessionId) {
+      await prisma.session.deleteMany({ where: { id: sessionId } });
+    }
+  }
+
+  private async revokeRefreshTokens(where: Prisma.RefreshTokenWhereInput) {
+    await prisma.refreshToken.updateMany({
+      where: { ...where, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  private hashRefreshToken(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private getRefreshTokenExpiry() {
+    const parsed = Number(process.env.REFRESH_TOKEN_EXPIRES_DAYS);
+    const days = Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_REFRESH_TOKEN_EXPIRES_DAYS;
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
   }
 
   /**
@@ -598,12 +792,15 @@ export class AuthService {
   /**
    * Verify Email OTP
    */
-  async verifyEmailOTP(userId: string, code: string) {
+  async verifyEmailOTP(userId: string, code: string, ipAddress?: string) {
     const parsedUserId = typeof userId === 'string' ? parseInt(userId, 10) : userId;
     if (isNaN(parsedUserId) || parsedUserId <= 0) {
       throw new Error('Invalid user ID format');
     }
 
+    const throttleSubject = { account: parsedUserId, ip: ipAddress };
+    await this.throttleService.assertAllowed('email_otp', throttleSubject);
+
     // Find valid OTP
     const otp = await prisma.oTP.findFirst({
       where: {
@@ -621,8 +818,10 @@ export class AuthService {
     });
 
     if (!otp) {
+      await this.throttleService.recordFailure('email_otp', throttleSubject);
       throw new Error('Invalid or expired OTP code');
     }
+    await this.throttleService.recordSuccess('email_otp', throttleSubject);
 
     // Mark OTP as used
     await prisma.oTP.update({
@@ -648,17 +847,8 @@ export class AuthService {
 
     notifyEmailVerified(user.id);
 
-    // Generate tokens after verification
-    const tokens = this.generateTokens(user.id.toString());
-
-    // Create session
-    await prisma.session.create({
-      data: {
-        userId: user.id,
-        token: tokens.accessToken,
-        expiresAt: new Date(Date.now() + 3600000), // 1 hour
-      },
-    });
+    // Generate tokens and a device session after verification
+    const tokens = await this.createSession(user.id);
 
     return {
       user: {
@@ -790,10 +980,13 @@ export class AuthService {
     }
 
     // Verify password
+    await this.throttleService.assertAllowed('password', { account: user.id });
     const isValid = await bcrypt.compare(password, user.passwordHash);
     if (!isValid) {
+      await this.throttleService.recordFailure('password', { account: user.id });
       throw new Error('Invalid password');
     }
+    await this.throttleService.recordSuccess('password', { account: user.id });
 
     return {
       verified: true,
@@ -868,10 +1061,13 @@ export class AuthService {
     }
 
     // Verify old PIN
+    await assertPinNotLocked(user.id);
     const isValid = await bcrypt.compare(oldPin, user.pinHash);
     if (!isValid) {
+      await recordPinFailure(user.id);
       throw new Error('Invalid current PIN');
     }
+    await recordPinSuccess(user.id);
 
     // Hash new PIN
     const pinHash = await bcrypt.hash(newPin, 10);
@@ -971,13 +1167,17 @@ export class AuthService {
    * Verify password reset OTP
    * Validates the OTP code sent to user's email
    */
-  async verifyPasswordResetOTP(email: string, otp: string) {
+  async verifyPasswordResetOTP(email: string, otp: string, ipAddress?: string) {
     // Find user
     const user = await prisma.user.findUnique({
       where: { email },
     });
 
+    const throttleSubject = { account: user?.id ?? email, ip: ipAddress };
+    await this.throttleService.assertAllowed('password_reset_otp', throttleSubject);
+
     if (!user) {
+      await this.throttleService.recordFailure('password_reset_otp', throttleSubject);
       throw new Error('Invalid email or OTP');
     }
 
@@ -999,8 +1199,11 @@ export class AuthService {
     });
 
     if (!otpRecord) {
+      await this.throttleService.recordFailure('password_reset_otp', throttleSubject);
       throw new Error('Invalid or expired OTP');
     }
+    // The OTP is checked again by resetPassword, which clears the counters
+    await this.throttleService.releaseAttempt('password_reset_otp', throttleSubject);
 
     // Return success without marking OTP as used yet
     // OTP will be marked as used when password is actually reset
@@ -1014,13 +1217,18 @@ export class AuthService {
    * Reset password with verified OTP
    * This should be called after OTP verification
    */
-  async resetPassword(email: string, otp: string, newPassword: string) {
+  async resetPassword(email: string, otp: string, newPassword: string, ipAddress?: string) {
     // Find user
     const user = await prisma.user.findUnique({
       where: { email },
     });
 
+    // Same counters as OTP verification: the OTP can be guessed through either endpoint
+    const throttleSubject = { account: user?.id ?? email, ip: ipAddress };
+    await this.throttleService.assertAllowed('password_reset_otp', throttleSubject);
+
     if (!user) {
+      await this.throttleService.recordFailure('password_reset_otp', throttleSubject);
       throw new Error('Invalid email or OTP');
     }
 
@@ -1042,8 +1250,10 @@ export class AuthService {
     });
 
     if (!otpRecord) {
+      await this.throttleService.recordFailure('password_reset_otp', throttleSubject);
       throw new Error('Invalid or expired OTP. Please request a new password reset.');
     }
+    await this.throttleService.recordSuccess('password_reset_otp', throttleSubject);
 
     // Validate new password
     validatePasswordStrength(newPassword, {
@@ -1067,7 +1277,8 @@ export class AuthService {
       data: { isUsed: true },
     });
 
-    // Invalidate all existing sessions (force re-login)
+    // Invalidate all existing sessions and refresh tokens (force re-login)
+    await this.revokeRefreshTokens({ userId: user.id });
     await prisma.session.deleteMany({
       where: { userId: user.id },
     });
@@ -1091,6 +1302,7 @@ export class AuthService {
         verifyTransactionsWithPin: true,
         verifyTransactionsWithEmail: true,
         verifyTransactionsWith2FA: true,
+        twoFactorEnabled: true,
       },
     });
 
@@ -1102,6 +1314,7 @@ export class AuthService {
       verifyWithPin: user.verifyTransactionsWithPin,
       verifyWithEmail: user.verifyTransactionsWithEmail,
       verifyWith2FA: user.verifyTransactionsWith2FA,
+      twoFactorEnabled: user.twoFactorEnabled,
     };
   }
 
@@ -1132,7 +1345,13 @@ export class AuthService {
     }
     if (typeof settings.verifyWith2FA === 'boolean') {
       if (settings.verifyWith2FA) {
-        throw new Error('Two-factor authentication for transactions is coming soon');
+        const current = await prisma.user.findUnique({
+          where: { id: parsedUserId },
+          select: { twoFactorEnabled: true },
+        });
+        if (!current?.twoFactorEnabled) {
+          throw new Error('Set up two-factor authentication before using it for transactions');
+        }
       }
       data.verifyTransactionsWith2FA = settings.verifyWith2FA;
     }
@@ -1154,6 +1373,195 @@ export class AuthService {
     };
   }
 
+  async getTwoFactorStatus(userId: string | number) {
+    const parsedUserId = typeof userId === 'string' ? parseInt(userId, 10) : userId;
+    if (isNaN(parsedUserId) || parsedUserId <= 0) {
+      throw new Error('Invalid user ID format');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: parsedUserId },
+      select: { twoFactorEnabled: true, twoFactorConfirmedAt: true, verifyTransactionsWith2FA: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return {
+      enabled: user.twoFactorEnabled,
+      confirmedAt: user.twoFactorConfirmedAt,
+      verifyTransactionsWith2FA: user.verifyTransactionsWith2FA,
+      backupCodesRemaining: user.twoFactorEnabled ? await countRemainingBackupCodes(parsedUserId) : 0,
+    };
+  }
+
+  /**
+   * Start 2FA enrollment: generate a secret and return it with an otpauth URI for QR display.
+   * 2FA stays disabled until the first code is confirmed.
+   */
+  async beginTwoFactorEnrollment(userId: string | number) {
+    const parsedUserId = typeof userId === 'string' ? parseInt(userId, 10) : userId;
+    if (isNaN(parsedUserId) || parsedUserId <= 0) {
+      throw new Error('Invalid user ID format');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: parsedUserId },
+      select: { email: true, twoFactorEnabled: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.twoFactorEnabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: parsedUserId },
+      data: {
+        twoFactorSecret: encryptPrivateKey(secret),
+        twoFactorConfirmedAt: null,
+        twoFactorLastUsedStep: null,
+      },
+    });
+
+    const issuer = process.env.TOTP_ISSUER || 'RhinoxPay';
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, issuer),
+    };
+  }
+
+  /**
+   * Confirm enrollment with the first code from the authenticator app.
+   * Returns one-time backup codes; they are only shown here.
+   */
+  async confirmTwoFactorEnrollment(userId: string | number, code: string) {
+    const parsedUserId = typeof userId === 'string' ? parseInt(userId, 10) : userId;
+    if (isNaN(parsedUserId) || parsedUserId <= 0) {
+      throw new Error('Invalid user ID format');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: parsedUserId },
+      select: { twoFactorEnabled: true, twoFactorSecret: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (user.twoFactorEnabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    if (!user.twoFactorSecret) {
+      throw new Error('Start two-factor setup first');
+    }
+
+    const step = verifyTotp(decryptPrivateKey(user.twoFactorSecret), String(code || '').trim());
+    if (step === null) {
+      throw new Error('Invalid two-factor authentication code');
+    }
+
+    await prisma.user.update({
+      where: { id: parsedUserId },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorConfirmedAt: new Date(),
+        twoFactorLastUsedStep: step,
+      },
+    });
+
+    const backupCodes = await regenerateBackupCodes(parsedUserId);
+
+    return {
+      enabled: true,
+      backupCodes,
+      message: 'Two-factor authentication enabled. Store your backup codes somewhere safe.',
+    };
+  }
+
+  /**
+   * Replace backup codes; requires a current TOTP code
+   */
+  async regenerateTwoFactorBackupCodes(userId: string | number, code: string) {
+    const parsedUserId = typeof userId === 'string' ? parseInt(userId, 10) : userId;
+    if (isNaN(parsedUserId) || parsedUserId <= 0) {
+      throw new Error('Invalid user ID format');
+    }
+
+    if (!/^\d{6}$/.test(String(code || '').trim())) {
+      throw new Error('A code from your authenticator app is required');
+    }
+
+    await this.throttleService.assertAllowed('two_factor', { account: parsedUserId });
+    const isValid = await verifyTwoFactorCode(parsedUserId, code);
+    if (!isValid) {
+      await this.throttleService.recordFailure('two_factor', { account: parsedUserId });
+      throw new Error('Invalid two-factor authentication code');
+    }
+    await this.throttleService.recordSuccess('two_factor', { account: parsedUserId });
+
+    return {
+      backupCodes: await regenerateBackupCodes(parsedUserId),
+    };
+  }
+
+  /**
+   * Disable 2FA after re-entering the account password
+   */
+  async disableTwoFactor(userId: string | number, password: string) {
+    const parsedUserId = typeof userId === 'string' ? parseInt(userId, 10) : userId;
+    if (isNaN(parsedUserId) || parsedUserId <= 0) {
+      throw new Error('Invalid user ID format');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: parsedUserId },
+      select: { passwordHash: true, twoFactorEnabled: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!user.twoFactorEnabled) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    await this.throttleService.assertAllowed('password', { account: parsedUserId });
+    const isValid = await bcrypt.compare(password, user.passwordHash);
+    if (!isValid) {
+      await this.throttleService.recordFailure('password', { account: parsedUserId });
+      throw new Error('Invalid password');
+    }
+    await this.throttleService.recordSuccess('password', { account: parsedUserId });
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: parsedUserId },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorConfirmedAt: null,
+          twoFactorLastUsedStep: null,
+          verifyTransactionsWith2FA: false,
+        },
+      }),
+      prisma.twoFactorBackupCode.deleteMany({ where: { userId: parsedUserId } }),
+    ]);
+
+    return {
+      enabled: false,
+      message: 'Two-factor authentication disabled',
+    };
+  }
+
   async sendTransactionVerificationOTP(userId: string | number) {
     const parsedUserId = typeof userId === 'string' ? parseInt(userId, 10) : userId;
     if (isNaN(parsedUserId) || parsedUserId <= 0) {
@@ -1263,6 +1671,7 @@ export class AuthService {
       throw new Error('Session not found');
     }
 
+    await this.revokeRefreshTokens({ sessionId: session.id });
     await prisma.session.delete({
       where: { id: session.id },
     });
@@ -1283,13 +1692,16 @@ export class AuthService {
       throw new Error('Current session token is required');
     }
 
-    const result = await prisma.session.deleteMany({
-      where: {
-        userId: parsedUserId,
-        token: {
-          not: currentToken,
-        },
+    const otherSessions = {
+      userId: parsedUserId,
+      token: {
+        not: currentToken,
       },
+    };
+
+    await this.revokeRefreshTokens({ session: otherSessions });
+    const result = await prisma.session.deleteMany({
+      where: otherSessions,
     });
 
     return {
@@ -1305,6 +1717,7 @@ export class AuthService {
     }
 
     if (token) {
+      await this.revokeRefreshTokens({ session: { userId: parsedUserId, token } });
       await prisma.session.deleteMany({
         where: {
           userId: parsedUserId,
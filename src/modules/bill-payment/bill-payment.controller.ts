@@ -399,7 +399,7 @@ export class BillPaymentController {
         });
       }
 
-      const { transactionId, pin, emailOtp } = req.body;
+      const { transactionId, pin, emailOtp, totpCode } = req.body;
       if (!transactionId) {
         return res.status(400).json({
           success: false,
@@ -407,7 +407,7 @@ export class BillPaymentController {
         });
       }
 
-      const result = await this.service.confirmBillPayment(userId, transactionId, pin, emailOtp);
+      const result = await this.service.confirmBillPayment(userId, transactionId, pin, emailOtp, totpCode);
       return res.json({
         success: true,
         data: result,
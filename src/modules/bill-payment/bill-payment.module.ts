@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { type IModule } from '../../core/types/module.types.js';
+import { idempotencyMiddleware } from '../../core/middleware/idempotency.middleware.js';
 import { BillPaymentController } from './bill-payment.controller.js';
 import { BillPaymentService } from './bill-payment.service.js';
 
@@ -36,7 +37,7 @@ export class BillPaymentModule implements IModule {
     this.router.post('/validate-account', this.controller.validateAccount.bind(this.controller));
 
     // Payment flow
-    this.router.post('/initiate', this.controller.initiatePayment.bind(this.controller));
+    this.router.post('/initiate', idempotencyMiddleware, this.controller.initiatePayment.bind(this.controller));
     this.router.post('/confirm', this.controller.confirmPayment.bind(this.controller));
     this.router.get(
       '/status/:transactionId',
@@ -2,6 +2,8 @@ import { Decimal } from 'decimal.js';
 import { randomBytes } from 'crypto';
 import prisma from '../../core/config/database.js';
 import { WalletService } from '../wallet/wallet.service.js';
+import { FeeService } from '../fees/fees.service.js';
+import { LimitService } from '../limits/limits.service.js';
 import { PalmPayBillPaymentService } from '../../services/palmpay/palmpay.billpayment.service.js';
 import {
   createMaintenanceError,
@@ -30,7 +32,15 @@ import {
 import { resolveFlutterwaveBillerLogo } from '../../services/flutterwave/flutterwave.bill-logos.js';
 import { notifyBillPayment } from '../../core/utils/notification.events.js';
 import { assertTransactionSecurity } from '../../core/utils/transactionSecurity.js';
+import { RiskService } from '../../services/risk/index.js';
+import { REVIEW_HOLD_STATUS } from '../../services/review/index.js';
 import { RewardFulfillmentService } from '../rewards/reward-fulfillment.service.js';
+import {
+  SystemAccount,
+  assertAvailableBalance,
+  debitWallet,
+  refundWallet,
+} from '../../services/ledger/index.js';
 
 /**
  * Bill Payment Service
@@ -42,6 +52,9 @@ export class BillPaymentService {
   private flutterwaveBillPaymentService: FlutterwaveBillPaymentService;
   private flutterwaveWebhookService: FlutterwaveWebhookService;
   private rewardFulfillmentService: RewardFulfillmentService;
+  private feeService: FeeService;
+  private limitService: LimitService;
+  private riskService: RiskService;
 
   constructor() {
     this.walletService = new WalletService();
@@ -49,6 +62,9 @@ export class BillPaymentService {
     this.flutterwaveBillPaymentService = new FlutterwaveBillPaymentService();
     this.flutterwaveWebhookService = new FlutterwaveWebhookService();
     this.rewardFulfillmentService = new RewardFulfillmentService();
+    this.feeService = new FeeService();
+    this.limitService = new LimitService();
+    this.riskService = new RiskService();
   }
 
   private generateReference(): string {
@@ -81,23 +97,31 @@ export class BillPaymentService {
     };
   }
 
-  private calculateFee(amount: number, currency: string): number {
-    if (currency === 'NGN') {
-      return 0;
-    }
-
-    const feePercent = 0.01;
-    const calculatedFee = amount * feePercent;
-
-    const minFees: { [key: string]: number } = {
-      NGN: 20,
-      USD: 0.1,
-      KES: 2,
-      GHS: 0.5,
-    };
+  private async calculateFee(
+    userId: number,
+    amount: Decimal,
+    currency: string,
+    categoryCode: string
+  ): Promise<Decimal> {
+    const quote = await this.feeService.quote({
+      serviceType: 'bill_payment',
+      amount,
+      currency,
+      channel: categoryCode,
+      countryCode: await this.resolveFeeCountryCode(userId, currency),
+    });
+    return quote.fee;
+  }
 
-    const minFee = minFees[currency] || 0.1;
-    return Math.max(calculatedFee, minFee);
+  /**
+   * Country whose fee rules apply: the user's country, else the country of the wallet currency
+   */
+  private async resolveFeeCountryCode(userId: number, currency: string): Promise<string | null> {
+    const [user, currencyRef] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { country: { select: { code: true } } } }),
+      prisma.currency.findUnique({ where: { code: currency }, select: { country: { select: { code: true } } } }),
+    ]);
+    return user?.country?.code || currencyRef?.country?.code || null;
   }
 
   private isFixedAmountItem(item: { isFixAmount?: number; raw?: { isFixAmount?: number } }): boolean {
@@ -722,12 +746,20 @@ export class BillPaymentService {
       : data.amount;
 
     const amount = this.resolvePalmPayAmount(sceneCode, resolvedAmountInput, item);
-    const fee = isRewardFulfillment ? 0 : this.calculateFee(amount.toNumber(), data.currency);
+    const fee = isRewardFulfillment
+      ? new Decimal(0)
+      : await this.calculateFee(userIdNum, amount, data.currency, data.categoryCode);
     const totalAmount = amount.plus(fee);
 
     if (!isRewardFulfillment) {
-      const walletBalance = new Decimal(wallet.balance);
-      if (walletBalance.lessThan(totalAmount)) {
+      await this.limitService.assertWithinLimits(userIdNum, {
+        serviceType: 'bill_payment',
+        currency: data.currency,
+        amount,
+      });
+
+      const availableBalance = new Decimal(wallet.balance).minus(new Decimal(wallet.lockedBalance));
+      if (availableBalance.lessThan(totalAmount)) {
         throw new Error('Insufficient balance');
       }
     }
@@ -750,7 +782,7 @@ export class BillPaymentService {
         status: 'pending',
         amount: amount.toNumber(),
         currency: data.currency,
-        fee: fee,
+        fee: fee.toNumber(),
         reference,
         description: `${categoryName} - ${biller.billerName}`,
         channel: sceneCode,
@@ -784,9 +816,21 @@ export class BillPaymentService {
       },
     });
 
+    const riskAssessment = isRewardFulfillment
+      ? null
+      : await this.riskService.assess({
+          userId: userIdNum,
+          serviceType: 'bill_payment',
+          amount,
+          currency: data.currency,
+          channel: transaction.channel,
+          transactionIds: [transaction.id],
+        });
+
     return {
       transactionId: transaction.id,
       reference: transaction.reference,
+      status: riskAssessment?.decision === 'hold' ? REVIEW_HOLD_STATUS : transaction.status,
       category: {
         id: category?.id || 0,
         code: sceneCode,
@@ -949,12 +993,20 @@ export class BillPaymentService {
       : data.amount;
 
     const amount = this.resolveFlutterwaveAmount(categoryCode, resolvedAmountInput, item);
-    const fee = isRewardFulfillment ? 0 : this.calculateFee(amount.toNumber(), data.currency);
+    const fee = isRewardFulfillment
+      ? new Decimal(0)
+      : await this.calculateFee(userIdNum, amount, data.currency, data.categoryCode);
     const totalAmount = amount.plus(fee);
 
     if (!isRewardFulfillment) {
-      const walletBalance = new Decimal(wallet.balance);
-      if (walletBalance.lessThan(totalAmount)) {
+      await this.limitService.assertWithinLimits(userIdNum, {
+        serviceType: 'bill_payment',
+        currency: data.currency,
+        amount,
+      });
+
+      const availableBalance = new Decimal(wallet.balance).minus(new Decimal(wallet.lockedBalance));
+      if (availableBalance.lessThan(totalAmount)) {
         throw new Error('Insufficient balance');
       }
     }
@@ -1001,7 +1053,7 @@ export class BillPaymentService {
         status: 'pending',
         amount: amount.toNumber(),
         currency: data.currency,
-        fee: fee,
+        fee: fee.toNumber(),
         reference,
         description: `${categoryName} - ${billerName}`,
         channel: categoryCode,
@@ -1040,9 +1092,21 @@ export class BillPaymentService {
       },
     });
 
+    const riskAssessment = isRewardFulfillment
+      ? null
+      : await this.riskService.assess({
+          userId: userIdNum,
+          serviceType: 'bill_payment',
+          amount,
+          currency: data.currency,
+          channel: transaction.channel,
+          transactionIds: [transaction.id],
+        });
+
     return {
       transactionId: transaction.id,
       reference: transaction.reference,
+      status: riskAssessment?.decision === 'hold' ? REVIEW_HOLD_STATUS : transaction.status,
       category: {
         id: category?.id || 0,
         code: categoryCode,
@@ -1088,7 +1152,9 @@ export class BillPaymentService {
     userId: string | number,
     transactionId: string | number,
     pin?: string,
-    emailOtp?: string
+    emailOtp?: string,
+    totpCode?: string,
+    options: { preAuthorized?: boolean } = {}
   ) {
     const userIdNum = typeof userId === 'string' ? parseInt(userId, 10) : userId;
     const txIdNum = typeof transactionId === 'string' ? parseInt(transactionId, 10) : transactionId;
@@ -1124,13 +1190,30 @@ export class BillPaymentService {
       throw new Error('Transaction is not a bill payment');
     }
 
+    if (transaction.status === REVIEW_HOLD_STATUS) {
+      throw new Error('This transaction is on hold pending review');
+    }
+
     if (transaction.status !== 'pending') {
       throw new Error(`Transaction is already ${transaction.status}`);
     }
 
-    await assertTransactionSecurity(transaction.wallet.user, { pin, emailOtp });
+    // Scheduled payments were authorized when the schedule was created
+    if (!options.preAuthorized) {
+      await assertTransactionSecurity(transaction.wallet.user, { pin, emailOtp, totpCode });
+    }
 
     const metadata = transaction.metadata as any;
+
+    // Pending bill payments do not count toward the caps, so check again now that it is confirmed
+    if (!metadata?.isRewardFulfillment) {
+      await this.limitService.assertWithinLimits(userIdNum, {
+        serviceType: 'bill_payment',
+        currency: transaction.currency,
+        amount: transaction.amount.toString(),
+      });
+    }
+
     if (metadata?.provider === 'flutterwave' || isFlutterwaveBillCategory(metadata?.categoryCode)) {
       return this.confirmFlutterwaveBillPayment(userIdNum, txIdNum, transaction, metadata);
     }
@@ -1150,8 +1233,10 @@ export class BillPaymentService {
     const isRewardFulfillment = Boolean(metadata?.isRewardFulfillment && metadata?.rewardClaimId);
 
     if (!isRewardFulfillment) {
-      const walletBalance = new Decimal(transaction.wallet.balance);
-      if (walletBalance.lessThan(totalAmount)) {
+      const availableBalance = new Decimal(transaction.wallet.balance).minus(
+        new Decimal(transaction.wallet.lockedBalance)
+      );
+      if (availableBalance.lessThan(totalAmount)) {
         throw new Error('Insufficient balance');
       }
     }
@@ -1183,14 +1268,17 @@ export class BillPaymentService {
           },
         })
       : await prisma.$transaction(async (tx) => {
-          await tx.wallet.update({
-            where: { id: transaction.walletId },
-            data: {
-              balance: {
-                decrement: totalAmount.toNumber(),
-              },
-            },
+          await debitWallet(tx, {
+            walletId: transaction.walletId,
+            amount,
+            fee,
+            currency: transaction.currency,
+            to: SystemAccount.PROVIDER_FLOAT,
+            transactionId: txIdNum,
+            reference: transaction.reference,
+            description: `Bill payment ${transaction.reference}`,
           });
+          await assertAvailableBalance(tx, transaction.walletId);
 
           return tx.transaction.update({
             where: { id: txIdNum },
@@ -1243,13 +1331,15 @@ export class BillPaymentService {
         });
       } else {
         await prisma.$transaction(async (tx) => {
-          await tx.wallet.update({
-            where: { id: transaction.walletId },
-            data: {
-              balance: {
-                increment: totalAmount.toNumber(),
-              },
-            },
+          await refundWallet(tx, {
+            walletId: transaction.walletId,
+            amount,
+            fee,
+            currency: transaction.currency,
+            from: SystemAccount.PROVIDER_FLOAT,
+            transactionId: txIdNum,
+            reference: transaction.reference,
+            description: `Bill payment refund ${transaction.reference}`,
           });
           await tx.transaction.update({
             where: { id: txIdNum },
@@ -1291,13 +1381,15 @@ export class BillPaymentService {
       !isRewardFulfillment
     ) {
       await prisma.$transaction(async (tx) => {
-        await tx.wallet.update({
-          where: { id: transaction.walletId },
-          data: {
-            balance: {
-              increment: totalAmount.toNumber(),
-            },
-          },
+        await refundWallet(tx, {
+          walletId: transaction.walletId,
+          amount,
+          fee,
+          currency: transaction.currency,
+          from: SystemAccount.PROVIDER_FLOAT,
+          transactionId: txIdNum,
+          reference: transaction.reference,
+          description: `Bill payment refund ${transaction.reference}`,
         });
         await tx.transaction.update({
           where: { id: txIdNum },
@@ -1433,8 +1525,10 @@ export class BillPaymentService {
     const isRewardFulfillment = Boolean(metadata?.isRewardFulfillment && metadata?.rewardClaimId);
 
     if (!isRewardFulfillment) {
-      const walletBalance = new Decimal(transaction.wallet.balance);
-      if (walletBalance.lessThan(totalAmount)) {
+      const availableBalance = new Decimal(transaction.wallet.balance).minus(
+        new Decimal(transaction.wallet.lockedBalance)
+      );
+      if (availableBalance.lessThan(totalAmount)) {
         throw new Error('Insufficient balance');
       }
     }
@@ -1493,14 +1587,17 @@ export class BillPaymentService {
           },
         })
       : await prisma.$transaction(async (tx) => {
-          await tx.wallet.update({
-            where: { id: transaction.walletId },
-            data: {
-              balance: {
-                decrement: totalAmount.toNumber(),
-              },
-            },
+          await debitWallet(tx, {
+            walletId: transaction.walletId,
+            amount,
+            fee,
+            currency: transaction.currency,
+            to: SystemAccount.PROVIDER_FLOAT,
+            transactionId: txIdNum,
+            reference: transaction.reference,
+            description: `Bill payment ${transaction.reference}`,
           });
+          await assertAvailableBalance(tx, transaction.walletId);
 
           return tx.transaction.update({
             where: { id: txIdNum },
@@ -1555,13 +1652,15 @@ export class BillPaymentService {
         });
       } else {
         await prisma.$transaction(async (tx) => {
-          await tx.wallet.update({
-            where: { id: transaction.walletId },
-            data: {
-              balance: {
-                increment: totalAmount.toNumber(),
-              },
-            },
+          await refundWallet(tx, {
+            walletId: transaction.walletId,
+            amount,
+            fee,
+            currency: transaction.currency,
+            from: SystemAccount.PROVIDER_FLOAT,
+            transactionId: txIdNum,
+            reference: transaction.reference,
+            description: `Bill payment refund ${transaction.reference}`,
           });
           await tx.transaction.update({
             where: { id: txIdNum },
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { type IModule } from '../../core/types/module.types.js';
+import { idempotencyMiddleware } from '../../core/middleware/idempotency.middleware.js';
 import { BushaController } from './busha.controller.js';
 
 export class BushaModule implements IModule {
@@ -18,9 +19,9 @@ export class BushaModule implements IModule {
     this.router.get('/currencies/:code', this.controller.currencyLimits.bind(this.controller));
     this.router.get('/deposit-address/:currency/:blockchain', this.controller.depositAddress.bind(this.controller));
     this.router.post('/buy/preview', this.controller.previewBuy.bind(this.controller));
-    this.router.post('/buy', this.controller.buy.bind(this.controller));
+    this.router.post('/buy', idempotencyMiddleware, this.controller.buy.bind(this.controller));
     this.router.post('/sell/preview', this.controller.previewSell.bind(this.controller));
-    this.router.post('/sell', this.controller.sell.bind(this.controller));
+    this.router.post('/sell', idempotencyMiddleware, this.controller.sell.bind(this.controller));
     this.router.post('/receive', this.controller.receive.bind(this.controller));
     this.router.post('/send/preview', this.controller.previewSend.bind(this.controller));
     this.router.post('/send', this.controller.send.bind(this.controller));
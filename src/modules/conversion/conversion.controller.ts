@@ -288,7 +288,7 @@ export class ConversionController {
   async confirmConversion(req: Request, res: Response) {
     try {
       const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
-      const { conversionReference, pin, emailOtp } = req.body;
+      const { conversionReference, pin, emailOtp, totpCode } = req.body;
 
       if (!userId) {
         return res.status(401).json({
@@ -315,7 +315,8 @@ export class ConversionController {
         userId,
         conversionReference,
         pin,
-        emailOtp
+        emailOtp,
+        totpCode
       );
 
       return res.json({
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { type IModule } from '../../core/types/module.types.js';
+import { idempotencyMiddleware } from '../../core/middleware/idempotency.middleware.js';
 import { ConversionController } from './conversion.controller.js';
 import { ConversionService } from './conversion.service.js';
 
@@ -28,7 +29,7 @@ export class ConversionModule implements IModule {
   private setupRoutes(): void {
     // Conversion routes (all require authentication)
     this.router.get('/calculate', this.controller.calculateConversion.bind(this.controller));
-    this.router.post('/initiate', this.controller.initiateConversion.bind(this.controller));
+    this.router.post('/initiate', idempotencyMiddleware, this.controller.initiateConversion.bind(this.controller));
     this.router.post('/confirm', this.controller.confirmConversion.bind(this.controller));
     this.router.get('/receipt/:conversionReference', this.controller.getReceipt.bind(this.controller));
   }
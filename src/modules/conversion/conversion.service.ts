@@ -4,9 +4,20 @@ import bcrypt from 'bcryptjs';
 import prisma from '../../core/config/database.js';
 import { WalletService } from '../wallet/wallet.service.js';
 import { ExchangeService } from '../exchange/exchange.service.js';
-import { sendDepositSuccessEmail } from '../../core/utils/transaction-email.service.js';
+import { FeeService } from '../fees/fees.service.js';
+import { LimitService } from '../limits/limits.service.js';
+import { buildDepositSuccessEmail } from '../../core/utils/transaction-email.service.js';
 import { notifyConversion } from '../../core/utils/notification.events.js';
 import { assertTransactionSecurity } from '../../core/utils/transactionSecurity.js';
+import { RiskService } from '../../services/risk/index.js';
+import { REVIEW_HOLD_STATUS, ReviewService, type ReviewLock } from '../../services/review/index.js';
+import {
+  SystemAccount,
+  assertAvailableBalance,
+  creditWallet,
+  debitWallet,
+  postLedgerEntry,
+} from '../../services/ledger/index.js';
 
 /**
  * Conversion Service
@@ -15,10 +26,18 @@ import { assertTransactionSecurity } from '../../core/utils/transactionSecurity.
 export class ConversionService {
   private walletService: WalletService;
   private exchangeService: ExchangeService;
+  private feeService: FeeService;
+  private limitService: LimitService;
+  private riskService: RiskService;
+  private reviewService: ReviewService;
 
   constructor() {
     this.walletService = new WalletService();
     this.exchangeService = new ExchangeService();
+    this.feeService = new FeeService();
+    this.limitService = new LimitService();
+    this.riskService = new RiskService();
+    this.reviewService = new ReviewService();
   }
 
   /**
@@ -79,15 +98,21 @@ export class ConversionService {
       throw new Error(`Insufficient balance. Available: ${availableBalance.toString()} ${fromCurrency}`);
     }
 
-    // Get exchange rate
-    const exchangeRate = await this.exchangeService.getExchangeRate(fromCurrency, toCurrency);
+    // Get exchange rate; conversions never run on a stale rate
+    const exchangeRate = await this.exchangeService.getExchangeRate(fromCurrency, toCurrency, { requireFresh: true });
     const rate = new Decimal(exchangeRate.rate);
 
     // Calculate converted amount (before fee)
     const convertedAmount = amountDecimal.times(rate);
 
     // Calculate fee (in destination currency)
-    const fee = this.calculateConversionFee(convertedAmount, toCurrency);
+    const feeQuote = await this.feeService.quote({
+      serviceType: 'conversion',
+      amount: convertedAmount,
+      currency: toCurrency,
+      channel: 'conversion',
+    });
+    const fee = feeQuote.fee;
 
     // Calculate received amount (after fee)
     const receivedAmount = convertedAmount.minus(fee);
@@ -112,6 +137,9 @@ export class ConversionService {
       feeCurrency: toCurrency,
       exchangeRate: exchangeRate.rate,
       inverseRate: exchangeRate.inverseRate,
+      rateSource: exchangeRate.source,
+      rateAsOf: exchangeRate.asOf,
+      rateRoute: exchangeRate.route,
       toWalletExists: !!toWallet,
     };
   }
@@ -135,6 +163,12 @@ export class ConversionService {
       data.amount
     );
 
+    await this.limitService.assertWithinLimits(userId, {
+      serviceType: 'conversion',
+      currency: data.fromCurrency,
+      amount: data.amount,
+    });
+
     // Get or create wallets
     let fromWallet;
     try {
@@ -192,6 +226,9 @@ export class ConversionService {
           fromWalletId: fromWallet.id,
           debitTransactionId: debitTransaction.id,
           exchangeRate: calculation.exchangeRate,
+          rateSource: calculation.rateSource,
+          rateAsOf: calculation.rateAsOf.toISOString(),
+          rateRoute: calculation.rateRoute,
         },
       },
     });
@@ -207,6 +244,16 @@ export class ConversionService {
       },
     });
 
+    const riskAssessment = await this.riskService.assess({
+      userId: parseInt(userId, 10),
+      serviceType: 'conversion',
+      amount: data.amount,
+      currency: data.fromCurrency,
+      channel: 'conversion',
+      transactionIds: [debitTransaction.id, creditTransaction.id],
+    });
+    const status = riskAssessment?.decision === 'hold' ? REVIEW_HOLD_STATUS : debitTransaction.status;
+
     return {
       conversionReference: reference,
       debitTransaction: {
@@ -214,7 +261,7 @@ export class ConversionService {
         reference: debitTransaction.reference,
         amount: debitTransaction.amount.toString(),
         currency: debitTransaction.currency,
-        status: debitTransaction.status,
+        status,
       },
       creditTransaction: {
         id: creditTransaction.id,
@@ -223,7 +270,7 @@ export class ConversionService {
         currency: creditTransaction.currency,
         fee: creditTransaction.fee.toString(),
         receivedAmount: calculation.receivedAmount,
-        status: creditTransaction.status,
+        status,
       },
       exchangeRate: calculation.exchangeRate,
       fee: calculation.fee,
@@ -238,7 +285,8 @@ export class ConversionService {
     userId: string,
     conversionReference: string,
     pin?: string,
-    emailOtp?: string
+    emailOtp?: string,
+    totpCode?: string
   ) {
     // Parse userId to integer
     const parsedUserId = typeof userId === 'string' ? parseInt(userId, 10) : userId;
@@ -280,13 +328,24 @@ export class ConversionService {
       throw new Error('Unauthorized access to conversion');
     }
 
+    if (debitTx.status === REVIEW_HOLD_STATUS) {
+      throw new Error('This conversion is on hold pending review');
+    }
+
     // Verify both transactions are pending
     if (debitTx.status !== 'pending' || creditTx.status !== 'pending') {
       throw new Error(`Conversion is already ${debitTx.status}`);
     }
 
     // Verify configured security requirements
-    await assertTransactionSecurity(debitTx.wallet.user, { pin, emailOtp });
+    await assertTransactionSecurity(debitTx.wallet.user, { pin, emailOtp, totpCode });
+
+    // Pending conversions do not count toward the caps, so check again now that it is confirmed
+    await this.limitService.assertWithinLimits(parsedUserId, {
+      serviceType: 'conversion',
+      currency: debitTx.currency,
+      amount: debitTx.amount.toString(),
+    });
 
     // Check source wallet balance
     const fromBalance = new Decimal(debitTx.wallet.balance);
@@ -298,6 +357,134 @@ export class ConversionService {
       throw new Error('Insufficient balance for conversion');
     }
 
+    // Large conversions wait in the review queue with the source funds locked
+    if (!(debitTx.metadata as any)?.reviewApproved && this.reviewService.requiresReview(fromAmount, debitTx.currency)) {
+      const review = await this.reviewService.holdForReview({
+        userId: parsedUserId,
+        subjectType: 'conversion',
+        transactionIds: [debitTx.id, creditTx.id],
+        amount: fromAmount,
+        currency: debitTx.currency,
+        reason: 'amount_threshold',
+        stage: 'pre_payout',
+        reference: conversionReference,
+        lock: { walletId: debitTx.walletId, amount: fromAmount },
+      });
+
+      return {
+        conversionReference,
+        fromTransaction: {
+          id: debitTx.id,
+          reference: debitTx.reference,
+          amount: debitTx.amount.toString(),
+          currency: debitTx.currency,
+          status: REVIEW_HOLD_STATUS,
+        },
+        toTransaction: {
+          id: creditTx.id,
+          reference: creditTx.reference,
+          amount: creditTx.amount.toString(),
+          currency: creditTx.currency,
+          fee: creditTx.fee.toString(),
+          status: REVIEW_HOLD_STATUS,
+        },
+        reviewId: review.id,
+        exchangeRate: (creditTx.metadata as any)?.exchangeRate || null,
+      };
+    }
+
+    return this.settleConversion(debitTx, creditTx, parsedUserId, conversionReference);
+
+  }
+
+  /**
+   * Settle a conversion approved in the review queue.
+   * The review's funds lock is released together with the wallet debit.
+   */
+  async completeReviewedConversion(debitTransactionId: number, reviewLock: ReviewLock) {
+    const debitTx = await prisma.transaction.findUnique({
+      where: { id: debitTransactionId },
+      include: { wallet: { include: { user: true } } },
+    });
+    const creditTransactionId = (debitTx?.metadata as any)?.creditTransactionId;
+    const creditTx = creditTransactionId
+      ? await prisma.transaction.findUnique({
+          where: { id: Number(creditTransactionId) },
+          include: { wallet: { include: { user: true } } },
+        })
+      : null;
+
+    if (!debitTx || !creditTx) {
+      throw new Error('Invalid conversion transaction structure');
+    }
+
+    if (debitTx.status !== REVIEW_HOLD_STATUS) {
+      throw new Error(`Conversion is ${debitTx.status}, not on hold`);
+    }
+
+    const conversionReference = (debitTx.metadata as any)?.conversionReference;
+    return this.settleConversion(debitTx, creditTx, debitTx.wallet.userId, conversionReference, reviewLock);
+  }
+
+  /**
+   * Move the funds for a confirmed conversion and mark both legs completed.
+   * Fails before any status change if the available balance no longer covers the source amount.
+   */
+  private async settleConversion(
+    debitTx: any,
+    creditTx: any,
+    parsedUserId: number,
+    conversionReference: string,
+    reviewLock?: ReviewLock
+  ) {
+    const fromAmount = new Decimal(debitTx.amount);
+
+    // Destination amounts (fee is charged in the destination currency)
+    const toFee = new Decimal(creditTx.fee);
+    const toAmount = new Decimal(creditTx.amount);
+    const creditedAmount = toAmount.minus(toFee);
+
+    await prisma.$transaction(async (tx) => {
+      if (reviewLock) {
+        await this.reviewService.releaseLock(tx, reviewLock);
+      }
+
+      // Source leg: wallet → FX pool in the source currency
+      await debitWallet(tx, {
+        walletId: debitTx.walletId,
+        amount: fromAmount,
+        currency: debitTx.currency,
+        to: SystemAccount.FX,
+        transactionId: debitTx.id,
+        reference: debitTx.reference,
+        description: `Conversion ${debitTx.reference}`,
+      });
+      await assertAvailableBalance(tx, debitTx.walletId);
+
+      // Destination leg: FX pool → wallet, fee retained by the platform
+      await creditWallet(tx, {
+        walletId: creditTx.walletId,
+        amount: creditedAmount,
+        currency: creditTx.currency,
+        from: SystemAccount.FX,
+        transactionId: creditTx.id,
+        reference: creditTx.reference,
+        description: `Conversion ${creditTx.reference}`,
+      });
+
+      if (toFee.gt(0)) {
+        await postLedgerEntry(tx, {
+          debit: { system: SystemAccount.FX },
+          credit: { system: SystemAccount.FEES },
+          amount: toFee,
+          currency: creditTx.currency,
+          transactionId: creditTx.id,
+          reference: creditTx.reference,
+          description: `Conversion ${creditTx.reference} (fee)`,
+        });
+      }
+    });
+
     // Update both transactions to completed
     const now = new Date();
     
@@ -331,32 +518,13 @@ export class ConversionService {
       },
     });
 
-    // Update source wallet (debit)
-    const newFromBalance = fromBalance.minus(fromAmount);
-    await prisma.wallet.update({
-      where: { id: debitTx.walletId },
-      data: {
-        balance: newFromBalance.toNumber(),
-      },
-    });
-
-    // Update destination wallet (credit)
-    const toBalance = new Decimal(creditTx.wallet.balance);
-    const toFee = new Decimal(creditTx.fee);
-    const toAmount = new Decimal(creditTx.amount);
-    const creditedAmount = toAmount.minus(toFee);
-    const newToBalance = toBalance.plus(creditedAmount);
-
-    await prisma.wallet.update({
-      where: { id: creditTx.walletId },
-      data: {
-        balance: newToBalance.toNumber(),
-      },
-    });
-
-    // Send success email
-    if (updatedCreditTx.wallet.user.email) {
-      await sendDepositSuccessEmail(updatedCreditTx.wallet.user.email, {
+    notifyConversion(parsedUserId, {
+      fromAmount: updatedDebitTx.amount.toString(),
+      fromCurrency: updatedDebitTx.currency,
+      toAmount: creditedAmount.toString(),
+      toCurrency: updatedCreditTx.currency,
+      reference: conversionReference,
+      email: buildDepositSuccessEmail({
         amount: updatedCreditTx.amount.toString(),
         currency: updatedCreditTx.currency,
         creditedAmount: creditedAmount.toString(),
@@ -368,15 +536,7 @@ export class ConversionService {
         paymentMethod: 'Currency Conversion',
         provider: null,
         date: now.toLocaleString(),
-      });
-    }
-
-    notifyConversion(parsedUserId, {
-      fromAmount: updatedDebitTx.amount.toString(),
-      fromCurrency: updatedDebitTx.currency,
-      toAmount: creditedAmount.toString(),
-      toCurrency: updatedCreditTx.currency,
-      reference: conversionReference,
+      }),
     });
 
     return {
@@ -482,31 +642,6 @@ export class ConversionService {
     };
   }
 
-  /**
-   * Calculate conversion fee
-   */
-  private calculateConversionFee(amount: Decimal, currency: string): Decimal {
-    // Fee calculation: 0.25% or minimum fee based on currency
-    const feePercent = 0.0025; // 0.25%
-    const calculatedFee = amount.times(feePercent);
-    
-    // Minimum fees by currency
-    const minFees: { [key: string]: number } = {
-      NGN: 500,
-      KES: 50,
-      GHS: 5,
-      ZAR: 20,
-      TZS: 500,
-      UGX: 2000,
-      USD: 1,
-      EUR: 1,
-      GBP: 1,
-    };
-
-    const minFee = new Decimal(minFees[currency] || 1);
-    return calculatedFee.greaterThan(minFee) ? calculatedFee : minFee;
-  }
-
   /**
    * Generate unique reference number
    */
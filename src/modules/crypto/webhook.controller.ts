@@ -1,12 +1,12 @@
 import { type Request, type Response } from 'express';
-import { Decimal } from 'decimal.js';
-import prisma from '../../core/config/database.js';
-import { processBlockchainWebhook } from '../../jobs/tatum/process-webhook.job.js';
+import { WebhookInboxService } from '../../services/webhook-inbox/index.js';
 
 /**
  * Webhook Controller — Tatum v4 deposit notifications
  */
 export class WebhookController {
+  private readonly webhookInbox = new WebhookInboxService();
+
   /**
    * @swagger
    * /api/crypto/webhooks/tatum:
@@ -16,18 +16,18 @@ export class WebhookController {
    */
   async handleWebhook(req: Request, res: Response) {
     try {
-      const rawWebhook = await prisma.tatumRawWebhook.create({
-        data: {
-          rawData: JSON.stringify(req.body),
-          headers: JSON.stringify(req.headers),
-          ipAddress: (req.ip || req.socket.remoteAddress) ?? null,
-          userAgent: req.get('user-agent') ?? null,
-        },
+      const { event, duplicate } = await this.webhookInbox.receive('tatum', req.body, {
+        headers: req.headers,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
       });
 
-      this.processWebhook(req.body, rawWebhook.id).catch((error) => {
-        console.error('Webhook processing error:', error);
-      });
+      // Processed after responding; failures are retried by the webhook inbox job
+      if (!duplicate) {
+        this.webhookInbox.process(event.id).catch((error) => {
+          console.error('Webhook processing error:', error);
+        });
+      }
 
       return res.status(200).json({
         success: true,
@@ -41,59 +41,4 @@ export class WebhookController {
       });
     }
   }
-
-  private async processWebhook(webhookData: Record<string, unknown>, rawWebhookId: number) {
-    try {
-      await prisma.webhookResponse.create({
-        data: {
-          accountId: webhookData.accountId ? String(webhookData.accountId) : null,
-          subscriptionType: webhookData.subscriptionType
-            ? String(webhookData.subscriptionType)
-            : null,
-          amount: webhookData.amount ? new Decimal(String(webhookData.amount)) : null,
-          reference: webhookData.reference ? String(webhookData.reference) : null,
-          currency: webhookData.currency ? String(webhookData.currency) : null,
-          txId: webhookData.txId ? String(webhookData.txId) : null,
-          blockHeight: webhookData.blockHeight
-            ? BigInt(String(webhookData.blockHeight))
-            : null,
-          blockHash: webhookData.blockHash ? String(webhookData.blockHash) : null,
-          fromAddress:
-            (webhookData.from as string) ||
-            (webhookData.counterAddress as string) ||
-            null,
-          toAddress:
-            (webhookData.to as string) || (webhookData.address as string) || null,
-          contractAddress: webhookData.contractAddress
-            ? String(webhookData.contractAddress)
-            : null,
-          transactionDate: webhookData.timestamp
-            ? new Date(Number(webhookData.timestamp) * 1000)
-            : null,
-        },
-      });
-
-      const result = await processBlockchainWebhook(webhookData);
-
-      await prisma.tatumRawWebhook.update({
-        where: { id: rawWebhookId },
-        data: {
-          processed: true,
-          processedAt: new Date(),
-          errorMessage: result.processed ? null : result.reason ?? 'skipped',
-        },
-      });
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : String(error);
-      await prisma.tatumRawWebhook.update({
-        where: { id: rawWebhookId },
-        data: {
-          processed: true,
-          processedAt: new Date(),
-          errorMessage: message,
-        },
-      });
-      throw error;
-    }
-  }
 }
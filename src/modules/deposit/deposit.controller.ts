@@ -529,7 +529,7 @@ export class DepositController {
   async confirmDeposit(req: Request, res: Response) {
     try {
       const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
-      const { transactionId, pin, emailOtp } = req.body;
+      const { transactionId, pin, emailOtp, totpCode } = req.body;
 
       if (!userId) {
         return res.status(401).json({
@@ -552,7 +552,7 @@ export class DepositController {
         });
       }
 
-      const result = await this.service.confirmDeposit(userId, transactionId, pin, emailOtp);
+      const result = await this.service.confirmDeposit(userId, transactionId, pin, emailOtp, totpCode);
 
       return res.json({
         success: true,
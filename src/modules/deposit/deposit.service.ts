@@ -414,7 +414,8 @@ export class DepositService {
     userId: string,
     transactionId: string,
     pin?: string,
-    emailOtp?: string
+    emailOtp?: string,
+    totpCode?: string
   ) {
     const parsedUserId = typeof userId === 'string' ? parseInt(userId, 10) : userId;
     const parsedTransactionId =
@@ -455,7 +456,7 @@ export class DepositService {
       throw new Error(`Transaction is already ${transaction.status}`);
     }
 
-    await assertTransactionSecurity(transaction.wallet.user, { pin, emailOtp });
+    await assertTransactionSecurity(transaction.wallet.user, { pin, emailOtp, totpCode });
 
     throw new Error(
       'Deposits are confirmed automatically after payment. Manual deposit confirmation is disabled.'
@@ -0,0 +1,8 @@
+/** Currency cross rates are routed through when no direct or inverse rate exists */
+export const DEFAULT_EXCHANGE_BASE_CURRENCY = 'USD';
+
+/** Rates quoted longer ago than this are stale and rejected for conversions */
+export const DEFAULT_EXCHANGE_RATE_MAX_AGE_MINUTES = 1440;
+
+/** Source recorded for rates set without one */
+export const DEFAULT_EXCHANGE_RATE_SOURCE = 'manual';
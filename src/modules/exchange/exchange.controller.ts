@@ -13,6 +13,10 @@ export class ExchangeController {
    * /api/exchange/rate:
    *   get:
    *     summary: Get exchange rate between two currencies
+   *     description: |
+   *       Uses the direct pair, then its inverse, then a cross rate through the base currency
+   *       (e.g. KES → USD → GHS). `asOf` is the quote time of the oldest rate used; `stale` is true
+   *       when it is older than the freshness threshold, and conversions are rejected until the rate is updated.
    *     tags: [Exchange]
    *     parameters:
    *       - in: query
@@ -53,6 +57,25 @@ export class ExchangeController {
    *                     inverseRate:
    *                       type: string
    *                       example: "833.33"
+   *                     source:
+   *                       type: string
+   *                       example: "admin"
+   *                     asOf:
+   *                       type: string
+   *                       format: date-time
+   *                     stale:
+   *                       type: boolean
+   *                       example: false
+   *                     route:
+   *                       type: array
+   *                       items:
+   *                         type: string
+   *                       example: ["NGN", "USD"]
+   *                     legs:
+   *                       type: array
+   *                       description: The stored rates used, one per hop
+   *                       items:
+   *                         type: object
    *       404:
    *         description: Exchange rate not found
    *         $ref: '#/components/schemas/Error'
@@ -87,6 +110,7 @@ export class ExchangeController {
    * /api/exchange/convert:
    *   get:
    *     summary: Convert amount from one currency to another
+   *     description: Fails when the rate is stale (older than the freshness threshold).
    *     tags: [Exchange]
    *     parameters:
    *       - in: query
@@ -136,6 +160,17 @@ export class ExchangeController {
    *                     rate:
    *                       type: string
    *                       example: "0.0012"
+   *                     source:
+   *                       type: string
+   *                     asOf:
+   *                       type: string
+   *                       format: date-time
+   *                     route:
+   *                       type: array
+   *                       items:
+   *                         type: string
+   *       400:
+   *         description: Invalid amount, rate not found or rate is stale
    */
   async convertAmount(req: Request, res: Response) {
     try {
@@ -157,7 +192,7 @@ export class ExchangeController {
       }
 
       const result = await this.service.convertAmount(
-        amountNum,
+        amount as string,
         from as string,
         to as string
       );
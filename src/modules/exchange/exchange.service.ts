@@ -1,6 +1,37 @@
 import { Prisma } from '@prisma/client';
 import { Decimal } from 'decimal.js';
 import prisma from '../../core/config/database.js';
+import {
+  DEFAULT_EXCHANGE_BASE_CURRENCY,
+  DEFAULT_EXCHANGE_RATE_MAX_AGE_MINUTES,
+  DEFAULT_EXCHANGE_RATE_SOURCE,
+} from './exchange.constants.js';
+
+type RateRow = {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: Prisma.Decimal;
+  inverseRate: Prisma.Decimal | null;
+  source: string;
+  asOf: Date;
+};
+
+type Leg = { fromCurrency: string; toCurrency: string; rate: Decimal; inverseRate: Decimal; source: string; asOf: Date };
+
+export interface ResolvedExchangeRate {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: string;
+  inverseRate: string;
+  /** Source of the stored rate; routed rates list the sources of their legs */
+  source: string;
+  /** Quote time of the oldest rate used */
+  asOf: Date;
+  stale: boolean;
+  /** Currencies the rate was routed through, e.g. ["KES", "USD", "GHS"] */
+  route: string[];
+  legs: { fromCurrency: string; toCurrency: string; rate: string; source: string; asOf: Date }[];
+}
 
 /**
  * Exchange Rate Service
@@ -8,90 +39,132 @@ import prisma from '../../core/config/database.js';
  */
 export class ExchangeService {
   /**
-   * Get exchange rate between two currencies
+   * Get exchange rate between two currencies.
+   * Tries the direct pair, then its inverse, then a cross rate through the base currency
+   * (EXCHANGE_BASE_CURRENCY). With `requireFresh`, stale rates are rejected.
    */
-  async getExchangeRate(fromCurrency: string, toCurrency: string) {
+  async getExchangeRate(
+    fromCurrency: string,
+    toCurrency: string,
+    options: { requireFresh?: boolean } = {}
+  ): Promise<ResolvedExchangeRate> {
+    const from = fromCurrency.toUpperCase();
+    const to = toCurrency.toUpperCase();
+
     // If same currency, return 1
-    if (fromCurrency === toCurrency) {
+    if (from === to) {
       return {
-        fromCurrency,
-        toCurrency,
+        fromCurrency: from,
+        toCurrency: to,
         rate: '1',
         inverseRate: '1',
+        source: 'identity',
+        asOf: new Date(),
+        stale: false,
+        route: [from],
+        legs: [],
       };
     }
 
-    // Try direct rate
-    let exchangeRate = await prisma.exchangeRate.findUnique({
+    const base = this.getBaseCurrency();
+    const currencies = [...new Set([from, to, base])];
+    const rows = await prisma.exchangeRate.findMany({
       where: {
-        fromCurrency_toCurrency: {
-          fromCurrency: fromCurrency.toUpperCase(),
-          toCurrency: toCurrency.toUpperCase(),
-        },
+        fromCurrency: { in: currencies },
+        toCurrency: { in: currencies },
+        isActive: true,
       },
     });
 
-    if (exchangeRate && exchangeRate.isActive) {
-      return {
-        fromCurrency: exchangeRate.fromCurrency,
-        toCurrency: exchangeRate.toCurrency,
-        rate: exchangeRate.rate.toString(),
-        inverseRate: exchangeRate.inverseRate?.toString() || (1 / Number(exchangeRate.rate)).toString(),
-      };
+    let legs: Leg[] | null = null;
+    const direct = this.findLeg(rows, from, to);
+    if (direct) {
+      legs = [direct];
+    } else if (from !== base && to !== base) {
+      const first = this.findLeg(rows, from, base);
+      const second = this.findLeg(rows, base, to);
+      if (first && second) {
+        legs = [first, second];
+      }
     }
 
-    // Try inverse rate
-    const inverseRate = await prisma.exchangeRate.findUnique({
-      where: {
-        fromCurrency_toCurrency: {
-          fromCurrency: toCurrency.toUpperCase(),
-          toCurrency: fromCurrency.toUpperCase(),
-        },
-      },
-    });
+    if (!legs) {
+      throw new Error(`Exchange rate not found for ${fromCurrency} to ${toCurrency}`);
+    }
 
-    if (inverseRate && inverseRate.isActive) {
-      const rate = inverseRate.inverseRate 
-        ? Number(inverseRate.inverseRate) 
-        : 1 / Number(inverseRate.rate);
-      
-      return {
-        fromCurrency,
-        toCurrency,
-        rate: rate.toString(),
-        inverseRate: inverseRate.rate.toString(),
-      };
+    const rate = legs.reduce((product, leg) => product.mul(leg.rate), new Decimal(1));
+    const inverseRate = legs.reduce((product, leg) => product.mul(leg.inverseRate), new Decimal(1));
+    const asOf = new Date(Math.min(...legs.map((leg) => leg.asOf.getTime())));
+    const stale = this.isStale(asOf);
+
+    if (stale && options.requireFresh) {
+      throw new Error(
+        `Exchange rate for ${from} to ${to} is stale (as of ${asOf.toISOString()}). Please try again later`
+      );
     }
 
-    throw new Error(`Exchange rate not found for ${fromCurrency} to ${toCurrency}`);
+    return {
+      fromCurrency: from,
+      toCurrency: to,
+      rate: rate.toString(),
+      inverseRate: inverseRate.toString(),
+      source: [...new Set(legs.map((leg) => leg.source))].join(', '),
+      asOf,
+      stale,
+      route: [from, ...legs.map((leg) => leg.toCurrency)],
+      legs: legs.map((leg) => ({
+        fromCurrency: leg.fromCurrency,
+        toCurrency: leg.toCurrency,
+        rate: leg.rate.toString(),
+        source: leg.source,
+        asOf: leg.asOf,
+      })),
+    };
   }
 
   /**
-   * Convert amount from one currency to another
+   * Convert amount from one currency to another. Stale rates are rejected.
    */
-  async convertAmount(amount: number, fromCurrency: string, toCurrency: string) {
-    const rate = await this.getExchangeRate(fromCurrency, toCurrency);
-    const rateNum = parseFloat(rate.rate);
-    const convertedAmount = amount * rateNum;
-    
+  async convertAmount(amount: number | string, fromCurrency: string, toCurrency: string) {
+    const rate = await this.getExchangeRate(fromCurrency, toCurrency, { requireFresh: true });
+    const convertedAmount = new Decimal(amount).mul(rate.rate);
+
     return {
       fromAmount: amount.toString(),
-      fromCurrency,
+      fromCurrency: rate.fromCurrency,
       toAmount: convertedAmount.toString(),
-      toCurrency,
+      toCurrency: rate.toCurrency,
       rate: rate.rate,
       inverseRate: rate.inverseRate,
+      source: rate.source,
+      asOf: rate.asOf,
+      route: rate.route,
     };
   }
 
+  getBaseCurrency(): string {
+    return (process.env.EXCHANGE_BASE_CURRENCY || DEFAULT_EXCHANGE_BASE_CURRENCY).toUpperCase();
+  }
+
+  getMaxRateAgeMinutes(): number {
+    const parsed = Number(process.env.EXCHANGE_RATE_MAX_AGE_MINUTES);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_EXCHANGE_RATE_MAX_AGE_MINUTES;
+  }
+
+  isStale(asOf: Date): boolean {
+    return Date.now() - asOf.getTime() > this.getMaxRateAgeMinutes() * 60 * 1000;
+  }
+
   /**
    * Set or update exchange rate
+   * `source` records where the rate came from; `asOf` is when it was quoted (defaults to now)
    */
   async setExchangeRate(
     fromCurrency: string,
     toCurrency: string,
     rate: number,
-    inverseRate?: number
+    inverseRate?: number,
+    options: { source?: string; asOf?: Date } = {}
   ) {
     if (fromCurrency === toCurrency) {
       throw new Error('Cannot set exchange rate for same currency');
@@ -101,7 +174,9 @@ export class ExchangeService {
       throw new Error('Exchange rate must be greater than 0');
     }
 
-    const calculatedInverseRate = inverseRate || 1 / rate;
+    const calculatedInverseRate = inverseRate ? new Decimal(inverseRate) : new Decimal(1).div(rate);
+    const source = options.source || DEFAULT_EXCHANGE_RATE_SOURCE;
+    const asOf = options.asOf ?? new Date();
 
     const exchangeRate = await prisma.exchangeRate.upsert({
       where: {
@@ -112,14 +187,18 @@ export class ExchangeService {
       },
       update: {
         rate: new Decimal(rate),
-        inverseRate: new Decimal(calculatedInverseRate),
+        inverseRate: calculatedInverseRate,
+        source,
+        asOf,
         isActive: true,
       },
       create: {
         fromCurrency: fromCurrency.toUpperCase(),
         toCurrency: toCurrency.toUpperCase(),
         rate: new Decimal(rate),
-        inverseRate: new Decimal(calculatedInverseRate),
+        inverseRate: calculatedInverseRate,
+        source,
+        asOf,
         isActive: true,
       },
     });
@@ -130,6 +209,8 @@ export class ExchangeService {
       toCurrency: exchangeRate.toCurrency,
       rate: exchangeRate.rate.toString(),
       inverseRate: exchangeRate.inverseRate?.toString() || calculatedInverseRate.toString(),
+      source: exchangeRate.source,
+      asOf: exchangeRate.asOf,
       isActive: exchangeRate.isActive,
       createdAt: exchangeRate.createdAt,
       updatedAt: exchangeRate.updatedAt,
@@ -155,7 +236,10 @@ export class ExchangeService {
       fromCurrency: rate.fromCurrency,
       toCurrency: rate.toCurrency,
       rate: rate.rate.toString(),
-      inverseRate: rate.inverseRate?.toString() || (1 / Number(rate.rate)).toString(),
+      inverseRate: rate.inverseRate?.toString() || new Decimal(1).div(rate.rate.toString()).toString(),
+      source: rate.source,
+      asOf: rate.asOf,
+      stale: this.isStale(rate.asOf),
       isActive: rate.isActive,
       createdAt: rate.createdAt,
       updatedAt: rate.updatedAt,
@@ -177,7 +261,10 @@ export class ExchangeService {
     return rates.map((rate: any) => ({
       toCurrency: rate.toCurrency,
       rate: rate.rate.toString(),
-      inverseRate: rate.inverseRate?.toString() || (1 / Number(rate.rate)).toString(),
+      inverseRate: rate.inverseRate?.toString() || new Decimal(1).div(rate.rate.toString()).toString(),
+      source: rate.source,
+      asOf: rate.asOf,
+      stale: this.isStale(rate.asOf),
     }));
   }
 
@@ -228,5 +315,38 @@ export class ExchangeService {
       isActive: currency.isActive,
     }));
   }
+
+  /**
+   * Rate for one hop from the loaded rows: the direct pair, or the inverse of the reverse pair
+   */
+  private findLeg(rows: RateRow[], fromCurrency: string, toCurrency: string): Leg | null {
+    const direct = rows.find((row) => row.fromCurrency === fromCurrency && row.toCurrency === toCurrency);
+    if (direct) {
+      const rate = new Decimal(direct.rate.toString());
+      return {
+        fromCurrency,
+        toCurrency,
+        rate,
+        inverseRate: direct.inverseRate ? new Decimal(direct.inverseRate.toString()) : new Decimal(1).div(rate),
+        source: direct.source,
+        asOf: direct.asOf,
+      };
+    }
+
+    const reverse = rows.find((row) => row.fromCurrency === toCurrency && row.toCurrency === fromCurrency);
+    if (reverse) {
+      const inverseRate = new Decimal(reverse.rate.toString());
+      return {
+        fromCurrency,
+        toCurrency,
+        rate: reverse.inverseRate ? new Decimal(reverse.inverseRate.toString()) : new Decimal(1).div(inverseRate),
+        inverseRate,
+        source: reverse.source,
+        asOf: reverse.asOf,
+      };
+    }
+
+    return null;
+  }
 }
 
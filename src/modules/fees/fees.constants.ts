@@ -0,0 +1,107 @@
+export type FeeServiceType = 'transfer' | 'conversion' | 'bill_payment';
+
+export type FeeType = 'percentage' | 'flat' | 'tiered' | 'capped';
+
+export const FEE_SERVICE_TYPES: FeeServiceType[] = ['transfer', 'conversion', 'bill_payment'];
+
+export const FEE_TYPES: FeeType[] = ['percentage', 'flat', 'tiered', 'capped'];
+
+/**
+ * Wallet type that matches both fiat and crypto wallets
+ */
+export const ANY_WALLET_TYPE = 'all';
+
+export interface FeeTier {
+  upTo: number | null; // inclusive upper bound; null = no upper bound
+  feeType: 'percentage' | 'flat';
+  value: number;
+}
+
+/**
+ * A fee rule, either a PlatformFeeConfig row or a built-in default.
+ * Percentage values are expressed in percent (0.25 = 0.25%).
+ */
+export interface FeeRuleDefinition {
+  id?: number;
+  walletType: string;
+  serviceType: string;
+  subType?: string | null;
+  currency?: string | null;
+  countryCode?: string | null;
+  feeType: FeeType;
+  value: number;
+  minFee?: number | null;
+  maxFee?: number | null;
+  tiers?: FeeTier[] | null;
+}
+
+function percentageWithMinimum(
+  serviceType: FeeServiceType,
+  percent: number,
+  minFees: Record<string, number>,
+  fallbackMinFee: number
+): FeeRuleDefinition[] {
+  return [
+    ...Object.entries(minFees).map(([currency, minFee]) => ({
+      walletType: ANY_WALLET_TYPE,
+      serviceType,
+      currency,
+      feeType: 'percentage' as const,
+      value: percent,
+      minFee,
+    })),
+    {
+      walletType: ANY_WALLET_TYPE,
+      serviceType,
+      feeType: 'percentage',
+      value: percent,
+      minFee: fallbackMinFee,
+    },
+  ];
+}
+
+/**
+ * Built-in fee schedule, used when no active PlatformFeeConfig matches
+ */
+export const DEFAULT_FEE_RULES: FeeRuleDefinition[] = [
+  // Transfers: free for NGN bank withdrawals and mobile money, otherwise 0.1% with a minimum
+  {
+    walletType: ANY_WALLET_TYPE,
+    serviceType: 'transfer',
+    subType: 'bank_account',
+    currency: 'NGN',
+    feeType: 'flat',
+    value: 0,
+  },
+  {
+    walletType: ANY_WALLET_TYPE,
+    serviceType: 'transfer',
+    subType: 'mobile_money',
+    feeType: 'flat',
+    value: 0,
+  },
+  ...percentageWithMinimum(
+    'transfer',
+    0.1,
+    { NGN: 20, KES: 50, GHS: 5, ZAR: 20, TZS: 500, UGX: 2000, USD: 1, EUR: 1, GBP: 1 },
+    1
+  ),
+
+  // Conversions: 0.25% of the destination amount with a minimum
+  ...percentageWithMinimum(
+    'conversion',
+    0.25,
+    { NGN: 500, KES: 50, GHS: 5, ZAR: 20, TZS: 500, UGX: 2000, USD: 1, EUR: 1, GBP: 1 },
+    1
+  ),
+
+  // Bill payments: free in NGN, otherwise 1% with a minimum
+  {
+    walletType: ANY_WALLET_TYPE,
+    serviceType: 'bill_payment',
+    currency: 'NGN',
+    feeType: 'flat',
+    value: 0,
+  },
+  ...percentageWithMinimum('bill_payment', 1, { USD: 0.1, KES: 2, GHS: 0.5 }, 0.1),
+];
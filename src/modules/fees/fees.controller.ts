@@ -0,0 +1,121 @@
+import { type Request, type Response } from 'express';
+import { FeeService } from './fees.service.js';
+
+/**
+ * Fees Controller
+ * Handles HTTP requests for fee quotes
+ */
+export class FeesController {
+  constructor(private service: FeeService) {}
+
+  /**
+   * @swagger
+   * /api/fees/quote:
+   *   get:
+   *     summary: Quote the platform fee for a transaction
+   *     tags: [Fees]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: service
+   *         required: true
+   *         schema:
+   *           type: string
+   *           enum: [transfer, conversion, bill_payment]
+   *       - in: query
+   *         name: amount
+   *         required: true
+   *         schema:
+   *           type: string
+   *         example: "10000"
+   *       - in: query
+   *         name: currency
+   *         required: true
+   *         schema:
+   *           type: string
+   *         example: "NGN"
+   *       - in: query
+   *         name: channel
+   *         schema:
+   *           type: string
+   *         example: "bank_account"
+   *       - in: query
+   *         name: countryCode
+   *         schema:
+   *           type: string
+   *         example: "NG"
+   *       - in: query
+   *         name: walletType
+   *         schema:
+   *           type: string
+   *           enum: [fiat, crypto]
+   *     responses:
+   *       200:
+   *         description: Fee quote
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     amount:
+   *                       type: string
+   *                       example: "10000"
+   *                     fee:
+   *                       type: string
+   *                       example: "20"
+   *                     totalAmount:
+   *                       type: string
+   *                       example: "10020"
+   *                     feeType:
+   *                       type: string
+   *                       example: "percentage"
+   *                     source:
+   *                       type: string
+   *                       example: "config"
+   *       400:
+   *         description: Invalid quote request
+   */
+  async getQuote(req: Request, res: Response) {
+    try {
+      const { service, amount, currency, channel, countryCode, walletType } = req.query as Record<string, string>;
+
+      if (!service || !amount || !currency) {
+        return res.status(400).json({
+          success: false,
+          message: 'service, amount and currency are required',
+        });
+      }
+
+      const quote = await this.service.quote({
+        serviceType: service,
+        amount,
+        currency,
+        channel,
+        countryCode,
+        walletType,
+      });
+
+      return res.json({
+        success: true,
+        data: {
+          ...quote,
+          amount: quote.amount.toString(),
+          fee: quote.fee.toString(),
+          totalAmount: quote.totalAmount.toString(),
+        },
+      });
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message || 'Failed to quote fee',
+      });
+    }
+  }
+}
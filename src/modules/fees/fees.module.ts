@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { type IModule } from '../../core/types/module.types.js';
+import { FeesController } from './fees.controller.js';
+import { FeeService } from './fees.service.js';
+
+/**
+ * Fees Module
+ * Exposes fee quotes for transfers, conversions and bill payments
+ */
+export class FeesModule implements IModule {
+  public readonly name = 'fees';
+  public readonly path = '/api/fees';
+  public readonly router: Router;
+
+  private controller: FeesController;
+  private service: FeeService;
+
+  constructor() {
+    this.service = new FeeService();
+    this.controller = new FeesController(this.service);
+    this.router = Router();
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    this.router.get('/quote', this.controller.getQuote.bind(this.controller));
+  }
+}
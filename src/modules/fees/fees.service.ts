@@ -0,0 +1,217 @@
+import { Decimal } from 'decimal.js';
+import prisma from '../../core/config/database.js';
+import {
+  ANY_WALLET_TYPE,
+  DEFAULT_FEE_RULES,
+  FEE_TYPES,
+  type FeeRuleDefinition,
+  type FeeTier,
+  type FeeType,
+} from './fees.constants.js';
+
+export interface FeeQuoteInput {
+  serviceType: string;
+  amount: Decimal | string | number;
+  currency: string;
+  channel?: string | null;
+  countryCode?: string | null;
+  walletType?: string;
+}
+
+/**
+ * Fee Service
+ * Resolves the applicable PlatformFeeConfig (falling back to built-in defaults)
+ * by service, channel, currency and country, and computes the fee for an amount.
+ */
+export class FeeService {
+  /**
+   * Quote the fee for an amount. The fee is charged in the given currency.
+   */
+  async quote(input: FeeQuoteInput) {
+    const amount = new Decimal(input.amount);
+    if (!amount.isFinite() || amount.lessThan(0)) {
+      throw new Error('Invalid amount');
+    }
+
+    const { rule, source } = await this.resolveRule(input);
+    const fee = rule ? this.calculateFee(rule, amount) : new Decimal(0);
+
+    return {
+      serviceType: input.serviceType,
+      channel: input.channel || null,
+      currency: input.currency.toUpperCase(),
+      countryCode: input.countryCode ? input.countryCode.toUpperCase() : null,
+      amount,
+      fee,
+      totalAmount: amount.plus(fee),
+      feeType: rule?.feeType || 'flat',
+      ruleId: rule?.id ?? null,
+      source,
+    };
+  }
+
+  /**
+   * Find the most specific active rule. Configured rules always win over defaults.
+   */
+  async resolveRule(input: Omit<FeeQuoteInput, 'amount'>) {
+    const walletType = input.walletType || 'fiat';
+    const configs = await prisma.platformFeeConfig.findMany({
+      where: {
+        isActive: true,
+        serviceType: input.serviceType,
+        walletType: { in: [walletType, ANY_WALLET_TYPE] },
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    const configured = this.pickMostSpecific(
+      configs.map((config) => this.toRuleDefinition(config)),
+      input
+    );
+    if (configured) {
+      return { rule: configured, source: 'config' as const };
+    }
+
+    const fallback = this.pickMostSpecific(
+      DEFAULT_FEE_RULES.filter(
+        (rule) =>
+          rule.serviceType === input.serviceType &&
+          (rule.walletType === walletType || rule.walletType === ANY_WALLET_TYPE)
+      ),
+      input
+    );
+    return { rule: fallback, source: fallback ? ('default' as const) : ('none' as const) };
+  }
+
+  /**
+   * Compute the fee for a rule. Min/max bounds apply to every fee type.
+   */
+  calculateFee(rule: FeeRuleDefinition, amount: Decimal): Decimal {
+    let fee: Decimal;
+
+    if (rule.feeType === 'tiered') {
+      const tier = this.findTier(rule.tiers || [], amount);
+      fee = tier ? this.applyRate(tier.feeType, tier.value, amount) : new Decimal(0);
+    } else {
+      fee = this.applyRate(rule.feeType === 'flat' ? 'flat' : 'percentage', rule.value, amount);
+    }
+
+    if (rule.minFee != null && fee.lessThan(rule.minFee)) {
+      fee = new Decimal(rule.minFee);
+    }
+    if (rule.maxFee != null && fee.greaterThan(rule.maxFee)) {
+      fee = new Decimal(rule.maxFee);
+    }
+
+    return fee;
+  }
+
+  /**
+   * Validate admin-supplied fee settings before they are stored
+   */
+  validateRule(data: {
+    feeType?: string;
+    value?: number;
+    minFee?: number | null;
+    maxFee?: number | null;
+    tiers?: FeeTier[] | null;
+  }) {
+    const feeType = (data.feeType || 'percentage') as FeeType;
+    if (!FEE_TYPES.includes(feeType)) {
+      throw new Error(`Invalid feeType. Must be one of: ${FEE_TYPES.join(', ')}`);
+    }
+    if (data.value != null && Number(data.value) < 0) {
+      throw new Error('Fee value cannot be negative');
+    }
+    if (data.minFee != null && data.maxFee != null && Number(data.minFee) > Number(data.maxFee)) {
+      throw new Error('minFee cannot be greater than maxFee');
+    }
+    if (feeType === 'capped' && data.maxFee == null) {
+      throw new Error('maxFee is required for capped fees');
+    }
+    if (feeType === 'tiered') {
+      if (!Array.isArray(data.tiers) || data.tiers.length === 0) {
+        throw new Error('tiers are required for tiered fees');
+      }
+      for (const tier of data.tiers) {
+        if (tier.feeType !== 'percentage' && tier.feeType !== 'flat') {
+          throw new Error('Each tier feeType must be percentage or flat');
+        }
+        if (Number(tier.value) < 0) {
+          throw new Error('Tier value cannot be negative');
+        }
+      }
+    }
+  }
+
+  private pickMostSpecific(
+    rules: FeeRuleDefinition[],
+    input: Omit<FeeQuoteInput, 'amount'>
+  ): FeeRuleDefinition | null {
+    const channel = input.channel ? input.channel.toLowerCase() : null;
+    const currency = input.currency.toUpperCase();
+    const countryCode = input.countryCode ? input.countryCode.toUpperCase() : null;
+
+    let best: FeeRuleDefinition | null = null;
+    let bestScore = -1;
+
+    for (const rule of rules) {
+      if (rule.subType && rule.subType.toLowerCase() !== channel) continue;
+      if (rule.currency && rule.currency.toUpperCase() !== currency) continue;
+      if (rule.countryCode && rule.countryCode.toUpperCase() !== countryCode) continue;
+
+      // Channel outranks currency, which outranks country
+      const score = (rule.subType ? 4 : 0) + (rule.currency ? 2 : 0) + (rule.countryCode ? 1 : 0);
+      if (score > bestScore) {
+        best = rule;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  private findTier(tiers: FeeTier[], amount: Decimal): FeeTier | null {
+    const sorted = [...tiers].sort((a, b) => {
+      if (a.upTo == null) return 1;
+      if (b.upTo == null) return -1;
+      return a.upTo - b.upTo;
+    });
+    return sorted.find((tier) => tier.upTo == null || amount.lessThanOrEqualTo(tier.upTo)) || null;
+  }
+
+  private applyRate(feeType: 'percentage' | 'flat', value: number, amount: Decimal): Decimal {
+    if (feeType === 'flat') {
+      return new Decimal(value);
+    }
+    return amount.times(value).dividedBy(100);
+  }
+
+  private toRuleDefinition(config: {
+    id: number;
+    walletType: string;
+    serviceType: string;
+    subType: string | null;
+    currency: string | null;
+    countryCode: string | null;
+    feeType: string;
+    value: unknown;
+    minFee: unknown;
+    maxFee: unknown;
+    tiers: unknown;
+  }): FeeRuleDefinition {
+    return {
+      id: config.id,
+      walletType: config.walletType,
+      serviceType: config.serviceType,
+      subType: config.subType,
+      currency: config.currency,
+      countryCode: config.countryCode,
+      feeType: config.feeType as FeeType,
+      value: Number(config.value),
+      minFee: config.minFee != null ? Number(config.minFee) : null,
+      maxFee: config.maxFee != null ? Number(config.maxFee) : null,
+      tiers: Array.isArray(config.tiers) ? (config.tiers as unknown as FeeTier[]) : null,
+    };
+  }
+}
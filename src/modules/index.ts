@@ -19,12 +19,16 @@ export { P2PModule } from './p2p/p2p.module.js';
 export { P2POrderModule } from './p2p-order/p2p-order.module.js';
 export { P2PChatModule } from './p2p-chat/p2p-chat.module.js';
 export { P2PReviewModule } from './p2p-review/p2p-review.module.js';
+export { P2PDisputeModule } from './p2p-dispute/p2p-dispute.module.js';
 export { BankAccountModule } from './bank-account/bank-account.module.js';
 export { TransactionHistoryModule } from './transaction-history/transaction-history.module.js';
 export { BillPaymentModule } from './bill-payment/bill-payment.module.js';
 export { SupportChatModule } from './support-chat/support-chat.module.js';
 export { NotificationModule } from './notification/notification.module.js';
 export { RewardsModule } from './rewards/rewards.module.js';
+export { FeesModule } from './fees/fees.module.js';
+export { ScheduledPaymentsModule } from './scheduled-payments/scheduled-payments.module.js';
+export { RealtimeModule } from './realtime/realtime.module.js';
 export { AdminModule } from './admin/admin.module.js';
 
 // Add more module exports here as you create them
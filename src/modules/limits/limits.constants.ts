@@ -0,0 +1,42 @@
+export type LimitServiceType = 'transfer' | 'conversion' | 'bill_payment' | 'p2p' | 'busha_sell';
+
+export type LimitWindow = 'daily' | 'weekly' | 'monthly';
+
+export const LIMIT_SERVICE_TYPES: LimitServiceType[] = [
+  'transfer',
+  'conversion',
+  'bill_payment',
+  'p2p',
+  'busha_sell',
+];
+
+export const KYC_TIERS = [1, 2, 3];
+
+export interface TransactionLimitDefinition {
+  kycTier: number;
+  serviceType: LimitServiceType;
+  currency: string;
+  perTransactionMax: number | null;
+  dailyLimit: number | null;
+  weeklyLimit: number | null;
+  monthlyLimit: number | null;
+}
+
+const NGN_TIER_LIMITS: Record<number, Omit<TransactionLimitDefinition, 'kycTier' | 'serviceType' | 'currency'>> = {
+  1: { perTransactionMax: 50_000, dailyLimit: 300_000, weeklyLimit: 1_000_000, monthlyLimit: 3_000_000 },
+  2: { perTransactionMax: 500_000, dailyLimit: 2_000_000, weeklyLimit: 8_000_000, monthlyLimit: 25_000_000 },
+  3: { perTransactionMax: 5_000_000, dailyLimit: 25_000_000, weeklyLimit: 100_000_000, monthlyLimit: 300_000_000 },
+};
+
+/**
+ * Built-in NGN limits per tier, used when no TransactionLimit row exists
+ * for the (tier, service, currency). Other currencies are uncapped until configured.
+ */
+export const DEFAULT_TRANSACTION_LIMITS: TransactionLimitDefinition[] = KYC_TIERS.flatMap((kycTier) =>
+  LIMIT_SERVICE_TYPES.map((serviceType) => ({
+    kycTier,
+    serviceType,
+    currency: 'NGN',
+    ...NGN_TIER_LIMITS[kycTier],
+  }))
+);
@@ -0,0 +1,258 @@
+import { Decimal } from 'decimal.js';
+import prisma from '../../core/config/database.js';
+import ApiError from '../../core/utils/ApiError.js';
+import { REVIEW_HOLD_STATUS } from '../../services/review/review.constants.js';
+import {
+  DEFAULT_TRANSACTION_LIMITS,
+  type LimitServiceType,
+  type LimitWindow,
+  type TransactionLimitDefinition,
+} from './limits.constants.js';
+
+const SERVICE_LABELS: Record<LimitServiceType, string> = {
+  transfer: 'transfer',
+  conversion: 'conversion',
+  bill_payment: 'bill payment',
+  p2p: 'P2P',
+  busha_sell: 'crypto sell',
+};
+
+/** Confirmed transactions; unconfirmed pending rows do not use up a cap (re-checked on confirm) */
+const COUNTED_TRANSACTION_STATUSES = ['processing', 'completed', REVIEW_HOLD_STATUS];
+const INACTIVE_P2P_ORDER_STATUSES = ['cancelled', 'expired', 'refunded'];
+const INACTIVE_BUSHA_SELL_STATUSES = ['quoted', 'failed', 'busha_failed', 'rejected'];
+
+/**
+ * Limit Service
+ * Per-KYC-tier transaction limits (per-transaction max and daily/weekly/monthly
+ * velocity caps) by service and currency. Windows are calendar periods in UTC.
+ */
+export class LimitService {
+  /**
+   * Throw if the amount would exceed the user's per-transaction max or any window cap
+   */
+  async assertWithinLimits(
+    userId: string | number,
+    data: { serviceType: LimitServiceType; currency: string; amount: Decimal | string | number }
+  ) {
+    const parsedUserId = this.parseUserId(userId);
+    const currency = data.currency.toUpperCase();
+    const amount = new Decimal(data.amount);
+    const tier = await this.getUserTier(parsedUserId);
+    const limit = await this.resolveLimit(tier, data.serviceType, currency);
+    if (!limit) return;
+
+    const label = SERVICE_LABELS[data.serviceType];
+    if (limit.perTransactionMax != null && amount.greaterThan(limit.perTransactionMax)) {
+      throw ApiError.badRequest(
+        `Amount exceeds the maximum of ${limit.perTransactionMax} ${currency} per ${label} for your KYC tier`
+      );
+    }
+
+    for (const window of ['daily', 'weekly', 'monthly'] as LimitWindow[]) {
+      const cap = this.windowCap(limit, window);
+      if (cap == null) continue;
+
+      const used = await this.getUsage(parsedUserId, data.serviceType, currency, this.windowStart(window));
+      const remaining = Decimal.max(new Decimal(cap).minus(used), 0);
+      if (amount.greaterThan(remaining)) {
+        throw ApiError.badRequest(
+          `${window.charAt(0).toUpperCase()}${window.slice(1)} ${label} limit exceeded. Remaining: ${remaining.toString()} ${currency}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Limits and remaining headroom for every service/currency configured for the user's tier
+   */
+  async getUserLimits(userId: string | number) {
+    const parsedUserId = this.parseUserId(userId);
+    const tier = await this.getUserTier(parsedUserId);
+    const limits = await this.listTierLimits(tier);
+
+    const items = await Promise.all(
+      limits.map(async (limit) => {
+        const windows: Record<string, unknown> = {};
+        for (const window of ['daily', 'weekly', 'monthly'] as LimitWindow[]) {
+          const cap = this.windowCap(limit, window);
+          const since = this.windowStart(window);
+          const used = await this.getUsage(parsedUserId, limit.serviceType, limit.currency, since);
+          windows[window] = {
+            limit: cap != null ? cap.toString() : null,
+            used: used.toString(),
+            remaining: cap != null ? Decimal.max(new Decimal(cap).minus(used), 0).toString() : null,
+            resetsAt: this.windowEnd(window, since),
+          };
+        }
+
+        return {
+          serviceType: limit.serviceType,
+          currency: limit.currency,
+          perTransactionMax: limit.perTransactionMax != null ? limit.perTransactionMax.toString() : null,
+          ...windows,
+        };
+      })
+    );
+
+    return { kycTier: tier, limits: items };
+  }
+
+  /**
+   * Effective limits for a tier: configured rows override built-in defaults.
+   * An inactive row removes the limit for that service/currency.
+   */
+  async listTierLimits(tier: number): Promise<TransactionLimitDefinition[]> {
+    const rows = await prisma.transactionLimit.findMany({ where: { kycTier: tier } });
+    const byKey = new Map<string, TransactionLimitDefinition | null>();
+
+    for (const limit of DEFAULT_TRANSACTION_LIMITS.filter((item) => item.kycTier === tier)) {
+      byKey.set(`${limit.serviceType}:${limit.currency}`, limit);
+    }
+    for (const row of rows) {
+      byKey.set(`${row.serviceType}:${row.currency}`, row.isActive ? this.toDefinition(row) : null);
+    }
+
+    return [...byKey.values()].filter((limit): limit is TransactionLimitDefinition => limit !== null);
+  }
+
+  private async resolveLimit(
+    tier: number,
+    serviceType: LimitServiceType,
+    currency: string
+  ): Promise<TransactionLimitDefinition | null> {
+    const row = await prisma.transactionLimit.findUnique({
+      where: { kycTier_serviceType_currency: { kycTier: tier, serviceType, currency } },
+    });
+    if (row) {
+      return row.isActive ? this.toDefinition(row) : null;
+    }
+    return (
+      DEFAULT_TRANSACTION_LIMITS.find(
+        (limit) => limit.kycTier === tier && limit.serviceType === serviceType && limit.currency === currency
+      ) || null
+    );
+  }
+
+  /**
+   * Users without verified KYC are held to tier 1 limits
+   */
+  private async getUserTier(userId: number): Promise<number> {
+    const kyc = await prisma.kYC.findUnique({
+      where: { userId },
+      select: { tier: true, status: true },
+    });
+    return kyc?.status === 'verified' ? kyc.tier : 1;
+  }
+
+  /**
+   * Sum of the user's outgoing volume for a service since the given time
+   */
+  private async getUsage(
+    userId: number,
+    serviceType: LimitServiceType,
+    currency: string,
+    since: Date
+  ): Promise<Decimal> {
+    if (serviceType === 'p2p') {
+      const result = await prisma.p2POrder.aggregate({
+        _sum: { fiatAmount: true },
+        where: {
+          userId,
+          fiatCurrency: currency,
+          status: { notIn: INACTIVE_P2P_ORDER_STATUSES },
+          createdAt: { gte: since },
+        },
+      });
+      return new Decimal(result._sum.fiatAmount?.toString() || 0);
+    }
+
+    if (serviceType === 'busha_sell') {
+      const trades = await prisma.bushaTradeLog.findMany({
+        where: {
+          userId,
+          side: 'sell',
+          targetCurrency: currency,
+          status: { notIn: INACTIVE_BUSHA_SELL_STATUSES },
+          createdAt: { gte: since },
+        },
+        select: { targetAmount: true },
+      });
+      return trades.reduce((sum, trade) => sum.plus(Number(trade.targetAmount) || 0), new Decimal(0));
+    }
+
+    const where: any = {
+      wallet: { userId },
+      currency,
+      status: { in: COUNTED_TRANSACTION_STATUSES },
+      createdAt: { gte: since },
+    };
+    if (serviceType === 'transfer') {
+      where.type = { in: ['transfer', 'withdrawal'] };
+      where.channel = { in: ['rhionx_user', 'bank_account', 'mobile_money'] };
+    } else if (serviceType === 'conversion') {
+      where.type = 'withdrawal';
+      where.channel = 'conversion';
+    } else {
+      where.type = 'bill_payment';
+    }
+
+    const result = await prisma.transaction.aggregate({ _sum: { amount: true }, where });
+    return new Decimal(result._sum.amount?.toString() || 0);
+  }
+
+  private windowCap(limit: TransactionLimitDefinition, window: LimitWindow): number | null {
+    if (window === 'daily') return limit.dailyLimit;
+    if (window === 'weekly') return limit.weeklyLimit;
+    return limit.monthlyLimit;
+  }
+
+  private windowStart(window: LimitWindow, now = new Date()): Date {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    if (window === 'weekly') {
+      // Weeks start on Monday
+      const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+      start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+    } else if (window === 'monthly') {
+      start.setUTCDate(1);
+    }
+    return start;
+  }
+
+  private windowEnd(window: LimitWindow, start: Date): Date {
+    const end = new Date(start);
+    if (window === 'daily') end.setUTCDate(end.getUTCDate() + 1);
+    else if (window === 'weekly') end.setUTCDate(end.getUTCDate() + 7);
+    else end.setUTCMonth(end.getUTCMonth() + 1);
+    return end;
+  }
+
+  private toDefinition(row: {
+    kycTier: number;
+    serviceType: string;
+    currency: string;
+    perTransactionMax: unknown;
+    dailyLimit: unknown;
+    weeklyLimit: unknown;
+    monthlyLimit: unknown;
+  }): TransactionLimitDefinition {
+    const toNumber = (value: unknown) => (value != null ? Number(value) : null);
+    return {
+      kycTier: row.kycTier,
+      serviceType: row.serviceType as LimitServiceType,
+      currency: row.currency,
+      perTransactionMax: toNumber(row.perTransactionMax),
+      dailyLimit: toNumber(row.dailyLimit),
+      weeklyLimit: toNumber(row.weeklyLimit),
+      monthlyLimit: toNumber(row.monthlyLimit),
+    };
+  }
+
+  private parseUserId(userId: string | number): number {
+    const parsed = typeof userId === 'string' ? parseInt(userId, 10) : userId;
+    if (isNaN(parsed) || parsed <= 0) {
+      throw new Error('Invalid user ID format');
+    }
+    return parsed;
+  }
+}
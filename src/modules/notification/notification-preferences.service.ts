@@ -0,0 +1,158 @@
+import prisma from '../../core/config/database.js';
+import {
+  DEFAULT_CHANNEL_PREFERENCES,
+  LOCKED_CHANNEL_PREFERENCES,
+  MAX_PUSH_DEVICES_PER_USER,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_LOCALES,
+  PUSH_PLATFORMS,
+  type NotificationCategory,
+  type NotificationChannel,
+  type NotificationLocale,
+} from '../../services/notification-channels/notification-channels.constants.js';
+
+export interface PreferenceUpdate {
+  category: string;
+  channel: string;
+  enabled: boolean;
+}
+
+/**
+ * Notification Preferences Service
+ * Per-category, per-channel opt-ins, the template locale and push device tokens.
+ */
+export class NotificationPreferencesService {
+  async getPreferences(userId: number) {
+    const [user, rows, pushDevices] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { locale: true } }),
+      prisma.notificationPreference.findMany({ where: { userId } }),
+      prisma.pushDevice.count({ where: { userId } }),
+    ]);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return {
+      locale: user.locale,
+      locales: NOTIFICATION_LOCALES,
+      pushDevices,
+      categories: NOTIFICATION_CATEGORIES.map((category) => ({
+        category,
+        channels: Object.fromEntries(
+          NOTIFICATION_CHANNELS.map((channel) => {
+            const locked = this.isLocked(category, channel);
+            const row = rows.find((pref) => pref.category === category && pref.channel === channel);
+            return [
+              channel,
+              { enabled: locked || (row?.enabled ?? DEFAULT_CHANNEL_PREFERENCES[category][channel]), locked },
+            ];
+          })
+        ),
+      })),
+    };
+  }
+
+  async updatePreferences(userId: number, input: { locale?: string; preferences?: PreferenceUpdate[] }) {
+    const preferences = input.preferences ?? [];
+    if (!Array.isArray(preferences)) {
+      throw new Error('preferences must be an array');
+    }
+    if (input.locale !== undefined && !NOTIFICATION_LOCALES.includes(input.locale as NotificationLocale)) {
+      throw new Error(`locale must be one of: ${NOTIFICATION_LOCALES.join(', ')}`);
+    }
+
+    for (const pref of preferences) {
+      if (!NOTIFICATION_CATEGORIES.includes(pref?.category as NotificationCategory)) {
+        throw new Error(`category must be one of: ${NOTIFICATION_CATEGORIES.join(', ')}`);
+      }
+      if (!NOTIFICATION_CHANNELS.includes(pref.channel as NotificationChannel)) {
+        throw new Error(`channel must be one of: ${NOTIFICATION_CHANNELS.join(', ')}`);
+      }
+      if (typeof pref.enabled !== 'boolean') {
+        throw new Error('enabled must be true or false');
+      }
+      if (!pref.enabled && this.isLocked(pref.category as NotificationCategory, pref.channel as NotificationChannel)) {
+        throw new Error(`${pref.category} notifications cannot be turned off for ${pref.channel}`);
+      }
+    }
+
+    await prisma.$transaction([
+      ...(input.locale !== undefined
+        ? [prisma.user.update({ where: { id: userId }, data: { locale: input.locale } })]
+        : []),
+      ...preferences.map((pref) =>
+        prisma.notificationPreference.upsert({
+          where: { userId_category_channel: { userId, category: pref.category, channel: pref.channel } },
+          create: { userId, category: pref.category, channel: pref.channel, enabled: pref.enabled },
+          update: { enabled: pref.enabled },
+        })
+      ),
+    ]);
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Channels a notification of the category reaches for this user
+   */
+  async getEnabledChannels(userId: number, category: NotificationCategory): Promise<NotificationChannel[]> {
+    const rows = await prisma.notificationPreference.findMany({
+      where: { userId, category },
+      select: { channel: true, enabled: true },
+    });
+
+    return NOTIFICATION_CHANNELS.filter(
+      (channel) =>
+        this.isLocked(category, channel) ||
+        (rows.find((row) => row.channel === channel)?.enabled ?? DEFAULT_CHANNEL_PREFERENCES[category][channel])
+    );
+  }
+
+  /**
+   * Register a device for push. A token moves to the latest user who registers it.
+   */
+  async registerPushDevice(userId: number, input: { token?: string; platform?: string; deviceName?: string }) {
+    const token = input.token?.trim();
+    const platform = input.platform?.trim().toLowerCase();
+    if (!token || token.length > 255) {
+      throw new Error('token is required and must not exceed 255 characters');
+    }
+    if (!platform || !PUSH_PLATFORMS.includes(platform)) {
+      throw new Error(`platform must be one of: ${PUSH_PLATFORMS.join(', ')}`);
+    }
+
+    const device = await prisma.pushDevice.upsert({
+      where: { token },
+      create: { userId, token, platform, deviceName: input.deviceName?.slice(0, 255) || null },
+      update: { userId, platform, deviceName: input.deviceName?.slice(0, 255) || null, lastSeenAt: new Date() },
+    });
+
+    const stale = await prisma.pushDevice.findMany({
+      where: { userId },
+      orderBy: { lastSeenAt: 'desc' },
+      skip: MAX_PUSH_DEVICES_PER_USER,
+      select: { id: true },
+    });
+    if (stale.length) {
+      await prisma.pushDevice.deleteMany({ where: { id: { in: stale.map((item) => item.id) } } });
+    }
+
+    return { id: device.id, platform: device.platform, deviceName: device.deviceName, lastSeenAt: device.lastSeenAt };
+  }
+
+  async removePushDevice(userId: number, token?: string) {
+    if (!token) {
+      throw new Error('token is required');
+    }
+    const { count } = await prisma.pushDevice.deleteMany({ where: { userId, token } });
+    if (count === 0) {
+      throw new Error('Push device not found');
+    }
+    return { removed: true };
+  }
+
+  private isLocked(category: NotificationCategory, channel: NotificationChannel): boolean {
+    return LOCKED_CHANNEL_PREFERENCES[category]?.includes(channel) ?? false;
+  }
+}
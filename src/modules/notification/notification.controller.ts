@@ -1,12 +1,16 @@
 import { type Request, type Response } from 'express';
 import { NotificationService } from './notification.service.js';
+import { NotificationPreferencesService } from './notification-preferences.service.js';
 
 /**
  * Notification Controller
  * Handles HTTP requests for user notifications
  */
 export class NotificationController {
-  constructor(private service: NotificationService) {}
+  constructor(
+    private service: NotificationService,
+    private preferencesService: NotificationPreferencesService
+  ) {}
 
   /**
    * @swagger
@@ -345,5 +349,263 @@ export class NotificationController {
       });
     }
   }
-}
 
+  /**
+   * @swagger
+   * /api/notifications/preferences:
+   *   get:
+   *     summary: Get notification preferences
+   *     description: Returns the channels (in-app, email, SMS, push) enabled per notification category, the template locale and the number of registered push devices. Locked preferences (e.g. security emails) cannot be turned off.
+   *     tags: [Notifications]
+   *     security:
+   *       - bearerAuth: []
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Notification preferences
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     locale:
+   *                       type: string
+   *                       example: "en"
+   *                     locales:
+   *                       type: array
+   *                       items:
+   *                         type: string
+   *                       example: ["en", "fr"]
+   *                     pushDevices:
+   *                       type: integer
+   *                       example: 1
+   *                     categories:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           category:
+   *                             type: string
+   *                             enum: [security, account, transactions, p2p, promotional]
+   *                           channels:
+   *                             type: object
+   *                             example: { "in_app": { "enabled": true, "locked": true }, "email": { "enabled": true, "locked": true }, "sms": { "enabled": false, "locked": false }, "push": { "enabled": true, "locked": false } }
+   *       401:
+   *         description: Unauthorized
+   *         $ref: '#/components/schemas/Error'
+   */
+  async getPreferences(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const preferences = await this.preferencesService.getPreferences(Number(userId));
+
+      return res.json({
+        success: true,
+        data: preferences,
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to get notification preferences',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/notifications/preferences:
+   *   put:
+   *     summary: Update notification preferences
+   *     description: Turns channels on or off per category and sets the locale notifications are written in. Only the listed preferences change.
+   *     tags: [Notifications]
+   *     security:
+   *       - bearerAuth: []
+   *       - cookieAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               locale:
+   *                 type: string
+   *                 enum: [en, fr]
+   *               preferences:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   required: [category, channel, enabled]
+   *                   properties:
+   *                     category:
+   *                       type: string
+   *                       enum: [security, account, transactions, p2p, promotional]
+   *                     channel:
+   *                       type: string
+   *                       enum: [in_app, email, sms, push]
+   *                     enabled:
+   *                       type: boolean
+   *           example:
+   *             locale: "fr"
+   *             preferences:
+   *               - category: "transactions"
+   *                 channel: "sms"
+   *                 enabled: true
+   *     responses:
+   *       200:
+   *         description: Updated notification preferences
+   *       400:
+   *         description: Invalid category, channel or locale, or a locked preference
+   *         $ref: '#/components/schemas/Error'
+   */
+  async updatePreferences(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const { locale, preferences } = req.body ?? {};
+      const result = await this.preferencesService.updatePreferences(Number(userId), { locale, preferences });
+
+      return res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message || 'Failed to update notification preferences',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/notifications/push-devices:
+   *   post:
+   *     summary: Register a push device
+   *     description: Registers the device token push notifications are sent to. Registering a known token moves it to the current user.
+   *     tags: [Notifications]
+   *     security:
+   *       - bearerAuth: []
+   *       - cookieAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [token, platform]
+   *             properties:
+   *               token:
+   *                 type: string
+   *               platform:
+   *                 type: string
+   *                 enum: [ios, android, web]
+   *               deviceName:
+   *                 type: string
+   *                 example: "iPhone 15"
+   *     responses:
+   *       200:
+   *         description: Push device registered
+   *       400:
+   *         description: Invalid token or platform
+   *         $ref: '#/components/schemas/Error'
+   */
+  async registerPushDevice(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const { token, platform, deviceName } = req.body ?? {};
+      const device = await this.preferencesService.registerPushDevice(Number(userId), { token, platform, deviceName });
+
+      return res.json({
+        success: true,
+        data: device,
+      });
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message || 'Failed to register push device',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/notifications/push-devices:
+   *   delete:
+   *     summary: Remove a push device
+   *     description: Stops push notifications to a device token, e.g. on sign-out
+   *     tags: [Notifications]
+   *     security:
+   *       - bearerAuth: []
+   *       - cookieAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [token]
+   *             properties:
+   *               token:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Push device removed
+   *       404:
+   *         description: Push device not found
+   *         $ref: '#/components/schemas/Error'
+   */
+  async removePushDevice(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const result = await this.preferencesService.removePushDevice(Number(userId), req.body?.token);
+
+      return res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      return res.status(404).json({
+        success: false,
+        message: error.message || 'Failed to remove push device',
+      });
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { type IModule } from '../../core/types/module.types.js';
 import { NotificationController } from './notification.controller.js';
 import { NotificationService } from './notification.service.js';
+import { NotificationPreferencesService } from './notification-preferences.service.js';
 
 /**
  * Notification Module
@@ -14,11 +15,13 @@ export class NotificationModule implements IModule {
 
   private controller: NotificationController;
   private service: NotificationService;
+  private preferencesService: NotificationPreferencesService;
 
   constructor() {
     // Initialize dependencies
     this.service = new NotificationService();
-    this.controller = new NotificationController(this.service);
+    this.preferencesService = new NotificationPreferencesService();
+    this.controller = new NotificationController(this.service, this.preferencesService);
 
     // Setup routes
     this.router = Router();
@@ -32,6 +35,14 @@ export class NotificationModule implements IModule {
     // Get unread count
     this.router.get('/unread-count', this.controller.getUnreadCount.bind(this.controller));
     
+    // Channel preferences and locale
+    this.router.get('/preferences', this.controller.getPreferences.bind(this.controller));
+    this.router.put('/preferences', this.controller.updatePreferences.bind(this.controller));
+
+    // Push devices
+    this.router.post('/push-devices', this.controller.registerPushDevice.bind(this.controller));
+    this.router.delete('/push-devices', this.controller.removePushDevice.bind(this.controller));
+
     // Mark all as read
     this.router.put('/read-all', this.controller.markAllAsRead.bind(this.controller));
     
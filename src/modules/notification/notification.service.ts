@@ -1,5 +1,6 @@
 import prisma from '../../core/config/database.js';
 import { Decimal } from 'decimal.js';
+import { publishNotification } from '../../core/realtime/index.js';
 
 /**
  * Notification Service
@@ -38,6 +39,8 @@ export class NotificationService {
       },
     });
 
+    publishNotification(notification);
+
     return notification;
   }
 
@@ -146,11 +149,14 @@ export class NotificationService {
       throw new Error('Notification not found');
     }
 
+    const now = new Date();
     const updated = await prisma.notification.update({
       where: { id: parsedNotificationId },
       data: {
         isRead: true,
-        readAt: new Date(),
+        readAt: notification.readAt ?? now,
+        // Opening one notification, unlike mark-all-read, counts towards broadcast open rates
+        openedAt: notification.openedAt ?? now,
       },
     });
 
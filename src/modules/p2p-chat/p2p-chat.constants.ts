@@ -0,0 +1,12 @@
+/** Attachment types accepted in order chat (MIME type → file extensions) */
+export const P2P_CHAT_ATTACHMENT_TYPES: Record<string, string[]> = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/webp': ['.webp'],
+  'application/pdf': ['.pdf'],
+};
+
+export const P2P_CHAT_ATTACHMENT_MAX_SIZE = 10 * 1024 * 1024; // 10MB
+
+/** Order statuses in which the buyer can post a payment proof */
+export const PAYMENT_PROOF_ORDER_STATUSES = ['awaiting_payment', 'payment_made', 'awaiting_coin_release', 'disputed'];
@@ -1,3 +1,4 @@
+import { unlink } from 'fs/promises';
 import { type Request, type Response } from 'express';
 import { P2PChatService } from './p2p-chat.service.js';
 
@@ -16,6 +17,10 @@ export class P2PChatController {
    *     description: |
    *       Send a message in the chat thread for a P2P order. Only the buyer or vendor of the order can send messages.
    *       Messages are automatically delivered to the other party.
+   *
+   *       Send `multipart/form-data` to attach a file (JPEG, PNG, WebP or PDF, max 10MB). The buyer can set
+   *       `isPaymentProof` to mark the attachment as the payment receipt; payment proofs are listed in the
+   *       order details and shown to admins reviewing an appeal.
    *     tags: [P2P Chat]
    *     security:
    *       - bearerAuth: []
@@ -43,6 +48,21 @@ export class P2PChatController {
    *                 maxLength: 2000
    *                 example: "Hello, I have made the payment. Please confirm receipt."
    *                 description: Message text content
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               message:
+   *                 type: string
+   *                 maxLength: 2000
+   *                 description: Optional when a file is attached
+   *               attachment:
+   *                 type: string
+   *                 format: binary
+   *                 description: JPEG, PNG, WebP or PDF, max 10MB
+   *               isPaymentProof:
+   *                 type: boolean
+   *                 description: Buyer only. Marks the attachment as payment proof
    *     responses:
    *       201:
    *         description: Message sent successfully
@@ -78,6 +98,20 @@ export class P2PChatController {
    *                       type: string
    *                     message:
    *                       type: string
+   *                     attachment:
+   *                       type: object
+   *                       nullable: true
+   *                       properties:
+   *                         url:
+   *                           type: string
+   *                         name:
+   *                           type: string
+   *                         mimeType:
+   *                           type: string
+   *                         size:
+   *                           type: integer
+   *                     isPaymentProof:
+   *                       type: boolean
    *                     isRead:
    *                       type: boolean
    *                       example: false
@@ -89,19 +123,25 @@ export class P2PChatController {
    *           Error. Common errors:
    *           - "Order not found"
    *           - "Unauthorized to send message in this order"
-   *           - "Message is required"
+   *           - "Message or attachment is required"
+   *           - "Unsupported file type. Allowed: .jpg, .jpeg, .png, .webp, .pdf"
+   *           - "File must not exceed 10MB"
+   *           - "Only the buyer can upload a payment proof"
    *         $ref: '#/components/schemas/Error'
    *       401:
    *         description: Unauthorized
    *         $ref: '#/components/schemas/Error'
    */
   async sendMessage(req: Request, res: Response) {
+    const uploadedFile = (req as any).file as Express.Multer.File | undefined;
     try {
       const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
       const { orderId } = req.params;
-      const { message } = req.body;
+      const message = typeof req.body?.message === 'string' ? req.body.message.trim() : '';
+      const isPaymentProof = req.body?.isPaymentProof === true || req.body?.isPaymentProof === 'true';
 
       if (!userId) {
+        await this.discardUpload(uploadedFile);
         return res.status(401).json({
           success: false,
           message: 'Unauthorized',
@@ -109,33 +149,47 @@ export class P2PChatController {
       }
 
       if (!orderId) {
+        await this.discardUpload(uploadedFile);
         return res.status(400).json({
           success: false,
           message: 'Order ID is required',
         });
       }
 
-      if (!message || message.trim().length === 0) {
+      if (!message && !uploadedFile) {
         return res.status(400).json({
           success: false,
-          message: 'Message is required',
+          message: 'Message or attachment is required',
         });
       }
 
       if (message.length > 2000) {
+        await this.discardUpload(uploadedFile);
         return res.status(400).json({
           success: false,
           message: 'Message must not exceed 2000 characters',
         });
       }
 
-      const chatMessage = await this.service.sendMessage(orderId, userId.toString(), message.trim());
+      const attachment = uploadedFile
+        ? {
+            url: `/uploads/${uploadedFile.filename}`,
+            name: uploadedFile.originalname,
+            mimeType: uploadedFile.mimetype,
+            size: uploadedFile.size,
+          }
+        : null;
+
+      const chatMessage = await this.service.sendMessage(orderId, userId.toString(), message, attachment, {
+        isPaymentProof,
+      });
 
       return res.status(201).json({
         success: true,
         data: chatMessage,
       });
     } catch (error: any) {
+      await this.discardUpload(uploadedFile);
       return res.status(400).json({
         success: false,
         message: error.message || 'Failed to send message',
@@ -366,5 +420,12 @@ export class P2PChatController {
       });
     }
   }
+
+  /** Remove an uploaded file that did not end up in a message */
+  private async discardUpload(file?: Express.Multer.File) {
+    if (file?.path) {
+      await unlink(file.path).catch(() => undefined);
+    }
+  }
 }
 
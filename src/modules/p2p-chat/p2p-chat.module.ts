@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { type IModule } from '../../core/types/module.types.js';
 import { P2PChatController } from './p2p-chat.controller.js';
 import { P2PChatService } from './p2p-chat.service.js';
+import { uploadSingleRestricted } from '../../core/middleware/upload.middleware.js';
+import { P2P_CHAT_ATTACHMENT_MAX_SIZE, P2P_CHAT_ATTACHMENT_TYPES } from './p2p-chat.constants.js';
 
 /**
  * P2P Chat Module
@@ -27,7 +29,14 @@ export class P2PChatModule implements IModule {
 
   private setupRoutes(): void {
     // All routes require authentication
-    this.router.post('/orders/:orderId/messages', this.controller.sendMessage.bind(this.controller));
+    this.router.post(
+      '/orders/:orderId/messages',
+      uploadSingleRestricted('attachment', {
+        allowedTypes: P2P_CHAT_ATTACHMENT_TYPES,
+        maxFileSize: P2P_CHAT_ATTACHMENT_MAX_SIZE,
+      }),
+      this.controller.sendMessage.bind(this.controller)
+    );
     this.router.get('/orders/:orderId/messages', this.controller.getChatMessages.bind(this.controller));
     this.router.put('/orders/:orderId/messages/read', this.controller.markAsRead.bind(this.controller));
     this.router.get('/chat/unread-count', this.controller.getUnreadCount.bind(this.controller));
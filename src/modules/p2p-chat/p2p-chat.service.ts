@@ -1,4 +1,33 @@
 import prisma from '../../core/config/database.js';
+import { publishP2PChatMessage, publishP2PChatRead } from '../../core/realtime/index.js';
+import { PAYMENT_PROOF_ORDER_STATUSES } from './p2p-chat.constants.js';
+
+export interface P2PChatAttachment {
+  url: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Attachment fields of a chat message in API shape
+ */
+export function formatChatAttachment(msg: {
+  attachmentUrl: string | null;
+  attachmentName: string | null;
+  attachmentMimeType: string | null;
+  attachmentSize: number | null;
+}): P2PChatAttachment | null {
+  if (!msg.attachmentUrl) {
+    return null;
+  }
+  return {
+    url: msg.attachmentUrl,
+    name: msg.attachmentName || '',
+    mimeType: msg.attachmentMimeType || '',
+    size: msg.attachmentSize ?? 0,
+  };
+}
 
 /**
  * P2P Chat Service
@@ -6,12 +35,15 @@ import prisma from '../../core/config/database.js';
  */
 export class P2PChatService {
   /**
-   * Send message in order chat
+   * Send message in order chat, optionally with an attachment.
+   * Only the buyer can flag an attachment as payment proof.
    */
   async sendMessage(
     orderId: string,
     senderId: string,
-    message: string
+    message: string,
+    attachment?: P2PChatAttachment | null,
+    options: { isPaymentProof?: boolean } = {}
   ) {
     // Parse orderId and senderId to integers
     const parsedOrderId = typeof orderId === 'string' ? parseInt(orderId, 10) : orderId;
@@ -39,6 +71,25 @@ export class P2PChatService {
       throw new Error('Unauthorized to send message in this order');
     }
 
+    if (!message && !attachment) {
+      throw new Error('Message or attachment is required');
+    }
+
+    const isPaymentProof = options.isPaymentProof === true;
+    if (isPaymentProof) {
+      if (!attachment) {
+        throw new Error('Payment proof requires an attachment');
+      }
+      // Vendor BUY ad: vendor is the buyer; vendor SELL ad: order creator is the buyer
+      const buyerId = order.type === 'buy' ? order.vendorId : order.userId;
+      if (buyerId !== parsedSenderId) {
+        throw new Error('Only the buyer can upload a payment proof');
+      }
+      if (!PAYMENT_PROOF_ORDER_STATUSES.includes(order.status)) {
+        throw new Error(`Cannot upload payment proof. Current status: ${order.status}`);
+      }
+    }
+
     // Determine receiver (the other party)
     const receiverId = order.vendorId === parsedSenderId ? order.userId : order.vendorId;
 
@@ -48,7 +99,12 @@ export class P2PChatService {
         orderId: parsedOrderId,
         senderId: parsedSenderId,
         receiverId,
-        message,
+        message: message || (isPaymentProof ? '[Payment proof attached]' : '[Attachment]'),
+        attachmentUrl: attachment?.url ?? null,
+        attachmentName: attachment?.name.slice(0, 255) ?? null,
+        attachmentMimeType: attachment?.mimeType ?? null,
+        attachmentSize: attachment?.size ?? null,
+        isPaymentProof,
       },
       include: {
         sender: {
@@ -61,17 +117,23 @@ export class P2PChatService {
       },
     });
 
-    return {
+    const result = {
       id: chatMessage.id,
       orderId: chatMessage.orderId,
       senderId: chatMessage.senderId,
       sender: chatMessage.sender,
       receiverId: chatMessage.receiverId,
       message: chatMessage.message,
+      attachment: formatChatAttachment(chatMessage),
+      isPaymentProof: chatMessage.isPaymentProof,
       isRead: chatMessage.isRead,
       readAt: chatMessage.readAt,
       createdAt: chatMessage.createdAt,
     };
+
+    publishP2PChatMessage(result);
+
+    return result;
   }
 
   /**
@@ -120,13 +182,15 @@ export class P2PChatService {
       },
     });
 
-    return messages.map((msg: { id: number; orderId: number; senderId: number; sender: any; receiverId: number; message: string; isRead: boolean; readAt: Date | null; createdAt: Date }) => ({
+    return messages.map((msg) => ({
       id: msg.id,
       orderId: msg.orderId,
       senderId: msg.senderId,
       sender: msg.sender,
       receiverId: msg.receiverId,
       message: msg.message,
+      attachment: formatChatAttachment(msg),
+      isPaymentProof: msg.isPaymentProof,
       isRead: msg.isRead,
       readAt: msg.readAt,
       createdAt: msg.createdAt,
@@ -164,7 +228,8 @@ export class P2PChatService {
     }
 
     // Mark all unread messages sent to this user as read
-    await prisma.p2PChatMessage.updateMany({
+    const readAt = new Date();
+    const updated = await prisma.p2PChatMessage.updateMany({
       where: {
         orderId: parsedOrderId,
         receiverId: parsedUserId,
@@ -172,10 +237,15 @@ export class P2PChatService {
       },
       data: {
         isRead: true,
-        readAt: new Date(),
+        readAt,
       },
     });
 
+    if (updated.count > 0) {
+      const counterpartyId = order.vendorId === parsedUserId ? order.userId : order.vendorId;
+      publishP2PChatRead(parsedOrderId, parsedUserId, counterpartyId, readAt);
+    }
+
     return {
       success: true,
       message: 'Messages marked as read',
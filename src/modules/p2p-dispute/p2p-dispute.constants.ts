@@ -0,0 +1,23 @@
+export const DISPUTE_REASON_CODES = [
+  'payment_not_received',
+  'payment_not_confirmed',
+  'crypto_not_released',
+  'wrong_amount',
+  'fraud_suspected',
+  'other',
+] as const;
+export type DisputeReasonCode = (typeof DISPUTE_REASON_CODES)[number];
+
+export const DISPUTE_STATUSES = ['open', 'under_review', 'resolved'] as const;
+export type DisputeStatus = (typeof DISPUTE_STATUSES)[number];
+
+/** Order statuses a party can open a dispute from (escrow is frozen) */
+export const DISPUTABLE_ORDER_STATUSES = ['awaiting_payment', 'payment_made', 'awaiting_coin_release', 'disputed'];
+
+/** Counterparty should respond within this window */
+export const DEFAULT_DISPUTE_RESPONSE_HOURS = 24;
+
+/** Support should resolve within this window */
+export const DEFAULT_DISPUTE_RESOLUTION_HOURS = 72;
+
+export const MAX_DISPUTE_EVIDENCE_PER_PARTY = 20;
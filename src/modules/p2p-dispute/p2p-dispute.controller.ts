@@ -0,0 +1,268 @@
+import { unlink } from 'fs/promises';
+import { type Request, type Response } from 'express';
+import { P2PDisputeService } from './p2p-dispute.service.js';
+
+/**
+ * P2P Dispute Controller
+ * Handles HTTP requests for P2P order disputes
+ */
+export class P2PDisputeController {
+  constructor(private service: P2PDisputeService) {}
+
+  /**
+   * @swagger
+   * /api/p2p/orders/{orderId}/dispute:
+   *   post:
+   *     summary: Open a dispute for an order
+   *     description: |
+   *       The buyer or vendor opens a dispute on an order whose escrow is still held
+   *       (`awaiting_payment`, `payment_made`, `awaiting_coin_release` or an automatically `disputed` order).
+   *       The order moves to `disputed` and support reviews it. One dispute per order; add further
+   *       statements and files as evidence.
+   *
+   *       Send `multipart/form-data` to attach a file (JPEG, PNG, WebP or PDF, max 10MB) as the first piece of evidence.
+   *       The counterparty is asked to respond before `sla.responseDueAt`.
+   *     tags: [P2P Dispute]
+   *     security:
+   *       - bearerAuth: []
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: orderId
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - reasonCode
+   *             properties:
+   *               reasonCode:
+   *                 type: string
+   *                 enum: [payment_not_received, payment_not_confirmed, crypto_not_released, wrong_amount, fraud_suspected, other]
+   *               description:
+   *                 type: string
+   *                 maxLength: 2000
+   *                 description: Required when reasonCode is `other`
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - reasonCode
+   *             properties:
+   *               reasonCode:
+   *                 type: string
+   *               description:
+   *                 type: string
+   *               attachment:
+   *                 type: string
+   *                 format: binary
+   *                 description: JPEG, PNG, WebP or PDF, max 10MB
+   *     responses:
+   *       201:
+   *         description: Dispute opened
+   *       400:
+   *         description: Invalid reason, order not disputable or dispute already exists
+   *       401:
+   *         description: Unauthorized
+   *       404:
+   *         description: Order not found
+   */
+  async openDispute(req: Request, res: Response) {
+    const uploadedFile = (req as any).file as Express.Multer.File | undefined;
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+      if (!userId) {
+        await this.discardUpload(uploadedFile);
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const { reasonCode, description } = req.body || {};
+      const data = await this.service.openDispute(
+        Number(req.params.orderId),
+        Number(userId),
+        { reasonCode, description: typeof description === 'string' ? description : undefined },
+        this.toAttachment(uploadedFile)
+      );
+      return res.status(201).json({ success: true, data });
+    } catch (error: any) {
+      await this.discardUpload(uploadedFile);
+      const message = error.message || 'Failed to open dispute';
+      return res.status(message.includes('not found') ? 404 : 400).json({ success: false, message });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/p2p/orders/{orderId}/dispute:
+   *   get:
+   *     summary: Get the dispute for an order
+   *     description: |
+   *       Returns the dispute status (`open`, `under_review`, `resolved`), the evidence from both parties
+   *       (`isMine` marks your own), SLA deadlines with overdue flags, and the resolution once support decides.
+   *     tags: [P2P Dispute]
+   *     security:
+   *       - bearerAuth: []
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: orderId
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     responses:
+   *       200:
+   *         description: Dispute details
+   *       401:
+   *         description: Unauthorized
+   *       404:
+   *         description: Dispute not found
+   */
+  async getDispute(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const data = await this.service.getDispute(Number(req.params.orderId), Number(userId));
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      const message = error.message || 'Failed to get dispute';
+      return res.status(message.includes('not found') ? 404 : 400).json({ success: false, message });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/p2p/orders/{orderId}/dispute/evidence:
+   *   post:
+   *     summary: Add evidence to a dispute
+   *     description: |
+   *       Either party adds a statement and/or a file while the dispute is not resolved. The counterparty's
+   *       first submission is recorded as their response to the claim.
+   *     tags: [P2P Dispute]
+   *     security:
+   *       - bearerAuth: []
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: orderId
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - message
+   *             properties:
+   *               message:
+   *                 type: string
+   *                 maxLength: 2000
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               message:
+   *                 type: string
+   *                 description: Optional when a file is attached
+   *               attachment:
+   *                 type: string
+   *                 format: binary
+   *                 description: JPEG, PNG, WebP or PDF, max 10MB
+   *     responses:
+   *       201:
+   *         description: Evidence added; returns the updated dispute
+   *       400:
+   *         description: Dispute resolved, evidence limit reached or invalid input
+   *       401:
+   *         description: Unauthorized
+   *       404:
+   *         description: Dispute not found
+   */
+  async addEvidence(req: Request, res: Response) {
+    const uploadedFile = (req as any).file as Express.Multer.File | undefined;
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+      if (!userId) {
+        await this.discardUpload(uploadedFile);
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const message = typeof req.body?.message === 'string' ? req.body.message : undefined;
+      const data = await this.service.addEvidence(
+        Number(req.params.orderId),
+        Number(userId),
+        message,
+        this.toAttachment(uploadedFile)
+      );
+      return res.status(201).json({ success: true, data });
+    } catch (error: any) {
+      await this.discardUpload(uploadedFile);
+      const message = error.message || 'Failed to add evidence';
+      return res.status(message.includes('not found') ? 404 : 400).json({ success: false, message });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/p2p/disputes:
+   *   get:
+   *     summary: List my disputes
+   *     description: Disputes on orders where you are the buyer or the vendor, newest first.
+   *     tags: [P2P Dispute]
+   *     security:
+   *       - bearerAuth: []
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [open, under_review, resolved]
+   *     responses:
+   *       200:
+   *         description: Disputes
+   *       401:
+   *         description: Unauthorized
+   */
+  async listDisputes(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const data = await this.service.listUserDisputes(Number(userId), status);
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, message: error.message || 'Failed to list disputes' });
+    }
+  }
+
+  private toAttachment(file?: Express.Multer.File) {
+    return file
+      ? {
+          url: `/uploads/${file.filename}`,
+          name: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size,
+        }
+      : null;
+  }
+
+  private async discardUpload(file?: Express.Multer.File) {
+    if (file?.path) {
+      await unlink(file.path).catch(() => undefined);
+    }
+  }
+}
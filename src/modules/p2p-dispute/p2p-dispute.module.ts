@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { type IModule } from '../../core/types/module.types.js';
+import { authMiddleware } from '../../core/middleware/auth.middleware.js';
+import { uploadSingleRestricted } from '../../core/middleware/upload.middleware.js';
+import { P2P_CHAT_ATTACHMENT_MAX_SIZE, P2P_CHAT_ATTACHMENT_TYPES } from '../p2p-chat/p2p-chat.constants.js';
+import { P2PDisputeController } from './p2p-dispute.controller.js';
+import { P2PDisputeService } from './p2p-dispute.service.js';
+
+/**
+ * P2P Dispute Module
+ * Handles disputes opened by order parties and the evidence they submit
+ */
+export class P2PDisputeModule implements IModule {
+  public readonly name = 'p2p-dispute';
+  public readonly path = '/api/p2p';
+  public readonly router: Router;
+
+  private controller: P2PDisputeController;
+  private service: P2PDisputeService;
+
+  constructor() {
+    // Initialize dependencies
+    this.service = new P2PDisputeService();
+    this.controller = new P2PDisputeController(this.service);
+
+    // Setup routes
+    this.router = Router();
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    const evidenceUpload = uploadSingleRestricted('attachment', {
+      allowedTypes: P2P_CHAT_ATTACHMENT_TYPES,
+      maxFileSize: P2P_CHAT_ATTACHMENT_MAX_SIZE,
+    });
+
+    // All routes require authentication; auth runs before the upload so anonymous files are never stored
+    this.router.get('/disputes', authMiddleware, this.controller.listDisputes.bind(this.controller));
+    this.router.post('/orders/:orderId/dispute', authMiddleware, evidenceUpload, this.controller.openDispute.bind(this.controller));
+    this.router.get('/orders/:orderId/dispute', authMiddleware, this.controller.getDispute.bind(this.controller));
+    this.router.post(
+      '/orders/:orderId/dispute/evidence',
+      authMiddleware,
+      evidenceUpload,
+      this.controller.addEvidence.bind(this.controller)
+    );
+  }
+}
@@ -0,0 +1,422 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../../core/config/database.js';
+import { publishP2POrderStatus } from '../../core/realtime/index.js';
+import { NotificationAction, notifyP2P } from '../../core/utils/notification.events.js';
+import { formatChatAttachment, type P2PChatAttachment } from '../p2p-chat/p2p-chat.service.js';
+import {
+  DEFAULT_DISPUTE_RESOLUTION_HOURS,
+  DEFAULT_DISPUTE_RESPONSE_HOURS,
+  DISPUTABLE_ORDER_STATUSES,
+  DISPUTE_REASON_CODES,
+  DISPUTE_STATUSES,
+  MAX_DISPUTE_EVIDENCE_PER_PARTY,
+  type DisputeReasonCode,
+} from './p2p-dispute.constants.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const disputeInclude = {
+  order: {
+    select: {
+      id: true,
+      userId: true,
+      vendorId: true,
+      type: true,
+      status: true,
+      cryptoAmount: true,
+      cryptoCurrency: true,
+      fiatAmount: true,
+      fiatCurrency: true,
+    },
+  },
+  evidence: {
+    orderBy: { createdAt: 'asc' },
+    include: { user: { select: { id: true, firstName: true, lastName: true } } },
+  },
+} satisfies Prisma.P2PDisputeInclude;
+
+type DisputeWithEvidence = Prisma.P2PDisputeGetPayload<{ include: typeof disputeInclude }>;
+
+/**
+ * P2P Dispute Service
+ * Disputes on P2P orders: opening with a reason, evidence from both parties,
+ * admin assignment/review and SLA deadlines. Escrow settlement itself stays in
+ * P2POrderService.settleAppeal.
+ */
+export class P2PDisputeService {
+  /**
+   * A party opens a dispute. The order moves to `disputed`, which freezes it
+   * until support settles the escrow.
+   */
+  async openDispute(
+    orderId: number,
+    userId: number,
+    data: { reasonCode: string; description?: string },
+    attachment?: P2PChatAttachment | null
+  ) {
+    if (!DISPUTE_REASON_CODES.includes(data.reasonCode as DisputeReasonCode)) {
+      throw new Error(`reasonCode must be one of: ${DISPUTE_REASON_CODES.join(', ')}`);
+    }
+    const description = data.description?.trim() || null;
+    if (data.reasonCode === 'other' && !description) {
+      throw new Error('description is required when reasonCode is other');
+    }
+    if (description && description.length > 2000) {
+      throw new Error('description must not exceed 2000 characters');
+    }
+
+    const order = await prisma.p2POrder.findUnique({
+      where: { id: orderId },
+      include: { dispute: true },
+    });
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    if (order.userId !== userId && order.vendorId !== userId) {
+      throw new Error('Unauthorized to open a dispute for this order');
+    }
+    if (order.dispute) {
+      throw new Error('A dispute already exists for this order. Add evidence to it instead');
+    }
+    if (!DISPUTABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new Error(`Cannot open a dispute. Current status: ${order.status}`);
+    }
+
+    const now = new Date();
+    let dispute: DisputeWithEvidence;
+    try {
+      dispute = await prisma.$transaction(async (tx) => {
+        if (order.status !== 'disputed') {
+          const claimed = await tx.p2POrder.updateMany({
+            where: { id: orderId, status: order.status },
+            data: { status: 'disputed' },
+          });
+          if (claimed.count !== 1) {
+            throw new Error('Order was updated concurrently. Reload and try again');
+          }
+        }
+
+        return tx.p2PDispute.create({
+          data: {
+            orderId,
+            openedById: userId,
+            reasonCode: data.reasonCode,
+            description,
+            responseDueAt: new Date(now.getTime() + this.getResponseHours() * HOUR_MS),
+            resolutionDueAt: new Date(now.getTime() + this.getResolutionHours() * HOUR_MS),
+            ...((description || attachment) && {
+              evidence: { create: this.evidenceData(userId, description, attachment) },
+            }),
+          },
+          include: disputeInclude,
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error('A dispute already exists for this order. Add evidence to it instead');
+      }
+      throw error;
+    }
+
+    if (order.status !== 'disputed') {
+      publishP2POrderStatus({ ...order, status: 'disputed' }, order.status);
+    }
+
+    const counterpartyId = order.vendorId === userId ? order.userId : order.vendorId;
+    await prisma.p2PChatMessage.create({
+      data: {
+        orderId,
+        senderId: userId,
+        receiverId: counterpartyId,
+        message: `Dispute opened (${data.reasonCode.replace(/_/g, ' ')}). Support will review the order.`,
+      },
+    }).catch(() => undefined);
+
+    notifyP2P(userId, {
+      action: NotificationAction.P2P_DISPUTE_OPENED,
+      title: 'Dispute opened',
+      message: `Your dispute for order #${orderId} was opened. Support will review it.`,
+      orderId,
+      status: 'info',
+    });
+    notifyP2P(counterpartyId, {
+      action: NotificationAction.P2P_DISPUTE_OPENED,
+      title: 'Dispute opened on your order',
+      message: `A dispute was opened on order #${orderId}. Submit your evidence by ${dispute.responseDueAt.toISOString()}.`,
+      orderId,
+      status: 'warning',
+    });
+
+    return this.format(dispute, userId);
+  }
+
+  /**
+   * Record a dispute for an order the sweeper escalated. No-op if one already exists.
+   */
+  async openAutomaticDispute(orderId: number, reasonCode: DisputeReasonCode, description: string) {
+    const now = new Date();
+    try {
+      return await prisma.p2PDispute.create({
+        data: {
+          orderId,
+          reasonCode,
+          description,
+          responseDueAt: new Date(now.getTime() + this.getResponseHours() * HOUR_MS),
+          resolutionDueAt: new Date(now.getTime() + this.getResolutionHours() * HOUR_MS),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Add a statement and/or file to an open dispute. The counterparty's first
+   * submission is recorded as their response.
+   */
+  async addEvidence(orderId: number, userId: number, message?: string, attachment?: P2PChatAttachment | null) {
+    const text = message?.trim() || null;
+    if (!text && !attachment) {
+      throw new Error('Message or attachment is required');
+    }
+    if (text && text.length > 2000) {
+      throw new Error('Message must not exceed 2000 characters');
+    }
+
+    const dispute = await prisma.p2PDispute.findUnique({
+      where: { orderId },
+      include: { order: true },
+    });
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+    const { order } = dispute;
+    if (order.userId !== userId && order.vendorId !== userId) {
+      throw new Error('Unauthorized to add evidence to this dispute');
+    }
+    if (dispute.status === 'resolved') {
+      throw new Error('Dispute is already resolved');
+    }
+
+    const submitted = await prisma.p2PDisputeEvidence.count({ where: { disputeId: dispute.id, userId } });
+    if (submitted >= MAX_DISPUTE_EVIDENCE_PER_PARTY) {
+      throw new Error(`You can submit at most ${MAX_DISPUTE_EVIDENCE_PER_PARTY} evidence items`);
+    }
+
+    const isResponse = !dispute.respondedAt && dispute.openedById !== userId;
+    await prisma.p2PDisputeEvidence.create({
+      data: { disputeId: dispute.id, ...this.evidenceData(userId, text, attachment) },
+    });
+    if (isResponse) {
+      await prisma.p2PDispute.updateMany({
+        where: { id: dispute.id, respondedAt: null },
+        data: { respondedAt: new Date() },
+      });
+    }
+
+    const counterpartyId = order.vendorId === userId ? order.userId : order.vendorId;
+    notifyP2P(counterpartyId, {
+      action: NotificationAction.P2P_DISPUTE_UPDATED,
+      title: 'New dispute evidence',
+      message: `The other party added evidence to the dispute on order #${orderId}.`,
+      orderId,
+      status: 'info',
+    });
+
+    return this.getDispute(orderId, userId);
+  }
+
+  async getDispute(orderId: number, userId: number) {
+    const dispute = await prisma.p2PDispute.findUnique({
+      where: { orderId },
+      include: disputeInclude,
+    });
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+    if (dispute.order.userId !== userId && dispute.order.vendorId !== userId) {
+      throw new Error('Unauthorized to view this dispute');
+    }
+
+    return this.format(dispute, userId);
+  }
+
+  async listUserDisputes(userId: number, status?: string) {
+    if (status && !DISPUTE_STATUSES.includes(status as (typeof DISPUTE_STATUSES)[number])) {
+      throw new Error(`status must be one of: ${DISPUTE_STATUSES.join(', ')}`);
+    }
+
+    const disputes = await prisma.p2PDispute.findMany({
+      where: {
+        order: { OR: [{ userId }, { vendorId: userId }] },
+        ...(status && { status }),
+      },
+      include: disputeInclude,
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    return disputes.map((dispute) => this.format(dispute, userId));
+  }
+
+  /**
+   * Assign a dispute to an admin. An open dispute moves to under_review.
+   */
+  async assign(disputeId: number, adminId: number) {
+    const dispute = await prisma.p2PDispute.findUnique({ where: { id: disputeId }, include: { order: true } });
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+    if (dispute.status === 'resolved') {
+      throw new Error('Dispute is already resolved');
+    }
+
+    const admin = await prisma.adminUser.findUnique({ where: { id: adminId } });
+    if (!admin || admin.status !== 'active') {
+      throw new Error('Admin not found or inactive');
+    }
+
+    const updated = await prisma.p2PDispute.update({
+      where: { id: disputeId },
+      data: {
+        assignedToId: adminId,
+        ...(dispute.status === 'open' && { status: 'under_review', underReviewAt: new Date() }),
+      },
+    });
+
+    if (dispute.status === 'open') {
+      this.notifyUnderReview(dispute.order);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Move an open dispute to under_review, assigning it to the reviewing admin if unassigned
+   */
+  async startReview(disputeId: number, adminId: number) {
+    const dispute = await prisma.p2PDispute.findUnique({ where: { id: disputeId }, include: { order: true } });
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+    if (dispute.status !== 'open') {
+      throw new Error(`Cannot start review. Current status: ${dispute.status}`);
+    }
+
+    const claimed = await prisma.p2PDispute.updateMany({
+      where: { id: disputeId, status: 'open' },
+      data: {
+        status: 'under_review',
+        underReviewAt: new Date(),
+        assignedToId: dispute.assignedToId ?? adminId,
+      },
+    });
+    if (claimed.count !== 1) {
+      throw new Error('Dispute was updated concurrently. Reload and try again');
+    }
+
+    this.notifyUnderReview(dispute.order);
+    return prisma.p2PDispute.findUniqueOrThrow({ where: { id: disputeId } });
+  }
+
+  /**
+   * Close the dispute as part of the escrow settlement (pass the settlement's
+   * transaction). Orders resolved through the appeals endpoint without a dispute
+   * record are left as they are.
+   */
+  async markResolved(
+    orderId: number,
+    data: { adminId: number; outcome: string; note?: string },
+    client: Prisma.TransactionClient | typeof prisma = prisma
+  ) {
+    await client.p2PDispute.updateMany({
+      where: { orderId, status: { not: 'resolved' } },
+      data: {
+        status: 'resolved',
+        resolution: data.outcome,
+        resolutionNote: data.note || null,
+        resolvedById: data.adminId,
+        resolvedAt: new Date(),
+      },
+    });
+  }
+
+  getResponseHours(): number {
+    const parsed = Number(process.env.P2P_DISPUTE_RESPONSE_HOURS);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_DISPUTE_RESPONSE_HOURS;
+  }
+
+  getResolutionHours(): number {
+    const parsed = Number(process.env.P2P_DISPUTE_RESOLUTION_HOURS);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_DISPUTE_RESOLUTION_HOURS;
+  }
+
+  private notifyUnderReview(order: { id: number; userId: number; vendorId: number }) {
+    for (const partyId of [order.userId, order.vendorId]) {
+      notifyP2P(partyId, {
+        action: NotificationAction.P2P_DISPUTE_UPDATED,
+        title: 'Dispute under review',
+        message: `Support is now reviewing the dispute on order #${order.id}.`,
+        orderId: order.id,
+        status: 'info',
+      });
+    }
+  }
+
+  private evidenceData(userId: number, message: string | null, attachment?: P2PChatAttachment | null) {
+    return {
+      userId,
+      message,
+      attachmentUrl: attachment?.url ?? null,
+      attachmentName: attachment?.name.slice(0, 255) ?? null,
+      attachmentMimeType: attachment?.mimeType ?? null,
+      attachmentSize: attachment?.size ?? null,
+    };
+  }
+
+  /** User-facing shape; the assigned admin is not exposed */
+  private format(dispute: DisputeWithEvidence, viewerId: number) {
+    const now = new Date();
+    return {
+      id: dispute.id,
+      orderId: dispute.orderId,
+      order: {
+        ...dispute.order,
+        cryptoAmount: dispute.order.cryptoAmount.toString(),
+        fiatAmount: dispute.order.fiatAmount.toString(),
+      },
+      openedById: dispute.openedById,
+      openedByYou: dispute.openedById === viewerId,
+      automatic: dispute.openedById === null,
+      reasonCode: dispute.reasonCode,
+      description: dispute.description,
+      status: dispute.status,
+      assigned: dispute.assignedToId !== null,
+      resolution: dispute.resolution,
+      resolutionNote: dispute.resolutionNote,
+      sla: {
+        responseDueAt: dispute.responseDueAt,
+        respondedAt: dispute.respondedAt,
+        responseOverdue: !dispute.respondedAt && dispute.status !== 'resolved' && now > dispute.responseDueAt,
+        resolutionDueAt: dispute.resolutionDueAt,
+        resolutionOverdue: dispute.status !== 'resolved' && now > dispute.resolutionDueAt,
+      },
+      underReviewAt: dispute.underReviewAt,
+      resolvedAt: dispute.resolvedAt,
+      evidence: dispute.evidence.map((item) => ({
+        id: item.id,
+        userId: item.userId,
+        user: item.user,
+        isMine: item.userId === viewerId,
+        message: item.message,
+        attachment: formatChatAttachment(item),
+        createdAt: item.createdAt,
+      })),
+      createdAt: dispute.createdAt,
+      updatedAt: dispute.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,11 @@
+/** Pending orders the vendor has not accepted within this window are cancelled */
+export const DEFAULT_P2P_PENDING_TIMEOUT_MINUTES = 30;
+
+/** payment_made / awaiting_coin_release orders idle this long are escalated to dispute */
+export const DEFAULT_P2P_DISPUTE_ESCALATION_MINUTES = 60;
+
+/** Orders handled per status per sweep */
+export const P2P_SWEEP_BATCH_SIZE = 100;
+
+/** Ads considered when browse results are ranked in memory by a reputation metric */
+export const P2P_BROWSE_RANKING_MAX_ADS = 500;
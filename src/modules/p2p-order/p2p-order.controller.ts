@@ -72,6 +72,21 @@ export class P2POrderController {
    *         example: "2000"
    *         description: Maximum price per unit of crypto in fiat currency.
    *       - in: query
+   *         name: sortBy
+   *         schema:
+   *           type: string
+   *           enum: [newest, price, score, completion_rate, accept_time, release_time, positive_ratio, volume]
+   *           default: newest
+   *         description: |
+   *           Ranking. Reputation metrics are computed from the vendor's last 30 days of orders and reviews.
+   *           Best first by default (fastest times, lowest price, highest rates/score/volume).
+   *       - in: query
+   *         name: sortOrder
+   *         schema:
+   *           type: string
+   *           enum: [asc, desc]
+   *         description: Override the default direction of sortBy
+   *       - in: query
    *         name: limit
    *         schema:
    *           type: integer
@@ -146,6 +161,13 @@ export class P2POrderController {
    *                       score:
    *                         type: string
    *                         nullable: true
+   *                         description: Composite vendor score (0-100) from the last 30 days
+   *                       reputation:
+   *                         type: object
+   *                         description: |
+   *                           Vendor metrics from the last 30 days: completionRate, cancellationRate and
+   *                           positiveReviewRatio (percent), medianAcceptMinutes, medianReleaseMinutes,
+   *                           volume (completed fiat volume per currency), lifetimeOrders and score
    *                       isOnline:
    *                         type: boolean
    *       400:
@@ -161,6 +183,8 @@ export class P2POrderController {
         ...(req.query.countryCode && { countryCode: req.query.countryCode as string }),
         ...(req.query.minPrice && { minPrice: req.query.minPrice as string }),
         ...(req.query.maxPrice && { maxPrice: req.query.maxPrice as string }),
+        ...(req.query.sortBy && { sortBy: req.query.sortBy as string }),
+        ...(req.query.sortOrder && { sortOrder: req.query.sortOrder as 'asc' | 'desc' }),
         ...(req.query.limit && { limit: parseInt(req.query.limit as string, 10) }),
         ...(req.query.offset && { offset: parseInt(req.query.offset as string, 10) }),
       };
@@ -331,6 +355,9 @@ export class P2POrderController {
    *       - Response includes `userAction: "buy"` for all ads
    *       
    *       **Use this for:** "Buy" tab in P2P market
+   *
+   *       Ads from users you have blocked (or who blocked you) and ads whose counterparty requirements
+   *       (`requirements`: KYC tier, account age, completed orders, countries) you don't meet are hidden.
    *     tags: ["P2P - USER (Browse & Order)"]
    *     security:
    *       - bearerAuth: []
@@ -360,6 +387,21 @@ export class P2POrderController {
    *         schema:
    *           type: string
    *       - in: query
+   *         name: sortBy
+   *         schema:
+   *           type: string
+   *           enum: [newest, price, score, completion_rate, accept_time, release_time, positive_ratio, volume]
+   *           default: newest
+   *         description: |
+   *           Ranking. Reputation metrics are computed from the vendor's last 30 days of orders and reviews.
+   *           Best first by default (fastest times, lowest price, highest rates/score/volume).
+   *       - in: query
+   *         name: sortOrder
+   *         schema:
+   *           type: string
+   *           enum: [asc, desc]
+   *         description: Override the default direction of sortBy
+   *       - in: query
    *         name: limit
    *         schema:
    *           type: integer
@@ -377,6 +419,7 @@ export class P2POrderController {
    */
   async browseAdsToBuy(req: Request, res: Response) {
     try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
       const filters = {
         type: 'buy' as const, // User wants to buy = show vendor sell ads
         ...(req.query.cryptoCurrency && { cryptoCurrency: req.query.cryptoCurrency as string }),
@@ -384,8 +427,11 @@ export class P2POrderController {
         ...(req.query.countryCode && { countryCode: req.query.countryCode as string }),
         ...(req.query.minPrice && { minPrice: req.query.minPrice as string }),
         ...(req.query.maxPrice && { maxPrice: req.query.maxPrice as string }),
+        ...(req.query.sortBy && { sortBy: req.query.sortBy as string }),
+        ...(req.query.sortOrder && { sortOrder: req.query.sortOrder as 'asc' | 'desc' }),
         ...(req.query.limit && { limit: parseInt(req.query.limit as string, 10) }),
         ...(req.query.offset && { offset: parseInt(req.query.offset as string, 10) }),
+        ...(userId && { viewerId: Number(userId) }),
       };
 
       const ads = await this.service.browseAds(filters);
@@ -415,6 +461,9 @@ export class P2POrderController {
    *       - Response includes `userAction: "sell"` for all ads
    *       
    *       **Use this for:** "Sell" tab in P2P market
+   *
+   *       Ads from users you have blocked (or who blocked you) and ads whose counterparty requirements
+   *       (`requirements`: KYC tier, account age, completed orders, countries) you don't meet are hidden.
    *     tags: ["P2P - USER (Browse & Order)"]
    *     security:
    *       - bearerAuth: []
@@ -444,6 +493,21 @@ export class P2POrderController {
    *         schema:
    *           type: string
    *       - in: query
+   *         name: sortBy
+   *         schema:
+   *           type: string
+   *           enum: [newest, price, score, completion_rate, accept_time, release_time, positive_ratio, volume]
+   *           default: newest
+   *         description: |
+   *           Ranking. Reputation metrics are computed from the vendor's last 30 days of orders and reviews.
+   *           Best first by default (fastest times, lowest price, highest rates/score/volume).
+   *       - in: query
+   *         name: sortOrder
+   *         schema:
+   *           type: string
+   *           enum: [asc, desc]
+   *         description: Override the default direction of sortBy
+   *       - in: query
    *         name: limit
    *         schema:
    *           type: integer
@@ -461,6 +525,7 @@ export class P2POrderController {
    */
   async browseAdsToSell(req: Request, res: Response) {
     try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
       const filters = {
         type: 'sell' as const, // User wants to sell = show vendor buy ads
         ...(req.query.cryptoCurrency && { cryptoCurrency: req.query.cryptoCurrency as string }),
@@ -468,8 +533,11 @@ export class P2POrderController {
         ...(req.query.countryCode && { countryCode: req.query.countryCode as string }),
         ...(req.query.minPrice && { minPrice: req.query.minPrice as string }),
         ...(req.query.maxPrice && { maxPrice: req.query.maxPrice as string }),
+        ...(req.query.sortBy && { sortBy: req.query.sortBy as string }),
+        ...(req.query.sortOrder && { sortOrder: req.query.sortOrder as 'asc' | 'desc' }),
         ...(req.query.limit && { limit: parseInt(req.query.limit as string, 10) }),
         ...(req.query.offset && { offset: parseInt(req.query.offset as string, 10) }),
+        ...(userId && { viewerId: Number(userId) }),
       };
 
       const ads = await this.service.browseAds(filters);
@@ -1033,6 +1101,8 @@ export class P2POrderController {
    *     description: |
    *       Get user's P2P profile including:
    *       - Statistics (total orders, completed, pending, etc.)
+   *       - Reputation computed from the last 30 days of orders on your ads: completion and cancellation
+   *         rates, median accept and release times (minutes), positive-review ratio, completed volume and score
    *       - Recent orders (last 10) with chatId
    *       - All orders include chatId (same as orderId)
    *       
@@ -1206,6 +1276,21 @@ export class P2POrderController {
    *                       type: array
    *                       items:
    *                         type: object
+   *                     paymentProofs:
+   *                       type: array
+   *                       description: Attachments the buyer marked as payment proof in the order chat
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           messageId:
+   *                             type: integer
+   *                           senderId:
+   *                             type: integer
+   *                           attachment:
+   *                             type: object
+   *                           createdAt:
+   *                             type: string
+   *                             format: date-time
    *       401:
    *         description: Unauthorized
    *       403:
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { type IModule } from '../../core/types/module.types.js';
 import { authMiddleware } from '../../core/middleware/auth.middleware.js';
+import { idempotencyMiddleware } from '../../core/middleware/idempotency.middleware.js';
 import { P2POrderController } from './p2p-order.controller.js';
 import { P2POrderService } from './p2p-order.service.js';
 
@@ -44,7 +45,7 @@ export class P2POrderModule implements IModule {
     // User order management
     this.router.get('/user/profile', authMiddleware, this.controller.getUserP2PProfile.bind(this.controller));
     this.router.get('/ads/:adId/user-payment-methods', authMiddleware, this.controller.getUserMatchingPaymentMethods.bind(this.controller));
-    this.router.post('/user/orders', authMiddleware, this.controller.createOrder.bind(this.controller));
+    this.router.post('/user/orders', authMiddleware, idempotencyMiddleware, this.controller.createOrder.bind(this.controller));
     this.router.get('/user/orders', authMiddleware, this.controller.getUserOrders.bind(this.controller));
     this.router.get('/user/orders/:id', authMiddleware, this.controller.getOrderDetails.bind(this.controller));
     this.router.post('/user/orders/:id/payment-made', authMiddleware, this.controller.confirmPayment.bind(this.controller));
@@ -67,7 +68,7 @@ export class P2POrderModule implements IModule {
     // ============================================
     // LEGACY ROUTES (Backward compatibility)
     // ============================================
-    this.router.post('/orders', authMiddleware, this.controller.createOrder.bind(this.controller));
+    this.router.post('/orders', authMiddleware, idempotencyMiddleware, this.controller.createOrder.bind(this.controller));
     this.router.get('/orders', authMiddleware, this.controller.getUserOrders.bind(this.controller));
     this.router.get('/orders/:id', authMiddleware, this.controller.getOrderDetails.bind(this.controller));
     this.router.post('/orders/:id/vendor/accept', authMiddleware, this.controller.acceptOrder.bind(this.controller));
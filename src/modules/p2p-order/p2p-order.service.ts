@@ -9,7 +9,23 @@ import {
   isUnifiedStable,
 } from '../../services/crypto/unified-stablecoin.service.js';
 import { NotificationAction, notifyP2P } from '../../core/utils/notification.events.js';
+import { publishP2POrderStatus } from '../../core/realtime/index.js';
 import { ensureRhinoxPayId } from '../../core/utils/rhinox-pay-id.service.js';
+import { assertAvailableBalance, transferBetweenWallets } from '../../services/ledger/index.js';
+import { adjustVirtualAccountBalances } from '../../services/crypto/virtual-account-balance.js';
+import { LimitService } from '../limits/limits.service.js';
+import { RiskService } from '../../services/risk/index.js';
+import { AD_SORT_OPTIONS, VendorReputationService, type AdSortOption } from '../../services/reputation/index.js';
+import { formatChatAttachment } from '../p2p-chat/p2p-chat.service.js';
+import { P2PDisputeService } from '../p2p-dispute/p2p-dispute.service.js';
+import { P2PEligibilityService } from '../p2p/p2p-eligibility.service.js';
+import { P2PPricingService, type AdPricing } from '../p2p/p2p-pricing.service.js';
+import {
+  DEFAULT_P2P_DISPUTE_ESCALATION_MINUTES,
+  DEFAULT_P2P_PENDING_TIMEOUT_MINUTES,
+  P2P_BROWSE_RANKING_MAX_ADS,
+  P2P_SWEEP_BATCH_SIZE,
+} from './p2p-order.constants.js';
 
 /**
  * P2P Order Service
@@ -23,6 +39,12 @@ import { ensureRhinoxPayId } from '../../core/utils/rhinox-pay-id.service.js';
  */
 export class P2POrderService {
   private readonly unifiedStablecoinService = new UnifiedStablecoinService();
+  private readonly limitService = new LimitService();
+  private readonly riskService = new RiskService();
+  private readonly disputeService = new P2PDisputeService();
+  private readonly reputationService = new VendorReputationService();
+  private readonly pricingService = new P2PPricingService();
+  private readonly eligibilityService = new P2PEligibilityService();
 
   /**
    * Seller available balance for P2P (unified USDT/USDC pool or single VA).
@@ -58,6 +80,20 @@ export class P2POrderService {
     return metadata as Record<string, unknown>;
   }
 
+  /**
+   * Give a closed order's crypto amount back to its ad's available volume.
+   * Runs in the same transaction as the claim that cancels the order.
+   */
+  private async restoreAdVolume(
+    tx: Prisma.TransactionClient,
+    order: { adId: number; cryptoAmount: Prisma.Decimal | string }
+  ) {
+    await tx.p2PAd.update({
+      where: { id: order.adId },
+      data: { volume: { increment: new Decimal(order.cryptoAmount.toString()).toString() } },
+    });
+  }
+
   /** VA that holds frozen crypto (set on accept; required for release/cancel). */
   private async resolveSellerVirtualAccountForOrder(
     sellerId: number,
@@ -258,6 +294,9 @@ export class P2POrderService {
   /**
    * Browse all available ads (public)
    * API Visibility: Transform ad.type to user perspective
+   * Ranking by a vendor reputation metric sorts the first P2P_BROWSE_RANKING_MAX_ADS matches in memory.
+   * With a `viewerId`, ads of blocked users and ads whose counterparty requirements the viewer
+   * does not meet are left out; those checks also run in memory.
    */
   async browseAds(filters: {
     type?: 'buy' | 'sell'; // User perspective: what action they want to take
@@ -266,9 +305,20 @@ export class P2POrderService {
     countryCode?: string;
     minPrice?: string;
     maxPrice?: string;
+    sortBy?: string;
+    sortOrder?: 'asc' | 'desc';
     limit?: number;
     offset?: number;
+    viewerId?: number;
   }) {
+    const sortBy = (filters.sortBy || 'newest') as AdSortOption;
+    if (!AD_SORT_OPTIONS.includes(sortBy)) {
+      throw new Error(`sortBy must be one of: ${AD_SORT_OPTIONS.join(', ')}`);
+    }
+    if (filters.sortOrder && !['asc', 'desc'].includes(filters.sortOrder)) {
+      throw new Error('sortOrder must be asc or desc');
+    }
+
     const where: any = {
       status: 'available',
       isOnline: true,
@@ -302,20 +352,33 @@ export class P2POrderService {
       where.countryCode = filters.countryCode.toUpperCase();
     }
 
-    if (filters.minPrice || filters.maxPrice) {
-      where.price = {};
-      if (filters.minPrice) {
-        where.price.gte = new Decimal(filters.minPrice);
+    const minPrice = filters.minPrice ? new Decimal(filters.minPrice) : null;
+    const maxPrice = filters.maxPrice ? new Decimal(filters.maxPrice) : null;
+    if (minPrice || maxPrice) {
+      const priceRange: any = {};
+      if (minPrice) {
+        priceRange.gte = minPrice;
       }
-      if (filters.maxPrice) {
-        where.price.lte = new Decimal(filters.maxPrice);
+      if (maxPrice) {
+        priceRange.lte = maxPrice;
+      }
+      // Floating ads are filtered on their live price once priced
+      where.AND = [{ OR: [{ priceType: 'floating' }, { price: priceRange }] }];
+    }
+
+    const viewer = filters.viewerId ? await this.eligibilityService.getTraderProfile(filters.viewerId) : null;
+    if (viewer) {
+      const blockedUserIds = await this.eligibilityService.getBlockedUserIds(viewer.userId);
+      if (blockedUserIds.size) {
+        where.userId = { notIn: Array.from(blockedUserIds) };
       }
     }
 
     const limit = filters.limit || 50;
     const offset = filters.offset || 0;
+    const ranked = sortBy !== 'newest' || Boolean(minPrice || maxPrice) || Boolean(viewer);
 
-    const ads = await prisma.p2PAd.findMany({
+    const matchedAds = await prisma.p2PAd.findMany({
       where,
       include: {
         user: {
@@ -332,9 +395,26 @@ export class P2POrderService {
       orderBy: [
         { createdAt: 'desc' },
       ],
-      take: limit,
-      skip: offset,
-    });
+      take: ranked ? P2P_BROWSE_RANKING_MAX_ADS : limit,
+      skip: ranked ? 0 : offset,
+    });
+
+    // Live prices; floating ads without a reference rate are not listed
+    const eligibleAds = viewer
+      ? matchedAds.filter((ad) => !this.eligibilityService.checkRequirements(ad, viewer).length)
+      : matchedAds;
+    const pricing = await this.pricingService.priceAds(eligibleAds);
+    const pricedAds = eligibleAds
+      .filter((ad) => pricing.has(ad.id))
+      .map((ad) => ({ ...ad, price: pricing.get(ad.id)!.price }))
+      .filter((ad) => (!minPrice || ad.price.gte(minPrice)) && (!maxPrice || ad.price.lte(maxPrice)));
+
+    const reputations = await this.reputationService.getReputations(pricedAds.map((ad) => ad.userId));
+    const ads = ranked
+      ? this.reputationService
+          .sortAds(pricedAds, reputations, sortBy, filters.sortOrder)
+          .slice(offset, offset + limit)
+      : pricedAds;
 
     // Get all payment method IDs from all ads to fetch in one query
     const allPaymentMethodIds = new Set<number>();
@@ -369,6 +449,7 @@ export class P2POrderService {
     return ads.map((ad: any) => {
       // Transform to user perspective
       const userAction = this.getUserAction(ad.type);
+      const reputation = reputations.get(ad.userId);
       
       // Parse payment method IDs for consistency (same logic as getAdDetails and createOrder)
       const paymentMethodIdsRaw = ad.paymentMethodIds as any;
@@ -410,6 +491,7 @@ export class P2POrderService {
         cryptoCurrency: ad.cryptoCurrency,
         fiatCurrency: ad.fiatCurrency,
         price: ad.price.toString(),
+        ...this.formatAdPricing(ad, pricing.get(ad.id)),
         volume: ad.volume.toString(),
         minOrder: ad.minOrder.toString(),
         maxOrder: ad.maxOrder.toString(),
@@ -418,10 +500,14 @@ export class P2POrderService {
         paymentMethods: paymentMethods, // Return full payment method objects
         status: ad.status,
         isOnline: ad.isOnline,
-        ordersReceived: ad.ordersReceived,
-        responseTime: ad.responseTime,
+        // Computed from order history; the stored columns are only a fallback
+        ordersReceived: reputation?.lifetimeOrders ?? ad.ordersReceived,
+        responseTime:
+          reputation?.medianAcceptMinutes != null ? Math.round(reputation.medianAcceptMinutes) : ad.responseTime,
         processingTime: ad.processingTime,
-        score: ad.score?.toString(),
+        score: reputation?.score != null ? reputation.score.toFixed(2) : ad.score?.toString(),
+        reputation,
+        requirements: this.eligibilityService.formatRequirements(ad),
         countryCode: ad.countryCode,
         description: ad.description,
         vendor: {
@@ -493,6 +579,7 @@ export class P2POrderService {
     // Transform to user perspective
     const userAction = this.getUserAction(ad.type);
     const vendorRhinoxPayId = ad.user.rhinoxPayId || (await ensureRhinoxPayId(ad.user.id));
+    const pricing = (await this.pricingService.priceAds([ad])).get(ad.id);
 
     return {
       id: ad.id,
@@ -500,7 +587,8 @@ export class P2POrderService {
       userAction, // User-facing
       cryptoCurrency: ad.cryptoCurrency,
       fiatCurrency: ad.fiatCurrency,
-      price: ad.price.toString(),
+      price: (pricing?.price ?? ad.price).toString(),
+      ...this.formatAdPricing(ad, pricing),
       volume: ad.volume.toString(),
       minOrder: ad.minOrder.toString(),
       maxOrder: ad.maxOrder.toString(),
@@ -535,6 +623,7 @@ export class P2POrderService {
       responseTime: ad.responseTime,
       processingTime: ad.processingTime,
       score: ad.score?.toString(),
+      requirements: this.eligibilityService.formatRequirements(ad),
       countryCode: ad.countryCode,
       description: ad.description,
       vendor: {
@@ -591,6 +680,18 @@ export class P2POrderService {
       throw new Error('Vendor is offline');
     }
 
+    // Counterparty rules: block lists apply both ways, requirements are set by the vendor
+    if (await this.eligibilityService.isBlockedBetween(parsedUserId, ad.userId)) {
+      throw new Error('You cannot trade with this vendor');
+    }
+    const ineligibleReasons = this.eligibilityService.checkRequirements(
+      ad,
+      await this.eligibilityService.getTraderProfile(parsedUserId)
+    );
+    if (ineligibleReasons.length) {
+      throw new Error(`You are not eligible for this ad. ${ineligibleReasons.join('. ')}`);
+    }
+
     // Resolve roles
     const { buyerId, sellerId } = this.resolveRoles(ad.type, ad.userId.toString(), parsedUserId.toString());
 
@@ -848,8 +949,9 @@ export class P2POrderService {
     // Check if payment method is RhinoxPay ID
     const isRhinoxPayID = paymentMethod.type === 'rhinoxpay_id';
 
-    // Calculate amounts
-    const price = new Decimal(ad.price);
+    // Calculate amounts. Floating ads are priced now and the price is locked into the order
+    const pricing = await this.pricingService.priceAd(ad);
+    const price = pricing.price;
     const cryptoAmount = new Decimal(data.cryptoAmount);
     const fiatAmount = cryptoAmount.mul(price);
 
@@ -865,6 +967,16 @@ export class P2POrderService {
       throw new Error(`Order amount must not exceed ${maxOrder.toString()} ${ad.fiatCurrency}`);
     }
 
+    if (cryptoAmount.gt(ad.volume.toString())) {
+      throw new Error(`Order amount exceeds the ad's available volume of ${ad.volume.toString()} ${ad.cryptoCurrency}`);
+    }
+
+    await this.limitService.assertWithinLimits(parsedUserId, {
+      serviceType: 'p2p',
+      currency: ad.fiatCurrency,
+      amount: fiatAmount,
+    });
+
     // Validate vendor has sufficient crypto balance (SELLER must have crypto)
     // For SELL ads: Vendor is SELLER, must have crypto
     // For BUY ads: User is SELLER, must have crypto
@@ -958,52 +1070,74 @@ export class P2POrderService {
     // Create order
     // Store vendorId (ad owner) and userId (order creator)
     // Buyer/seller roles are derived from ad type in resolveRoles()
-    const order = await prisma.p2POrder.create({
-      data: {
-        adId: ad.id,
-        vendorId: ad.userId, // Ad owner
-        userId: parsedUserId, // User who created the order
-        type: ad.type, // Keep ad.type for internal reference
-        cryptoCurrency: ad.cryptoCurrency,
-        fiatCurrency: ad.fiatCurrency,
-        cryptoAmount: cryptoAmount.toString(),
-        fiatAmount: fiatAmount.toString(),
-        price: price.toString(),
-        paymentMethodId: vendorPaymentMethodId, // Use vendor's payment method ID (matched from user's payment method)
-        paymentChannel: isRhinoxPayID ? 'rhinoxpay_id' : 'offline',
-        status: initialStatus,
-        metadata: {
-          sellerId,
-          buyerId,
-          roles: {
-            vendorIsBuyer: ad.type === 'buy',
-            vendorIsSeller: ad.type === 'sell',
+    // The order's crypto is taken out of the ad's volume in the same step, so concurrent
+    // orders cannot oversell the ad; expiry, decline and cancel give it back
+    const order = await prisma.$transaction(async (tx) => {
+      const reserved = await tx.p2PAd.updateMany({
+        where: { id: ad.id, status: 'available', volume: { gte: cryptoAmount.toString() } },
+        data: { volume: { decrement: cryptoAmount.toString() } },
+      });
+      if (reserved.count !== 1) {
+        throw new Error("Order amount exceeds the ad's available volume");
+      }
+
+      return tx.p2POrder.create({
+        data: {
+          adId: ad.id,
+          vendorId: ad.userId, // Ad owner
+          userId: parsedUserId, // User who created the order
+          type: ad.type, // Keep ad.type for internal reference
+          cryptoCurrency: ad.cryptoCurrency,
+          fiatCurrency: ad.fiatCurrency,
+          cryptoAmount: cryptoAmount.toString(),
+          fiatAmount: fiatAmount.toString(),
+          price: price.toString(),
+          paymentMethodId: vendorPaymentMethodId, // Use vendor's payment method ID (matched from user's payment method)
+          paymentChannel: isRhinoxPayID ? 'rhinoxpay_id' : 'offline',
+          status: initialStatus,
+          metadata: {
+            sellerId,
+            buyerId,
+            roles: {
+              vendorIsBuyer: ad.type === 'buy',
+              vendorIsSeller: ad.type === 'sell',
+            },
+            userPaymentMethod: userPaymentMethodInfo, // Store user's payment method for reference
+            ...(pricing.priceType === 'floating' && {
+              pricing: {
+                priceType: pricing.priceType,
+                referenceRate: pricing.referenceRate?.toString() ?? null,
+                priceMargin: ad.priceMargin?.toString() ?? null,
+                boundedBy: pricing.boundedBy,
+              },
+            }),
           },
-          userPaymentMethod: userPaymentMethodInfo, // Store user's payment method for reference
         },
-      },
-      include: {
-        ad: true,
-        vendor: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
+        include: {
+          ad: true,
+          vendor: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+            },
           },
-        },
-        user: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
+          user: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+            },
           },
+          paymentMethod: true,
         },
-        paymentMethod: true,
-      },
+      });
     });
 
+    publishP2POrderStatus(order);
+
     // Record transaction: Order created
     await this.recordTransaction(
       sellerId.toString(), // userId for crypto
@@ -1029,6 +1163,18 @@ export class P2POrderService {
       // Don't fail order creation if transaction recording fails
     });
 
+    // Scored for review; P2P escrow is released by the parties, so there is nothing to hold here
+    await this.riskService.assess({
+      userId: parsedUserId,
+      serviceType: 'p2p',
+      amount: fiatAmount,
+      currency: ad.fiatCurrency,
+      cryptoCurrency: ad.cryptoCurrency,
+      side: ad.type === 'sell' ? 'buy' : 'sell',
+      p2pOrderId: order.id,
+      scoreOnly: true,
+    });
+
     // Update ad orders received count
     await prisma.p2PAd.update({
       where: { id: ad.id },
@@ -1136,6 +1282,10 @@ export class P2POrderService {
       throw new Error(`Cannot accept order. Current status: ${order.status}`);
     }
 
+    if (await this.expireOrderIfNeeded(parsedOrderId)) {
+      throw new Error('Order has expired');
+    }
+
     // Resolve roles - now we have vendorId and userId, derive buyer/seller from ad type
     const { buyerId, sellerId } = this.resolveRoles(
       order.type,
@@ -1251,6 +1401,9 @@ export class P2POrderService {
       },
     });
 
+    publishP2POrderStatus(updated, order.status);
+    this.reputationService.invalidate(order.vendorId);
+
     // Record transaction: Order accepted, crypto frozen
     await this.recordTransaction(
       sellerId.toString(), // userId for crypto
@@ -1335,14 +1488,25 @@ export class P2POrderService {
       throw new Error(`Cannot decline order. Current status: ${order.status}`);
     }
 
-    const updated = await prisma.p2POrder.update({
-      where: { id: parsedOrderId },
-      data: {
-        status: 'cancelled',
-        cancelledAt: new Date(),
-      },
+    const updated = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.p2POrder.updateMany({
+        where: { id: parsedOrderId, status: order.status },
+        data: {
+          status: 'cancelled',
+          cancelledAt: new Date(),
+        },
+      });
+      if (claimed.count !== 1) {
+        throw new Error('Order changed while declining. Reload and try again');
+      }
+
+      await this.restoreAdVolume(tx, order);
+      return tx.p2POrder.findUniqueOrThrow({ where: { id: parsedOrderId } });
     });
 
+    publishP2POrderStatus(updated, order.status);
+    this.reputationService.invalidate(order.vendorId);
+
     // Send notification message
     await prisma.p2PChatMessage.create({
       data: {
@@ -1361,10 +1525,13 @@ export class P2POrderService {
   }
 
   /**
-   * Auto-cancel awaiting_payment orders past expiresAt (unfreeze seller crypto).
+   * Auto-cancel expired orders: awaiting_payment past expiresAt (unfreeze seller crypto)
+   * and pending orders the vendor never accepted (nothing frozen yet). Either way the
+   * order's amount goes back to the ad's volume. Runs lazily on read and from the sweeper job; the status claim makes it safe to race.
    */
-  private async expireOrderIfNeeded(
-    orderId: number
+  async expireOrderIfNeeded(
+    orderId: number,
+    now = new Date()
   ): Promise<{ cancelledAt: Date } | null> {
     const order = await prisma.p2POrder.findUnique({
       where: { id: orderId },
@@ -1375,56 +1542,241 @@ export class P2POrderService {
       return null;
     }
 
-    if (order.status !== 'awaiting_payment' || !order.acceptedAt || !order.expiresAt) {
-      return null;
-    }
+    const paymentWindowClosed =
+      order.status === 'awaiting_payment' && !!order.acceptedAt && !!order.expiresAt && now > order.expiresAt;
+    const acceptWindowClosed =
+      order.status === 'pending' &&
+      now.getTime() - order.createdAt.getTime() > this.getPendingTimeoutMinutes() * 60_000;
 
-    if (new Date() <= order.expiresAt) {
+    if (!paymentWindowClosed && !acceptWindowClosed) {
       return null;
     }
 
-    const { sellerId } = this.resolveRoles(
-      order.type,
-      order.vendorId.toString(),
-      order.userId.toString()
-    );
-    const parsedSellerId = typeof sellerId === 'string' ? parseInt(sellerId, 10) : sellerId;
+    let sellerVirtualAccountId: number | null = null;
+    if (paymentWindowClosed) {
+      const { sellerId } = this.resolveRoles(
+        order.type,
+        order.vendorId.toString(),
+        order.userId.toString()
+      );
+      const parsedSellerId = typeof sellerId === 'string' ? parseInt(sellerId, 10) : sellerId;
 
-    const sellerVirtualAccount = await this.resolveSellerVirtualAccountForOrder(
-      parsedSellerId,
-      order
-    );
+      const sellerVirtualAccount = await this.resolveSellerVirtualAccountForOrder(
+        parsedSellerId,
+        order
+      );
+      if (!sellerVirtualAccount) {
+        // Cancelling now would strand the frozen crypto; leave the order open for support to resolve
+        console.error(`[P2P] Cannot expire order ${order.id}: seller crypto wallet not found`);
+        return null;
+      }
+      sellerVirtualAccountId = sellerVirtualAccount.id;
+    }
 
-    if (sellerVirtualAccount) {
-      const cryptoAmount = new Decimal(order.cryptoAmount);
-      const sellerAvailable = new Decimal(sellerVirtualAccount.availableBalance || '0');
-      await prisma.virtualAccount.update({
-        where: { id: sellerVirtualAccount.id },
+    // The claim and the unfreeze commit together, so a racing user action or sweep
+    // either sees the order still open or the crypto already unfrozen
+    const cancelledAt = new Date();
+    const claimed = await prisma.$transaction(async (tx) => {
+      const result = await tx.p2POrder.updateMany({
+        where: { id: orderId, status: order.status },
         data: {
-          availableBalance: sellerAvailable.plus(cryptoAmount).toString(),
+          status: 'cancelled',
+          cancelledAt,
         },
       });
+      if (result.count !== 1) {
+        return false;
+      }
+
+      if (sellerVirtualAccountId) {
+        await adjustVirtualAccountBalances(tx, sellerVirtualAccountId, {
+          availableBalance: new Decimal(order.cryptoAmount),
+        });
+      }
+      await this.restoreAdVolume(tx, order);
+      return true;
+    });
+    if (!claimed) {
+      return null;
     }
 
-    const cancelledAt = new Date();
-    await prisma.p2POrder.update({
-      where: { id: orderId },
+    publishP2POrderStatus({ ...order, status: 'cancelled' }, order.status);
+    this.reputationService.invalidate(order.vendorId);
+
+    const expiryMessage = paymentWindowClosed
+      ? 'Order expired — payment window closed.'
+      : 'Order expired — not accepted in time.';
+
+    await prisma.p2PChatMessage.create({
+      data: {
+        orderId: order.id,
+        senderId: order.vendorId,
+        receiverId: order.userId,
+        message: expiryMessage,
+      },
+    }).catch(() => undefined);
+
+    for (const partyId of [order.userId, order.vendorId]) {
+      notifyP2P(partyId, {
+        action: NotificationAction.P2P_ORDER_EXPIRED,
+        title: 'P2P order expired',
+        message: `Order #${order.id}: ${expiryMessage}`,
+        amount: order.cryptoAmount.toString(),
+        currency: order.cryptoCurrency,
+        orderId: order.id,
+        status: 'warning',
+      });
+    }
+
+    return { cancelledAt };
+  }
+
+  /**
+   * Move orders stuck after payment into dispute so an admin settles the escrow:
+   * payment_made where the seller never confirmed receipt, or awaiting_coin_release
+   * where the release never went through.
+   */
+  async escalateOrderIfStalled(orderId: number, now = new Date()): Promise<{ escalatedAt: Date } | null> {
+    const order = await prisma.p2POrder.findUnique({ where: { id: orderId } });
+    if (!order) {
+      return null;
+    }
+
+    const since =
+      order.status === 'payment_made'
+        ? order.paymentConfirmedAt
+        : order.status === 'awaiting_coin_release'
+          ? order.paymentReceivedAt
+          : null;
+    if (!since || now.getTime() - since.getTime() <= this.getDisputeEscalationMinutes() * 60_000) {
+      return null;
+    }
+
+    const escalatedAt = new Date();
+    const reason = order.status === 'payment_made' ? 'payment_not_confirmed' : 'release_stalled';
+    const claimed = await prisma.p2POrder.updateMany({
+      where: { id: orderId, status: order.status },
       data: {
-        status: 'cancelled',
-        cancelledAt,
+        status: 'disputed',
+        metadata: {
+          ...this.parseOrderMetadata(order.metadata),
+          escalation: {
+            automatic: true,
+            reason,
+            previousStatus: order.status,
+            escalatedAt: escalatedAt.toISOString(),
+          },
+        } as Prisma.InputJsonValue,
       },
     });
+    if (claimed.count !== 1) {
+      return null;
+    }
+
+    publishP2POrderStatus({ ...order, status: 'disputed' }, order.status);
+
+    const escalationMessage =
+      reason === 'payment_not_confirmed'
+        ? 'Payment was not confirmed in time. The order has been escalated to dispute for review.'
+        : 'Crypto was not released in time. The order has been escalated to dispute for review.';
+
+    await this.disputeService
+      .openAutomaticDispute(
+        order.id,
+        reason === 'payment_not_confirmed' ? 'payment_not_confirmed' : 'crypto_not_released',
+        escalationMessage
+      )
+      .catch((error) => console.error(`[P2P sweeper] Failed to record dispute for order ${order.id}:`, error));
 
     await prisma.p2PChatMessage.create({
       data: {
         orderId: order.id,
         senderId: order.vendorId,
         receiverId: order.userId,
-        message: 'Order expired — payment window closed.',
+        message: escalationMessage,
       },
     }).catch(() => undefined);
 
-    return { cancelledAt };
+    for (const partyId of [order.userId, order.vendorId]) {
+      notifyP2P(partyId, {
+        action: NotificationAction.P2P_ORDER_DISPUTED,
+        title: 'P2P order in dispute',
+        message: `Order #${order.id}: ${escalationMessage}`,
+        amount: order.cryptoAmount.toString(),
+        currency: order.cryptoCurrency,
+        orderId: order.id,
+        status: 'warning',
+      });
+    }
+
+    return { escalatedAt };
+  }
+
+  /**
+   * Expire and escalate due orders (sweeper job entry point)
+   */
+  async sweepOrders(now = new Date()) {
+    const pendingCutoff = new Date(now.getTime() - this.getPendingTimeoutMinutes() * 60_000);
+    const escalationCutoff = new Date(now.getTime() - this.getDisputeEscalationMinutes() * 60_000);
+
+    const [expiring, stalled] = await Promise.all([
+      prisma.p2POrder.findMany({
+        where: {
+          OR: [
+            { status: 'awaiting_payment', expiresAt: { lt: now } },
+            { status: 'pending', createdAt: { lt: pendingCutoff } },
+          ],
+        },
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: P2P_SWEEP_BATCH_SIZE,
+      }),
+      prisma.p2POrder.findMany({
+        where: {
+          OR: [
+            { status: 'payment_made', paymentConfirmedAt: { lt: escalationCutoff } },
+            { status: 'awaiting_coin_release', paymentReceivedAt: { lt: escalationCutoff } },
+          ],
+        },
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: P2P_SWEEP_BATCH_SIZE,
+      }),
+    ]);
+
+    let expired = 0;
+    let escalated = 0;
+    let failed = 0;
+
+    for (const { id } of expiring) {
+      try {
+        if (await this.expireOrderIfNeeded(id, now)) expired++;
+      } catch (error) {
+        failed++;
+        console.error(`[P2P sweeper] Failed to expire order ${id}:`, error);
+      }
+    }
+
+    for (const { id } of stalled) {
+      try {
+        if (await this.escalateOrderIfStalled(id, now)) escalated++;
+      } catch (error) {
+        failed++;
+        console.error(`[P2P sweeper] Failed to escalate order ${id}:`, error);
+      }
+    }
+
+    return { expired, escalated, failed };
+  }
+
+  getPendingTimeoutMinutes(): number {
+    const parsed = Number(process.env.P2P_PENDING_ORDER_TIMEOUT_MINUTES);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_P2P_PENDING_TIMEOUT_MINUTES;
+  }
+
+  getDisputeEscalationMinutes(): number {
+    const parsed = Number(process.env.P2P_DISPUTE_ESCALATION_MINUTES);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_P2P_DISPUTE_ESCALATION_MINUTES;
   }
 
   /**
@@ -1588,10 +1940,20 @@ export class P2POrderService {
         senderId: msg.senderId,
         sender: msg.sender,
         receiverId: msg.receiverId,
+        attachment: formatChatAttachment(msg),
+        isPaymentProof: msg.isPaymentProof,
         isRead: msg.isRead,
         readAt: msg.readAt,
         createdAt: msg.createdAt,
       })),
+      paymentProofs: order.chatMessages
+        .filter((msg) => msg.isPaymentProof)
+        .map((msg) => ({
+          messageId: msg.id,
+          senderId: msg.senderId,
+          attachment: formatChatAttachment(msg),
+          createdAt: msg.createdAt,
+        })),
       reviews: order.reviews.map((review: any) => ({
         id: review.id,
         type: review.type,
@@ -1648,6 +2010,10 @@ export class P2POrderService {
       throw new Error(`Cannot confirm payment. Current status: ${order.status}`);
     }
 
+    if (await this.expireOrderIfNeeded(parsedOrderId)) {
+      throw new Error('Order has expired — payment window closed');
+    }
+
     // For RhinoxPay ID, payment is automatic - skip to payment_made
     if (order.paymentChannel === 'rhinoxpay_id') {
       // Handle RhinoxPay ID payment automatically
@@ -1663,6 +2029,8 @@ export class P2POrderService {
       },
     });
 
+    publishP2POrderStatus(updated, order.status);
+
     // Record transaction: Payment confirmed
     const buyerWallet = await prisma.wallet.findFirst({
       where: {
@@ -1764,9 +2132,9 @@ export class P2POrderService {
     }
 
     const fiatAmount = new Decimal(order.fiatAmount);
-    const buyerBalance = new Decimal(buyerWallet.balance || '0');
+    const buyerAvailable = new Decimal(buyerWallet.balance || '0').minus(buyerWallet.lockedBalance || '0');
 
-    if (buyerBalance.lt(fiatAmount)) {
+    if (buyerAvailable.lt(fiatAmount)) {
       throw new Error('Insufficient fiat balance');
     }
 
@@ -1785,21 +2153,17 @@ export class P2POrderService {
     }
 
     // Transfer fiat: Buyer → Seller
-    const newBuyerBalance = buyerBalance.minus(fiatAmount);
-    const newSellerBalance = new Decimal(sellerWallet.balance || '0').plus(fiatAmount);
-
-    await prisma.wallet.update({
-      where: { id: buyerWallet.id },
-      data: {
-        balance: newBuyerBalance.toString(),
-      },
-    });
-
-    await prisma.wallet.update({
-      where: { id: sellerWallet.id },
-      data: {
-        balance: newSellerBalance.toString(),
-      },
+    await prisma.$transaction(async (tx) => {
+      await transferBetweenWallets(tx, {
+        fromWalletId: buyerWallet.id,
+        toWalletId: sellerWallet.id,
+        amount: fiatAmount,
+        currency: order.fiatCurrency,
+        reference: `P2P-ORDER-${order.id}`,
+        description: `P2P payment for order #${order.id}`,
+        metadata: { orderId: order.id, adId: order.adId },
+      });
+      await assertAvailableBalance(tx, buyerWallet.id);
     });
 
     // Record transactions
@@ -1857,6 +2221,8 @@ export class P2POrderService {
       },
     });
 
+    publishP2POrderStatus(updated, order.status);
+
     // Auto-release crypto
     await this.releaseCrypto(orderId);
 
@@ -1918,6 +2284,8 @@ export class P2POrderService {
       },
     });
 
+    publishP2POrderStatus(updated, order.status);
+
     // Record transaction: Payment received by seller
     const sellerWallet = await prisma.wallet.findFirst({
       where: {
@@ -2095,6 +2463,9 @@ export class P2POrderService {
       },
     });
 
+    publishP2POrderStatus(updated, order.status);
+    this.reputationService.invalidate(order.vendorId);
+
     // Send notification message
     await prisma.p2PChatMessage.create({
       data: {
@@ -2169,6 +2540,7 @@ export class P2POrderService {
     }
 
     // If order was accepted, unfreeze crypto
+    let sellerVirtualAccountId: number | null = null;
     if (order.status === 'awaiting_payment' && order.acceptedAt) {
       // Resolve roles
       const { sellerId } = this.resolveRoles(order.type, order.vendorId.toString(), order.userId.toString());
@@ -2179,30 +2551,38 @@ export class P2POrderService {
         order
       );
 
-      if (sellerVirtualAccount) {
-        const cryptoAmount = new Decimal(order.cryptoAmount);
-        const sellerAvailable = new Decimal(sellerVirtualAccount.availableBalance || '0');
+      if (!sellerVirtualAccount) {
+        throw new Error('Seller crypto wallet not found');
+      }
+      sellerVirtualAccountId = sellerVirtualAccount.id;
+    }
 
-        // Unfreeze: Restore available balance on the VA that was debited on accept
-        const newAvailableBalance = sellerAvailable.plus(cryptoAmount);
+    // The claim, the unfreeze and the ad volume restore commit together
+    const updated = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.p2POrder.updateMany({
+        where: { id: parsedOrderId, status: order.status },
+        data: {
+          status: 'cancelled',
+          cancelledAt: new Date(),
+        },
+      });
+      if (claimed.count !== 1) {
+        throw new Error('Order changed while cancelling. Reload and try again');
+      }
 
-        await prisma.virtualAccount.update({
-          where: { id: sellerVirtualAccount.id },
-          data: {
-            availableBalance: newAvailableBalance.toString(),
-          },
+      if (sellerVirtualAccountId) {
+        // Unfreeze: Restore available balance on the VA that was debited on accept
+        await adjustVirtualAccountBalances(tx, sellerVirtualAccountId, {
+          availableBalance: new Decimal(order.cryptoAmount),
         });
       }
-    }
-
-    const updated = await prisma.p2POrder.update({
-      where: { id: parsedOrderId },
-      data: {
-        status: 'cancelled',
-        cancelledAt: new Date(),
-      },
+      await this.restoreAdVolume(tx, order);
+      return tx.p2POrder.findUniqueOrThrow({ where: { id: parsedOrderId } });
     });
 
+    publishP2POrderStatus(updated, order.status);
+    this.reputationService.invalidate(order.vendorId);
+
     // Send notification message
     const otherPartyId =
       order.userId === parsedUserId ? order.vendorId : order.userId;
@@ -2232,6 +2612,269 @@ export class P2POrderService {
     };
   }
 
+  /**
+   * Settle escrow for a disputed order (admin appeal resolution).
+   * - release: full frozen amount goes to the buyer
+   * - refund: frozen amount is unfrozen back to the seller
+   * - split: buyerAmount goes to the buyer, the remainder is unfrozen for the seller
+   */
+  async settleAppeal(
+    orderId: string | number,
+    ruling: {
+      outcome: 'release' | 'refund' | 'split';
+      buyerAmount?: string | number;
+      reason: string;
+      adminId: number;
+    }
+  ) {
+    const parsedOrderId = typeof orderId === 'string' ? parseInt(orderId, 10) : orderId;
+    if (isNaN(parsedOrderId) || parsedOrderId <= 0) {
+      throw new Error('Invalid order ID format');
+    }
+
+    if (!['release', 'refund', 'split'].includes(ruling.outcome)) {
+      throw new Error('Invalid ruling. Must be release, refund or split');
+    }
+
+    if (!ruling.reason || !ruling.reason.trim()) {
+      throw new Error('Resolution reason is required');
+    }
+
+    const order = await prisma.p2POrder.findUnique({
+      where: { id: parsedOrderId },
+      include: {
+        ad: true,
+      },
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    // Escrow is only frozen once the order has been accepted and is not yet settled
+    const escrowStatuses = ['awaiting_payment', 'payment_made', 'awaiting_coin_release', 'disputed'];
+    if (!escrowStatuses.includes(order.status) || !order.acceptedAt) {
+      throw new Error(`Cannot resolve appeal. Current status: ${order.status}`);
+    }
+
+    const { buyerId, sellerId } = this.resolveRoles(order.type, order.vendorId.toString(), order.userId.toString());
+    const parsedBuyerId = typeof buyerId === 'string' ? parseInt(buyerId, 10) : buyerId;
+    const parsedSellerId = typeof sellerId === 'string' ? parseInt(sellerId, 10) : sellerId;
+
+    const cryptoAmount = new Decimal(order.cryptoAmount);
+
+    let buyerShare: Decimal;
+    if (ruling.outcome === 'release') {
+      buyerShare = cryptoAmount;
+    } else if (ruling.outcome === 'refund') {
+      buyerShare = new Decimal(0);
+    } else {
+      if (ruling.buyerAmount === undefined || ruling.buyerAmount === null || ruling.buyerAmount === '') {
+        throw new Error('buyerAmount is required for a split ruling');
+      }
+      try {
+        buyerShare = new Decimal(ruling.buyerAmount);
+      } catch {
+        throw new Error('Invalid buyerAmount');
+      }
+      if (buyerShare.lte(0) || buyerShare.gte(cryptoAmount)) {
+        throw new Error(`buyerAmount must be greater than 0 and less than ${cryptoAmount.toString()}`);
+      }
+    }
+    const sellerShare = cryptoAmount.minus(buyerShare);
+
+    const sellerVirtualAccount = await this.resolveSellerVirtualAccountForOrder(
+      parsedSellerId,
+      order
+    );
+
+    if (!sellerVirtualAccount) {
+      throw new Error('Seller crypto wallet not found');
+    }
+
+    const buyerVirtualAccount = buyerShare.gt(0)
+      ? await this.resolveBuyerVirtualAccountForOrder(parsedBuyerId, order)
+      : null;
+
+    if (buyerShare.gt(0) && !buyerVirtualAccount) {
+      throw new Error('Buyer crypto wallet not found');
+    }
+
+    const resolvedAt = new Date();
+    const finalStatus = ruling.outcome === 'refund' ? 'refunded' : 'completed';
+    const meta = this.parseOrderMetadata(order.metadata);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Claim the order first so a repeated or concurrent ruling cannot release escrow twice
+      const claimed = await tx.p2POrder.updateMany({
+        where: { id: parsedOrderId, status: { in: escrowStatuses }, acceptedAt: { not: null } },
+        data: {
+          status: finalStatus,
+          ...(buyerShare.gt(0) && { coinReleasedAt: resolvedAt }),
+          ...(finalStatus === 'completed' ? { completedAt: resolvedAt } : { cancelledAt: resolvedAt }),
+          metadata: {
+            ...meta,
+            appeal: {
+              outcome: ruling.outcome,
+              buyerAmount: buyerShare.toString(),
+              sellerAmount: sellerShare.toString(),
+              reason: ruling.reason,
+              resolvedBy: ruling.adminId,
+              resolvedAt: resolvedAt.toISOString(),
+              previousStatus: order.status,
+            },
+          } as Prisma.InputJsonValue,
+        },
+      });
+      if (claimed.count !== 1) {
+        throw new Error('Appeal was already resolved or the order changed. Reload and try again');
+      }
+
+      await this.disputeService.markResolved(
+        parsedOrderId,
+        { adminId: ruling.adminId, outcome: ruling.outcome, note: ruling.reason },
+        tx
+      );
+
+      // Seller: released portion leaves the account, the remainder is unfrozen
+      const seller = await adjustVirtualAccountBalances(tx, sellerVirtualAccount.id, {
+        accountBalance: buyerShare.negated(),
+        availableBalance: sellerShare,
+      });
+      const frozenAmount = new Decimal(seller.accountBalance || '0').minus(seller.availableBalance || '0');
+      if (frozenAmount.lt(cryptoAmount)) {
+        throw new Error('Insufficient frozen crypto balance');
+      }
+
+      if (buyerVirtualAccount) {
+        await adjustVirtualAccountBalances(tx, buyerVirtualAccount.id, {
+          accountBalance: buyerShare,
+          availableBalance: buyerShare,
+        });
+      }
+
+      return tx.p2POrder.findUniqueOrThrow({ where: { id: parsedOrderId } });
+    });
+
+    publishP2POrderStatus(updated, order.status);
+    this.reputationService.invalidate(order.vendorId);
+
+    // Ledger rows for each leg of the settlement
+    if (buyerShare.gt(0)) {
+      await this.recordTransaction(
+        sellerId.toString(),
+        order.id.toString(),
+        order.adId.toString(),
+        {
+          type: 'p2p',
+          status: 'completed',
+          amount: buyerShare,
+          currency: order.cryptoCurrency,
+          description: `P2P appeal: ${buyerShare.toString()} ${order.cryptoCurrency} released to buyer`,
+          metadata: {
+            p2pStep: 'appeal_crypto_debited',
+            orderId: order.id,
+            adId: order.adId,
+            recipientUserId: buyerId,
+            appealOutcome: ruling.outcome,
+          },
+          isCrypto: true,
+        }
+      ).catch(err => {
+        console.error('Failed to record transaction:', err);
+      });
+
+      await this.recordTransaction(
+        buyerId.toString(),
+        order.id.toString(),
+        order.adId.toString(),
+        {
+          type: 'p2p',
+          status: 'completed',
+          amount: buyerShare,
+          currency: order.cryptoCurrency,
+          description: `P2P appeal: ${buyerShare.toString()} ${order.cryptoCurrency} received from seller`,
+          metadata: {
+            p2pStep: 'appeal_crypto_credited',
+            orderId: order.id,
+            adId: order.adId,
+            senderUserId: sellerId,
+            appealOutcome: ruling.outcome,
+          },
+          isCrypto: true,
+        }
+      ).catch(err => {
+        console.error('Failed to record transaction:', err);
+      });
+    }
+
+    if (sellerShare.gt(0)) {
+      await this.recordTransaction(
+        sellerId.toString(),
+        order.id.toString(),
+        order.adId.toString(),
+        {
+          type: 'p2p',
+          status: 'completed',
+          amount: sellerShare,
+          currency: order.cryptoCurrency,
+          description: `P2P appeal: ${sellerShare.toString()} ${order.cryptoCurrency} returned from escrow`,
+          metadata: {
+            p2pStep: 'appeal_escrow_refunded',
+            orderId: order.id,
+            adId: order.adId,
+            appealOutcome: ruling.outcome,
+          },
+          isCrypto: true,
+        }
+      ).catch(err => {
+        console.error('Failed to record transaction:', err);
+      });
+    }
+
+    // Sent by support: no user sender, so the ruling is not attributed to either party
+    await prisma.p2PChatMessage.create({
+      data: {
+        orderId: order.id,
+        senderId: null,
+        receiverId: order.userId,
+        message: `Appeal resolved by support (${ruling.outcome}). ${buyerShare.toString()} ${order.cryptoCurrency} released to buyer, ${sellerShare.toString()} ${order.cryptoCurrency} returned to seller.`,
+      },
+    }).catch(() => undefined);
+
+    const outcomeMessage = `Appeal for order #${order.id} resolved: ${buyerShare.toString()} ${order.cryptoCurrency} released to buyer, ${sellerShare.toString()} ${order.cryptoCurrency} returned to seller.`;
+    notifyP2P(parsedBuyerId, {
+      action: NotificationAction.P2P_APPEAL_RESOLVED,
+      title: 'P2P appeal resolved',
+      message: outcomeMessage,
+      amount: buyerShare.toString(),
+      currency: order.cryptoCurrency,
+      orderId: order.id,
+      status: buyerShare.gt(0) ? 'success' : 'warning',
+    });
+    notifyP2P(parsedSellerId, {
+      action: NotificationAction.P2P_APPEAL_RESOLVED,
+      title: 'P2P appeal resolved',
+      message: outcomeMessage,
+      amount: sellerShare.toString(),
+      currency: order.cryptoCurrency,
+      orderId: order.id,
+      status: sellerShare.gt(0) ? 'success' : 'warning',
+    });
+
+    return {
+      id: updated.id,
+      status: updated.status,
+      outcome: ruling.outcome,
+      buyerId: parsedBuyerId,
+      sellerId: parsedSellerId,
+      buyerAmount: buyerShare.toString(),
+      sellerAmount: sellerShare.toString(),
+      cryptoCurrency: order.cryptoCurrency,
+      resolvedAt,
+    };
+  }
+
   /**
    * Get user's payment methods that match vendor's accepted payment methods
    * This helps frontend show user's own payment methods instead of vendor's
@@ -2609,6 +3252,8 @@ export class P2POrderService {
       };
     });
 
+    const reputation = await this.reputationService.getReputation(userIdNum);
+
     return {
       statistics: {
         totalOrders,
@@ -2618,10 +3263,34 @@ export class P2POrderService {
         pendingOrders,
         cancelledOrders,
       },
+      reputation,
       recentOrders: formattedRecentOrders,
     };
   }
 
+  /**
+   * Pricing fields of an ad for buyers/sellers. `pricing` is the live price, if available
+   */
+  private formatAdPricing(
+    ad: {
+      priceType: string;
+      priceMargin: Prisma.Decimal | null;
+      priceFloor: Prisma.Decimal | null;
+      priceCeiling: Prisma.Decimal | null;
+    },
+    pricing?: AdPricing
+  ) {
+    return {
+      priceType: ad.priceType,
+      priceMargin: ad.priceMargin?.toString() ?? null,
+      priceFloor: ad.priceFloor?.toString() ?? null,
+      priceCeiling: ad.priceCeiling?.toString() ?? null,
+      referenceRate: pricing?.referenceRate?.toString() ?? null,
+      priceBoundedBy: pricing?.boundedBy ?? null,
+      priceAvailable: Boolean(pricing),
+    };
+  }
+
   /**
    * Mask account number
    */
@@ -1,4 +1,5 @@
 import prisma from '../../core/config/database.js';
+import { VendorReputationService } from '../../services/reputation/index.js';
 
 /**
  * Resolve buyer and seller roles from ad type, vendorId, and userId
@@ -20,6 +21,8 @@ function resolveRoles(adType: string, vendorId: string, userId: string): { buyer
  * Manages reviews left by users after order completion
  */
 export class P2PReviewService {
+  private readonly reputationService = new VendorReputationService();
+
   /**
    * Create review after order completion
    */
@@ -97,6 +100,8 @@ export class P2PReviewService {
       },
     });
 
+    this.reputationService.invalidate(order.vendorId);
+
     return {
       id: review.id,
       orderId: review.orderId,
@@ -302,6 +307,8 @@ export class P2PReviewService {
       },
     });
 
+    this.reputationService.invalidate(review.revieweeId);
+
     return {
       id: updated.id,
       orderId: updated.orderId,
@@ -350,6 +357,8 @@ export class P2PReviewService {
       where: { id: parsedReviewId },
     });
 
+    this.reputationService.invalidate(review.revieweeId);
+
     return {
       success: true,
       message: 'Review deleted successfully',
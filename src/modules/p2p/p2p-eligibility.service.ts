@@ -0,0 +1,252 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../../core/config/database.js';
+import { KYC_TIERS } from '../limits/limits.constants.js';
+import {
+  P2P_MAX_BLOCKED_USERS,
+  P2P_MAX_MIN_ACCOUNT_AGE_DAYS,
+  P2P_MAX_MIN_COMPLETED_ORDERS,
+} from './p2p.constants.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Ad columns holding counterparty requirements */
+export interface AdRequirementFields {
+  minKycTier: number | null;
+  minAccountAgeDays: number | null;
+  minCompletedOrders: number | null;
+  allowedCountries: Prisma.JsonValue | null;
+}
+
+export interface RequirementsInput {
+  minKycTier?: number | string | null;
+  minAccountAgeDays?: number | string | null;
+  minCompletedOrders?: number | string | null;
+  allowedCountries?: string[] | null;
+}
+
+/** What the requirements are checked against */
+export interface TraderProfile {
+  userId: number;
+  kycTier: number;
+  accountAgeDays: number;
+  completedOrders: number;
+  countryCode: string | null;
+}
+
+/**
+ * P2P Eligibility Service
+ * Counterparty requirements set by vendors on their ads, and per-user block lists.
+ */
+export class P2PEligibilityService {
+  async getTraderProfile(userId: number): Promise<TraderProfile> {
+    const [user, completedOrders] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          createdAt: true,
+          country: { select: { code: true } },
+          kyc: { select: { tier: true, status: true } },
+        },
+      }),
+      prisma.p2POrder.count({
+        where: { status: 'completed', OR: [{ userId }, { vendorId: userId }] },
+      }),
+    ]);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return {
+      userId,
+      // Same rule as transaction limits: unverified users are tier 1
+      kycTier: user.kyc?.status === 'verified' ? user.kyc.tier : 1,
+      accountAgeDays: Math.floor((Date.now() - user.createdAt.getTime()) / DAY_MS),
+      completedOrders,
+      countryCode: user.country?.code?.toUpperCase() ?? null,
+    };
+  }
+
+  /**
+   * Reasons the trader does not meet the ad's requirements; empty when eligible
+   */
+  checkRequirements(ad: AdRequirementFields, profile: TraderProfile): string[] {
+    const reasons: string[] = [];
+
+    if (ad.minKycTier && profile.kycTier < ad.minKycTier) {
+      reasons.push(`This ad requires KYC tier ${ad.minKycTier} or higher. Your tier is ${profile.kycTier}`);
+    }
+    if (ad.minAccountAgeDays && profile.accountAgeDays < ad.minAccountAgeDays) {
+      reasons.push(`This ad requires an account at least ${ad.minAccountAgeDays} days old`);
+    }
+    if (ad.minCompletedOrders && profile.completedOrders < ad.minCompletedOrders) {
+      reasons.push(
+        `This ad requires at least ${ad.minCompletedOrders} completed P2P orders. You have ${profile.completedOrders}`
+      );
+    }
+
+    const allowedCountries = this.parseCountries(ad.allowedCountries);
+    if (allowedCountries.length && (!profile.countryCode || !allowedCountries.includes(profile.countryCode))) {
+      reasons.push(`This ad is only available to users in: ${allowedCountries.join(', ')}`);
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Users the given user has blocked or been blocked by
+   */
+  async getBlockedUserIds(userId: number): Promise<Set<number>> {
+    const blocks = await prisma.p2PUserBlock.findMany({
+      where: { OR: [{ blockerId: userId }, { blockedId: userId }] },
+      select: { blockerId: true, blockedId: true },
+    });
+    return new Set(blocks.map((block) => (block.blockerId === userId ? block.blockedId : block.blockerId)));
+  }
+
+  async isBlockedBetween(userId: number, otherUserId: number): Promise<boolean> {
+    const block = await prisma.p2PUserBlock.findFirst({
+      where: {
+        OR: [
+          { blockerId: userId, blockedId: otherUserId },
+          { blockerId: otherUserId, blockedId: userId },
+        ],
+      },
+      select: { id: true },
+    });
+    return Boolean(block);
+  }
+
+  /**
+   * Validate and normalize requirement input. Omitted fields are left out of the
+   * result; null or empty values clear a requirement.
+   */
+  normalizeRequirements(input: RequirementsInput) {
+    const result: {
+      minKycTier?: number | null;
+      minAccountAgeDays?: number | null;
+      minCompletedOrders?: number | null;
+      allowedCountries?: string[] | typeof Prisma.DbNull;
+    } = {};
+
+    if (input.minKycTier !== undefined) {
+      const tier = this.parseOptionalInt(input.minKycTier, 'minKycTier');
+      if (tier !== null && !KYC_TIERS.includes(tier)) {
+        throw new Error(`minKycTier must be one of: ${KYC_TIERS.join(', ')}`);
+      }
+      result.minKycTier = tier;
+    }
+
+    if (input.minAccountAgeDays !== undefined) {
+      const days = this.parseOptionalInt(input.minAccountAgeDays, 'minAccountAgeDays');
+      if (days !== null && days > P2P_MAX_MIN_ACCOUNT_AGE_DAYS) {
+        throw new Error(`minAccountAgeDays must not exceed ${P2P_MAX_MIN_ACCOUNT_AGE_DAYS}`);
+      }
+      result.minAccountAgeDays = days;
+    }
+
+    if (input.minCompletedOrders !== undefined) {
+      const orders = this.parseOptionalInt(input.minCompletedOrders, 'minCompletedOrders');
+      if (orders !== null && orders > P2P_MAX_MIN_COMPLETED_ORDERS) {
+        throw new Error(`minCompletedOrders must not exceed ${P2P_MAX_MIN_COMPLETED_ORDERS}`);
+      }
+      result.minCompletedOrders = orders;
+    }
+
+    if (input.allowedCountries !== undefined) {
+      if (input.allowedCountries !== null && !Array.isArray(input.allowedCountries)) {
+        throw new Error('allowedCountries must be an array of ISO country codes');
+      }
+      const codes = [...new Set((input.allowedCountries ?? []).map((code) => String(code).trim().toUpperCase()))];
+      if (codes.some((code) => !/^[A-Z]{2}$/.test(code))) {
+        throw new Error('allowedCountries must contain 2-letter ISO country codes');
+      }
+      result.allowedCountries = codes.length ? codes : Prisma.DbNull;
+    }
+
+    return result;
+  }
+
+  /** Requirements of an ad in API shape */
+  formatRequirements(ad: AdRequirementFields) {
+    const allowedCountries = this.parseCountries(ad.allowedCountries);
+    return {
+      minKycTier: ad.minKycTier,
+      minAccountAgeDays: ad.minAccountAgeDays,
+      minCompletedOrders: ad.minCompletedOrders,
+      allowedCountries: allowedCountries.length ? allowedCountries : null,
+    };
+  }
+
+  async listBlocks(userId: number) {
+    const blocks = await prisma.p2PUserBlock.findMany({
+      where: { blockerId: userId },
+      include: { blocked: { select: { id: true, firstName: true, lastName: true, rhinoxPayId: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return blocks.map((block) => ({
+      id: block.id,
+      user: block.blocked,
+      reason: block.reason,
+      createdAt: block.createdAt,
+    }));
+  }
+
+  async blockUser(userId: number, targetUserId: number, reason?: string) {
+    if (!Number.isInteger(targetUserId) || targetUserId <= 0) {
+      throw new Error('Invalid user ID');
+    }
+    if (targetUserId === userId) {
+      throw new Error('You cannot block yourself');
+    }
+    if (reason && reason.length > 255) {
+      throw new Error('Reason must not exceed 255 characters');
+    }
+
+    const target = await prisma.user.findUnique({ where: { id: targetUserId }, select: { id: true } });
+    if (!target) {
+      throw new Error('User not found');
+    }
+
+    const count = await prisma.p2PUserBlock.count({ where: { blockerId: userId } });
+    if (count >= P2P_MAX_BLOCKED_USERS) {
+      throw new Error(`You can block at most ${P2P_MAX_BLOCKED_USERS} users`);
+    }
+
+    try {
+      return await prisma.p2PUserBlock.create({
+        data: { blockerId: userId, blockedId: targetUserId, reason: reason?.trim() || null },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error('User is already blocked');
+      }
+      throw error;
+    }
+  }
+
+  async unblockUser(userId: number, targetUserId: number) {
+    const { count } = await prisma.p2PUserBlock.deleteMany({
+      where: { blockerId: userId, blockedId: targetUserId },
+    });
+    if (count === 0) {
+      throw new Error('Block not found');
+    }
+    return { userId: targetUserId, unblocked: true };
+  }
+
+  private parseCountries(value: Prisma.JsonValue | null): string[] {
+    return Array.isArray(value) ? value.filter((code): code is string => typeof code === 'string') : [];
+  }
+
+  private parseOptionalInt(value: number | string | null, field: string): number | null {
+    if (value === null || value === '') {
+      return null;
+    }
+    const parsed = typeof value === 'string' ? Number(value) : value;
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      throw new Error(`${field} must be a non-negative integer`);
+    }
+    return parsed === 0 ? null : parsed;
+  }
+}
@@ -0,0 +1,197 @@
+import { Decimal } from 'decimal.js';
+import { getBaseSymbol } from '../../services/crypto/unified-stablecoin.service.js';
+import { ExchangeService } from '../exchange/exchange.service.js';
+import {
+  P2P_FLOATING_MARGIN_MAX,
+  P2P_FLOATING_MARGIN_MIN,
+  P2P_PRICE_DECIMALS,
+  P2P_PRICE_TYPES,
+  type P2PPriceType,
+} from './p2p.constants.js';
+
+type Numeric = { toString(): string };
+
+/** Ad columns needed to price an ad */
+export interface PricedAdFields {
+  id: number;
+  cryptoCurrency: string;
+  fiatCurrency: string;
+  price: Numeric;
+  priceType: string;
+  priceMargin: Numeric | null;
+  priceFloor: Numeric | null;
+  priceCeiling: Numeric | null;
+}
+
+export interface AdPricing {
+  priceType: P2PPriceType;
+  /** Effective price per unit of crypto */
+  price: Decimal;
+  referenceRate: Decimal | null;
+  /** Set when the floor or ceiling overrode the margin price */
+  boundedBy: 'floor' | 'ceiling' | null;
+}
+
+export interface PriceFieldsInput {
+  priceType?: string;
+  price?: string;
+  priceMargin?: string | number;
+  priceFloor?: string | number;
+  priceCeiling?: string | number;
+}
+
+/**
+ * P2P Pricing Service
+ * Effective prices for fixed and floating ads. A floating ad is priced as
+ * reference rate × (1 + margin%), clamped to the ad's floor and ceiling.
+ */
+export class P2PPricingService {
+  private exchangeService = new ExchangeService();
+
+  /**
+   * Reference rate (fiat per 1 unit of crypto). Network variants of a
+   * stablecoin share the base symbol's rate. Stale rates are not used.
+   */
+  async getReferenceRate(cryptoCurrency: string, fiatCurrency: string): Promise<Decimal> {
+    const rate = await this.exchangeService.getExchangeRate(getBaseSymbol(cryptoCurrency), fiatCurrency.toUpperCase(), {
+      requireFresh: true,
+    });
+    const value = new Decimal(rate.rate);
+    if (!value.isFinite() || value.lte(0)) {
+      throw new Error(`Invalid reference rate for ${cryptoCurrency}/${fiatCurrency}`);
+    }
+    return value;
+  }
+
+  applyMargin(referenceRate: Decimal, margin: Numeric, floor: Numeric, ceiling: Numeric) {
+    const raw = referenceRate.mul(new Decimal(100).plus(margin.toString())).div(100);
+    const lower = new Decimal(floor.toString());
+    const upper = new Decimal(ceiling.toString());
+
+    if (raw.lt(lower)) {
+      return { price: lower, boundedBy: 'floor' as const };
+    }
+    if (raw.gt(upper)) {
+      return { price: upper, boundedBy: 'ceiling' as const };
+    }
+    return { price: raw.toDecimalPlaces(P2P_PRICE_DECIMALS), boundedBy: null };
+  }
+
+  /**
+   * Price one ad. Throws when a floating ad has no reference rate.
+   */
+  async priceAd(ad: PricedAdFields): Promise<AdPricing> {
+    if (ad.priceType !== 'floating') {
+      return { priceType: 'fixed', price: new Decimal(ad.price.toString()), referenceRate: null, boundedBy: null };
+    }
+
+    let referenceRate: Decimal;
+    try {
+      referenceRate = await this.getReferenceRate(ad.cryptoCurrency, ad.fiatCurrency);
+    } catch {
+      throw new Error(`Price for ad ${ad.id} is unavailable: no ${ad.cryptoCurrency}/${ad.fiatCurrency} reference rate`);
+    }
+    return this.priceFloating(ad, referenceRate);
+  }
+
+  /**
+   * Price many ads, looking up each reference pair once. Floating ads without a
+   * reference rate are left out of the result.
+   */
+  async priceAds(ads: PricedAdFields[]): Promise<Map<number, AdPricing>> {
+    const rates = new Map<string, Promise<Decimal | null>>();
+    const result = new Map<number, AdPricing>();
+
+    for (const ad of ads) {
+      if (ad.priceType !== 'floating') {
+        result.set(ad.id, {
+          priceType: 'fixed',
+          price: new Decimal(ad.price.toString()),
+          referenceRate: null,
+          boundedBy: null,
+        });
+        continue;
+      }
+
+      const pair = `${getBaseSymbol(ad.cryptoCurrency)}/${ad.fiatCurrency.toUpperCase()}`;
+      if (!rates.has(pair)) {
+        rates.set(pair, this.getReferenceRate(ad.cryptoCurrency, ad.fiatCurrency).catch(() => null));
+      }
+      const referenceRate = await rates.get(pair)!;
+      if (referenceRate) {
+        result.set(ad.id, this.priceFloating(ad, referenceRate));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Validate and normalize pricing input for an ad.
+   * `current` is the stored ad when updating; omitted fields keep their stored values.
+   */
+  async resolvePriceFields(
+    input: PriceFieldsInput,
+    pair: { cryptoCurrency: string; fiatCurrency: string },
+    current?: Omit<PricedAdFields, 'id' | 'cryptoCurrency' | 'fiatCurrency'>
+  ) {
+    const priceType = (input.priceType ?? current?.priceType ?? 'fixed') as P2PPriceType;
+    if (!P2P_PRICE_TYPES.includes(priceType)) {
+      throw new Error(`priceType must be one of: ${P2P_PRICE_TYPES.join(', ')}`);
+    }
+
+    if (priceType === 'fixed') {
+      const rawPrice = input.price ?? (current?.priceType === 'fixed' ? current.price.toString() : undefined);
+      if (rawPrice === undefined || rawPrice === '') {
+        throw new Error('Price is required for fixed-price ads');
+      }
+      const price = new Decimal(rawPrice);
+      if (price.lte(0)) {
+        throw new Error('Price must be greater than 0');
+      }
+      return { priceType, price, priceMargin: null, priceFloor: null, priceCeiling: null };
+    }
+
+    const marginRaw = input.priceMargin ?? current?.priceMargin?.toString();
+    const floorRaw = input.priceFloor ?? current?.priceFloor?.toString();
+    const ceilingRaw = input.priceCeiling ?? current?.priceCeiling?.toString();
+    if (marginRaw === undefined || floorRaw === undefined || ceilingRaw === undefined) {
+      throw new Error('priceMargin, priceFloor and priceCeiling are required for floating-price ads');
+    }
+
+    const priceMargin = new Decimal(marginRaw);
+    const priceFloor = new Decimal(floorRaw);
+    const priceCeiling = new Decimal(ceilingRaw);
+
+    if (priceMargin.lt(P2P_FLOATING_MARGIN_MIN) || priceMargin.gt(P2P_FLOATING_MARGIN_MAX)) {
+      throw new Error(`priceMargin must be between ${P2P_FLOATING_MARGIN_MIN} and ${P2P_FLOATING_MARGIN_MAX} percent`);
+    }
+    if (priceFloor.lte(0) || priceCeiling.lte(0)) {
+      throw new Error('priceFloor and priceCeiling must be greater than 0');
+    }
+    if (priceFloor.gte(priceCeiling)) {
+      throw new Error('priceFloor must be less than priceCeiling');
+    }
+
+    let referenceRate: Decimal;
+    try {
+      referenceRate = await this.getReferenceRate(pair.cryptoCurrency, pair.fiatCurrency);
+    } catch {
+      throw new Error(`Floating price is not available for ${pair.cryptoCurrency}/${pair.fiatCurrency}: no reference rate`);
+    }
+
+    // Stored as the ad's last computed price for listings that read the column
+    const { price } = this.applyMargin(referenceRate, priceMargin, priceFloor, priceCeiling);
+    return { priceType, price, priceMargin, priceFloor, priceCeiling };
+  }
+
+  private priceFloating(ad: PricedAdFields, referenceRate: Decimal): AdPricing {
+    const { price, boundedBy } = this.applyMargin(
+      referenceRate,
+      ad.priceMargin ?? 0,
+      ad.priceFloor ?? 0,
+      ad.priceCeiling ?? Number.MAX_SAFE_INTEGER
+    );
+    return { priceType: 'floating', price, referenceRate, boundedBy };
+  }
+}
@@ -0,0 +1,16 @@
+export const P2P_PRICE_TYPES = ['fixed', 'floating'] as const;
+export type P2PPriceType = (typeof P2P_PRICE_TYPES)[number];
+
+/** Allowed margin (percent over the reference rate) for floating-price ads */
+export const P2P_FLOATING_MARGIN_MIN = -20;
+export const P2P_FLOATING_MARGIN_MAX = 20;
+
+/** Effective prices are rounded to this many decimal places */
+export const P2P_PRICE_DECIMALS = 8;
+
+/** Upper bounds for counterparty requirements on an ad */
+export const P2P_MAX_MIN_ACCOUNT_AGE_DAYS = 3650;
+export const P2P_MAX_MIN_COMPLETED_ORDERS = 100000;
+
+/** Users one trader can block */
+export const P2P_MAX_BLOCKED_USERS = 500;
@@ -31,7 +31,6 @@ export class P2PController {
    *             required:
    *               - cryptoCurrency
    *               - fiatCurrency
-   *               - price
    *               - volume
    *               - minOrder
    *               - maxOrder
@@ -59,7 +58,28 @@ export class P2PController {
    *                 description: |
    *                   Price per 1 unit of cryptocurrency in fiat currency.
    *                   Example: "1500.00" means 1 BTC = 1500 NGN (or 1 USDT = 1500 NGN).
-   *                   Must be greater than 0.
+   *                   Must be greater than 0. Required for fixed-price ads.
+   *               priceType:
+   *                 type: string
+   *                 enum: [fixed, floating]
+   *                 default: fixed
+   *                 description: |
+   *                   fixed: `price` is used as is.
+   *                   floating: the price follows the reference exchange rate for the pair,
+   *                   adjusted by `priceMargin` and kept between `priceFloor` and `priceCeiling`.
+   *                   The price is computed when ads are browsed and locked into the order when it is created.
+   *               priceMargin:
+   *                 type: string
+   *                 example: "1.5"
+   *                 description: Floating only. Percent over (or under, if negative) the reference rate, -20 to 20.
+   *               priceFloor:
+   *                 type: string
+   *                 example: "1450.00"
+   *                 description: Floating only. Lowest effective price.
+   *               priceCeiling:
+   *                 type: string
+   *                 example: "1650.00"
+   *                 description: Floating only. Highest effective price. Must be greater than priceFloor.
    *               volume:
    *                 type: string
    *                 example: "50.00"
@@ -114,6 +134,28 @@ export class P2PController {
    *                 maxLength: 500
    *                 example: "Buy USDT at best rates. Fast and secure transactions."
    *                 description: Optional. Ad description or terms for buyers to see.
+   *               minKycTier:
+   *                 type: integer
+   *                 enum: [1, 2, 3]
+   *                 nullable: true
+   *                 description: Optional. Minimum verified KYC tier of the counterparty.
+   *               minAccountAgeDays:
+   *                 type: integer
+   *                 nullable: true
+   *                 description: Optional. Minimum age of the counterparty's account in days.
+   *               minCompletedOrders:
+   *                 type: integer
+   *                 nullable: true
+   *                 description: Optional. Minimum number of completed P2P orders of the counterparty.
+   *               allowedCountries:
+   *                 type: array
+   *                 nullable: true
+   *                 items:
+   *                   type: string
+   *                 example: ["NG", "GH"]
+   *                 description: |
+   *                   Optional. Only users registered in these countries can trade against the ad.
+   *                   Users who do not meet the requirements do not see the ad and cannot open orders on it.
    *     responses:
    *       201:
    *         description: Buy ad created successfully. Ad is now active and visible to sellers.
@@ -183,10 +225,12 @@ export class P2PController {
    *       400:
    *         description: |
    *           Validation error. Common errors:
-   *           - "Crypto currency, fiat currency, price, and volume are required"
+   *           - "Crypto currency, fiat currency, and volume are required"
+   *           - "Price is required for fixed-price ads"
+   *           - "priceMargin, priceFloor and priceCeiling are required for floating-price ads"
    *           - "Min order and max order are required"
    *           - "At least one payment method is required"
-   *           - "Price, volume, and order limits must be greater than 0"
+   *           - "Volume and order limits must be greater than 0"
    *           - "Min order must be less than max order"
    *           - "Min order cannot be greater than volume"
    *           - "One or more payment methods are invalid or not found"
@@ -211,6 +255,10 @@ export class P2PController {
         cryptoCurrency,
         fiatCurrency,
         price,
+        priceType,
+        priceMargin,
+        priceFloor,
+        priceCeiling,
         volume,
         minOrder,
         maxOrder,
@@ -218,6 +266,10 @@ export class P2PController {
         paymentMethodIds,
         countryCode,
         description,
+        minKycTier,
+        minAccountAgeDays,
+        minCompletedOrders,
+        allowedCountries,
       } = req.body;
 
       if (!userId) {
@@ -231,6 +283,10 @@ export class P2PController {
         cryptoCurrency,
         fiatCurrency,
         price,
+        priceType,
+        priceMargin,
+        priceFloor,
+        priceCeiling,
         volume,
         minOrder,
         maxOrder,
@@ -238,6 +294,10 @@ export class P2PController {
         paymentMethodIds,
         countryCode,
         description,
+        minKycTier,
+        minAccountAgeDays,
+        minCompletedOrders,
+        allowedCountries,
       });
 
       return res.status(201).json({
@@ -270,7 +330,6 @@ export class P2PController {
    *             required:
    *               - cryptoCurrency
    *               - fiatCurrency
-   *               - price
    *               - volume
    *               - minOrder
    *               - maxOrder
@@ -285,6 +344,27 @@ export class P2PController {
    *               price:
    *                 type: string
    *                 example: "1550.70"
+   *               priceType:
+   *                 type: string
+   *                 enum: [fixed, floating]
+   *                 default: fixed
+   *                 description: |
+   *                   fixed: `price` is used as is.
+   *                   floating: the price follows the reference exchange rate for the pair,
+   *                   adjusted by `priceMargin` and kept between `priceFloor` and `priceCeiling`.
+   *                   The price is computed when ads are browsed and locked into the order when it is created.
+   *               priceMargin:
+   *                 type: string
+   *                 example: "1.5"
+   *                 description: Floating only. Percent over (or under, if negative) the reference rate, -20 to 20.
+   *               priceFloor:
+   *                 type: string
+   *                 example: "1450.00"
+   *                 description: Floating only. Lowest effective price.
+   *               priceCeiling:
+   *                 type: string
+   *                 example: "1650.00"
+   *                 description: Floating only. Highest effective price. Must be greater than priceFloor.
    *               volume:
    *                 type: string
    *                 example: "100.00"
@@ -307,6 +387,28 @@ export class P2PController {
    *                 example: "NG"
    *               description:
    *                 type: string
+   *               minKycTier:
+   *                 type: integer
+   *                 enum: [1, 2, 3]
+   *                 nullable: true
+   *                 description: Optional. Minimum verified KYC tier of the counterparty.
+   *               minAccountAgeDays:
+   *                 type: integer
+   *                 nullable: true
+   *                 description: Optional. Minimum age of the counterparty's account in days.
+   *               minCompletedOrders:
+   *                 type: integer
+   *                 nullable: true
+   *                 description: Optional. Minimum number of completed P2P orders of the counterparty.
+   *               allowedCountries:
+   *                 type: array
+   *                 nullable: true
+   *                 items:
+   *                   type: string
+   *                 example: ["NG", "GH"]
+   *                 description: |
+   *                   Optional. Only users registered in these countries can trade against the ad.
+   *                   Users who do not meet the requirements do not see the ad and cannot open orders on it.
    *     responses:
    *       201:
    *         description: Sell ad created successfully
@@ -321,6 +423,10 @@ export class P2PController {
         cryptoCurrency,
         fiatCurrency,
         price,
+        priceType,
+        priceMargin,
+        priceFloor,
+        priceCeiling,
         volume,
         minOrder,
         maxOrder,
@@ -328,6 +434,10 @@ export class P2PController {
         paymentMethodIds,
         countryCode,
         description,
+        minKycTier,
+        minAccountAgeDays,
+        minCompletedOrders,
+        allowedCountries,
       } = req.body;
 
       if (!userId) {
@@ -341,6 +451,10 @@ export class P2PController {
         cryptoCurrency,
         fiatCurrency,
         price,
+        priceType,
+        priceMargin,
+        priceFloor,
+        priceCeiling,
         volume,
         minOrder,
         maxOrder,
@@ -348,6 +462,10 @@ export class P2PController {
         paymentMethodIds,
         countryCode,
         description,
+        minKycTier,
+        minAccountAgeDays,
+        minCompletedOrders,
+        allowedCountries,
       });
 
       return res.status(201).json({
@@ -631,6 +749,16 @@ export class P2PController {
    *             properties:
    *               price:
    *                 type: string
+   *                 description: Fixed-price ads
+   *               priceType:
+   *                 type: string
+   *                 enum: [fixed, floating]
+   *               priceMargin:
+   *                 type: string
+   *               priceFloor:
+   *                 type: string
+   *               priceCeiling:
+   *                 type: string
    *               volume:
    *                 type: string
    *               minOrder:
@@ -647,6 +775,21 @@ export class P2PController {
    *                 type: string
    *               description:
    *                 type: string
+   *               minKycTier:
+   *                 type: integer
+   *                 nullable: true
+   *               minAccountAgeDays:
+   *                 type: integer
+   *                 nullable: true
+   *               minCompletedOrders:
+   *                 type: integer
+   *                 nullable: true
+   *               allowedCountries:
+   *                 type: array
+   *                 nullable: true
+   *                 items:
+   *                   type: string
+   *                 description: Send null or 0 (an empty array for countries) to remove a requirement
    *     responses:
    *       200:
    *         description: Ad updated successfully
@@ -660,6 +803,10 @@ export class P2PController {
       const { id } = req.params;
       const {
         price,
+        priceType,
+        priceMargin,
+        priceFloor,
+        priceCeiling,
         volume,
         minOrder,
         maxOrder,
@@ -667,6 +814,10 @@ export class P2PController {
         paymentMethodIds,
         countryCode,
         description,
+        minKycTier,
+        minAccountAgeDays,
+        minCompletedOrders,
+        allowedCountries,
       } = req.body;
 
       if (!userId) {
@@ -685,6 +836,10 @@ export class P2PController {
 
       const result = await this.service.updateAd(userId.toString(), id, {
         price,
+        priceType,
+        priceMargin,
+        priceFloor,
+        priceCeiling,
         volume,
         minOrder,
         maxOrder,
@@ -692,6 +847,10 @@ export class P2PController {
         paymentMethodIds,
         countryCode,
         description,
+        minKycTier,
+        minAccountAgeDays,
+        minCompletedOrders,
+        allowedCountries,
       });
 
       return res.json({
@@ -705,5 +864,165 @@ export class P2PController {
       });
     }
   }
-}
 
+  /**
+   * @swagger
+   * /api/p2p/blocks:
+   *   get:
+   *     summary: "List users I have blocked"
+   *     tags: ["P2P - Block List"]
+   *     security:
+   *       - bearerAuth: []
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Blocked users, newest first
+   *       401:
+   *         description: Unauthorized
+   */
+  async getBlockedUsers(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const result = await this.service.getBlockedUsers(userId.toString());
+
+      return res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message || 'Failed to get blocked users',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/p2p/blocks:
+   *   post:
+   *     summary: "Block a user"
+   *     description: |
+   *       Neither of you will see the other's ads and neither can open an order on the other's ads.
+   *       Orders already in progress are not affected.
+   *     tags: ["P2P - Block List"]
+   *     security:
+   *       - bearerAuth: []
+   *       - cookieAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - userId
+   *             properties:
+   *               userId:
+   *                 type: integer
+   *                 example: 42
+   *               reason:
+   *                 type: string
+   *                 maxLength: 255
+   *                 description: Private note, not shown to the blocked user
+   *     responses:
+   *       201:
+   *         description: User blocked
+   *       400:
+   *         description: Invalid user, already blocked or block limit reached
+   *       404:
+   *         description: User not found
+   */
+  async blockUser(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+      const { userId: targetUserId, reason } = req.body || {};
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      if (!targetUserId) {
+        return res.status(400).json({
+          success: false,
+          message: 'userId is required',
+        });
+      }
+
+      const result = await this.service.blockUser(
+        userId.toString(),
+        targetUserId,
+        typeof reason === 'string' ? reason : undefined
+      );
+
+      return res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      const message = error.message || 'Failed to block user';
+      return res.status(message.includes('not found') ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/p2p/blocks/{userId}:
+   *   delete:
+   *     summary: "Unblock a user"
+   *     tags: ["P2P - Block List"]
+   *     security:
+   *       - bearerAuth: []
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: userId
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     responses:
+   *       200:
+   *         description: User unblocked
+   *       404:
+   *         description: Block not found
+   */
+  async unblockUser(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const result = await this.service.unblockUser(userId.toString(), req.params.userId);
+
+      return res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      const message = error.message || 'Failed to unblock user';
+      return res.status(message.includes('not found') ? 404 : 400).json({
+        success: false,
+        message,
+      });
+    }
+  }
+}
@@ -44,6 +44,13 @@ export class P2PModule implements IModule {
     
     // Update/edit ad
     this.router.put('/ads/:id', authMiddleware, this.controller.updateAd.bind(this.controller));
+
+    // ============================================
+    // BLOCK LIST - Users I don't trade with
+    // ============================================
+    this.router.get('/blocks', authMiddleware, this.controller.getBlockedUsers.bind(this.controller));
+    this.router.post('/blocks', authMiddleware, this.controller.blockUser.bind(this.controller));
+    this.router.delete('/blocks/:userId', authMiddleware, this.controller.unblockUser.bind(this.controller));
   }
 }
 
@@ -1,12 +1,17 @@
 import { Decimal } from 'decimal.js';
 import prisma from '../../core/config/database.js';
 import { Prisma } from '@prisma/client';
+import { P2PPricingService } from './p2p-pricing.service.js';
+import { P2PEligibilityService, type RequirementsInput } from './p2p-eligibility.service.js';
 
 /**
  * P2P Service
  * Manages P2P trading advertisements (buy/sell ads)
  */
 export class P2PService {
+  private pricingService = new P2PPricingService();
+  private eligibilityService = new P2PEligibilityService();
+
   /**
    * Create a buy ad
    */
@@ -15,7 +20,11 @@ export class P2PService {
     data: {
       cryptoCurrency: string;
       fiatCurrency: string;
-      price: string;
+      price?: string;
+      priceType?: 'fixed' | 'floating';
+      priceMargin?: string;
+      priceFloor?: string;
+      priceCeiling?: string;
       volume: string;
       minOrder: string;
       maxOrder: string;
@@ -23,11 +32,11 @@ export class P2PService {
       paymentMethodIds: string[];
       countryCode?: string;
       description?: string;
-    }
+    } & RequirementsInput
   ) {
     // Validate required fields
-    if (!data.cryptoCurrency || !data.fiatCurrency || !data.price || !data.volume) {
-      throw new Error('Crypto currency, fiat currency, price, and volume are required');
+    if (!data.cryptoCurrency || !data.fiatCurrency || !data.volume) {
+      throw new Error('Crypto currency, fiat currency, and volume are required');
     }
 
     if (!data.minOrder || !data.maxOrder) {
@@ -38,16 +47,19 @@ export class P2PService {
       throw new Error('At least one payment method is required');
     }
 
-    // Validate price, volume, and order limits are positive
-    const price = new Decimal(data.price);
+    // Validate volume and order limits are positive
     const volume = new Decimal(data.volume);
     const minOrder = new Decimal(data.minOrder);
     const maxOrder = new Decimal(data.maxOrder);
 
-    if (price.lte(0) || volume.lte(0) || minOrder.lte(0) || maxOrder.lte(0)) {
-      throw new Error('Price, volume, and order limits must be greater than 0');
+    if (volume.lte(0) || minOrder.lte(0) || maxOrder.lte(0)) {
+      throw new Error('Volume and order limits must be greater than 0');
     }
 
+    // Fixed price, or margin/floor/ceiling for floating-price ads
+    const pricing = await this.pricingService.resolvePriceFields(data, data);
+    const requirements = this.eligibilityService.normalizeRequirements(data);
+
     if (minOrder.gte(maxOrder)) {
       throw new Error('Min order must be less than max order');
     }
@@ -91,7 +103,11 @@ export class P2PService {
         type: 'buy',
         cryptoCurrency: data.cryptoCurrency,
         fiatCurrency: data.fiatCurrency,
-        price: price.toNumber(),
+        price: pricing.price.toNumber(),
+        priceType: pricing.priceType,
+        priceMargin: pricing.priceMargin?.toNumber() ?? null,
+        priceFloor: pricing.priceFloor?.toNumber() ?? null,
+        priceCeiling: pricing.priceCeiling?.toNumber() ?? null,
         volume: volume.toNumber(),
         minOrder: minOrder.toNumber(),
         maxOrder: maxOrder.toNumber(),
@@ -99,6 +115,7 @@ export class P2PService {
         paymentMethodIds: parsedPaymentMethodIds as any,
         countryCode: data.countryCode ?? null,
         description: data.description ?? null,
+        ...requirements,
         status: 'available',
         isOnline: true,
       },
@@ -110,6 +127,7 @@ export class P2PService {
       cryptoCurrency: ad.cryptoCurrency,
       fiatCurrency: ad.fiatCurrency,
       price: ad.price.toString(),
+      ...this.formatPricingFields(ad),
       volume: ad.volume.toString(),
       minOrder: ad.minOrder.toString(),
       maxOrder: ad.maxOrder.toString(),
@@ -122,6 +140,7 @@ export class P2PService {
       score: ad.score?.toString(),
       countryCode: ad.countryCode,
       description: ad.description,
+      requirements: this.eligibilityService.formatRequirements(ad),
       createdAt: ad.createdAt,
       updatedAt: ad.updatedAt,
       message: 'Buy ad created successfully',
@@ -136,7 +155,11 @@ export class P2PService {
     data: {
       cryptoCurrency: string;
       fiatCurrency: string;
-      price: string;
+      price?: string;
+      priceType?: 'fixed' | 'floating';
+      priceMargin?: string;
+      priceFloor?: string;
+      priceCeiling?: string;
       volume: string;
       minOrder: string;
       maxOrder: string;
@@ -144,11 +167,11 @@ export class P2PService {
       paymentMethodIds: string[];
       countryCode?: string;
       description?: string;
-    }
+    } & RequirementsInput
   ) {
     // Validate required fields
-    if (!data.cryptoCurrency || !data.fiatCurrency || !data.price || !data.volume) {
-      throw new Error('Crypto currency, fiat currency, price, and volume are required');
+    if (!data.cryptoCurrency || !data.fiatCurrency || !data.volume) {
+      throw new Error('Crypto currency, fiat currency, and volume are required');
     }
 
     if (!data.minOrder || !data.maxOrder) {
@@ -159,16 +182,19 @@ export class P2PService {
       throw new Error('At least one payment method is required');
     }
 
-    // Validate price, volume, and order limits are positive
-    const price = new Decimal(data.price);
+    // Validate volume and order limits are positive
     const volume = new Decimal(data.volume);
     const minOrder = new Decimal(data.minOrder);
     const maxOrder = new Decimal(data.maxOrder);
 
-    if (price.lte(0) || volume.lte(0) || minOrder.lte(0) || maxOrder.lte(0)) {
-      throw new Error('Price, volume, and order limits must be greater than 0');
+    if (volume.lte(0) || minOrder.lte(0) || maxOrder.lte(0)) {
+      throw new Error('Volume and order limits must be greater than 0');
     }
 
+    // Fixed price, or margin/floor/ceiling for floating-price ads
+    const pricing = await this.pricingService.resolvePriceFields(data, data);
+    const requirements = this.eligibilityService.normalizeRequirements(data);
+
     if (minOrder.gte(maxOrder)) {
       throw new Error('Min order must be less than max order');
     }
@@ -212,7 +238,11 @@ export class P2PService {
         type: 'sell',
         cryptoCurrency: data.cryptoCurrency,
         fiatCurrency: data.fiatCurrency,
-        price: price.toNumber(),
+        price: pricing.price.toNumber(),
+        priceType: pricing.priceType,
+        priceMargin: pricing.priceMargin?.toNumber() ?? null,
+        priceFloor: pricing.priceFloor?.toNumber() ?? null,
+        priceCeiling: pricing.priceCeiling?.toNumber() ?? null,
         volume: volume.toNumber(),
         minOrder: minOrder.toNumber(),
         maxOrder: maxOrder.toNumber(),
@@ -220,6 +250,7 @@ export class P2PService {
         paymentMethodIds: parsedPaymentMethodIds as any,
         countryCode: data.countryCode ?? null,
         description: data.description ?? null,
+        ...requirements,
         status: 'available',
         isOnline: true,
       },
@@ -231,6 +262,7 @@ export class P2PService {
       cryptoCurrency: ad.cryptoCurrency,
       fiatCurrency: ad.fiatCurrency,
       price: ad.price.toString(),
+      ...this.formatPricingFields(ad),
       volume: ad.volume.toString(),
       minOrder: ad.minOrder.toString(),
       maxOrder: ad.maxOrder.toString(),
@@ -243,6 +275,7 @@ export class P2PService {
       score: ad.score?.toString(),
       countryCode: ad.countryCode,
       description: ad.description,
+      requirements: this.eligibilityService.formatRequirements(ad),
       createdAt: ad.createdAt,
       updatedAt: ad.updatedAt,
       message: 'Sell ad created successfully',
@@ -282,6 +315,7 @@ export class P2PService {
       cryptoCurrency: ad.cryptoCurrency,
       fiatCurrency: ad.fiatCurrency,
       price: ad.price.toString(),
+      ...this.formatPricingFields(ad),
       volume: ad.volume.toString(),
       minOrder: ad.minOrder.toString(),
       maxOrder: ad.maxOrder.toString(),
@@ -294,6 +328,7 @@ export class P2PService {
       score: ad.score?.toString(),
       countryCode: ad.countryCode,
       description: ad.description,
+      requirements: this.eligibilityService.formatRequirements(ad),
       createdAt: ad.createdAt,
       updatedAt: ad.updatedAt,
     }));
@@ -332,6 +367,7 @@ export class P2PService {
       cryptoCurrency: ad.cryptoCurrency,
       fiatCurrency: ad.fiatCurrency,
       price: ad.price.toString(),
+      ...this.formatPricingFields(ad),
       volume: ad.volume.toString(),
       minOrder: ad.minOrder.toString(),
       maxOrder: ad.maxOrder.toString(),
@@ -344,6 +380,7 @@ export class P2PService {
       score: ad.score?.toString(),
       countryCode: ad.countryCode,
       description: ad.description,
+      requirements: this.eligibilityService.formatRequirements(ad),
       createdAt: ad.createdAt,
       updatedAt: ad.updatedAt,
     };
@@ -410,6 +447,10 @@ export class P2PService {
     adId: string,
     data: {
       price?: string;
+      priceType?: 'fixed' | 'floating';
+      priceMargin?: string;
+      priceFloor?: string;
+      priceCeiling?: string;
       volume?: string;
       minOrder?: string;
       maxOrder?: string;
@@ -417,7 +458,7 @@ export class P2PService {
       paymentMethodIds?: string[];
       countryCode?: string;
       description?: string;
-    }
+    } & RequirementsInput
   ) {
     // Parse userId to integer
     const parsedUserId = typeof userId === 'string' ? parseInt(userId, 10) : userId;
@@ -444,12 +485,17 @@ export class P2PService {
 
     const updateData: any = {};
 
-    if (data.price !== undefined) {
-      const price = new Decimal(data.price);
-      if (price.lte(0)) {
-        throw new Error('Price must be greater than 0');
-      }
-      updateData.price = price.toNumber();
+    const pricingChanged = [data.price, data.priceType, data.priceMargin, data.priceFloor, data.priceCeiling].some(
+      (value) => value !== undefined
+    );
+    if (pricingChanged) {
+      // Omitted pricing fields keep their stored values; switching to fixed clears the floating fields
+      const pricing = await this.pricingService.resolvePriceFields(data, ad, ad);
+      updateData.price = pricing.price.toNumber();
+      updateData.priceType = pricing.priceType;
+      updateData.priceMargin = pricing.priceMargin?.toNumber() ?? null;
+      updateData.priceFloor = pricing.priceFloor?.toNumber() ?? null;
+      updateData.priceCeiling = pricing.priceCeiling?.toNumber() ?? null;
     }
 
     if (data.volume !== undefined) {
@@ -532,6 +578,8 @@ export class P2PService {
       updateData.description = data.description;
     }
 
+    Object.assign(updateData, this.eligibilityService.normalizeRequirements(data));
+
     const updated = await prisma.p2PAd.update({
       where: { id: parsedAdId },
       data: updateData,
@@ -543,6 +591,7 @@ export class P2PService {
       cryptoCurrency: updated.cryptoCurrency,
       fiatCurrency: updated.fiatCurrency,
       price: updated.price.toString(),
+      ...this.formatPricingFields(updated),
       volume: updated.volume.toString(),
       minOrder: updated.minOrder.toString(),
       maxOrder: updated.maxOrder.toString(),
@@ -555,10 +604,52 @@ export class P2PService {
       score: updated.score?.toString(),
       countryCode: updated.countryCode,
       description: updated.description,
+      requirements: this.eligibilityService.formatRequirements(updated),
       createdAt: updated.createdAt,
       updatedAt: updated.updatedAt,
       message: 'Ad updated successfully',
     };
   }
+
+  /**
+   * Users I have blocked from trading with me
+   */
+  async getBlockedUsers(userId: string) {
+    return this.eligibilityService.listBlocks(this.parseUserId(userId));
+  }
+
+  async blockUser(userId: string, targetUserId: string | number, reason?: string) {
+    return this.eligibilityService.blockUser(this.parseUserId(userId), Number(targetUserId), reason);
+  }
+
+  async unblockUser(userId: string, targetUserId: string | number) {
+    return this.eligibilityService.unblockUser(this.parseUserId(userId), Number(targetUserId));
+  }
+
+  private parseUserId(userId: string) {
+    const parsedUserId = typeof userId === 'string' ? parseInt(userId, 10) : userId;
+    if (isNaN(parsedUserId) || parsedUserId <= 0) {
+      throw new Error('Invalid user ID format');
+    }
+    return parsedUserId;
+  }
+
+  /**
+   * Pricing fields of an ad in API shape. For floating ads `price` is the last computed price;
+   * browse and order creation use the live price.
+   */
+  private formatPricingFields(ad: {
+    priceType: string;
+    priceMargin: Prisma.Decimal | null;
+    priceFloor: Prisma.Decimal | null;
+    priceCeiling: Prisma.Decimal | null;
+  }) {
+    return {
+      priceType: ad.priceType,
+      priceMargin: ad.priceMargin?.toString() ?? null,
+      priceFloor: ad.priceFloor?.toString() ?? null,
+      priceCeiling: ad.priceCeiling?.toString() ?? null,
+    };
+  }
 }
 
@@ -0,0 +1,106 @@
+import { type Request, type Response } from 'express';
+import { realtimeGateway } from '../../core/realtime/index.js';
+import { RealtimeService } from './realtime.service.js';
+
+/**
+ * Realtime Controller
+ * Server-Sent Events stream and typing indicators for the app
+ */
+export class RealtimeController {
+  constructor(private service: RealtimeService) {}
+
+  /**
+   * @swagger
+   * /api/realtime/stream:
+   *   get:
+   *     summary: Open the realtime event stream
+   *     description: |
+   *       Server-Sent Events stream authenticated like every other endpoint (Bearer token or
+   *       the `token` cookie). The connection stays open; each event is sent as
+   *       `event: <type>` with a JSON `data` line.
+   *
+   *       Event types: `ready`, `p2p.chat.message`, `p2p.chat.read`, `p2p.chat.typing`,
+   *       `p2p.order.status`, `support.message`, `support.typing`, `notification.created`,
+   *       `session.expired`.
+   *
+   *       The stream is closed with a `session.expired` event when the access token expires.
+   *       Refresh the token before reconnecting.
+   *
+   *       Events are not replayed. After reconnecting, refetch messages, orders and
+   *       notifications over REST.
+   *     tags: [Realtime]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Event stream
+   *         content:
+   *           text/event-stream:
+   *             schema:
+   *               type: string
+   *       401:
+   *         description: Unauthorized
+   *       429:
+   *         description: Too many open streams for this account
+   */
+  async stream(req: Request, res: Response) {
+    const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    realtimeGateway.connectUser(req, res, Number(userId), (req as any).tokenExpiresAt);
+  }
+
+  /**
+   * @swagger
+   * /api/realtime/typing:
+   *   post:
+   *     summary: Send a typing indicator
+   *     description: Relayed to the other party of a P2P order chat, or to support agents for a support chat.
+   *     tags: [Realtime]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               orderId:
+   *                 type: integer
+   *               chatId:
+   *                 type: integer
+   *                 description: Support chat ID
+   *               isTyping:
+   *                 type: boolean
+   *                 default: true
+   *     responses:
+   *       200:
+   *         description: Typing indicator sent
+   *       400:
+   *         description: Invalid request
+   *       404:
+   *         description: Order or chat not found
+   */
+  async typing(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const { orderId, chatId, isTyping } = req.body || {};
+      const data = await this.service.sendTyping(Number(userId), {
+        orderId: orderId ? Number(orderId) : undefined,
+        chatId: chatId ? Number(chatId) : undefined,
+        isTyping: isTyping === undefined ? undefined : isTyping === true || isTyping === 'true',
+      });
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      const message = error.message || 'Failed to send typing indicator';
+      return res.status(message.includes('not found') ? 404 : 400).json({ success: false, message });
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { type IModule } from '../../core/types/module.types.js';
+import { RealtimeController } from './realtime.controller.js';
+import { RealtimeService } from './realtime.service.js';
+
+/**
+ * Realtime Module
+ * Pushes chat messages, read receipts, typing indicators, order status changes
+ * and notifications to connected clients
+ */
+export class RealtimeModule implements IModule {
+  public readonly name = 'realtime';
+  public readonly path = '/api/realtime';
+  public readonly router: Router;
+
+  private controller: RealtimeController;
+  private service: RealtimeService;
+
+  constructor() {
+    this.service = new RealtimeService();
+    this.controller = new RealtimeController(this.service);
+    this.router = Router();
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    this.router.get('/stream', this.controller.stream.bind(this.controller));
+    this.router.post('/typing', this.controller.typing.bind(this.controller));
+  }
+}
@@ -0,0 +1,44 @@
+import prisma from '../../core/config/database.js';
+import { publishP2PChatTyping, publishSupportTyping } from '../../core/realtime/index.js';
+
+/**
+ * Realtime Service
+ * Client-originated realtime signals (typing indicators)
+ */
+export class RealtimeService {
+  /**
+   * Relay a typing indicator to the other side of a P2P order chat or a support chat
+   */
+  async sendTyping(userId: number, data: { orderId?: number; chatId?: number; isTyping?: boolean }) {
+    const isTyping = data.isTyping !== false;
+
+    if (data.orderId) {
+      const order = await prisma.p2POrder.findUnique({ where: { id: data.orderId } });
+      if (!order) {
+        throw new Error('Order not found');
+      }
+      if (order.vendorId !== userId && order.userId !== userId) {
+        throw new Error('Unauthorized to send typing events for this order');
+      }
+
+      const counterpartyId = order.vendorId === userId ? order.userId : order.vendorId;
+      publishP2PChatTyping(order.id, userId, counterpartyId, isTyping);
+      return { orderId: order.id, isTyping };
+    }
+
+    if (data.chatId) {
+      const chat = await prisma.supportChat.findUnique({ where: { id: data.chatId } });
+      if (!chat) {
+        throw new Error('Chat not found');
+      }
+      if (chat.userId !== userId) {
+        throw new Error('Unauthorized to send typing events for this chat');
+      }
+
+      publishSupportTyping(chat, false, isTyping);
+      return { chatId: chat.id, isTyping };
+    }
+
+    throw new Error('orderId or chatId is required');
+  }
+}
@@ -0,0 +1,359 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../../core/config/database.js';
+import { decryptPrivateKey } from '../../core/utils/encryption.js';
+import { notifyReferral } from '../../core/utils/notification.events.js';
+import { ensureRhinoxPayId, isRhinoxPayId, normalizeRhinoxPayId } from '../../core/utils/rhinox-pay-id.service.js';
+import {
+  DEFAULT_REFERRAL_QUALIFY_DAYS,
+  REFERRAL_BATCH_SIZE,
+  REFERRAL_QUALIFYING_TRANSACTION_TYPES,
+  REFERRAL_REWARD_SERVICES,
+  type ReferralFlag,
+} from './rewards.constants.js';
+import { RewardEligibilityService } from './reward-eligibility.service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Referral Service
+ * Users invite others with their Rhinox Pay ID. A referral qualifies once the
+ * referee has verified KYC and completed a first transaction, after the
+ * anti-abuse checks pass; rewards then come from the referral reward rules.
+ */
+export class ReferralService {
+  private eligibilityService = new RewardEligibilityService();
+
+  /**
+   * Referrer behind a referral code (a Rhinox Pay ID)
+   */
+  async findReferrer(code: string) {
+    const normalized = normalizeRhinoxPayId(code);
+    if (!normalized || !isRhinoxPayId(normalized)) {
+      throw new Error('Invalid referral code');
+    }
+
+    const referrer = await prisma.user.findUnique({
+      where: { rhinoxPayId: normalized },
+      select: { id: true, rhinoxPayId: true, isActive: true },
+    });
+    if (!referrer || !referrer.isActive) {
+      throw new Error('Invalid referral code');
+    }
+
+    return { id: referrer.id, code: normalized };
+  }
+
+  async getDashboard(userId: number) {
+    const code = await ensureRhinoxPayId(userId);
+    const appUrl = process.env.FRONTEND_URL?.trim().replace(/\/$/, '');
+
+    const [referrals, rewards, rules] = await Promise.all([
+      prisma.referral.findMany({
+        where: { referrerId: userId },
+        orderBy: { createdAt: 'desc' },
+        include: { referee: { select: { firstName: true, lastName: true } } },
+      }),
+      prisma.userReward.findMany({
+        where: { userId, referralId: { not: null } },
+        orderBy: { eligibleAt: 'desc' },
+        include: { rule: { select: { name: true, rewardValue: true } } },
+      }),
+      prisma.rewardRule.findMany({
+        where: { isActive: true, service: REFERRAL_REWARD_SERVICES.referrer, metric: 'count' },
+        orderBy: { threshold: 'asc' },
+        select: { id: true, name: true, rewardValue: true, threshold: true, period: true },
+      }),
+    ]);
+
+    const qualified = referrals.filter((referral) => referral.status === 'qualified').length;
+
+    return {
+      code,
+      shareLink: appUrl ? `${appUrl}/register?ref=${code}` : null,
+      stats: {
+        total: referrals.length,
+        pending: referrals.filter((referral) => referral.status === 'pending' || referral.status === 'flagged').length,
+        qualified,
+        rewardsEarned: rewards.length,
+      },
+      milestones: rules.map((rule) => ({
+        id: rule.id,
+        name: rule.name,
+        reward: rule.rewardValue,
+        referralsRequired: Number(rule.threshold),
+        period: rule.period,
+        reached: rewards.some((reward) => reward.ruleId === rule.id),
+      })),
+      referrals: referrals.map((referral) => ({
+        id: referral.id,
+        name: this.maskName(referral.referee.firstName, referral.referee.lastName),
+        // Flagged referrals are shown as under review so the checks are not revealed
+        status: referral.status === 'flagged' ? 'under_review' : referral.status,
+        kycVerified: referral.kycVerifiedAt !== null,
+        firstTransactionCompleted: referral.firstTransactionId !== null,
+        joinedAt: referral.createdAt,
+        qualifiedAt: referral.qualifiedAt,
+      })),
+      rewards: rewards.map((reward) => ({
+        id: reward.id,
+        title: reward.rule.name,
+        value: reward.rule.rewardValue,
+        status: reward.status,
+        eligibleAt: reward.eligibleAt,
+        expiresAt: reward.expiresAt,
+      })),
+    };
+  }
+
+  /**
+   * Qualify a pending referral if the referee has verified KYC and a completed
+   * first transaction. Referrals matching an anti-abuse check are flagged for review.
+   */
+  async evaluate(id: number) {
+    const referral = await prisma.referral.findUnique({
+      where: { id },
+      include: { referee: { select: { kyc: { select: { status: true, verifiedAt: true } } } } },
+    });
+    if (!referral) {
+      throw new Error('Referral not found');
+    }
+    if (referral.status !== 'pending') {
+      return referral;
+    }
+
+    const kyc = referral.referee.kyc;
+    if (kyc?.status !== 'verified') {
+      return referral;
+    }
+
+    const firstTransaction = await prisma.transaction.findFirst({
+      where: {
+        wallet: { userId: referral.refereeId },
+        status: 'completed',
+        type: { in: REFERRAL_QUALIFYING_TRANSACTION_TYPES },
+        createdAt: { gte: referral.createdAt },
+      },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+    if (!firstTransaction) {
+      return referral;
+    }
+
+    const flags = await this.getAbuseFlags(referral);
+    const now = new Date();
+    const updated = await prisma.referral.updateMany({
+      where: { id, status: 'pending' },
+      data: {
+        status: flags.length ? 'flagged' : 'qualified',
+        flags: flags.length ? flags : Prisma.DbNull,
+        kycVerifiedAt: kyc.verifiedAt ?? now,
+        firstTransactionId: firstTransaction.id,
+        ...(!flags.length && { qualifiedAt: now }),
+      },
+    });
+    if (updated.count !== 1) {
+      return prisma.referral.findUniqueOrThrow({ where: { id } });
+    }
+
+    if (!flags.length) {
+      await this.grantRewards(id);
+    }
+
+    return prisma.referral.findUniqueOrThrow({ where: { id } });
+  }
+
+  /**
+   * Expire referrals past the qualifying window and evaluate the pending ones
+   * whose referee has verified KYC and a completed transaction
+   */
+  async processPending(now = new Date()) {
+    const expired = await prisma.referral.updateMany({
+      where: { status: 'pending', createdAt: { lt: new Date(now.getTime() - this.getQualifyDays() * DAY_MS) } },
+      data: { status: 'expired' },
+    });
+
+    const due = await prisma.referral.findMany({
+      where: {
+        status: 'pending',
+        referee: {
+          kyc: { status: 'verified' },
+          wallets: {
+            some: {
+              transactions: { some: { status: 'completed', type: { in: REFERRAL_QUALIFYING_TRANSACTION_TYPES } } },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: REFERRAL_BATCH_SIZE,
+      select: { id: true },
+    });
+
+    let qualified = 0;
+    let flagged = 0;
+    for (const { id } of due) {
+      try {
+        const referral = await this.evaluate(id);
+        if (referral.status === 'qualified') qualified++;
+        else if (referral.status === 'flagged') flagged++;
+      } catch (error) {
+        console.error(`[Referrals] Failed to evaluate referral ${id}:`, error);
+      }
+    }
+
+    return { expired: expired.count, picked: due.length, qualified, flagged };
+  }
+
+  /**
+   * Admin decision on a referral: approve a flagged one (rewards are granted) or
+   * reject a pending or flagged one
+   */
+  async review(id: number, adminId: number, decision: string, note?: string) {
+    if (decision !== 'approve' && decision !== 'reject') {
+      throw new Error('decision must be approve or reject');
+    }
+
+    const referral = await prisma.referral.findUnique({ where: { id } });
+    if (!referral) {
+      throw new Error('Referral not found');
+    }
+    const allowed = decision === 'approve' ? ['flagged'] : ['pending', 'flagged'];
+    if (!allowed.includes(referral.status)) {
+      throw new Error(`Cannot ${decision} a ${referral.status} referral`);
+    }
+
+    const now = new Date();
+    const updated = await prisma.referral.updateMany({
+      where: { id, status: referral.status },
+      data: {
+        status: decision === 'approve' ? 'qualified' : 'rejected',
+        ...(decision === 'approve' && { qualifiedAt: now }),
+        reviewedById: adminId,
+        reviewNote: note?.trim().slice(0, 500) || null,
+        reviewedAt: now,
+      },
+    });
+    if (updated.count !== 1) {
+      throw new Error('Referral was updated concurrently. Reload and try again');
+    }
+
+    if (decision === 'approve') {
+      await this.grantRewards(id);
+    }
+
+    return prisma.referral.findUniqueOrThrow({ where: { id } });
+  }
+
+  getQualifyDays(): number {
+    const parsed = Number(process.env.REFERRAL_QUALIFY_DAYS);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_REFERRAL_QUALIFY_DAYS;
+  }
+
+  /**
+   * Anti-abuse checks: the referee signed up on, or trusts, a device the referrer
+   * uses, signed up or logged in from an IP the referrer used, or both saved the
+   * same bank account. Device IDs come from the client and are easy to change, so
+   * the IP check (signup IP and session IPs, set server-side) backs them up.
+   * Shared networks can match unrelated users; a match only holds the referral for review.
+   */
+  private async getAbuseFlags(referral: { referrerId: number; refereeId: number; signupDeviceId: string | null }) {
+    const userIds = [referral.referrerId, referral.refereeId];
+    const [devices, signups, sessions, bankAccounts] = await Promise.all([
+      prisma.trustedDevice.findMany({
+        where: { userId: { in: userIds } },
+        select: { userId: true, deviceId: true },
+      }),
+      prisma.referral.findMany({
+        where: { refereeId: { in: userIds } },
+        select: { refereeId: true, signupDeviceId: true, signupIp: true },
+      }),
+      prisma.session.findMany({
+        where: { userId: { in: userIds }, ipAddress: { not: null } },
+        select: { userId: true, ipAddress: true },
+      }),
+      prisma.userPaymentMethod.findMany({
+        where: { userId: { in: userIds }, type: 'bank_account', accountNumber: { not: null } },
+        select: { userId: true, bankCode: true, bankName: true, accountNumber: true },
+      }),
+    ]);
+
+    const deviceIds = (userId: number) =>
+      new Set([
+        ...devices.filter((device) => device.userId === userId).map((device) => device.deviceId),
+        ...signups
+          .filter((signup) => signup.refereeId === userId && signup.signupDeviceId)
+          .map((signup) => signup.signupDeviceId!),
+      ]);
+    const ipAddresses = (userId: number) =>
+      new Set([
+        ...sessions.filter((session) => session.userId === userId).map((session) => session.ipAddress!),
+        ...signups
+          .filter((signup) => signup.refereeId === userId && signup.signupIp)
+          .map((signup) => signup.signupIp!),
+      ]);
+    const accounts = (userId: number) =>
+      new Set(
+        bankAccounts
+          .filter((account) => account.userId === userId)
+          .map((account) => {
+            try {
+              const number = decryptPrivateKey(account.accountNumber!).replace(/\s/g, '');
+              return `${account.bankCode || account.bankName?.trim().toLowerCase() || ''}:${number}`;
+            } catch {
+              return null;
+            }
+          })
+          .filter((key): key is string => key !== null)
+      );
+
+    const flags: ReferralFlag[] = [];
+    const referrerDevices = deviceIds(referral.referrerId);
+    if ([...deviceIds(referral.refereeId)].some((deviceId) => referrerDevices.has(deviceId))) {
+      flags.push('same_device');
+    }
+    const referrerIps = ipAddresses(referral.referrerId);
+    if ([...ipAddresses(referral.refereeId)].some((ipAddress) => referrerIps.has(ipAddress))) {
+      flags.push('same_ip');
+    }
+    const referrerAccounts = accounts(referral.referrerId);
+    if ([...accounts(referral.refereeId)].some((account) => referrerAccounts.has(account))) {
+      flags.push('same_bank_account');
+    }
+
+    return flags;
+  }
+
+  /**
+   * Evaluate the reward rules of both sides now that the referral qualified
+   */
+  private async grantRewards(id: number) {
+    const referral = await prisma.referral.findUniqueOrThrow({
+      where: { id },
+      include: { referee: { select: { firstName: true, lastName: true } } },
+    });
+
+    await this.eligibilityService.syncUserRewards(referral.referrerId);
+    await this.eligibilityService.syncUserRewards(referral.refereeId);
+
+    notifyReferral(referral.referrerId, {
+      event: 'qualified',
+      refereeName: this.maskName(referral.referee.firstName, referral.referee.lastName),
+    });
+
+    const refereeRewards = await prisma.userReward.count({
+      where: { userId: referral.refereeId, referralId: id },
+    });
+    if (refereeRewards > 0) {
+      notifyReferral(referral.refereeId, { event: 'bonus' });
+    }
+  }
+
+  /** "Ada O." - referrers only see the referee's first name and last initial */
+  private maskName(firstName?: string | null, lastName?: string | null) {
+    const name = [firstName?.trim(), lastName?.trim() ? `${lastName.trim().charAt(0).toUpperCase()}.` : null]
+      .filter(Boolean)
+      .join(' ');
+    return name || 'Rhinox Pay user';
+  }
+}
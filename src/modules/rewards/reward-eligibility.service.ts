@@ -1,6 +1,11 @@
 import { Decimal } from 'decimal.js';
 import prisma from '../../core/config/database.js';
-import type { RewardDefinition, RewardFulfillmentType } from './rewards.constants.js';
+import {
+  REFERRAL_REWARD_SERVICES,
+  isReferralRewardService,
+  type RewardDefinition,
+  type RewardFulfillmentType,
+} from './rewards.constants.js';
 
 const RULE_CODE_PREFIX = 'rule_';
 
@@ -81,7 +86,7 @@ export class RewardEligibilityService {
       code: buildRuleRewardCode(rule.id),
       tierCode: 'bronze',
       title: rule.name,
-      description: `${rule.service} milestone reward`,
+      description: isReferralRewardService(rule.service) ? 'Referral reward' : `${rule.service} milestone reward`,
       value: rule.rewardValue,
       icon: this.mapRewardTypeToIcon(rule.rewardType),
       fulfillmentType,
@@ -106,6 +111,10 @@ export class RewardEligibilityService {
   }
 
   async evaluateRuleForUser(userId: number, rule: { service: string; metric: string; period: string; threshold: any }) {
+    if (isReferralRewardService(rule.service)) {
+      return (await this.getQualifyingReferralId(userId, rule)) !== null;
+    }
+
     const types = this.mapServiceToTransactionTypes(rule.service);
     if (types.length === 0) return false;
 
@@ -141,6 +150,44 @@ export class RewardEligibilityService {
     return false;
   }
 
+  /**
+   * Referral that earns a referral rule reward: the referee's own qualified referral,
+   * or the referral with which the referrer reached the rule's count threshold
+   */
+  async getQualifyingReferralId(
+    userId: number,
+    rule: { service: string; metric: string; period: string; threshold: any }
+  ): Promise<number | null> {
+    const service = (rule.service || '').toLowerCase();
+
+    if (service === REFERRAL_REWARD_SERVICES.referee) {
+      const referral = await prisma.referral.findFirst({
+        where: { refereeId: userId, status: 'qualified' },
+        select: { id: true },
+      });
+      return referral?.id ?? null;
+    }
+
+    if (service !== REFERRAL_REWARD_SERVICES.referrer || (rule.metric || '').toLowerCase() !== 'count') {
+      return null;
+    }
+
+    const threshold = Math.max(1, Math.ceil(new Decimal(rule.threshold?.toString?.() || rule.threshold || 1).toNumber()));
+    const periodStart = this.getPeriodStart(rule.period);
+    const referrals = await prisma.referral.findMany({
+      where: {
+        referrerId: userId,
+        status: 'qualified',
+        ...(periodStart && { qualifiedAt: { gte: periodStart } }),
+      },
+      orderBy: { qualifiedAt: 'asc' },
+      take: threshold,
+      select: { id: true },
+    });
+
+    return referrals.length >= threshold ? referrals[threshold - 1].id : null;
+  }
+
   async syncUserRewards(userId: number) {
     const rules = await prisma.rewardRule.findMany({
       where: { isActive: true },
@@ -148,7 +195,9 @@ export class RewardEligibilityService {
     });
 
     for (const rule of rules) {
-      const eligible = await this.evaluateRuleForUser(userId, rule);
+      const isReferralRule = isReferralRewardService(rule.service);
+      const referralId = isReferralRule ? await this.getQualifyingReferralId(userId, rule) : null;
+      const eligible = isReferralRule ? referralId !== null : await this.evaluateRuleForUser(userId, rule);
       if (!eligible) continue;
 
       const existing = await prisma.userReward.findFirst({
@@ -167,6 +216,7 @@ export class RewardEligibilityService {
         data: {
           userId,
           ruleId: rule.id,
+          referralId,
           status: 'eligible',
           expiresAt,
         },
@@ -130,3 +130,32 @@ export const getExpectedCategoryForReward = (reward: RewardDefinition): string |
   if (reward.fulfillmentType === 'bill_payment_data') return 'data';
   return null;
 };
+
+/**
+ * Reward rule services paid for referrals. `referral` rules reward the referrer
+ * once `threshold` of their referrals qualified within the rule period;
+ * `referral_signup` rules reward the referee when their own referral qualifies.
+ */
+export const REFERRAL_REWARD_SERVICES = {
+  referrer: 'referral',
+  referee: 'referral_signup',
+} as const;
+
+export const isReferralRewardService = (service: string) =>
+  (Object.values(REFERRAL_REWARD_SERVICES) as string[]).includes((service || '').toLowerCase());
+
+export const REFERRAL_STATUSES = ['pending', 'qualified', 'flagged', 'rejected', 'expired'] as const;
+
+export type ReferralStatus = (typeof REFERRAL_STATUSES)[number];
+
+/** Anti-abuse checks run before a referral qualifies; any match holds it for admin review */
+export type ReferralFlag = 'same_device' | 'same_ip' | 'same_bank_account';
+
+/** Transaction types that count as the referee's qualifying first transaction */
+export const REFERRAL_QUALIFYING_TRANSACTION_TYPES = ['deposit', 'transfer', 'conversion', 'bill_payment', 'p2p', 'withdrawal'];
+
+/** Days a referee has to qualify before the referral expires (env REFERRAL_QUALIFY_DAYS) */
+export const DEFAULT_REFERRAL_QUALIFY_DAYS = 90;
+
+/** Pending referrals evaluated per job tick */
+export const REFERRAL_BATCH_SIZE = 100;
@@ -1,8 +1,12 @@
 import { type Request, type Response } from 'express';
 import { RewardsService } from './rewards.service.js';
+import { ReferralService } from './referral.service.js';
 
 export class RewardsController {
-  constructor(private service: RewardsService) {}
+  constructor(
+    private service: RewardsService,
+    private referralService: ReferralService
+  ) {}
 
   async getDashboard(req: Request, res: Response) {
     try {
@@ -38,6 +42,23 @@ export class RewardsController {
     }
   }
 
+  async getReferrals(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const data = await this.referralService.getDashboard(Number(userId));
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to load referrals',
+      });
+    }
+  }
+
   async claimReward(req: Request, res: Response) {
     try {
       const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
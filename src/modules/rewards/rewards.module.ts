@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { type IModule } from '../../core/types/module.types.js';
 import { RewardsController } from './rewards.controller.js';
 import { RewardsService } from './rewards.service.js';
+import { ReferralService } from './referral.service.js';
 
 export class RewardsModule implements IModule {
   public readonly name = 'rewards';
@@ -10,10 +11,12 @@ export class RewardsModule implements IModule {
 
   private controller: RewardsController;
   private service: RewardsService;
+  private referralService: ReferralService;
 
   constructor() {
     this.service = new RewardsService();
-    this.controller = new RewardsController(this.service);
+    this.referralService = new ReferralService();
+    this.controller = new RewardsController(this.service, this.referralService);
     this.router = Router();
     this.setupRoutes();
   }
@@ -21,6 +24,7 @@ export class RewardsModule implements IModule {
   private setupRoutes(): void {
     this.router.get('/', this.controller.getDashboard.bind(this.controller));
     this.router.get('/history', this.controller.getHistory.bind(this.controller));
+    this.router.get('/referrals', this.controller.getReferrals.bind(this.controller));
     this.router.post('/:rewardCode/claim', this.controller.claimReward.bind(this.controller));
   }
 }
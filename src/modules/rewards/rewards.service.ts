@@ -91,6 +91,48 @@ export class RewardsService {
     };
   }
 
+  /**
+   * Current reward tier of several users, computed with the same rules as the dashboard
+   */
+  async getUserTiers(userIds: number[]): Promise<Map<number, RewardTierCode>> {
+    const result = new Map<number, RewardTierCode>();
+    if (!userIds.length) {
+      return result;
+    }
+
+    const wallets = await prisma.wallet.findMany({
+      where: { userId: { in: userIds } },
+      select: { id: true, userId: true, currency: true, type: true, isActive: true, balance: true },
+    });
+    const [transactionCounts, ngnToUsdRate] = await Promise.all([
+      prisma.transaction.groupBy({
+        by: ['walletId'],
+        where: { walletId: { in: wallets.map((wallet) => wallet.id) }, status: 'completed' },
+        _count: { _all: true },
+      }),
+      this.getNgnToUsdRate(),
+    ]);
+
+    for (const userId of userIds) {
+      const userWallets = wallets.filter((wallet) => wallet.userId === userId);
+      const completedTransactions = userWallets.reduce(
+        (sum, wallet) => sum + (transactionCounts.find((row) => row.walletId === wallet.id)?._count._all ?? 0),
+        0
+      );
+      const totalNgn = userWallets
+        .filter((wallet) => wallet.isActive && wallet.type === 'fiat' && (wallet.currency || '').toUpperCase() === 'NGN')
+        .reduce((sum, wallet) => sum.plus(new Decimal(wallet.balance.toString())), new Decimal(0));
+
+      const tier = this.resolveCurrentTier({
+        completedTransactions,
+        monthlyBalanceUsd: Number(totalNgn.times(ngnToUsdRate).toNumber().toFixed(2)),
+      });
+      result.set(userId, tier.code);
+    }
+
+    return result;
+  }
+
   private async getNgnToUsdRate(): Promise<Decimal> {
     const directRate = await prisma.exchangeRate.findUnique({
       where: {
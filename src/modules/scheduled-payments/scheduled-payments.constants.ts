@@ -0,0 +1,21 @@
+export const SCHEDULED_PAYMENT_KINDS = ['transfer', 'bill_payment'] as const;
+export const SCHEDULED_PAYMENT_RECIPIENT_TYPES = ['rhinoxpay_id', 'payment_method', 'beneficiary'] as const;
+export const SCHEDULED_PAYMENT_FREQUENCIES = ['once', 'daily', 'weekly', 'monthly'] as const;
+
+export type ScheduledPaymentKind = (typeof SCHEDULED_PAYMENT_KINDS)[number];
+export type ScheduledPaymentRecipientType = (typeof SCHEDULED_PAYMENT_RECIPIENT_TYPES)[number];
+export type ScheduledPaymentFrequency = (typeof SCHEDULED_PAYMENT_FREQUENCIES)[number];
+export type ScheduledPaymentStatus = 'active' | 'paused' | 'completed' | 'cancelled' | 'failed';
+export type ScheduledPaymentRunStatus = 'completed' | 'processing' | 'held' | 'skipped' | 'failed';
+
+/** Attempts per occurrence before it is given up and the schedule moves on */
+export const SCHEDULED_PAYMENT_MAX_ATTEMPTS = 3;
+
+/** Delay before each retry of a failed occurrence, by attempt number */
+export const SCHEDULED_PAYMENT_RETRY_DELAYS_MS = [5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000];
+
+/** While a run is executing the schedule is leased so a second poller cannot pick it up */
+export const SCHEDULED_PAYMENT_LEASE_MS = 10 * 60 * 1000;
+
+/** Schedules executed per job tick */
+export const SCHEDULED_PAYMENT_BATCH_SIZE = 25;
@@ -0,0 +1,344 @@
+import { type Request, type Response } from 'express';
+import { ScheduledPaymentsService } from './scheduled-payments.service.js';
+
+/**
+ * Scheduled Payments Controller
+ * Handles HTTP requests for scheduled and recurring payments
+ */
+export class ScheduledPaymentsController {
+  constructor(private service: ScheduledPaymentsService) {}
+
+  /**
+   * @swagger
+   * /api/scheduled-payments:
+   *   get:
+   *     summary: List the user's scheduled payments
+   *     tags: [Scheduled Payments]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [active, paused, completed, cancelled, failed]
+   *     responses:
+   *       200:
+   *         description: Scheduled payments
+   *       401:
+   *         description: Unauthorized
+   */
+  async list(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const data = await this.service.list(Number(userId), status);
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message || 'Failed to load scheduled payments',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/scheduled-payments/{id}:
+   *   get:
+   *     summary: Get a scheduled payment with its recent runs
+   *     tags: [Scheduled Payments]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     responses:
+   *       200:
+   *         description: Scheduled payment
+   *       404:
+   *         description: Scheduled payment not found
+   */
+  async getById(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const data = await this.service.getById(Number(userId), Number(req.params.id));
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return this.handleError(res, error, 'Failed to load scheduled payment');
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/scheduled-payments:
+   *   post:
+   *     summary: Schedule a one-off or recurring payment
+   *     description: |
+   *       Pay a RhinoxPay ID or a saved payment method (kind transfer), or a bill beneficiary
+   *       (kind bill_payment). The schedule is authorized once with the user's configured
+   *       transaction security (PIN, email OTP and/or 2FA code); runs execute without further prompts.
+   *     tags: [Scheduled Payments]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - kind
+   *               - recipientType
+   *               - amount
+   *               - frequency
+   *               - startAt
+   *             properties:
+   *               kind:
+   *                 type: string
+   *                 enum: [transfer, bill_payment]
+   *               recipientType:
+   *                 type: string
+   *                 enum: [rhinoxpay_id, payment_method, beneficiary]
+   *               rhinoxPayId:
+   *                 type: string
+   *               paymentMethodId:
+   *                 type: integer
+   *               beneficiaryId:
+   *                 type: integer
+   *               billDetails:
+   *                 type: object
+   *                 properties:
+   *                   providerId:
+   *                     type: string
+   *                   planId:
+   *                     type: string
+   *                   accountType:
+   *                     type: string
+   *               amount:
+   *                 type: string
+   *                 example: "5000"
+   *               currency:
+   *                 type: string
+   *                 example: "NGN"
+   *                 description: Not needed for payment method recipients
+   *               countryCode:
+   *                 type: string
+   *                 example: "NG"
+   *                 description: Not needed for payment method recipients
+   *               frequency:
+   *                 type: string
+   *                 enum: [once, daily, weekly, monthly]
+   *               description:
+   *                 type: string
+   *               startAt:
+   *                 type: string
+   *                 format: date-time
+   *               endAt:
+   *                 type: string
+   *                 format: date-time
+   *               pin:
+   *                 type: string
+   *               emailOtp:
+   *                 type: string
+   *               totpCode:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: Scheduled payment created
+   *       400:
+   *         description: Validation or authorization error
+   */
+  async create(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const { kind, recipientType, amount, frequency, startAt } = req.body || {};
+      if (!kind || !recipientType || !amount || !frequency || !startAt) {
+        return res.status(400).json({
+          success: false,
+          message: 'kind, recipientType, amount, frequency and startAt are required',
+        });
+      }
+
+      const data = await this.service.create(Number(userId), req.body);
+      return res.status(201).json({ success: true, message: 'Payment scheduled', data });
+    } catch (error: any) {
+      return this.handleError(res, error, 'Failed to schedule payment');
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/scheduled-payments/{id}:
+   *   patch:
+   *     summary: Update a scheduled payment
+   *     description: Changing the amount requires the user's transaction security (PIN, email OTP and/or 2FA code).
+   *     tags: [Scheduled Payments]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               amount:
+   *                 type: string
+   *               frequency:
+   *                 type: string
+   *                 enum: [once, daily, weekly, monthly]
+   *               description:
+   *                 type: string
+   *               endAt:
+   *                 type: string
+   *                 format: date-time
+   *               pin:
+   *                 type: string
+   *               emailOtp:
+   *                 type: string
+   *               totpCode:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Scheduled payment updated
+   *       404:
+   *         description: Scheduled payment not found
+   */
+  async update(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const data = await this.service.update(Number(userId), Number(req.params.id), req.body || {});
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return this.handleError(res, error, 'Failed to update scheduled payment');
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/scheduled-payments/{id}/pause:
+   *   post:
+   *     summary: Pause a scheduled payment
+   *     tags: [Scheduled Payments]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     responses:
+   *       200:
+   *         description: Scheduled payment paused
+   */
+  async pause(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const data = await this.service.pause(Number(userId), Number(req.params.id));
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return this.handleError(res, error, 'Failed to pause scheduled payment');
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/scheduled-payments/{id}/resume:
+   *   post:
+   *     summary: Resume a paused scheduled payment
+   *     description: Occurrences missed while paused are skipped.
+   *     tags: [Scheduled Payments]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     responses:
+   *       200:
+   *         description: Scheduled payment resumed
+   */
+  async resume(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const data = await this.service.resume(Number(userId), Number(req.params.id));
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return this.handleError(res, error, 'Failed to resume scheduled payment');
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/scheduled-payments/{id}:
+   *   delete:
+   *     summary: Cancel a scheduled payment
+   *     tags: [Scheduled Payments]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: integer
+   *     responses:
+   *       200:
+   *         description: Scheduled payment cancelled
+   */
+  async cancel(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({ success: false, message: 'Unauthorized' });
+      }
+
+      const data = await this.service.cancel(Number(userId), Number(req.params.id));
+      return res.json({ success: true, message: 'Scheduled payment cancelled', data });
+    } catch (error: any) {
+      return this.handleError(res, error, 'Failed to cancel scheduled payment');
+    }
+  }
+
+  private handleError(res: Response, error: any, fallback: string) {
+    const message = error.message || fallback;
+    return res.status(message.includes('not found') ? 404 : 400).json({ success: false, message });
+  }
+}
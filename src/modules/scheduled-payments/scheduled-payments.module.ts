@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { type IModule } from '../../core/types/module.types.js';
+import { ScheduledPaymentsController } from './scheduled-payments.controller.js';
+import { ScheduledPaymentsService } from './scheduled-payments.service.js';
+
+/**
+ * Scheduled Payments Module
+ * Future-dated and recurring transfers and bill payments
+ */
+export class ScheduledPaymentsModule implements IModule {
+  public readonly name = 'scheduled-payments';
+  public readonly path = '/api/scheduled-payments';
+  public readonly router: Router;
+
+  private controller: ScheduledPaymentsController;
+  private service: ScheduledPaymentsService;
+
+  constructor() {
+    this.service = new ScheduledPaymentsService();
+    this.controller = new ScheduledPaymentsController(this.service);
+    this.router = Router();
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    this.router.get('/', this.controller.list.bind(this.controller));
+    this.router.post('/', this.controller.create.bind(this.controller));
+    this.router.get('/:id', this.controller.getById.bind(this.controller));
+    this.router.patch('/:id', this.controller.update.bind(this.controller));
+    this.router.delete('/:id', this.controller.cancel.bind(this.controller));
+    this.router.post('/:id/pause', this.controller.pause.bind(this.controller));
+    this.router.post('/:id/resume', this.controller.resume.bind(this.controller));
+  }
+}
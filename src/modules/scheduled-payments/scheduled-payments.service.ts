@@ -0,0 +1,678 @@
+import { Decimal } from 'decimal.js';
+import type { ScheduledPayment } from '@prisma/client';
+import prisma from '../../core/config/database.js';
+import { assertTransactionSecurity, type TransactionSecurityInput } from '../../core/utils/transactionSecurity.js';
+import { notifyScheduledPayment } from '../../core/utils/notification.events.js';
+import { REVIEW_HOLD_STATUS } from '../../services/review/index.js';
+import { TransferService } from '../transfer/transfer.service.js';
+import { BillPaymentService } from '../bill-payment/bill-payment.service.js';
+import {
+  SCHEDULED_PAYMENT_BATCH_SIZE,
+  SCHEDULED_PAYMENT_FREQUENCIES,
+  SCHEDULED_PAYMENT_KINDS,
+  SCHEDULED_PAYMENT_LEASE_MS,
+  SCHEDULED_PAYMENT_MAX_ATTEMPTS,
+  SCHEDULED_PAYMENT_RECIPIENT_TYPES,
+  SCHEDULED_PAYMENT_RETRY_DELAYS_MS,
+  type ScheduledPaymentFrequency,
+  type ScheduledPaymentRunStatus,
+} from './scheduled-payments.constants.js';
+
+export interface CreateScheduledPaymentInput extends TransactionSecurityInput {
+  kind: string;
+  recipientType: string;
+  rhinoxPayId?: string;
+  paymentMethodId?: number | string;
+  beneficiaryId?: number | string;
+  billDetails?: { providerId?: string | number; planId?: string | number; accountType?: string };
+  amount: string | number;
+  currency?: string;
+  countryCode?: string;
+  frequency: string;
+  description?: string;
+  startAt: string;
+  endAt?: string | null;
+}
+
+export interface UpdateScheduledPaymentInput extends TransactionSecurityInput {
+  amount?: string | number;
+  frequency?: string;
+  description?: string | null;
+  endAt?: string | null;
+}
+
+type BillDetails = { categoryCode: string; providerId: string; planId?: string; accountType?: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Scheduled Payments Service
+ * One-off future-dated and recurring payments to a RhinoxPay ID, a saved payment
+ * method or a bill beneficiary. The user authorizes the schedule once when creating it;
+ * each run then goes through the regular transfer and bill payment flows.
+ */
+export class ScheduledPaymentsService {
+  private transferService = new TransferService();
+  private billPaymentService = new BillPaymentService();
+
+  async list(userId: number, status?: string) {
+    const schedules = await prisma.scheduledPayment.findMany({
+      where: { userId, ...(status && { status }) },
+      orderBy: { createdAt: 'desc' },
+    });
+    return schedules.map((schedule) => this.toResponse(schedule));
+  }
+
+  async getById(userId: number, id: number) {
+    const schedule = await prisma.scheduledPayment.findFirst({
+      where: { id, userId },
+      include: { runs: { orderBy: { createdAt: 'desc' }, take: 20 } },
+    });
+    if (!schedule) throw new Error('Scheduled payment not found');
+
+    return { ...this.toResponse(schedule), runs: schedule.runs };
+  }
+
+  async create(userId: number, input: CreateScheduledPaymentInput) {
+    const kind = this.oneOf(input.kind, SCHEDULED_PAYMENT_KINDS, 'kind');
+    const recipientType = this.oneOf(input.recipientType, SCHEDULED_PAYMENT_RECIPIENT_TYPES, 'recipientType');
+    const frequency = this.oneOf(input.frequency, SCHEDULED_PAYMENT_FREQUENCIES, 'frequency');
+    const amount = this.parseAmount(input.amount);
+
+    const startAt = this.parseDate(input.startAt, 'startAt');
+    if (startAt.getTime() < Date.now() - 60 * 1000) {
+      throw new Error('startAt must be in the future');
+    }
+    const endAt = frequency === 'once' ? null : this.parseOptionalDate(input.endAt, 'endAt');
+    if (endAt && endAt <= startAt) {
+      throw new Error('endAt must be after startAt');
+    }
+
+    const recipient = await this.resolveRecipient(userId, kind, recipientType, input);
+
+    // Validate everything before the security check so a bad request does not burn an OTP
+    await this.authorize(userId, input);
+
+    const schedule = await prisma.scheduledPayment.create({
+      data: {
+        userId,
+        kind,
+        recipientType,
+        rhinoxPayId: recipient.rhinoxPayId,
+        paymentMethodId: recipient.paymentMethodId,
+        beneficiaryId: recipient.beneficiaryId,
+        billDetails: recipient.billDetails ?? undefined,
+        amount: amount.toString(),
+        currency: recipient.currency,
+        countryCode: recipient.countryCode,
+        frequency,
+        description: input.description?.trim() || null,
+        startAt,
+        endAt,
+        nextRunAt: startAt,
+      },
+    });
+
+    return this.toResponse(schedule);
+  }
+
+  /**
+   * Update the amount, frequency, description or end date. Changing the amount
+   * requires the same authorization as creating the schedule.
+   */
+  async update(userId: number, id: number, input: UpdateScheduledPaymentInput) {
+    const schedule = await this.findOwned(userId, id);
+    if (schedule.status !== 'active' && schedule.status !== 'paused') {
+      throw new Error(`Scheduled payment is already ${schedule.status}`);
+    }
+
+    const data: Record<string, unknown> = {};
+    let amountChanged = false;
+
+    if (input.amount !== undefined) {
+      const amount = this.parseAmount(input.amount);
+      amountChanged = !amount.equals(schedule.amount.toString());
+      data.amount = amount.toString();
+    }
+
+    const frequency =
+      input.frequency !== undefined
+        ? this.oneOf(input.frequency, SCHEDULED_PAYMENT_FREQUENCIES, 'frequency')
+        : (schedule.frequency as ScheduledPaymentFrequency);
+    data.frequency = frequency;
+
+    if (input.description !== undefined) {
+      data.description = input.description?.trim() || null;
+    }
+
+    if (frequency === 'once') {
+      data.endAt = null;
+    } else if (input.endAt !== undefined) {
+      const endAt = this.parseOptionalDate(input.endAt, 'endAt');
+      if (endAt && schedule.nextRunAt && endAt < schedule.nextRunAt) {
+        throw new Error('endAt must not be before the next run');
+      }
+      data.endAt = endAt;
+    }
+
+    if (amountChanged) {
+      await this.authorize(userId, input);
+    }
+
+    const updated = await prisma.scheduledPayment.update({ where: { id }, data });
+    return this.toResponse(updated);
+  }
+
+  async pause(userId: number, id: number) {
+    const schedule = await this.findOwned(userId, id);
+    if (schedule.status !== 'active') {
+      throw new Error(`Only active scheduled payments can be paused (current status: ${schedule.status})`);
+    }
+
+    const updated = await prisma.scheduledPayment.update({ where: { id }, data: { status: 'paused' } });
+    return this.toResponse(updated);
+  }
+
+  /**
+   * Resume a paused schedule. Occurrences missed while paused are skipped;
+   * a one-off payment whose date has passed runs on the next job tick.
+   */
+  async resume(userId: number, id: number) {
+    const schedule = await this.findOwned(userId, id);
+    if (schedule.status !== 'paused') {
+      throw new Error(`Only paused scheduled payments can be resumed (current status: ${schedule.status})`);
+    }
+
+    const now = new Date();
+    let nextRunAt = schedule.nextRunAt;
+    if (nextRunAt && nextRunAt < now && schedule.frequency !== 'once') {
+      nextRunAt = this.nextOccurrenceAfter(schedule, nextRunAt, now);
+    }
+
+    const updated = await prisma.scheduledPayment.update({
+      where: { id },
+      data: {
+        status: nextRunAt ? 'active' : 'completed',
+        nextRunAt,
+        retryAt: null,
+        retryCount: 0,
+      },
+    });
+    return this.toResponse(updated);
+  }
+
+  async cancel(userId: number, id: number) {
+    const schedule = await this.findOwned(userId, id);
+    if (schedule.status !== 'active' && schedule.status !== 'paused') {
+      throw new Error(`Scheduled payment is already ${schedule.status}`);
+    }
+
+    const updated = await prisma.scheduledPayment.update({
+      where: { id },
+      data: { status: 'cancelled', nextRunAt: null, retryAt: null },
+    });
+    return this.toResponse(updated);
+  }
+
+  /**
+   * Execute schedules that are due. Each schedule is leased before it runs so
+   * overlapping ticks (or several instances) cannot execute the same occurrence twice.
+   */
+  async runDue(now = new Date()): Promise<number> {
+    const due = await prisma.scheduledPayment.findMany({
+      where: {
+        status: 'active',
+        nextRunAt: { lte: now },
+        OR: [{ retryAt: null }, { retryAt: { lte: now } }],
+      },
+      orderBy: { nextRunAt: 'asc' },
+      take: SCHEDULED_PAYMENT_BATCH_SIZE,
+    });
+
+    let executed = 0;
+    for (const schedule of due) {
+      const claimed = await prisma.scheduledPayment.updateMany({
+        where: { id: schedule.id, status: 'active', retryAt: schedule.retryAt },
+        data: { retryAt: new Date(now.getTime() + SCHEDULED_PAYMENT_LEASE_MS) },
+      });
+      if (claimed.count !== 1) continue;
+
+      try {
+        await this.execute(schedule);
+        executed++;
+      } catch (error) {
+        console.error(`[Scheduled payments] Run failed for schedule ${schedule.id}`, error);
+      }
+    }
+
+    return executed;
+  }
+
+  /**
+   * Notify users about runs coming up within the reminder window (once per occurrence)
+   */
+  async sendReminders(reminderMs: number, now = new Date()): Promise<number> {
+    const upcoming = await prisma.scheduledPayment.findMany({
+      where: {
+        status: 'active',
+        retryCount: 0,
+        nextRunAt: { gt: now, lte: new Date(now.getTime() + reminderMs) },
+      },
+      take: 100,
+    });
+
+    let sent = 0;
+    for (const schedule of upcoming) {
+      const nextRunAt = schedule.nextRunAt as Date;
+      if (schedule.remindedFor?.getTime() === nextRunAt.getTime()) continue;
+
+      const claimed = await prisma.scheduledPayment.updateMany({
+        where: { id: schedule.id, remindedFor: schedule.remindedFor },
+        data: { remindedFor: nextRunAt },
+      });
+      if (claimed.count !== 1) continue;
+
+      notifyScheduledPayment(schedule.userId, {
+        event: 'reminder',
+        amount: schedule.amount.toString(),
+        currency: schedule.currency,
+        scheduledFor: nextRunAt,
+        description: schedule.description,
+      });
+      sent++;
+    }
+
+    return sent;
+  }
+
+  /**
+   * Run the current occurrence. Insufficient funds skips it; other failures are
+   * retried with increasing delays before the occurrence is given up.
+   */
+  private async execute(schedule: ScheduledPayment) {
+    const scheduledFor = schedule.nextRunAt as Date;
+    const attempt = schedule.retryCount + 1;
+    let transactionId: number | null = null;
+
+    try {
+      const initiated = await this.initiate(schedule);
+      transactionId = initiated.transactionId;
+
+      const status =
+        initiated.status === REVIEW_HOLD_STATUS ? initiated.status : await this.confirm(schedule, transactionId);
+      const runStatus: ScheduledPaymentRunStatus =
+        status === REVIEW_HOLD_STATUS ? 'held' : status === 'completed' ? 'completed' : 'processing';
+
+      await this.recordRun(schedule.id, { scheduledFor, attempt, status: runStatus, transactionId });
+      await this.advance(schedule);
+    } catch (error: any) {
+      const message = String(error?.message || 'Scheduled payment failed').slice(0, 500);
+      const stillPending = transactionId ? await this.abandonTransaction(transactionId, message) : true;
+
+      if (/insufficient/i.test(message)) {
+        await this.recordRun(schedule.id, { scheduledFor, attempt, status: 'skipped', transactionId, error: message });
+        notifyScheduledPayment(schedule.userId, {
+          event: 'skipped',
+          amount: schedule.amount.toString(),
+          currency: schedule.currency,
+          scheduledFor,
+          description: schedule.description,
+          reason: message,
+        });
+        await this.advance(schedule, message);
+        return;
+      }
+
+      await this.recordRun(schedule.id, { scheduledFor, attempt, status: 'failed', transactionId, error: message });
+
+      // Only retry when nothing left the pending state; a payout that already started is not repeated
+      if (stillPending && attempt < SCHEDULED_PAYMENT_MAX_ATTEMPTS) {
+        await prisma.scheduledPayment.update({
+          where: { id: schedule.id },
+          data: {
+            retryCount: attempt,
+            retryAt: new Date(Date.now() + SCHEDULED_PAYMENT_RETRY_DELAYS_MS[attempt - 1]),
+            lastError: message,
+          },
+        });
+        return;
+      }
+
+      notifyScheduledPayment(schedule.userId, {
+        event: 'failed',
+        amount: schedule.amount.toString(),
+        currency: schedule.currency,
+        scheduledFor,
+        description: schedule.description,
+        reason: message,
+      });
+      await this.advance(schedule, message);
+    }
+  }
+
+  private async initiate(schedule: ScheduledPayment): Promise<{ transactionId: number; status: string }> {
+    const amount = schedule.amount.toString();
+
+    if (schedule.kind === 'bill_payment') {
+      if (!schedule.beneficiaryId) throw new Error('Beneficiary is no longer available');
+      const billDetails = schedule.billDetails as BillDetails;
+      const result = await this.billPaymentService.initiateBillPayment(schedule.userId, {
+        categoryCode: billDetails.categoryCode,
+        providerId: billDetails.providerId,
+        planId: billDetails.planId,
+        accountType: billDetails.accountType,
+        currency: schedule.currency,
+        amount,
+        beneficiaryId: schedule.beneficiaryId,
+      });
+      return { transactionId: result.transactionId, status: result.status };
+    }
+
+    const base = { amount, currency: schedule.currency, countryCode: schedule.countryCode };
+    let result;
+    if (schedule.recipientType === 'rhinoxpay_id') {
+      result = await this.transferService.initiateTransfer(String(schedule.userId), {
+        ...base,
+        channel: 'rhionx_user',
+        recipientRhinoxPayId: schedule.rhinoxPayId as string,
+      });
+    } else {
+      const paymentMethod = schedule.paymentMethodId
+        ? await prisma.userPaymentMethod.findFirst({
+            where: { id: schedule.paymentMethodId, userId: schedule.userId, isActive: true },
+          })
+        : null;
+      if (!paymentMethod) throw new Error('Payment method is no longer available');
+
+      result =
+        paymentMethod.type === 'mobile_money'
+          ? await this.transferService.initiateTransfer(String(schedule.userId), {
+              ...base,
+              channel: 'mobile_money',
+              providerId: String(paymentMethod.providerId),
+              phoneNumber: paymentMethod.phoneNumber || undefined,
+            })
+          : await this.transferService.initiateTransfer(String(schedule.userId), {
+              ...base,
+              channel: 'bank_account',
+              paymentMethodId: paymentMethod.id,
+            });
+    }
+
+    return { transactionId: result.id, status: result.status };
+  }
+
+  private async confirm(schedule: ScheduledPayment, transactionId: number): Promise<string> {
+    if (schedule.kind === 'bill_payment') {
+      const result = await this.billPaymentService.confirmBillPayment(
+        schedule.userId,
+        transactionId,
+        undefined,
+        undefined,
+        undefined,
+        { preAuthorized: true }
+      );
+      return result.status;
+    }
+
+    const result = await this.transferService.verifyTransfer(
+      String(schedule.userId),
+      String(transactionId),
+      undefined,
+      undefined,
+      undefined,
+      { preAuthorized: true }
+    );
+    return result.status;
+  }
+
+  /**
+   * Fail a transaction the run created but could not confirm.
+   * Returns false when the transaction had already moved past pending.
+   */
+  private async abandonTransaction(transactionId: number, reason: string): Promise<boolean> {
+    const transaction = await prisma.transaction.findUnique({ where: { id: transactionId } });
+    if (!transaction || transaction.status !== 'pending') return false;
+
+    await prisma.transaction.updateMany({
+      where: { id: transactionId, status: 'pending' },
+      data: {
+        status: 'failed',
+        metadata: { ...((transaction.metadata as any) || {}), scheduledPaymentError: reason },
+      },
+    });
+    return true;
+  }
+
+  private async recordRun(
+    scheduledPaymentId: number,
+    run: {
+      scheduledFor: Date;
+      attempt: number;
+      status: ScheduledPaymentRunStatus;
+      transactionId: number | null;
+      error?: string;
+    }
+  ) {
+    await prisma.scheduledPaymentRun.create({
+      data: {
+        scheduledPaymentId,
+        scheduledFor: run.scheduledFor,
+        attempt: run.attempt,
+        status: run.status,
+        transactionId: run.transactionId,
+        error: run.error ?? null,
+      },
+    });
+  }
+
+  /**
+   * Move on to the next occurrence, or finish the schedule when there is none.
+   * A one-off payment whose only run failed ends as failed.
+   */
+  private async advance(schedule: ScheduledPayment, error?: string) {
+    const now = new Date();
+    const nextRunAt = this.nextOccurrenceAfter(schedule, schedule.nextRunAt as Date, now);
+    const finalStatus = schedule.frequency === 'once' && error ? 'failed' : 'completed';
+
+    await prisma.scheduledPayment.updateMany({
+      where: { id: schedule.id, status: { not: 'cancelled' } },
+      data: {
+        nextRunAt,
+        retryAt: null,
+        retryCount: 0,
+        lastRunAt: now,
+        runCount: { increment: 1 },
+        lastError: error ?? null,
+        ...(!nextRunAt && { status: finalStatus }),
+      },
+    });
+  }
+
+  /**
+   * First occurrence after `current` that is later than `now`, or null when the
+   * schedule has no more occurrences. Missed occurrences are not caught up.
+   */
+  private nextOccurrenceAfter(schedule: ScheduledPayment, current: Date, now: Date): Date | null {
+    let next: Date | null = current;
+    do {
+      next = this.nextOccurrence(schedule, next);
+    } while (next && next <= now);
+
+    return next && schedule.endAt && next > schedule.endAt ? null : next;
+  }
+
+  private nextOccurrence(schedule: ScheduledPayment, current: Date): Date | null {
+    switch (schedule.frequency) {
+      case 'daily':
+        return new Date(current.getTime() + DAY_MS);
+      case 'weekly':
+        return new Date(current.getTime() + 7 * DAY_MS);
+      case 'monthly': {
+        // Keep the start day, clamped to the end of shorter months (31st -> 30th/28th)
+        const next = new Date(current);
+        next.setUTCDate(1);
+        next.setUTCMonth(next.getUTCMonth() + 1);
+        const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+        next.setUTCDate(Math.min(schedule.startAt.getUTCDate(), lastDay));
+        return next;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private async resolveRecipient(
+    userId: number,
+    kind: string,
+    recipientType: string,
+    input: CreateScheduledPaymentInput
+  ): Promise<{
+    rhinoxPayId: string | null;
+    paymentMethodId: number | null;
+    beneficiaryId: number | null;
+    billDetails: BillDetails | null;
+    currency: string;
+    countryCode: string;
+  }> {
+    const empty = { rhinoxPayId: null, paymentMethodId: null, beneficiaryId: null, billDetails: null };
+
+    if (recipientType === 'beneficiary') {
+      if (kind !== 'bill_payment') throw new Error('Beneficiary recipients are only supported for bill payments');
+      const beneficiaryId = Number(input.beneficiaryId);
+      if (!beneficiaryId) throw new Error('beneficiaryId is required');
+      if (!input.billDetails?.providerId) throw new Error('billDetails.providerId is required');
+
+      const beneficiary = await prisma.beneficiary.findFirst({
+        where: { id: beneficiaryId, userId, isActive: true },
+        include: { category: true },
+      });
+      if (!beneficiary) throw new Error('Beneficiary not found');
+
+      return {
+        ...empty,
+        beneficiaryId,
+        billDetails: {
+          categoryCode: beneficiary.category.code,
+          providerId: String(input.billDetails.providerId),
+          ...(input.billDetails.planId != null && { planId: String(input.billDetails.planId) }),
+          ...((input.billDetails.accountType || beneficiary.accountType) && {
+            accountType: input.billDetails.accountType || beneficiary.accountType || undefined,
+          }),
+        },
+        ...this.requireCurrencyAndCountry(input),
+      };
+    }
+
+    if (kind !== 'transfer') throw new Error('Bill payments must be scheduled to a beneficiary');
+
+    if (recipientType === 'rhinoxpay_id') {
+      const rhinoxPayId = input.rhinoxPayId?.trim();
+      if (!rhinoxPayId) throw new Error('rhinoxPayId is required');
+
+      const recipient = await prisma.user.findUnique({ where: { rhinoxPayId }, select: { id: true } });
+      if (!recipient) throw new Error('Recipient not found');
+      if (recipient.id === userId) throw new Error('You cannot schedule a payment to yourself');
+
+      return { ...empty, rhinoxPayId, ...this.requireCurrencyAndCountry(input) };
+    }
+
+    const paymentMethodId = Number(input.paymentMethodId);
+    if (!paymentMethodId) throw new Error('paymentMethodId is required');
+
+    const paymentMethod = await prisma.userPaymentMethod.findFirst({
+      where: { id: paymentMethodId, userId, isActive: true },
+    });
+    if (!paymentMethod) throw new Error('Payment method not found');
+    if (paymentMethod.type !== 'bank_account' && paymentMethod.type !== 'mobile_money') {
+      throw new Error('Only bank account and mobile money payment methods can be scheduled');
+    }
+    if (input.currency && input.currency.toUpperCase() !== paymentMethod.currency.toUpperCase()) {
+      throw new Error(`This payment method only accepts ${paymentMethod.currency}`);
+    }
+
+    return {
+      ...empty,
+      paymentMethodId,
+      currency: paymentMethod.currency.toUpperCase(),
+      countryCode: paymentMethod.countryCode,
+    };
+  }
+
+  private requireCurrencyAndCountry(input: CreateScheduledPaymentInput) {
+    if (!input.currency || !input.countryCode) {
+      throw new Error('currency and countryCode are required');
+    }
+    return { currency: input.currency.toUpperCase(), countryCode: input.countryCode.toUpperCase() };
+  }
+
+  private async authorize(userId: number, input: TransactionSecurityInput) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) throw new Error('User not found');
+
+    await assertTransactionSecurity(user, { pin: input.pin, emailOtp: input.emailOtp, totpCode: input.totpCode });
+  }
+
+  private async findOwned(userId: number, id: number) {
+    const schedule = await prisma.scheduledPayment.findFirst({ where: { id, userId } });
+    if (!schedule) throw new Error('Scheduled payment not found');
+    return schedule;
+  }
+
+  private oneOf<T extends string>(value: string, allowed: readonly T[], field: string): T {
+    if (!allowed.includes(value as T)) {
+      throw new Error(`${field} must be one of: ${allowed.join(', ')}`);
+    }
+    return value as T;
+  }
+
+  private parseAmount(value: string | number): Decimal {
+    let amount: Decimal;
+    try {
+      amount = new Decimal(value);
+    } catch {
+      throw new Error('Invalid amount');
+    }
+    if (!amount.isFinite() || amount.lessThanOrEqualTo(0)) {
+      throw new Error('Amount must be greater than zero');
+    }
+    return amount;
+  }
+
+  private parseDate(value: string, field: string): Date {
+    const date = new Date(value);
+    if (!value || isNaN(date.getTime())) throw new Error(`${field} must be a valid date`);
+    return date;
+  }
+
+  private parseOptionalDate(value: string | null | undefined, field: string): Date | null {
+    return value ? this.parseDate(value, field) : null;
+  }
+
+  private toResponse(schedule: ScheduledPayment) {
+    return {
+      id: schedule.id,
+      kind: schedule.kind,
+      recipientType: schedule.recipientType,
+      rhinoxPayId: schedule.rhinoxPayId,
+      paymentMethodId: schedule.paymentMethodId,
+      beneficiaryId: schedule.beneficiaryId,
+      billDetails: schedule.billDetails,
+      amount: schedule.amount.toString(),
+      currency: schedule.currency,
+      countryCode: schedule.countryCode,
+      frequency: schedule.frequency,
+      description: schedule.description,
+      startAt: schedule.startAt,
+      endAt: schedule.endAt,
+      nextRunAt: schedule.nextRunAt,
+      lastRunAt: schedule.lastRunAt,
+      runCount: schedule.runCount,
+      retryCount: schedule.retryCount,
+      status: schedule.status,
+      lastError: schedule.lastError,
+      createdAt: schedule.createdAt,
+      updatedAt: schedule.updatedAt,
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import prisma from '../../core/config/database.js';
+import { publishSupportMessage, publishSupportRead } from '../../core/realtime/index.js';
 
 /**
  * Support Chat Service
@@ -142,7 +143,7 @@ export class SupportChatService {
       where: {
         chatId: { in: chatIds },
         isRead: false,
-        senderId: { not: userIdNum }, // Only count messages NOT from the user
+        isFromSupport: true, // Agent replies are stored under the chat owner's id
       },
       _count: {
         id: true,
@@ -346,7 +347,7 @@ export class SupportChatService {
       data: { updatedAt: new Date() },
     });
 
-    return {
+    const result = {
       id: supportMessage.id,
       chatId: supportMessage.chatId,
       senderId: supportMessage.senderId,
@@ -357,6 +358,10 @@ export class SupportChatService {
       readAt: supportMessage.readAt,
       createdAt: supportMessage.createdAt,
     };
+
+    publishSupportMessage(chat, { ...result, isFromSupport: supportMessage.isFromSupport });
+
+    return result;
   }
 
   /**
@@ -387,18 +392,23 @@ export class SupportChatService {
     }
 
     // Mark all unread messages (from support agents/admins) as read
-    await prisma.supportMessage.updateMany({
+    const readAt = new Date();
+    const updated = await prisma.supportMessage.updateMany({
       where: {
         chatId: chatIdNum,
-        senderId: { not: userIdNum }, // Only messages NOT from the user
+        isFromSupport: true, // Agent replies are stored under the chat owner's id
         isRead: false,
       },
       data: {
         isRead: true,
-        readAt: new Date(),
+        readAt,
       },
     });
 
+    if (updated.count > 0) {
+      publishSupportRead(chat, readAt);
+    }
+
     return {
       message: 'Messages marked as read',
     };
@@ -433,7 +443,7 @@ export class SupportChatService {
       by: ['chatId'],
       where: {
         chatId: { in: chatIds },
-        senderId: { not: userIdNum }, // Only messages NOT from the user
+        isFromSupport: true, // Agent replies are stored under the chat owner's id
         isRead: false,
       },
       _count: {
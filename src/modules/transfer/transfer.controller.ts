@@ -457,7 +457,7 @@ export class TransferController {
   async verifyTransfer(req: Request, res: Response) {
     try {
       const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
-      const { transactionId, pin, emailOtp } = req.body;
+      const { transactionId, pin, emailOtp, totpCode } = req.body;
 
       if (!userId) {
         return res.status(401).json({
@@ -480,7 +480,7 @@ export class TransferController {
         });
       }
 
-      const result = await this.service.verifyTransfer(userId, transactionId, pin, emailOtp);
+      const result = await this.service.verifyTransfer(userId, transactionId, pin, emailOtp, totpCode);
 
       return res.json({
         success: true,
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { type IModule } from '../../core/types/module.types.js';
+import { idempotencyMiddleware } from '../../core/middleware/idempotency.middleware.js';
 import { TransferController } from './transfer.controller.js';
 import { TransferService } from './transfer.service.js';
 
@@ -29,7 +30,7 @@ export class TransferModule implements IModule {
     // Transfer routes (all require authentication)
     this.router.get('/validate-recipient', this.controller.validateRecipient.bind(this.controller));
     this.router.get('/eligibility', this.controller.checkEligibility.bind(this.controller));
-    this.router.post('/initiate', this.controller.initiateTransfer.bind(this.controller));
+    this.router.post('/initiate', idempotencyMiddleware, this.controller.initiateTransfer.bind(this.controller));
     this.router.post('/verify', this.controller.verifyTransfer.bind(this.controller));
     this.router.get('/receipt/:transactionId', this.controller.getReceipt.bind(this.controller));
   }
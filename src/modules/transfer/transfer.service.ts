@@ -1,8 +1,11 @@
 import { randomBytes } from 'crypto';
-import { Decimal, type Decimal as DecimalType } from 'decimal.js';
+import { Decimal } from 'decimal.js';
 import bcrypt from 'bcryptjs';
+import type { Prisma } from '@prisma/client';
 import prisma from '../../core/config/database.js';
 import { WalletService } from '../wallet/wallet.service.js';
+import { FeeService } from '../fees/fees.service.js';
+import { LimitService } from '../limits/limits.service.js';
 import { KYCService } from '../kyc/kyc.service.js';
 import { PaymentSettingsService } from '../payment-settings/payment-settings.service.js';
 import { decryptPrivateKey } from '../../core/utils/encryption.js';
@@ -18,6 +21,17 @@ import {
   notifyTransferSent,
 } from '../../core/utils/notification.events.js';
 import { assertTransactionSecurity } from '../../core/utils/transactionSecurity.js';
+import { RiskService, buildRecipientKey } from '../../services/risk/index.js';
+import { REVIEW_HOLD_STATUS, ReviewService, type ReviewLock } from '../../services/review/index.js';
+import {
+  SystemAccount,
+  assertAvailableBalance,
+  creditWallet,
+  debitWallet,
+  refundWallet,
+  syncWalletBalance,
+} from '../../services/ledger/index.js';
+import { adjustVirtualAccountBalances } from '../../services/crypto/virtual-account-balance.js';
 import {
   UnifiedStablecoinService,
   getBaseSymbol,
@@ -30,6 +44,25 @@ import {
   normalizeRhinoxPayId,
 } from '../../core/utils/rhinox-pay-id.service.js';
 
+/**
+ * Whether a payout provider error is a definite rejection: the provider answered with
+ * an error envelope or a 4xx. Timeouts, network errors and bare 5xx responses are
+ * ambiguous because the payout may still have been accepted.
+ */
+function isPayoutRejection(error: any) {
+  const response = error?.providerResponse;
+  if (!response || typeof response !== 'object') {
+    return false;
+  }
+  if (error.statusCode >= 400 && error.statusCode < 500) {
+    return true;
+  }
+  return (
+    (Boolean(response.respCode) && response.respCode !== '00000000') ||
+    response.status === 'error'
+  );
+}
+
 /**
  * Transfer Service
  * Handles fiat transfers (RhionX user, bank account, mobile money)
@@ -41,6 +74,10 @@ export class TransferService {
   private palmPayPayoutService: PalmPayPayoutService;
   private flutterwavePayoutService: FlutterwavePayoutService;
   private unifiedStablecoinService = new UnifiedStablecoinService();
+  private feeService = new FeeService();
+  private limitService = new LimitService();
+  private riskService = new RiskService();
+  private reviewService = new ReviewService();
 
   constructor() {
     this.walletService = new WalletService();
@@ -242,38 +279,6 @@ export class TransferService {
     };
   }
 
-  /**
-   * Calculate transfer fee
-   */
-  private calculateTransferFee(amount: DecimalType, currency: string, channel: string): DecimalType {
-    if (channel === 'bank_account' && currency === 'NGN') {
-      return new Decimal(0);
-    }
-    if (channel === 'mobile_money') {
-      return new Decimal(0);
-    }
-
-    // Fee structure: 0.1% or minimum fee
-    const feePercent = 0.001; // 0.1%
-    const calculatedFee = amount.times(feePercent);
-    
-    // Minimum fees by currency
-    const minFees: { [key: string]: number } = {
-      NGN: 20,
-      KES: 50,
-      GHS: 5,
-      ZAR: 20,
-      TZS: 500,
-      UGX: 2000,
-      USD: 1,
-      EUR: 1,
-      GBP: 1,
-    };
-
-    const minFee = new Decimal(minFees[currency] || 1);
-    return calculatedFee.greaterThan(minFee) ? calculatedFee : minFee;
-  }
-
   /**
    * Initiate transfer
    */
@@ -424,10 +429,19 @@ export class TransferService {
             userId: parsedUserId,
             currency: baseSymbol,
             type: 'crypto',
-            balance: accountBalance.toNumber(),
+            balance: new Decimal(0).toNumber(),
             lockedBalance: lockedAmount.toNumber(),
           },
         });
+
+        // Opening balance mirrors the on-chain VirtualAccount
+        await syncWalletBalance(prisma, {
+          walletId: sourceWallet.id,
+          targetBalance: accountBalance,
+          counterparty: SystemAccount.PROVIDER_FLOAT,
+          description: `Opening balance for ${baseSymbol} wallet`,
+        });
+        sourceWallet = await prisma.wallet.findUniqueOrThrow({ where: { id: sourceWallet.id } });
       }
     } else {
       // For fiat, use Wallet
@@ -440,7 +454,21 @@ export class TransferService {
     }
 
     const amountDecimal = new Decimal(data.amount);
-    const fee = this.calculateTransferFee(amountDecimal, data.currency, data.channel);
+    await this.limitService.assertWithinLimits(parsedUserId, {
+      serviceType: 'transfer',
+      currency: data.currency,
+      amount: amountDecimal,
+    });
+
+    const feeQuote = await this.feeService.quote({
+      serviceType: 'transfer',
+      amount: amountDecimal,
+      currency: data.currency,
+      channel: data.channel,
+      countryCode: data.countryCode,
+      walletType: isCrypto ? 'crypto' : 'fiat',
+    });
+    const fee = feeQuote.fee;
     const totalDeduction = amountDecimal.plus(fee);
 
     if (totalDeduction.greaterThan(availableBalance)) {
@@ -593,6 +621,8 @@ export class TransferService {
           blockchain: isCrypto ? ledgerBlockchain : undefined,
           baseSymbol: isCrypto ? baseSymbol : undefined,
           isUnifiedStable: isCrypto ? isUnifiedStable(currencyUpper) : false,
+          feeRuleId: feeQuote.ruleId,
+          feeSource: feeQuote.source,
         },
       },
       include: {
@@ -604,6 +634,18 @@ export class TransferService {
       },
     });
 
+    const riskAssessment = await this.riskService.assess({
+      userId: parsedUserId,
+      serviceType: 'transfer',
+      amount: amountDecimal,
+      currency: data.currency,
+      channel: data.channel,
+      isWithdrawal: transactionType === 'withdrawal',
+      recipientKey: buildRecipientKey(transaction.metadata as any),
+      recipientAccountName: data.channel === 'bank_account' ? recipientInfo.accountName : null,
+      transactionIds: [transaction.id],
+    });
+
     return {
       id: transaction.id,
       reference: transaction.reference,
@@ -611,7 +653,7 @@ export class TransferService {
       currency: transaction.currency,
       fee: transaction.fee.toString(),
       totalDeduction: totalDeduction.toString(),
-      status: transaction.status,
+      status: riskAssessment?.decision === 'hold' ? REVIEW_HOLD_STATUS : transaction.status,
       channel: transaction.channel,
       recipientInfo,
       createdAt: transaction.createdAt,
@@ -625,7 +667,9 @@ export class TransferService {
     userId: string,
     transactionId: string,
     pin?: string,
-    emailOtp?: string
+    emailOtp?: string,
+    totpCode?: string,
+    options: { preAuthorized?: boolean } = {}
   ) {
     const parsedTransactionId = typeof transactionId === 'string' ? parseInt(transactionId, 10) : transactionId;
     if (isNaN(parsedTransactionId) || parsedTransactionId <= 0) {
@@ -657,6 +701,10 @@ export class TransferService {
       throw new Error('Unauthorized access to transaction');
     }
 
+    if (transaction.status === REVIEW_HOLD_STATUS) {
+      throw new Error('This transaction is on hold pending review');
+    }
+
     if (transaction.status !== 'pending') {
       throw new Error(`Transaction is already ${transaction.status}`);
     }
@@ -665,8 +713,17 @@ export class TransferService {
       throw new Error('Invalid transaction type');
     }
 
-    // Verify configured security requirements
-    await assertTransactionSecurity(transaction.wallet.user, { pin, emailOtp });
+    // Verify configured security requirements (scheduled payments were authorized when the schedule was created)
+    if (!options.preAuthorized) {
+      await assertTransactionSecurity(transaction.wallet.user, { pin, emailOtp, totpCode });
+    }
+
+    // Pending transfers do not count toward the caps, so check again now that it is confirmed
+    await this.limitService.assertWithinLimits(parsedUserId, {
+      serviceType: 'transfer',
+      currency: transaction.currency,
+      amount: transaction.amount.toString(),
+    });
 
     // Get metadata to check if it's crypto
     const metadata = transaction.metadata as any;
@@ -736,184 +793,39 @@ export class TransferService {
       throw new Error('Insufficient balance');
     }
 
-    if (transaction.type === 'withdrawal' && transaction.channel === 'bank_account') {
-      const recipientInfo = metadata?.recipientInfo || {};
-      if (!recipientInfo.bankCode || !recipientInfo.accountNumber || !recipientInfo.accountName) {
-        throw new Error('Verified bank account details are required for withdrawal');
-      }
-
-      const now = new Date();
-      const palmPayOrderId = `payout_${transaction.reference.toLowerCase()}`;
-      let payoutResponse: any;
-
-      try {
-        payoutResponse = await this.palmPayPayoutService.initiatePayout({
-          orderId: palmPayOrderId,
-          amount: transaction.amount.toString(),
-          accountNumber: recipientInfo.accountNumber,
-          accountName: recipientInfo.accountName,
-          bankCode: recipientInfo.bankCode,
-          phoneNumber: transaction.wallet.user.phone,
+    if (
+      transaction.type === 'withdrawal' &&
+      (transaction.channel === 'bank_account' || transaction.channel === 'mobile_money')
+    ) {
+      // Large withdrawals wait in the review queue with the funds locked
+      if (!metadata?.reviewApproved && this.reviewService.requiresReview(amountDecimal, transaction.currency)) {
+        const review = await this.reviewService.holdForReview({
           userId: parsedUserId,
-        });
-      } catch (error: any) {
-        await prisma.transaction.update({
-          where: { id: parsedTransactionId },
-          data: {
-            status: 'failed',
-            metadata: {
-              ...metadata,
-              integrationStatus: 'failed',
-              palmpayOrderId: palmPayOrderId,
-              palmpayError: error.providerResponse || error.message,
-            },
-          },
-        });
-        throw new Error(error.message || 'Withdrawal processing failed');
-      }
-
-      const updatedTransaction = await prisma.$transaction(async (tx) => {
-        const updated = await tx.transaction.update({
-          where: { id: parsedTransactionId },
-          data: {
-            status: 'processing',
-            metadata: {
-              ...metadata,
-              provider: 'palmpay',
-              integrationStatus: 'accepted',
-              palmpayOrderId: palmPayOrderId,
-              palmpayOrderNo: payoutResponse.orderNo,
-              palmpayStatus: payoutResponse.orderStatus,
-              palmpaySessionId: payoutResponse.sessionId,
-              payoutResponse,
-              walletDebited: true,
-              walletDebitedAt: now.toISOString(),
-            },
-          },
-        });
-
-        await tx.wallet.update({
-          where: { id: transaction.walletId },
-          data: {
-            balance: {
-              decrement: totalDeduction.toNumber(),
-            },
-          },
+          subjectType: 'withdrawal',
+          transactionIds: [transaction.id],
+          amount: amountDecimal,
+          currency: transaction.currency,
+          reason: 'amount_threshold',
+          stage: 'pre_payout',
+          reference: transaction.reference,
+          lock: { walletId: transaction.walletId, amount: totalDeduction },
         });
 
-        return updated;
-      });
-
-      return {
-        id: updatedTransaction.id,
-        reference: updatedTransaction.reference,
-        amount: updatedTransaction.amount.toString(),
-        currency: updatedTransaction.currency,
-        fee: updatedTransaction.fee.toString(),
-        status: updatedTransaction.status,
-        channel: updatedTransaction.channel,
-        provider: 'palmpay',
-        orderId: palmPayOrderId,
-        orderNo: payoutResponse.orderNo,
-        recipientInfo,
-        date: updatedTransaction.completedAt,
-        createdAt: updatedTransaction.createdAt,
-      };
-    }
-
-    if (transaction.type === 'withdrawal' && transaction.channel === 'mobile_money') {
-      const recipientInfo = metadata?.recipientInfo || {};
-      if (!recipientInfo.phoneNumber || !recipientInfo.providerCode) {
-        throw new Error('Mobile money provider and phone number are required for withdrawal');
-      }
-
-      const now = new Date();
-      const flwPayoutReference = `flw_payout_${transaction.reference.toLowerCase()}`;
-      let payoutResponse: any;
-
-      const user = transaction.wallet.user;
-      const beneficiaryName =
-        [user.firstName, user.lastName].filter(Boolean).join(' ') ||
-        user.email ||
-        'RhinoxPay User';
-
-      try {
-        payoutResponse = await this.flutterwavePayoutService.initiateMobileMoneyTransfer({
-          reference: flwPayoutReference,
-          amount: Number(transaction.amount),
+        return {
+          id: transaction.id,
+          reference: transaction.reference,
+          amount: transaction.amount.toString(),
           currency: transaction.currency,
-          countryCode: transaction.country || recipientInfo.countryCode,
-          providerCode: recipientInfo.providerCode,
-          phoneNumber: recipientInfo.phoneNumber,
-          beneficiaryName,
-          senderName: beneficiaryName,
-          senderCountry: transaction.country || recipientInfo.countryCode || 'KE',
-          senderMobile: user.phone || recipientInfo.phoneNumber,
-          narration: `RhinoxPay withdrawal ${transaction.reference}`,
-        });
-      } catch (error: any) {
-        await prisma.transaction.update({
-          where: { id: parsedTransactionId },
-          data: {
-            status: 'failed',
-            metadata: {
-              ...metadata,
-              provider: 'flutterwave',
-              integrationStatus: 'failed',
-              flwPayoutReference,
-              flwError: error.providerResponse || error.message,
-            },
-          },
-        });
-        throw new Error(error.message || 'Mobile money withdrawal processing failed');
+          fee: transaction.fee.toString(),
+          status: REVIEW_HOLD_STATUS,
+          channel: transaction.channel,
+          reviewId: review.id,
+          recipientInfo: metadata?.recipientInfo || {},
+          createdAt: transaction.createdAt,
+        };
       }
 
-      const updatedTransaction = await prisma.$transaction(async (tx) => {
-        const updated = await tx.transaction.update({
-          where: { id: parsedTransactionId },
-          data: {
-            status: 'processing',
-            metadata: {
-              ...metadata,
-              provider: 'flutterwave',
-              integrationStatus: 'accepted',
-              flwPayoutReference,
-              flwTransferId: payoutResponse.id,
-              flwStatus: payoutResponse.status,
-              payoutResponse: payoutResponse.raw,
-              walletDebited: true,
-              walletDebitedAt: now.toISOString(),
-            },
-          },
-        });
-
-        await tx.wallet.update({
-          where: { id: transaction.walletId },
-          data: {
-            balance: {
-              decrement: totalDeduction.toNumber(),
-            },
-          },
-        });
-
-        return updated;
-      });
-
-      return {
-        id: updatedTransaction.id,
-        reference: updatedTransaction.reference,
-        amount: updatedTransaction.amount.toString(),
-        currency: updatedTransaction.currency,
-        fee: updatedTransaction.fee.toString(),
-        status: updatedTransaction.status,
-        channel: updatedTransaction.channel,
-        provider: 'flutterwave',
-        flwPayoutReference,
-        flwTransferId: payoutResponse.id,
-        recipientInfo,
-        date: updatedTransaction.completedAt,
-        createdAt: updatedTransaction.createdAt,
-      };
+      return this.payoutWithdrawal(transaction);
     }
 
     // Update transaction status to completed
@@ -930,14 +842,54 @@ export class TransferService {
       // externalReference: null,
       // bankResponse: null,
     };
+    const completion = { status: 'completed' as const, completedAt: now, metadata: updatedMetadata };
 
-    const updatedTransaction = await prisma.transaction.update({
+    // Debit source wallet/VirtualAccount, completing the transaction in the same step
+    if (isCrypto && sourceVirtualAccount) {
+      // For crypto, update VirtualAccount (guarded against concurrent balance changes)
+      const sourceAccountId = sourceVirtualAccount.id;
+
+      await prisma.$transaction(async (tx) => {
+        await this.claimTransaction(tx, parsedTransactionId, 'pending', completion);
+
+        const before = await adjustVirtualAccountBalances(tx, sourceAccountId, {
+          accountBalance: totalDeduction.negated(),
+          availableBalance: totalDeduction.negated(),
+        });
+        if (new Decimal(before.availableBalance || '0').lt(totalDeduction)) {
+          throw new Error('Insufficient balance');
+        }
+
+        // Also update Wallet for transaction tracking
+        await syncWalletBalance(tx, {
+          walletId: transaction.walletId,
+          targetBalance: new Decimal(before.accountBalance || '0').minus(totalDeduction),
+          counterparty: metadata?.recipientUserId ? SystemAccount.ESCROW : SystemAccount.PROVIDER_FLOAT,
+          transactionId: parsedTransactionId,
+          reference: transaction.reference,
+          description: `Transfer ${transaction.reference}`,
+        });
+      });
+    } else {
+      // For fiat, debit Wallet. Internal transfers park funds in escrow until the recipient is credited.
+      await prisma.$transaction(async (tx) => {
+        await this.claimTransaction(tx, parsedTransactionId, 'pending', completion);
+        await debitWallet(tx, {
+          walletId: transaction.walletId,
+          amount: amountDecimal,
+          fee,
+          currency: transaction.currency,
+          to: metadata?.recipientUserId ? SystemAccount.ESCROW : SystemAccount.PROVIDER_FLOAT,
+          transactionId: parsedTransactionId,
+          reference: transaction.reference,
+          description: `Transfer ${transaction.reference}`,
+        });
+        await assertAvailableBalance(tx, transaction.walletId);
+      });
+    }
+
+    const updatedTransaction = await prisma.transaction.findUniqueOrThrow({
       where: { id: parsedTransactionId },
-      data: {
-        status: 'completed',
-        completedAt: now,
-        metadata: updatedMetadata,
-      },
       include: {
         wallet: {
           include: {
@@ -947,41 +899,6 @@ export class TransferService {
       },
     });
 
-    // Debit source wallet/VirtualAccount
-    if (isCrypto && sourceVirtualAccount) {
-      // For crypto, update VirtualAccount
-      const currentBalance = new Decimal(sourceVirtualAccount.accountBalance || '0');
-      const currentAvailable = new Decimal(sourceVirtualAccount.availableBalance || '0');
-      const newBalance = currentBalance.minus(totalDeduction);
-      const newAvailable = currentAvailable.minus(totalDeduction);
-
-      await prisma.virtualAccount.update({
-        where: { id: sourceVirtualAccountId },
-        data: {
-          accountBalance: newBalance.toString(),
-          availableBalance: newAvailable.toString(),
-        },
-      });
-
-      // Also update Wallet for transaction tracking
-      await prisma.wallet.update({
-        where: { id: transaction.walletId },
-        data: {
-          balance: newBalance.toNumber(),
-          lockedBalance: wallet.lockedBalance, // Keep locked balance same
-        },
-      });
-    } else {
-      // For fiat, update Wallet
-      const newBalance = new Decimal(wallet.balance).minus(totalDeduction);
-      await prisma.wallet.update({
-        where: { id: transaction.walletId },
-        data: {
-          balance: newBalance.toNumber(),
-        },
-      });
-    }
-
     // Credit recipient wallet/VirtualAccount if it's a RhionX user transfer
     if (metadata?.recipientUserId) {
       try {
@@ -1016,19 +933,6 @@ export class TransferService {
             throw new Error(`Recipient crypto wallet for ${transaction.currency} not found`);
           }
 
-          const recipientBalance = new Decimal(recipientVirtualAccount.accountBalance || '0');
-          const recipientAvailable = new Decimal(recipientVirtualAccount.availableBalance || '0');
-          const newRecipientBalance = recipientBalance.plus(amountDecimal);
-          const newRecipientAvailable = recipientAvailable.plus(amountDecimal);
-
-          await prisma.virtualAccount.update({
-            where: { id: recipientVirtualAccount.id },
-            data: {
-              accountBalance: newRecipientBalance.toString(),
-              availableBalance: newRecipientAvailable.toString(),
-            },
-          });
-
           // Get or create recipient Wallet for transaction tracking
           recipientWallet = await prisma.wallet.findFirst({
             where: {
@@ -1044,18 +948,29 @@ export class TransferService {
                 userId: recipientUserId,
                 currency: transaction.currency.toUpperCase(),
                 type: 'crypto',
-                balance: newRecipientBalance.toNumber(),
+                balance: new Decimal(0).toNumber(),
                 lockedBalance: new Decimal(0).toNumber(),
               },
             });
-          } else {
-            await prisma.wallet.update({
-              where: { id: recipientWallet.id },
-              data: {
-                balance: newRecipientBalance.toNumber(),
-              },
-            });
           }
+
+          const recipientAccountId = recipientVirtualAccount.id;
+          const recipientWalletId = recipientWallet.id;
+          await prisma.$transaction(async (tx) => {
+            const before = await adjustVirtualAccountBalances(tx, recipientAccountId, {
+              accountBalance: amountDecimal,
+              availableBalance: amountDecimal,
+            });
+
+            await syncWalletBalance(tx, {
+              walletId: recipientWalletId,
+              targetBalance: new Decimal(before.accountBalance || '0').plus(amountDecimal),
+              counterparty: SystemAccount.ESCROW,
+              transactionId: parsedTransactionId,
+              reference: transaction.reference,
+              description: `Transfer ${transaction.reference}`,
+            });
+          });
         } else {
           // For fiat, credit recipient's Wallet
           try {
@@ -1071,15 +986,15 @@ export class TransferService {
             );
           }
 
-          // Credit recipient wallet
-          const recipientBalance = new Decimal(recipientWallet.balance);
-          const newRecipientBalance = recipientBalance.plus(amountDecimal);
-
-          await prisma.wallet.update({
-            where: { id: recipientWallet.id },
-            data: {
-              balance: newRecipientBalance.toNumber(),
-            },
+          // Credit recipient wallet out of escrow
+          await creditWallet(prisma, {
+            walletId: Number(recipientWallet.id),
+            amount: amountDecimal,
+            currency: transaction.currency,
+            from: SystemAccount.ESCROW,
+            transactionId: parsedTransactionId,
+            reference: transaction.reference,
+            description: `Transfer ${transaction.reference}`,
           });
         }
 
@@ -1177,6 +1092,279 @@ export class TransferService {
     };
   }
 
+
+  /**
+   * Pay out a withdrawal approved in the review queue.
+   * The review's funds lock is released together with the wallet debit.
+   */
+  async completeReviewedWithdrawal(transactionId: number, reviewLock: ReviewLock) {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: transactionId },
+      include: {
+        wallet: {
+          include: {
+            user: true,
+          },
+        },
+      },
+    });
+
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+
+    if (transaction.status !== REVIEW_HOLD_STATUS) {
+      throw new Error(`Transaction is ${transaction.status}, not on hold`);
+    }
+
+    return this.payoutWithdrawal(transaction, reviewLock);
+  }
+
+  /**
+   * Debit a confirmed bank or mobile money withdrawal and send it to the payout provider.
+   * The debit is refunded if the provider rejects the payout; when the outcome is unknown
+   * (timeout, 5xx) the withdrawal stays processing until the webhook or a requery settles it.
+   */
+  private async payoutWithdrawal(transaction: any, reviewLock?: ReviewLock) {
+    const parsedTransactionId = transaction.id;
+    const parsedUserId = transaction.wallet.userId;
+    const metadata = transaction.metadata as any;
+
+    if (transaction.type === 'withdrawal' && transaction.channel === 'bank_account') {
+      const recipientInfo = metadata?.recipientInfo || {};
+      if (!recipientInfo.bankCode || !recipientInfo.accountNumber || !recipientInfo.accountName) {
+        throw new Error('Verified bank account details are required for withdrawal');
+      }
+
+      const palmPayOrderId = `payout_${transaction.reference.toLowerCase()}`;
+      let payoutResponse: any;
+      let payoutError: any;
+
+      const debitedMetadata = await this.debitWithdrawal(
+        transaction,
+        { ...metadata, provider: 'palmpay', palmpayOrderId: palmPayOrderId },
+        reviewLock
+      );
+
+      try {
+        payoutResponse = await this.palmPayPayoutService.initiatePayout({
+          orderId: palmPayOrderId,
+          amount: transaction.amount.toString(),
+          accountNumber: recipientInfo.accountNumber,
+          accountName: recipientInfo.accountName,
+          bankCode: recipientInfo.bankCode,
+          phoneNumber: transaction.wallet.user.phone,
+          userId: parsedUserId,
+        });
+      } catch (error: any) {
+        if (isPayoutRejection(error)) {
+          await this.refundWithdrawal(transaction, {
+            ...debitedMetadata,
+            integrationStatus: 'failed',
+            palmpayError: error.providerResponse || error.message,
+          });
+          throw new Error(error.message || 'Withdrawal processing failed');
+        }
+        console.error(`PalmPay payout ${palmPayOrderId} outcome unknown:`, error);
+        payoutError = error.providerResponse || error.message;
+      }
+
+      const updatedTransaction = await this.updateProcessingWithdrawal(parsedTransactionId, {
+        ...debitedMetadata,
+        integrationStatus: payoutResponse ? 'accepted' : 'unknown',
+        palmpayOrderNo: payoutResponse?.orderNo,
+        palmpayStatus: payoutResponse?.orderStatus,
+        palmpaySessionId: payoutResponse?.sessionId,
+        payoutResponse,
+        palmpayError: payoutError,
+      });
+
+      return {
+        id: updatedTransaction.id,
+        reference: updatedTransaction.reference,
+        amount: updatedTransaction.amount.toString(),
+        currency: updatedTransaction.currency,
+        fee: updatedTransaction.fee.toString(),
+        status: updatedTransaction.status,
+        channel: updatedTransaction.channel,
+        provider: 'palmpay',
+        orderId: palmPayOrderId,
+        orderNo: payoutResponse?.orderNo,
+        recipientInfo,
+        date: updatedTransaction.completedAt,
+        createdAt: updatedTransaction.createdAt,
+      };
+    }
+
+    if (transaction.type === 'withdrawal' && transaction.channel === 'mobile_money') {
+      const recipientInfo = metadata?.recipientInfo || {};
+      if (!recipientInfo.phoneNumber || !recipientInfo.providerCode) {
+        throw new Error('Mobile money provider and phone number are required for withdrawal');
+      }
+
+      const flwPayoutReference = `flw_payout_${transaction.reference.toLowerCase()}`;
+      let payoutResponse: any;
+      let payoutError: any;
+
+      const user = transaction.wallet.user;
+      const beneficiaryName =
+        [user.firstName, user.lastName].filter(Boolean).join(' ') ||
+        user.email ||
+        'RhinoxPay User';
+
+      const debitedMetadata = await this.debitWithdrawal(
+        transaction,
+        { ...metadata, provider: 'flutterwave', flwPayoutReference },
+        reviewLock
+      );
+
+      try {
+        payoutResponse = await this.flutterwavePayoutService.initiateMobileMoneyTransfer({
+          reference: flwPayoutReference,
+          amount: Number(transaction.amount),
+          currency: transaction.currency,
+          countryCode: transaction.country || recipientInfo.countryCode,
+          providerCode: recipientInfo.providerCode,
+          phoneNumber: recipientInfo.phoneNumber,
+          beneficiaryName,
+          senderName: beneficiaryName,
+          senderCountry: transaction.country || recipientInfo.countryCode || 'KE',
+          senderMobile: user.phone || recipientInfo.phoneNumber,
+          narration: `RhinoxPay withdrawal ${transaction.reference}`,
+        });
+      } catch (error: any) {
+        if (isPayoutRejection(error)) {
+          await this.refundWithdrawal(transaction, {
+            ...debitedMetadata,
+            integrationStatus: 'failed',
+            flwError: error.providerResponse || error.message,
+          });
+          throw new Error(error.message || 'Mobile money withdrawal processing failed');
+        }
+        console.error(`Flutterwave payout ${flwPayoutReference} outcome unknown:`, error);
+        payoutError = error.providerResponse || error.message;
+      }
+
+      const updatedTransaction = await this.updateProcessingWithdrawal(parsedTransactionId, {
+        ...debitedMetadata,
+        integrationStatus: payoutResponse ? 'accepted' : 'unknown',
+        flwTransferId: payoutResponse?.id,
+        flwStatus: payoutResponse?.status,
+        payoutResponse: payoutResponse?.raw,
+        flwError: payoutError,
+      });
+
+      return {
+        id: updatedTransaction.id,
+        reference: updatedTransaction.reference,
+        amount: updatedTransaction.amount.toString(),
+        currency: updatedTransaction.currency,
+        fee: updatedTransaction.fee.toString(),
+        status: updatedTransaction.status,
+        channel: updatedTransaction.channel,
+        provider: 'flutterwave',
+        flwPayoutReference,
+        flwTransferId: payoutResponse?.id,
+        recipientInfo,
+        date: updatedTransaction.completedAt,
+        createdAt: updatedTransaction.createdAt,
+      };
+    }
+
+    throw new Error('Unsupported withdrawal channel');
+  }
+
+  /**
+   * Claim a transaction out of the status it was read in. Throws when a concurrent
+   * request already moved it, so the caller's ledger postings roll back with it.
+   */
+  private async claimTransaction(
+    tx: Prisma.TransactionClient,
+    transactionId: number,
+    fromStatus: string,
+    data: Prisma.TransactionUpdateManyMutationInput
+  ) {
+    const claimed = await tx.transaction.updateMany({
+      where: { id: transactionId, status: fromStatus as any },
+      data,
+    });
+    if (claimed.count !== 1) {
+      throw new Error('Transaction is already being processed');
+    }
+  }
+
+  /**
+   * Debit a withdrawal and move it to processing before it goes to the payout provider.
+   * Fails (and rolls back) if another request claimed it first or the available balance
+   * no longer covers it, releasing a review lock in the same step. Returns the stored metadata.
+   */
+  private async debitWithdrawal(transaction: any, metadata: any, reviewLock?: ReviewLock) {
+    const debitedMetadata = {
+      ...metadata,
+      integrationStatus: 'submitting',
+      walletDebited: true,
+      walletDebitedAt: new Date().toISOString(),
+    };
+
+    await prisma.$transaction(async (tx) => {
+      await this.claimTransaction(tx, transaction.id, transaction.status, {
+        status: 'processing',
+        metadata: debitedMetadata,
+      });
+
+      if (reviewLock) {
+        await this.reviewService.releaseLock(tx, reviewLock);
+      }
+
+      await debitWallet(tx, {
+        walletId: transaction.walletId,
+        amount: new Decimal(transaction.amount),
+        fee: new Decimal(transaction.fee),
+        currency: transaction.currency,
+        to: SystemAccount.PROVIDER_FLOAT,
+        transactionId: transaction.id,
+        reference: transaction.reference,
+        description: `Withdrawal ${transaction.reference}`,
+      });
+      await assertAvailableBalance(tx, transaction.walletId);
+    });
+
+    return debitedMetadata;
+  }
+
+  /**
+   * Record the payout submission on a processing withdrawal. A webhook that already
+   * settled the withdrawal wins; the settled row is returned as is.
+   */
+  private async updateProcessingWithdrawal(transactionId: number, metadata: any) {
+    await prisma.transaction.updateMany({
+      where: { id: transactionId, status: 'processing' },
+      data: { metadata },
+    });
+    return prisma.transaction.findUniqueOrThrow({ where: { id: transactionId } });
+  }
+
+  /**
+   * Refund a withdrawal the payout provider rejected and mark it failed
+   */
+  private async refundWithdrawal(transaction: any, metadata: any) {
+    await prisma.$transaction(async (tx) => {
+      await this.claimTransaction(tx, transaction.id, 'processing', {
+        status: 'failed',
+        metadata: { ...metadata, refunded: true, refundedAt: new Date().toISOString() },
+      });
+      await refundWallet(tx, {
+        walletId: transaction.walletId,
+        amount: new Decimal(transaction.amount),
+        fee: new Decimal(transaction.fee),
+        currency: transaction.currency,
+        from: SystemAccount.PROVIDER_FLOAT,
+        transactionId: transaction.id,
+        reference: transaction.reference,
+        description: `Withdrawal refund ${transaction.reference}`,
+      });
+    });
+  }
   /**
    * Get transfer receipt
    */
@@ -1227,28 +1415,47 @@ export class TransferService {
       try {
         const payoutStatus = await this.palmPayPayoutService.queryPayoutStatus(metadata.palmpayOrderId);
         const mappedStatus = mapPalmPayStatus(payoutStatus.orderStatus);
-        receiptTransaction = await prisma.transaction.update({
-          where: { id: receiptTransaction.id },
-          data: {
-            status: mappedStatus === 'completed' ? 'completed' : mappedStatus,
-            completedAt: mappedStatus === 'completed' ? new Date() : receiptTransaction.completedAt,
-            metadata: {
-              ...metadata,
-              palmpayOrderNo: payoutStatus.orderNo,
-              palmpayStatus: payoutStatus.orderStatus,
-              palmpaySessionId: payoutStatus.sessionId,
-              payoutStatusResponse: payoutStatus,
+        const refreshedMetadata = {
+          ...metadata,
+          palmpayOrderNo: payoutStatus.orderNo,
+          palmpayStatus: payoutStatus.orderStatus,
+          palmpaySessionId: payoutStatus.sessionId,
+          payoutStatusResponse: payoutStatus,
+        };
+
+        const include = {
+          wallet: {
+            include: {
+              user: true,
+              currencyRef: true,
             },
           },
-          include: {
-            wallet: {
-              include: {
-                user: true,
-                currencyRef: true,
-              },
+        } as const;
+
+        if (
+          (mappedStatus === 'failed' || mappedStatus === 'cancelled') &&
+          receiptTransaction.status === 'processing' &&
+          metadata.walletDebited
+        ) {
+          await this.refundWithdrawal(receiptTransaction, {
+            ...refreshedMetadata,
+            integrationStatus: 'failed',
+          });
+          receiptTransaction = await prisma.transaction.findUniqueOrThrow({
+            where: { id: receiptTransaction.id },
+            include,
+          });
+        } else {
+          receiptTransaction = await prisma.transaction.update({
+            where: { id: receiptTransaction.id },
+            data: {
+              status: mappedStatus === 'completed' ? 'completed' : mappedStatus,
+              completedAt: mappedStatus === 'completed' ? new Date() : receiptTransaction.completedAt,
+              metadata: refreshedMetadata,
             },
-          },
-        });
+            include,
+          });
+        }
         metadata = receiptTransaction.metadata as any;
       } catch (error) {
         console.error('Failed to refresh PalmPay payout status:', error);
@@ -1,11 +1,14 @@
 import { type Request, type Response } from 'express';
 import { WalletService } from './wallet.service.js';
+import { LimitService } from '../limits/limits.service.js';
 
 /**
  * Wallet Controller
  * Handles HTTP requests for wallet operations
  */
 export class WalletController {
+  private limitService = new LimitService();
+
   constructor(private service: WalletService) {}
 
   /**
@@ -507,5 +510,87 @@ export class WalletController {
       });
     }
   }
+
+  /**
+   * @swagger
+   * /api/wallets/limits:
+   *   get:
+   *     summary: Get transaction limits and remaining headroom for the user's KYC tier
+   *     tags: [Wallet]
+   *     security:
+   *       - bearerAuth: []
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Limits per service and currency with daily, weekly and monthly usage
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     kycTier:
+   *                       type: integer
+   *                       example: 1
+   *                     limits:
+   *                       type: array
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           serviceType:
+   *                             type: string
+   *                             example: "transfer"
+   *                           currency:
+   *                             type: string
+   *                             example: "NGN"
+   *                           perTransactionMax:
+   *                             type: string
+   *                             nullable: true
+   *                           daily:
+   *                             type: object
+   *                             properties:
+   *                               limit:
+   *                                 type: string
+   *                                 nullable: true
+   *                               used:
+   *                                 type: string
+   *                               remaining:
+   *                                 type: string
+   *                                 nullable: true
+   *                               resetsAt:
+   *                                 type: string
+   *                                 format: date-time
+   *       401:
+   *         description: Unauthorized
+   *         $ref: '#/components/schemas/Error'
+   */
+  async getLimits(req: Request, res: Response) {
+    try {
+      const userId = (req as any).userId || (req as any).user?.userId || (req as any).user?.id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+      }
+
+      const limits = await this.limitService.getUserLimits(userId);
+
+      return res.json({
+        success: true,
+        data: limits,
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to get limits',
+      });
+    }
+  }
 }
 
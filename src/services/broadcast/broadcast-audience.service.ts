@@ -0,0 +1,247 @@
+import { Decimal } from 'decimal.js';
+import type { Prisma } from '@prisma/client';
+import prisma from '../../core/config/database.js';
+import { KYC_TIERS } from '../../modules/limits/limits.constants.js';
+import { REWARD_TIERS, type RewardTierCode } from '../../modules/rewards/rewards.constants.js';
+import { RewardsService } from '../../modules/rewards/rewards.service.js';
+import {
+  BROADCAST_CUSTOM_SEGMENT,
+  BROADCAST_MAX_INACTIVE_DAYS,
+  BROADCAST_SEGMENT_PRESETS,
+  type BroadcastSegment,
+} from './broadcast.constants.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BroadcastAudienceInput {
+  /** Preset name from BROADCAST_SEGMENT_PRESETS */
+  userSegment?: string | null;
+  segment?: BroadcastSegment | null;
+  /** Kept for older clients; same as segment.countries */
+  countries?: string[] | null;
+}
+
+/**
+ * Broadcast Audience Service
+ * Validates audience segments and resolves them to users. All criteria except
+ * reward tiers are evaluated in the database; reward tiers are computed per batch.
+ */
+export class BroadcastAudienceService {
+  private rewardsService = new RewardsService();
+
+  /**
+   * Merge the preset, explicit criteria and legacy countries into one validated
+   * segment, and the label stored as the broadcast's userSegment
+   */
+  resolveSegment(input: BroadcastAudienceInput): { userSegment: string; segment: BroadcastSegment } {
+    const presetName = input.userSegment?.trim();
+    if (presetName && !BROADCAST_SEGMENT_PRESETS[presetName]) {
+      throw new Error(`userSegment must be one of: ${Object.keys(BROADCAST_SEGMENT_PRESETS).join(', ')}`);
+    }
+    if (input.segment != null && (typeof input.segment !== 'object' || Array.isArray(input.segment))) {
+      throw new Error('segment must be an object');
+    }
+
+    const merged: BroadcastSegment = {
+      ...(presetName ? BROADCAST_SEGMENT_PRESETS[presetName] : {}),
+      ...(input.segment ?? {}),
+    };
+    if (input.countries?.length && !merged.countries?.length) {
+      merged.countries = input.countries;
+    }
+
+    const hasCriteria = Boolean(input.segment && Object.keys(input.segment).length) || Boolean(input.countries?.length);
+    return {
+      userSegment: presetName || (hasCriteria ? BROADCAST_CUSTOM_SEGMENT : 'all'),
+      segment: this.normalizeSegment(merged),
+    };
+  }
+
+  normalizeSegment(segment: BroadcastSegment): BroadcastSegment {
+    const result: BroadcastSegment = {};
+
+    if (segment.countries != null) {
+      if (!Array.isArray(segment.countries)) {
+        throw new Error('countries must be an array of ISO country codes');
+      }
+      const codes = [...new Set(segment.countries.map((code) => String(code).trim().toUpperCase()))];
+      if (codes.some((code) => !/^[A-Z]{2}$/.test(code))) {
+        throw new Error('countries must contain 2-letter ISO country codes');
+      }
+      if (codes.length) result.countries = codes;
+    }
+
+    if (segment.kycTiers != null) {
+      const tiers = this.parseList(segment.kycTiers, 'kycTiers').map(Number);
+      if (tiers.some((tier) => !KYC_TIERS.includes(tier))) {
+        throw new Error(`kycTiers must contain only: ${KYC_TIERS.join(', ')}`);
+      }
+      if (tiers.length) result.kycTiers = [...new Set(tiers)];
+    }
+
+    if (segment.rewardTiers != null) {
+      const codes = REWARD_TIERS.map((tier) => tier.code);
+      const tiers = this.parseList(segment.rewardTiers, 'rewardTiers').map((tier) => String(tier).toLowerCase());
+      if (tiers.some((tier) => !codes.includes(tier as RewardTierCode))) {
+        throw new Error(`rewardTiers must contain only: ${codes.join(', ')}`);
+      }
+      if (tiers.length) result.rewardTiers = [...new Set(tiers)] as RewardTierCode[];
+    }
+
+    if (segment.hasP2PAds != null) {
+      if (typeof segment.hasP2PAds !== 'boolean') {
+        throw new Error('hasP2PAds must be true or false');
+      }
+      result.hasP2PAds = segment.hasP2PAds;
+    }
+
+    if (segment.inactiveDays != null) {
+      const days = Number(segment.inactiveDays);
+      if (!Number.isInteger(days) || days < 1 || days > BROADCAST_MAX_INACTIVE_DAYS) {
+        throw new Error(`inactiveDays must be an integer between 1 and ${BROADCAST_MAX_INACTIVE_DAYS}`);
+      }
+      result.inactiveDays = days;
+    }
+
+    if (segment.minBalance != null) {
+      const currency = String(segment.minBalance.currency ?? '').trim().toUpperCase();
+      let amount: Decimal;
+      try {
+        amount = new Decimal(segment.minBalance.amount);
+      } catch {
+        throw new Error('minBalance.amount must be a number');
+      }
+      if (!currency) {
+        throw new Error('minBalance.currency is required');
+      }
+      if (!amount.isFinite() || amount.lt(0)) {
+        throw new Error('minBalance.amount must be a non-negative number');
+      }
+      result.minBalance = { currency, amount: amount.toString() };
+    }
+
+    const signupFrom = this.parseDate(segment.signupFrom, 'signupFrom');
+    let signupTo = this.parseDate(segment.signupTo, 'signupTo');
+    if (signupTo && /^\d{4}-\d{2}-\d{2}$/.test(String(segment.signupTo))) {
+      // A date without a time includes that whole day
+      signupTo = new Date(signupTo.getTime() + DAY_MS - 1);
+    }
+    if (signupFrom && signupTo && signupFrom > signupTo) {
+      throw new Error('signupFrom must be before signupTo');
+    }
+    if (signupFrom) result.signupFrom = signupFrom.toISOString();
+    if (signupTo) result.signupTo = signupTo.toISOString();
+
+    return result;
+  }
+
+  /**
+   * Next batch of recipients after `afterUserId`, in user id order. `lastUserId`
+   * is the cursor for the following batch, or null when no users are left.
+   */
+  async fetchBatch(segment: BroadcastSegment, afterUserId: number | null, take: number, now = new Date()) {
+    const where = this.buildWhere(segment, now);
+    const users = await prisma.user.findMany({
+      where: afterUserId ? { AND: [where, { id: { gt: afterUserId } }] } : where,
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take,
+    });
+    if (!users.length) {
+      return { userIds: [] as number[], lastUserId: null };
+    }
+
+    let userIds = users.map((user) => user.id);
+    if (segment.rewardTiers?.length) {
+      const tiers = await this.rewardsService.getUserTiers(userIds);
+      userIds = userIds.filter((userId) => segment.rewardTiers!.includes(tiers.get(userId)!));
+    }
+
+    return { userIds, lastUserId: users[users.length - 1].id };
+  }
+
+  /**
+   * Number of users the segment currently matches
+   */
+  async countAudience(segment: BroadcastSegment, batchSize: number, now = new Date()): Promise<number> {
+    if (!segment.rewardTiers?.length) {
+      return prisma.user.count({ where: this.buildWhere(segment, now) });
+    }
+
+    let total = 0;
+    let cursor: number | null = null;
+    do {
+      const batch = await this.fetchBatch(segment, cursor, batchSize, now);
+      total += batch.userIds.length;
+      cursor = batch.lastUserId;
+    } while (cursor);
+    return total;
+  }
+
+  buildWhere(segment: BroadcastSegment, now = new Date()): Prisma.UserWhereInput {
+    const conditions: Prisma.UserWhereInput[] = [{ isActive: true }];
+
+    if (segment.countries?.length) {
+      conditions.push({ country: { code: { in: segment.countries } } });
+    }
+
+    if (segment.kycTiers?.length) {
+      const verified: Prisma.UserWhereInput = { kyc: { status: 'verified', tier: { in: segment.kycTiers } } };
+      conditions.push(
+        segment.kycTiers.includes(1)
+          ? { OR: [verified, { kyc: null }, { kyc: { status: { not: 'verified' } } }] }
+          : verified
+      );
+    }
+
+    if (segment.hasP2PAds !== undefined) {
+      conditions.push({ p2pAds: segment.hasP2PAds ? { some: {} } : { none: {} } });
+    }
+
+    if (segment.inactiveDays) {
+      const since = new Date(now.getTime() - segment.inactiveDays * DAY_MS);
+      conditions.push({
+        createdAt: { lt: since },
+        sessions: { none: { createdAt: { gte: since } } },
+        refreshTokens: { none: { createdAt: { gte: since } } },
+      });
+    }
+
+    if (segment.minBalance) {
+      conditions.push({
+        wallets: {
+          some: { currency: segment.minBalance.currency, balance: { gte: segment.minBalance.amount } },
+        },
+      });
+    }
+
+    if (segment.signupFrom || segment.signupTo) {
+      conditions.push({
+        createdAt: {
+          ...(segment.signupFrom && { gte: new Date(segment.signupFrom) }),
+          ...(segment.signupTo && { lte: new Date(segment.signupTo) }),
+        },
+      });
+    }
+
+    return { AND: conditions };
+  }
+
+  private parseList(value: unknown, field: string): unknown[] {
+    if (!Array.isArray(value)) {
+      throw new Error(`${field} must be an array`);
+    }
+    return value;
+  }
+
+  private parseDate(value: string | undefined, field: string): Date | null {
+    if (value == null || value === '') {
+      return null;
+    }
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`${field} must be a valid date`);
+    }
+    return date;
+  }
+}
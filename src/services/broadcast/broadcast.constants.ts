@@ -0,0 +1,48 @@
+import type { RewardTierCode } from '../../modules/rewards/rewards.constants.js';
+
+export const BROADCAST_STATUSES = ['scheduled', 'sending', 'sent', 'cancelled'] as const;
+
+export type BroadcastStatus = (typeof BROADCAST_STATUSES)[number];
+
+/**
+ * Audience of a broadcast. Every criterion given must match; an empty segment
+ * targets all active users.
+ */
+export interface BroadcastSegment {
+  /** ISO country codes */
+  countries?: string[];
+  /** KYC tiers; unverified users count as tier 1 */
+  kycTiers?: number[];
+  rewardTiers?: RewardTierCode[];
+  /** true: users with at least one P2P ad; false: users without any */
+  hasP2PAds?: boolean;
+  /** No sign-in or token refresh in the last N days */
+  inactiveDays?: number;
+  /** At least `amount` in their `currency` wallet */
+  minBalance?: { currency: string; amount: string };
+  /** Signup cohort, inclusive ISO dates */
+  signupFrom?: string;
+  signupTo?: string;
+}
+
+/** Named segments accepted as `userSegment`; explicit criteria are merged over them */
+export const BROADCAST_SEGMENT_PRESETS: Record<string, BroadcastSegment> = {
+  all: {},
+  p2p_vendors: { hasP2PAds: true },
+  inactive_30_days: { inactiveDays: 30 },
+  silver_and_gold: { rewardTiers: ['silver', 'gold'] },
+};
+
+/** Label stored as `userSegment` when criteria are given without a preset */
+export const BROADCAST_CUSTOM_SEGMENT = 'custom';
+
+/** Users notified per batch (env BROADCAST_BATCH_SIZE) */
+export const DEFAULT_BROADCAST_BATCH_SIZE = 500;
+
+/** Batches delivered per broadcast on each job tick, so one large broadcast cannot hold the job */
+export const BROADCAST_BATCHES_PER_TICK = 20;
+
+export const BROADCAST_MAX_INACTIVE_DAYS = 3650;
+
+/** How far ahead a broadcast can be scheduled */
+export const BROADCAST_MAX_SCHEDULE_DAYS = 90;
@@ -0,0 +1,127 @@
+import prisma from '../../core/config/database.js';
+import { BroadcastAudienceService } from './broadcast-audience.service.js';
+import {
+  BROADCAST_BATCHES_PER_TICK,
+  DEFAULT_BROADCAST_BATCH_SIZE,
+  type BroadcastSegment,
+} from './broadcast.constants.js';
+
+/**
+ * Broadcast Service
+ * Delivers admin broadcasts (AdminNotification) to their audience in batches.
+ * Each batch advances the broadcast's lastUserId cursor in the same transaction
+ * that creates its notifications, so a crashed or concurrent run never delivers
+ * a batch twice and delivery resumes where it stopped.
+ */
+export class BroadcastService {
+  private audienceService = new BroadcastAudienceService();
+
+  /**
+   * Start broadcasts whose scheduled time has passed and continue those being sent
+   */
+  async processDue(now = new Date()) {
+    const due = await prisma.adminNotification.findMany({
+      where: {
+        OR: [{ status: 'scheduled', scheduledAt: { lte: now } }, { status: 'sending' }],
+      },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+    });
+
+    let delivered = 0;
+    let completed = 0;
+    let failed = 0;
+    for (const { id } of due) {
+      try {
+        const result = await this.deliver(id);
+        delivered += result.delivered;
+        if (result.status === 'sent') completed++;
+      } catch (error: any) {
+        failed++;
+        console.error(`[Broadcasts] broadcast ${id} failed`, error);
+        // Left in "sending"; the next tick resumes from the cursor
+        await prisma.adminNotification
+          .update({ where: { id }, data: { lastError: String(error?.message ?? error).slice(0, 2000) } })
+          .catch(() => undefined);
+      }
+    }
+
+    return { picked: due.length, delivered, completed, failed };
+  }
+
+  /**
+   * Deliver up to BROADCAST_BATCHES_PER_TICK batches of one broadcast
+   */
+  async deliver(id: number) {
+    const claimed = await prisma.adminNotification.updateMany({
+      where: { id, status: 'scheduled' },
+      data: { status: 'sending', startedAt: new Date() },
+    });
+
+    let broadcast = await prisma.adminNotification.findUnique({ where: { id } });
+    if (!broadcast || broadcast.status !== 'sending') {
+      return { status: broadcast?.status ?? null, delivered: 0 };
+    }
+
+    const segment = (broadcast.segment ?? {}) as BroadcastSegment;
+    const batchSize = this.getBatchSize();
+    if (claimed.count === 1) {
+      const recipientCount = await this.audienceService.countAudience(segment, batchSize);
+      broadcast = await prisma.adminNotification.update({ where: { id }, data: { recipientCount } });
+    }
+
+    let delivered = 0;
+    let cursor = broadcast.lastUserId;
+    for (let batch = 0; batch < BROADCAST_BATCHES_PER_TICK; batch++) {
+      const { userIds, lastUserId } = await this.audienceService.fetchBatch(segment, cursor, batchSize);
+
+      if (lastUserId === null) {
+        await prisma.adminNotification.updateMany({
+          where: { id, status: 'sending', lastUserId: cursor },
+          data: { status: 'sent', completedAt: new Date(), lastError: null },
+        });
+        return { status: 'sent', delivered };
+      }
+
+      const advanced = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.adminNotification.updateMany({
+          where: { id, status: 'sending', lastUserId: cursor },
+          data: { lastUserId, sentCount: { increment: userIds.length } },
+        });
+        if (count !== 1) {
+          return false;
+        }
+
+        if (userIds.length) {
+          await tx.notification.createMany({
+            data: userIds.map((userId) => ({
+              userId,
+              broadcastId: id,
+              type: 'promotional',
+              title: broadcast!.title,
+              message: broadcast!.message,
+              status: 'info',
+            })),
+          });
+        }
+        return true;
+      });
+
+      // Cancelled, or another worker delivered this batch first
+      if (!advanced) {
+        const current = await prisma.adminNotification.findUnique({ where: { id }, select: { status: true } });
+        return { status: current?.status ?? null, delivered };
+      }
+
+      delivered += userIds.length;
+      cursor = lastUserId;
+    }
+
+    return { status: 'sending', delivered };
+  }
+
+  getBatchSize(): number {
+    const parsed = Number(process.env.BROADCAST_BATCH_SIZE);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_BROADCAST_BATCH_SIZE;
+  }
+}
@@ -0,0 +1,3 @@
+export * from './broadcast.constants.js';
+export * from './broadcast-audience.service.js';
+export * from './broadcast.service.js';
@@ -6,6 +6,15 @@ import ApiError from '../../core/utils/ApiError.js';
 import { PalmPayDepositService } from '../palmpay/palmpay.deposit.service.js';
 import { PalmPayPayoutService } from '../palmpay/palmpay.payout.service.js';
 import { mapPalmPayStatus } from '../palmpay/palmpay.utils.js';
+import {
+  SystemAccount,
+  assertAvailableBalance,
+  creditWallet,
+  debitWallet,
+  refundWallet,
+} from '../ledger/index.js';
+import { LimitService } from '../../modules/limits/limits.service.js';
+import { REVIEW_HOLD_STATUS, ReviewService } from '../review/index.js';
 import { resolveBushaBankCodeFromPalmpay, resolvePalmpayBankCode } from './busha.bank.mapper.js';
 import { BushaClient, BushaProviderError } from './busha.client.js';
 import { getBushaConfig, isBushaEnabled } from './busha.config.js';
@@ -91,7 +100,9 @@ export class BushaAppService {
   constructor(
     private readonly client = new BushaClient(),
     private readonly palmPayPayout = new PalmPayPayoutService(),
-    private readonly palmPayDeposit = new PalmPayDepositService()
+    private readonly palmPayDeposit = new PalmPayDepositService(),
+    private readonly limitService = new LimitService(),
+    private readonly reviewService = new ReviewService()
   ) {}
 
   async assertPlatformActive() {
@@ -1286,28 +1297,38 @@ export class BushaAppService {
       where: { userId_currency: { userId, currency: 'NGN' } },
     });
     if (!ngnWallet) throw ApiError.badRequest('NGN wallet not found');
-    if (Number(ngnWallet.balance) < amount) {
+    if (Number(ngnWallet.balance) - Number(ngnWallet.lockedBalance) < amount) {
       throw ApiError.badRequest('Insufficient NGN balance');
     }
 
     const reference = `busha_buy_${randomUUID().replace(/-/g, '').slice(0, 21)}`;
-    const fiatTx = await prisma.transaction.create({
-      data: {
+    const fiatTx = await prisma.$transaction(async (tx) => {
+      const created = await tx.transaction.create({
+        data: {
+          walletId: ngnWallet.id,
+          type: 'crypto_buy',
+          status: 'pending',
+          amount,
+          currency: 'NGN',
+          reference,
+          description: `Buy ${toBushaCurrency(targetCurrency)}`,
+          channel: 'busha',
+          metadata: { provider: 'busha', targetCurrency: toBushaCurrency(targetCurrency) },
+        },
+      });
+
+      await debitWallet(tx, {
         walletId: ngnWallet.id,
-        type: 'crypto_buy',
-        status: 'pending',
         amount,
         currency: 'NGN',
+        to: SystemAccount.PROVIDER_FLOAT,
+        transactionId: created.id,
         reference,
-        description: `Buy ${toBushaCurrency(targetCurrency)}`,
-        channel: 'busha',
-        metadata: { provider: 'busha', targetCurrency: toBushaCurrency(targetCurrency) },
-      },
-    });
+        description: `Busha buy ${reference}`,
+      });
+      await assertAvailableBalance(tx, ngnWallet.id);
 
-    await prisma.wallet.update({
-      where: { id: ngnWallet.id },
-      data: { balance: { decrement: amount } },
+      return created;
     });
 
     let debitReversed = false;
@@ -1379,9 +1400,14 @@ export class BushaAppService {
       return prisma.bushaTradeLog.findUnique({ where: { id: trade.id } });
     } catch (error) {
       if (!debitReversed) {
-        await prisma.wallet.update({
-          where: { id: ngnWallet.id },
-          data: { balance: { increment: amount } },
+        await refundWallet(prisma, {
+          walletId: ngnWallet.id,
+          amount,
+          currency: 'NGN',
+          from: SystemAccount.PROVIDER_FLOAT,
+          transactionId: fiatTx.id,
+          reference,
+          description: `Busha buy reversed ${reference}`,
         });
         await prisma.transaction.update({
           where: { id: fiatTx.id },
@@ -1450,6 +1476,11 @@ export class BushaAppService {
     if (estimatedNgn < 100) {
       throw ApiError.badRequest('Sell amount is below the NGN 100 minimum');
     }
+    await this.limitService.assertWithinLimits(userId, {
+      serviceType: 'busha_sell',
+      currency: 'NGN',
+      amount: estimatedNgn,
+    });
 
     let recipientId = platform.payoutRecipientId;
     let payoutMode = platform.sellPayoutMode;
@@ -1810,6 +1841,36 @@ export class BushaAppService {
     const currency = toBushaCurrency(input.currency);
     const network = toBushaNetwork(input.network, currency);
     await this.assertWithdrawAmountWithinLimits(userId, currency, input.network, input.amount);
+
+    // Large sends wait in the review queue; nothing is sent to Busha until approved
+    if (this.reviewService.requiresReview(input.amount, currency)) {
+      const trade = await prisma.bushaTradeLog.create({
+        data: {
+          userId,
+          bushaCustomerId: customer.id,
+          side: 'cryptoSend',
+          status: REVIEW_HOLD_STATUS,
+          sourceCurrency: currency,
+          targetCurrency: currency,
+          sourceAmount: String(input.amount),
+          targetAmount: String(input.amount),
+          network,
+          destinationAddress: input.destinationAddress,
+          providerResponse: { memo: input.memo || '' },
+        },
+      });
+      const review = await this.reviewService.holdForReview({
+        userId,
+        subjectType: 'crypto_send',
+        bushaTradeId: trade.id,
+        amount: input.amount,
+        currency,
+        reason: 'amount_threshold',
+        stage: 'pre_payout',
+      });
+      return { ...trade, reviewId: review.id };
+    }
+
     const { quote, transfer } = await this.createQuoteAndTransfer(customer.bushaProfileId, {
       source_currency: currency,
       target_currency: currency,
@@ -1843,6 +1904,51 @@ export class BushaAppService {
     });
   }
 
+  /**
+   * Submit a crypto send approved in the review queue to Busha
+   */
+  async completeReviewedSend(tradeId: number) {
+    const trade = await prisma.bushaTradeLog.findUnique({ where: { id: tradeId } });
+    if (!trade || trade.side !== 'cryptoSend') throw ApiError.notFound('Send not found');
+    if (trade.status !== REVIEW_HOLD_STATUS) {
+      throw ApiError.badRequest(`Send is ${trade.status}, not on hold`);
+    }
+
+    const customer = await this.assertCustomerTradeReady(trade.userId);
+    try {
+      const { quote, transfer } = await this.createQuoteAndTransfer(customer.bushaProfileId, {
+        source_currency: trade.sourceCurrency,
+        target_currency: trade.targetCurrency,
+        source_amount: trade.sourceAmount,
+        pay_in: { type: 'balance' },
+        pay_out: {
+          type: 'address',
+          address: trade.destinationAddress,
+          network: trade.network,
+          memo: (trade.providerResponse as any)?.memo || '',
+        },
+      });
+
+      return prisma.bushaTradeLog.update({
+        where: { id: trade.id },
+        data: {
+          status: 'awaiting_busha',
+          targetAmount: String(transfer.target_amount || trade.sourceAmount),
+          bushaQuoteId: quote.id,
+          bushaTransferId: transfer.id,
+          bushaStatus: transfer.status,
+          providerResponse: { quote, transfer },
+        },
+      });
+    } catch (error) {
+      await prisma.bushaTradeLog.update({
+        where: { id: trade.id },
+        data: { status: 'busha_failed' },
+      });
+      throw error;
+    }
+  }
+
   async listTrades(userId: number) {
     return prisma.bushaTradeLog.findMany({
       where: { userId },
@@ -2103,9 +2209,14 @@ export class BushaAppService {
       await prisma.bushaTradeLog.update({ where: { id: tradeId }, data: { status: 'wallet_credited' } });
       return;
     }
-    await prisma.wallet.update({
-      where: { id: tx.walletId },
-      data: { balance: { increment: creditAmount } },
+    await creditWallet(prisma, {
+      walletId: tx.walletId,
+      amount: creditAmount,
+      currency: tx.currency,
+      from: SystemAccount.PROVIDER_FLOAT,
+      transactionId: tx.id,
+      reference: tx.reference,
+      description: `Busha sell ${tx.reference}`,
     });
     await prisma.transaction.update({
       where: { id: tx.id },
@@ -2122,9 +2233,14 @@ export class BushaAppService {
     if (!trade?.fiatTransactionId) return;
     const tx = await prisma.transaction.findUnique({ where: { id: trade.fiatTransactionId } });
     if (!tx || tx.status === 'failed') return;
-    await prisma.wallet.update({
-      where: { id: tx.walletId },
-      data: { balance: { increment: Number(tx.amount) } },
+    await refundWallet(prisma, {
+      walletId: tx.walletId,
+      amount: tx.amount.toString(),
+      currency: tx.currency,
+      from: SystemAccount.PROVIDER_FLOAT,
+      transactionId: tx.id,
+      reference: tx.reference,
+      description: reason,
     });
     await prisma.transaction.update({
       where: { id: tx.id },
@@ -0,0 +1,36 @@
+import { Decimal } from 'decimal.js';
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Apply deltas to a virtual account's balances inside a transaction. The balances
+ * are strings, so the write is guarded on the values just read: a concurrent change
+ * fails the write (rolling back the transaction) instead of being overwritten.
+ * Returns the account as it was before the change.
+ */
+export async function adjustVirtualAccountBalances(
+  tx: Prisma.TransactionClient,
+  virtualAccountId: number,
+  delta: { accountBalance?: Decimal; availableBalance?: Decimal }
+) {
+  const account = await tx.virtualAccount.findUnique({ where: { id: virtualAccountId } });
+  if (!account) {
+    throw new Error('Crypto wallet not found');
+  }
+
+  const updated = await tx.virtualAccount.updateMany({
+    where: {
+      id: account.id,
+      accountBalance: account.accountBalance,
+      availableBalance: account.availableBalance,
+    },
+    data: {
+      accountBalance: new Decimal(account.accountBalance || '0').plus(delta.accountBalance || 0).toString(),
+      availableBalance: new Decimal(account.availableBalance || '0').plus(delta.availableBalance || 0).toString(),
+    },
+  });
+  if (updated.count !== 1) {
+    throw new Error('Crypto balance changed while it was being updated. Please try again');
+  }
+
+  return account;
+}
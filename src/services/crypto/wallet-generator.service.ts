@@ -1,6 +1,7 @@
 import { randomBytes } from 'crypto';
 import { encryptPrivateKey } from '../../core/utils/encryption.js';
 import prisma from '../../core/config/database.js';
+import { normalizeDepositAddress } from '../tatum/tatum-blockchain.util.js';
 
 /**
  * Local Crypto Wallet Generator Service
@@ -268,6 +269,7 @@ export class WalletGeneratorService {
         blockchain: normalizedBlockchain,
         currency,
         address,
+        normalizedAddress: normalizeDepositAddress(address),
         index: 0,
         privateKey: encryptedPrivateKey,
       },
@@ -1,6 +1,6 @@
 import { Decimal } from 'decimal.js';
 import prisma from '../../core/config/database.js';
-import { sendDepositSuccessEmail } from '../../core/utils/transaction-email.service.js';
+import { buildDepositSuccessEmail } from '../../core/utils/transaction-email.service.js';
 import {
   notifyBillPayment,
   notifyFiatDeposit,
@@ -16,6 +16,12 @@ import {
   type MappedBillStatus,
 } from './flutterwave.bill-status.js';
 import { RewardFulfillmentService } from '../../modules/rewards/reward-fulfillment.service.js';
+import {
+  SystemAccount,
+  creditWallet,
+  postLedgerEntry,
+  refundWallet,
+} from '../ledger/index.js';
 
 type FlutterwaveWebhookBody = {
   event?: string;
@@ -38,10 +44,7 @@ export class FlutterwaveWebhookService {
     }
   }
 
-  async handleWebhook(
-    payload: FlutterwaveWebhookBody,
-    context: { headers?: any; ipAddress?: string; userAgent?: string }
-  ) {
+  async handleWebhook(payload: FlutterwaveWebhookBody) {
     const event = String(payload.event || payload['event.type'] || '');
     const eventLower = event.toLowerCase();
     const data = payload.data || payload;
@@ -174,15 +177,28 @@ export class FlutterwaveWebhookService {
       const creditedAmount = new Decimal(deposit.amount).minus(new Decimal(deposit.fee || 0));
 
       await prisma.$transaction(async (tx) => {
-        await tx.wallet.update({
-          where: { id: deposit.walletId },
-          data: {
-            balance: {
-              increment: creditedAmount.toNumber(),
-            },
-          },
+        await creditWallet(tx, {
+          walletId: deposit.walletId,
+          amount: creditedAmount,
+          currency: deposit.currency,
+          from: SystemAccount.PROVIDER_FLOAT,
+          transactionId: deposit.id,
+          reference: deposit.reference,
+          description: `Flutterwave deposit ${txRef}`,
         });
 
+        if (new Decimal(deposit.fee || 0).gt(0)) {
+          await postLedgerEntry(tx, {
+            debit: { system: SystemAccount.PROVIDER_FLOAT },
+            credit: { system: SystemAccount.FEES },
+            amount: new Decimal(deposit.fee),
+            currency: deposit.currency,
+            transactionId: deposit.id,
+            reference: deposit.reference,
+            description: `Flutterwave deposit ${txRef} (fee)`,
+          });
+        }
+
         await tx.transaction.update({
           where: { id: deposit.id },
           data: {
@@ -201,8 +217,12 @@ export class FlutterwaveWebhookService {
         });
       });
 
-      if (deposit.wallet.user.email) {
-        await sendDepositSuccessEmail(deposit.wallet.user.email, {
+      notifyFiatDeposit(deposit.wallet.userId, {
+        amount: deposit.amount.toString(),
+        currency: deposit.currency,
+        reference: deposit.reference,
+        creditedAmount: creditedAmount.toString(),
+        email: buildDepositSuccessEmail({
           amount: deposit.amount.toString(),
           currency: deposit.currency,
           creditedAmount: creditedAmount.toString(),
@@ -214,14 +234,7 @@ export class FlutterwaveWebhookService {
           paymentMethod: deposit.paymentMethod || 'Mobile Money',
           provider: 'Flutterwave',
           date: new Date().toLocaleString(),
-        });
-      }
-
-      notifyFiatDeposit(deposit.wallet.userId, {
-        amount: deposit.amount.toString(),
-        currency: deposit.currency,
-        reference: deposit.reference,
-        creditedAmount: creditedAmount.toString(),
+        }),
       });
       return;
     }
@@ -277,7 +290,6 @@ export class FlutterwaveWebhookService {
 
     const status = String(data.status || '').toLowerCase();
     const metadata = (transaction.metadata as any) || {};
-    const totalDeduction = new Decimal(transaction.amount).plus(new Decimal(transaction.fee || 0));
 
     if (status === 'successful' || status === 'success') {
       await prisma.transaction.update({
@@ -311,13 +323,15 @@ export class FlutterwaveWebhookService {
     if (status === 'failed' || status === 'cancelled') {
       await prisma.$transaction(async (tx) => {
         if (metadata.walletDebited && !metadata.refunded) {
-          await tx.wallet.update({
-            where: { id: transaction.walletId },
-            data: {
-              balance: {
-                increment: totalDeduction.toNumber(),
-              },
-            },
+          await refundWallet(tx, {
+            walletId: transaction.walletId,
+            amount: new Decimal(transaction.amount),
+            fee: new Decimal(transaction.fee || 0),
+            currency: transaction.currency,
+            from: SystemAccount.PROVIDER_FLOAT,
+            transactionId: transaction.id,
+            reference: transaction.reference,
+            description: `Withdrawal refund ${transaction.reference}`,
           });
         }
 
@@ -541,13 +555,15 @@ export class FlutterwaveWebhookService {
         !lockedMeta.refunded &&
         !lockedMeta.isRewardFulfillment
       ) {
-        await tx.wallet.update({
-          where: { id: locked.walletId },
-          data: {
-            balance: {
-              increment: new Decimal(locked.amount).plus(new Decimal(locked.fee || 0)).toNumber(),
-            },
-          },
+        await refundWallet(tx, {
+          walletId: locked.walletId,
+          amount: new Decimal(locked.amount),
+          fee: new Decimal(locked.fee || 0),
+          currency: locked.currency,
+          from: SystemAccount.PROVIDER_FLOAT,
+          transactionId: locked.id,
+          reference: locked.reference,
+          description: `Bill payment refund ${locked.reference}`,
         });
       }
 
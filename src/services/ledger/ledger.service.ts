@@ -0,0 +1,412 @@
+import { randomUUID } from 'crypto';
+import { Decimal } from 'decimal.js';
+import type { Prisma } from '@prisma/client';
+import prisma from '../../core/config/database.js';
+
+/**
+ * Double-entry ledger
+ *
+ * Every change to Wallet.balance goes through postLedgerEntry, which writes an
+ * immutable debit/credit pair and applies the wallet side in the same client.
+ * Pass the `tx` of an open prisma.$transaction so the balance update and the
+ * journal rows commit (or roll back) together.
+ *
+ * Sign convention: all accounts are credit-normal (balance = credits - debits).
+ * Crediting a wallet increases Wallet.balance, debiting decreases it. Because
+ * each journal debits and credits the same amount, the sum over every account
+ * of a currency is always zero — system accounts hold the offsetting side.
+ *
+ * Funds locked on a wallet (Wallet.lockedBalance) are journaled the same way on
+ * a separate held account per wallet, against the holds system account, so
+ * locks and unlocks reconcile like balance movements.
+ */
+
+export const SystemAccount = {
+  FEES: 'fees',
+  ESCROW: 'escrow',
+  PROVIDER_FLOAT: 'provider_float',
+  REWARDS: 'rewards',
+  FX: 'fx',
+  OPENING_BALANCE: 'opening_balance',
+  HOLDS: 'holds',
+} as const;
+
+export type SystemAccountKind = (typeof SystemAccount)[keyof typeof SystemAccount];
+
+export type LedgerAccountRef =
+  | { walletId: number }
+  | { heldWalletId: number }
+  | { system: SystemAccountKind };
+
+export type LedgerClient = Prisma.TransactionClient | typeof prisma;
+
+export interface LedgerPosting {
+  debit: LedgerAccountRef;
+  credit: LedgerAccountRef;
+  amount: Decimal | string | number;
+  currency: string;
+  transactionId?: number | null;
+  reference?: string | null;
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
+type Direction = 'debit' | 'credit';
+
+const systemAccountCode = (kind: SystemAccountKind, currency: string) =>
+  `system:${kind}:${currency.toUpperCase()}`;
+
+const walletAccountCode = (walletId: number) => `wallet:${walletId}`;
+
+export const heldAccountCode = (walletId: number) => `wallet:${walletId}:held`;
+
+async function resolveSide(
+  client: LedgerClient,
+  ref: LedgerAccountRef,
+  currency: string,
+  direction: Direction,
+  amount: Decimal
+): Promise<{ accountId: number; balanceAfter: Decimal | null }> {
+  if ('system' in ref) {
+    const code = systemAccountCode(ref.system, currency);
+    const account = await client.ledgerAccount.upsert({
+      where: { code },
+      create: { code, kind: ref.system, currency: currency.toUpperCase() },
+      update: {},
+    });
+    return { accountId: account.id, balanceAfter: null };
+  }
+
+  const walletId = 'heldWalletId' in ref ? ref.heldWalletId : ref.walletId;
+  const wallet = await client.wallet.findUnique({ where: { id: walletId } });
+  if (!wallet) {
+    throw new Error(`Wallet ${walletId} not found`);
+  }
+  if (wallet.currency.toUpperCase() !== currency.toUpperCase()) {
+    throw new Error(`Ledger currency ${currency} does not match wallet currency ${wallet.currency}`);
+  }
+
+  if ('heldWalletId' in ref) {
+    const held = await client.wallet.update({
+      where: { id: wallet.id },
+      data: {
+        lockedBalance:
+          direction === 'credit' ? { increment: amount.toString() } : { decrement: amount.toString() },
+      },
+    });
+
+    // LedgerAccount.walletId is unique to the balance account, so the held account is found by code
+    const code = heldAccountCode(wallet.id);
+    const account = await client.ledgerAccount.upsert({
+      where: { code },
+      create: { code, kind: 'wallet_held', currency: wallet.currency.toUpperCase() },
+      update: {},
+    });
+
+    return { accountId: account.id, balanceAfter: new Decimal(held.lockedBalance.toString()) };
+  }
+
+  const updated = await client.wallet.update({
+    where: { id: wallet.id },
+    data: {
+      balance: direction === 'credit' ? { increment: amount.toString() } : { decrement: amount.toString() },
+    },
+  });
+
+  const code = walletAccountCode(wallet.id);
+  const account = await client.ledgerAccount.upsert({
+    where: { code },
+    create: { code, kind: 'wallet', currency: wallet.currency.toUpperCase(), walletId: wallet.id },
+    update: {},
+  });
+
+  return { accountId: account.id, balanceAfter: new Decimal(updated.balance.toString()) };
+}
+
+const sameRef = (a: LedgerAccountRef, b: LedgerAccountRef) =>
+  ('walletId' in a && 'walletId' in b && a.walletId === b.walletId) ||
+  ('heldWalletId' in a && 'heldWalletId' in b && a.heldWalletId === b.heldWalletId) ||
+  ('system' in a && 'system' in b && a.system === b.system);
+
+/**
+ * Post one balanced journal: debit one account, credit another, same amount.
+ * Wallet sides update Wallet.balance; system accounts are created on first use.
+ */
+export async function postLedgerEntry(client: LedgerClient, posting: LedgerPosting) {
+  const amount = new Decimal(posting.amount);
+  if (!amount.isFinite() || amount.lte(0)) {
+    throw new Error('Ledger amount must be greater than zero');
+  }
+  if (sameRef(posting.debit, posting.credit)) {
+    throw new Error('Ledger debit and credit accounts must differ');
+  }
+
+  const currency = posting.currency.toUpperCase();
+  const journalId = randomUUID();
+
+  const debitSide = await resolveSide(client, posting.debit, currency, 'debit', amount);
+  const creditSide = await resolveSide(client, posting.credit, currency, 'credit', amount);
+
+  const shared = {
+    journalId,
+    amount: amount.toString(),
+    currency,
+    transactionId: posting.transactionId ?? null,
+    reference: posting.reference ?? null,
+    description: posting.description ?? null,
+    metadata: (posting.metadata as Prisma.InputJsonValue) ?? undefined,
+  };
+
+  await client.ledgerEntry.createMany({
+    data: [
+      {
+        ...shared,
+        accountId: debitSide.accountId,
+        direction: 'debit',
+        balanceAfter: debitSide.balanceAfter?.toString() ?? null,
+      },
+      {
+        ...shared,
+        accountId: creditSide.accountId,
+        direction: 'credit',
+        balanceAfter: creditSide.balanceAfter?.toString() ?? null,
+      },
+    ],
+  });
+
+  return {
+    journalId,
+    debitBalanceAfter: debitSide.balanceAfter,
+    creditBalanceAfter: creditSide.balanceAfter,
+  };
+}
+
+type WalletMovement = Omit<LedgerPosting, 'debit' | 'credit'> & { walletId: number };
+
+/** Increase a wallet balance, funded by a system account (deposit, refund, reward, fx leg). */
+export function creditWallet(
+  client: LedgerClient,
+  params: WalletMovement & { from: SystemAccountKind }
+) {
+  const { walletId, from, ...rest } = params;
+  return postLedgerEntry(client, { ...rest, debit: { system: from }, credit: { walletId } });
+}
+
+/**
+ * Decrease a wallet balance into a system account (payout, bill, fx leg).
+ * A non-zero `fee` is posted as a second journal into the fees account.
+ */
+export async function debitWallet(
+  client: LedgerClient,
+  params: WalletMovement & { to: SystemAccountKind; fee?: Decimal | string | number }
+) {
+  const { walletId, to, fee, ...rest } = params;
+  const result = await postLedgerEntry(client, { ...rest, debit: { walletId }, credit: { system: to } });
+
+  if (fee !== undefined && new Decimal(fee).gt(0)) {
+    await postLedgerEntry(client, {
+      ...rest,
+      amount: fee,
+      description: rest.description ? `${rest.description} (fee)` : 'Fee',
+      debit: { walletId },
+      credit: { system: SystemAccount.FEES },
+    });
+  }
+
+  return result;
+}
+
+/** Reverse a debitWallet posting: principal back from `from`, fee back from the fees account. */
+export async function refundWallet(
+  client: LedgerClient,
+  params: WalletMovement & { from: SystemAccountKind; fee?: Decimal | string | number }
+) {
+  const { walletId, from, fee, ...rest } = params;
+  const result = await postLedgerEntry(client, { ...rest, debit: { system: from }, credit: { walletId } });
+
+  if (fee !== undefined && new Decimal(fee).gt(0)) {
+    await postLedgerEntry(client, {
+      ...rest,
+      amount: fee,
+      description: rest.description ? `${rest.description} (fee)` : 'Fee refund',
+      debit: { system: SystemAccount.FEES },
+      credit: { walletId },
+    });
+  }
+
+  return result;
+}
+
+/** Move funds between two wallets of the same currency (internal transfer). */
+export function transferBetweenWallets(
+  client: LedgerClient,
+  params: Omit<LedgerPosting, 'debit' | 'credit'> & { fromWalletId: number; toWalletId: number }
+) {
+  const { fromWalletId, toWalletId, ...rest } = params;
+  return postLedgerEntry(client, {
+    ...rest,
+    debit: { walletId: fromWalletId },
+    credit: { walletId: toWalletId },
+  });
+}
+
+/** Lock part of a wallet balance: increases Wallet.lockedBalance, leaves Wallet.balance as is. */
+export function holdWalletFunds(client: LedgerClient, params: WalletMovement) {
+  const { walletId, ...rest } = params;
+  return postLedgerEntry(client, {
+    ...rest,
+    debit: { system: SystemAccount.HOLDS },
+    credit: { heldWalletId: walletId },
+  });
+}
+
+/** Unlock funds locked by holdWalletFunds: decreases Wallet.lockedBalance. */
+export function releaseWalletHold(client: LedgerClient, params: WalletMovement) {
+  const { walletId, ...rest } = params;
+  return postLedgerEntry(client, {
+    ...rest,
+    debit: { heldWalletId: walletId },
+    credit: { system: SystemAccount.HOLDS },
+  });
+}
+
+/**
+ * Throw if a wallet's available balance (balance - lockedBalance) went negative.
+ * Call after a debit in the same transaction: the debit's row lock makes the
+ * re-read current, and the throw rolls the debit back.
+ */
+export async function assertAvailableBalance(client: LedgerClient, walletId: number) {
+  const wallet = await client.wallet.findUnique({ where: { id: walletId } });
+  if (!wallet) {
+    throw new Error(`Wallet ${walletId} not found`);
+  }
+
+  const available = new Decimal(wallet.balance.toString()).minus(wallet.lockedBalance.toString());
+  if (available.lt(0)) {
+    throw new Error('Insufficient balance');
+  }
+}
+
+/**
+ * Bring a mirrored wallet to a target balance by posting the difference against
+ * a system account. Crypto Wallet rows mirror their VirtualAccount, so their
+ * movements are recorded as the delta to the VA-derived balance.
+ */
+export async function syncWalletBalance(
+  client: LedgerClient,
+  params: Omit<LedgerPosting, 'debit' | 'credit' | 'amount' | 'currency'> & {
+    walletId: number;
+    targetBalance: Decimal | string | number;
+    counterparty: SystemAccountKind;
+  }
+) {
+  const { walletId, targetBalance, counterparty, ...rest } = params;
+  const wallet = await client.wallet.findUnique({ where: { id: walletId } });
+  if (!wallet) {
+    throw new Error(`Wallet ${walletId} not found`);
+  }
+
+  const delta = new Decimal(targetBalance).minus(wallet.balance.toString());
+  if (delta.isZero()) {
+    return null;
+  }
+
+  return delta.gt(0)
+    ? creditWallet(client, { ...rest, walletId, amount: delta, currency: wallet.currency, from: counterparty })
+    : debitWallet(client, { ...rest, walletId, amount: delta.abs(), currency: wallet.currency, to: counterparty });
+}
+
+/**
+ * Journal a wallet's pre-ledger balance without moving it. Used once per wallet
+ * when the ledger is introduced; no-op if the wallet already has entries.
+ * A legacy lockedBalance is opened on the wallet's held account in the same journal.
+ */
+export async function recordOpeningBalance(client: LedgerClient, walletId: number) {
+  const wallet = await client.wallet.findUnique({ where: { id: walletId } });
+  if (!wallet) {
+    throw new Error(`Wallet ${walletId} not found`);
+  }
+
+  const currency = wallet.currency.toUpperCase();
+  const code = walletAccountCode(wallet.id);
+  const account = await client.ledgerAccount.upsert({
+    where: { code },
+    create: { code, kind: 'wallet', currency, walletId: wallet.id },
+    update: {},
+  });
+
+  const existing = await client.ledgerEntry.count({ where: { accountId: account.id } });
+  if (existing > 0) {
+    return null;
+  }
+
+  // Holds placed since the ledger went live are already journaled on the held account
+  const heldCode = heldAccountCode(wallet.id);
+  const existingHeld = await client.ledgerAccount.findUnique({ where: { code: heldCode } });
+  const heldJournaled = existingHeld
+    ? (await client.ledgerEntry.count({ where: { accountId: existingHeld.id } })) > 0
+    : false;
+
+  const balance = new Decimal(wallet.balance.toString());
+  const lockedBalance = heldJournaled ? new Decimal(0) : new Decimal(wallet.lockedBalance.toString());
+  if (balance.isZero() && lockedBalance.isZero()) {
+    return null;
+  }
+
+  const openingCode = systemAccountCode(SystemAccount.OPENING_BALANCE, currency);
+  const opening = await client.ledgerAccount.upsert({
+    where: { code: openingCode },
+    create: { code: openingCode, kind: SystemAccount.OPENING_BALANCE, currency },
+    update: {},
+  });
+
+  // A negative legacy balance is journaled the other way round
+  const walletDirection = balance.gt(0) ? 'credit' : 'debit';
+  const journalId = randomUUID();
+  const shared = {
+    journalId,
+    amount: balance.abs().toString(),
+    currency,
+    description: 'Opening balance',
+  };
+
+  const entries: Prisma.LedgerEntryCreateManyInput[] = balance.isZero()
+    ? []
+    : [
+        { ...shared, accountId: account.id, direction: walletDirection, balanceAfter: balance.toString() },
+        { ...shared, accountId: opening.id, direction: walletDirection === 'credit' ? 'debit' : 'credit' },
+      ];
+
+  // Locked funds open like a hold: credit the held account against the holds system account
+  if (lockedBalance.gt(0)) {
+    const held = await client.ledgerAccount.upsert({
+      where: { code: heldCode },
+      create: { code: heldCode, kind: 'wallet_held', currency },
+      update: {},
+    });
+    const holdsCode = systemAccountCode(SystemAccount.HOLDS, currency);
+    const holds = await client.ledgerAccount.upsert({
+      where: { code: holdsCode },
+      create: { code: holdsCode, kind: SystemAccount.HOLDS, currency },
+      update: {},
+    });
+    const heldShared = { ...shared, amount: lockedBalance.toString(), description: 'Opening locked balance' };
+    entries.push(
+      { ...heldShared, accountId: held.id, direction: 'credit', balanceAfter: lockedBalance.toString() },
+      { ...heldShared, accountId: holds.id, direction: 'debit' }
+    );
+  }
+
+  await client.ledgerEntry.createMany({ data: entries });
+
+  return { journalId, balance, lockedBalance };
+}
+
+/** Net balance (credits - debits) of a ledger account. */
+export async function getLedgerAccountBalance(accountId: number, client: LedgerClient = prisma) {
+  const [credits, debits] = await Promise.all([
+    client.ledgerEntry.aggregate({ where: { accountId, direction: 'credit' }, _sum: { amount: true } }),
+    client.ledgerEntry.aggregate({ where: { accountId, direction: 'debit' }, _sum: { amount: true } }),
+  ]);
+  return new Decimal(credits._sum.amount?.toString() || '0').minus(debits._sum.amount?.toString() || '0');
+}
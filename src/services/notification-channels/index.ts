@@ -0,0 +1,4 @@
+export * from './notification-channels.constants.js';
+export * from './notification-channels.providers.js';
+export * from './notification-templates.js';
+export * from './notification-dispatch.service.js';
@@ -0,0 +1,83 @@
+export const NOTIFICATION_CHANNELS = ['in_app', 'email', 'sms', 'push'] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+/** Channels delivered through a ChannelProvider and recorded in the delivery log */
+export type OutboundChannel = Exclude<NotificationChannel, 'in_app'>;
+
+export const OUTBOUND_CHANNELS: OutboundChannel[] = ['email', 'sms', 'push'];
+
+export const NOTIFICATION_CATEGORIES = ['security', 'account', 'transactions', 'p2p', 'promotional'] as const;
+
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+
+/** Category of each NotificationAction; other events fall back to the notification type */
+export const EVENT_CATEGORIES: Record<string, NotificationCategory> = {
+  login: 'security',
+  logout: 'security',
+  pin_setup: 'security',
+  pin_changed: 'security',
+  pin_locked: 'security',
+  password_reset: 'security',
+  register: 'account',
+  email_verified: 'account',
+  crypto_deposit: 'transactions',
+  fiat_deposit: 'transactions',
+  transfer_sent: 'transactions',
+  transfer_received: 'transactions',
+  withdrawal: 'transactions',
+  conversion: 'transactions',
+  bill_payment: 'transactions',
+  transaction_review: 'transactions',
+  scheduled_payment: 'transactions',
+  referral: 'account',
+};
+
+export const NOTIFICATION_TYPE_CATEGORIES: Record<string, NotificationCategory> = {
+  transaction: 'transactions',
+  conversion: 'transactions',
+  p2p: 'p2p',
+  general: 'account',
+  promotional: 'promotional',
+};
+
+/** Channels a user receives per category until they change their preferences */
+export const DEFAULT_CHANNEL_PREFERENCES: Record<NotificationCategory, Record<NotificationChannel, boolean>> = {
+  security: { in_app: true, email: true, sms: false, push: true },
+  account: { in_app: true, email: true, sms: false, push: false },
+  transactions: { in_app: true, email: true, sms: false, push: true },
+  p2p: { in_app: true, email: false, sms: false, push: true },
+  promotional: { in_app: true, email: false, sms: false, push: false },
+};
+
+/** Preferences users cannot turn off */
+export const LOCKED_CHANNEL_PREFERENCES: Partial<Record<NotificationCategory, NotificationChannel[]>> = {
+  security: ['in_app', 'email'],
+};
+
+export const NOTIFICATION_LOCALES = ['en', 'fr'] as const;
+
+export type NotificationLocale = (typeof NOTIFICATION_LOCALES)[number];
+
+export const DEFAULT_NOTIFICATION_LOCALE: NotificationLocale = 'en';
+
+export const PUSH_PLATFORMS = ['ios', 'android', 'web'];
+
+/** Push devices kept per user; the least recently seen are dropped */
+export const MAX_PUSH_DEVICES_PER_USER = 10;
+
+/** Attempts before a delivery is dead-lettered (env NOTIFICATION_DELIVERY_MAX_ATTEMPTS) */
+export const DEFAULT_NOTIFICATION_DELIVERY_MAX_ATTEMPTS = 5;
+
+/** First retry delay; doubles on each attempt up to NOTIFICATION_RETRY_MAX_DELAY_MS */
+export const NOTIFICATION_RETRY_BASE_MS = 60 * 1000;
+export const NOTIFICATION_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/** How long a sending delivery is leased before another worker may pick it up */
+export const NOTIFICATION_SENDING_LEASE_MS = 2 * 60 * 1000;
+
+/** Deliveries retried per job tick */
+export const NOTIFICATION_DELIVERY_BATCH_SIZE = 100;
+
+/** Push bodies are cut to this length */
+export const PUSH_BODY_MAX_LENGTH = 178;
@@ -0,0 +1,110 @@
+import { randomUUID } from 'crypto';
+import { deliverEmail } from '../../core/utils/email.service.js';
+import type { OutboundChannel } from './notification-channels.constants.js';
+
+export interface ChannelMessage {
+  channel: OutboundChannel;
+  /** Email address, phone number or push token */
+  to: string;
+  subject?: string | null;
+  title: string;
+  body: string;
+  html?: string | null;
+  /** Extra push payload, e.g. the deep link */
+  data?: Record<string, string>;
+}
+
+export interface ChannelSendResult {
+  providerMessageId?: string | null;
+}
+
+/**
+ * Sends messages over one outbound channel. Providers throw when a message could
+ * not be handed off; the dispatcher records the error and retries.
+ */
+export interface ChannelProvider {
+  /** Stored on each delivery, e.g. "smtp" or "local" */
+  readonly name: string;
+  send(message: ChannelMessage): Promise<ChannelSendResult>;
+}
+
+/**
+ * Email over the SMTP transport configured by SMTP_* (logs to the console when unset)
+ */
+export class SmtpEmailProvider implements ChannelProvider {
+  readonly name = 'smtp';
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    const providerMessageId = await deliverEmail(message.to, message.subject ?? message.title, message.html ?? message.body);
+    return { providerMessageId };
+  }
+}
+
+/**
+ * Keeps messages in memory and logs them instead of sending. Default for SMS and
+ * push until a gateway is plugged in.
+ */
+export class LocalChannelProvider implements ChannelProvider {
+  readonly name = 'local';
+  readonly sent: ChannelMessage[] = [];
+
+  constructor(private readonly maxKept = 100) {}
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    this.sent.push(message);
+    if (this.sent.length > this.maxKept) {
+      this.sent.shift();
+    }
+    if (process.env.NODE_ENV !== 'production') {
+      console.log(`[Notifications] ${message.channel} to ${message.to}: ${message.title} - ${message.body}`);
+    }
+    return { providerMessageId: randomUUID() };
+  }
+}
+
+/**
+ * In-memory provider for tests. Records every message it accepts and throws
+ * `failure` instead while one is set, so retries and isolation can be asserted.
+ */
+export class FakeChannelProvider implements ChannelProvider {
+  readonly sent: ChannelMessage[] = [];
+  failure: Error | null = null;
+
+  constructor(readonly name = 'fake') {}
+
+  async send(message: ChannelMessage): Promise<ChannelSendResult> {
+    if (this.failure) {
+      throw this.failure;
+    }
+    this.sent.push(message);
+    return { providerMessageId: `${this.name}-${this.sent.length}` };
+  }
+}
+
+const providers: Record<OutboundChannel, ChannelProvider> = {
+  email: process.env.EMAIL_CHANNEL_PROVIDER === 'local' ? new LocalChannelProvider() : new SmtpEmailProvider(),
+  sms: new LocalChannelProvider(),
+  push: new LocalChannelProvider(),
+};
+
+export function getChannelProvider(channel: OutboundChannel): ChannelProvider {
+  return providers[channel];
+}
+
+/** Swap the provider of a channel. Call before the server starts taking requests. */
+export function setChannelProvider(channel: OutboundChannel, provider: ChannelProvider): void {
+  providers[channel] = provider;
+}
+
+/** Put a fresh FakeChannelProvider on every outbound channel and return them */
+export function installFakeChannelProviders(): Record<OutboundChannel, FakeChannelProvider> {
+  const fakes = {
+    email: new FakeChannelProvider('fake-email'),
+    sms: new FakeChannelProvider('fake-sms'),
+    push: new FakeChannelProvider('fake-push'),
+  };
+  for (const [channel, provider] of Object.entries(fakes)) {
+    setChannelProvider(channel as OutboundChannel, provider);
+  }
+  return fakes;
+}
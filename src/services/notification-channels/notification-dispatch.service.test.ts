@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NotificationDispatchService } from './notification-dispatch.service.js';
+import { installFakeChannelProviders, type FakeChannelProvider } from './notification-channels.providers.js';
+import type { OutboundChannel } from './notification-channels.constants.js';
+
+type Row = Record<string, any>;
+
+const { db, prisma } = vi.hoisted(() => {
+  const db = {
+    user: null as Row | null,
+    preferences: [] as Row[],
+    deliveries: [] as Row[],
+  };
+
+  const findDelivery = (id: number) => db.deliveries.find((row) => row.id === id) ?? null;
+
+  const prisma = {
+    user: {
+      findUnique: async () => db.user,
+    },
+    notificationPreference: {
+      findMany: async ({ where }: { where: Row }) =>
+        db.preferences.filter((row) => row.userId === where.userId && row.category === where.category),
+    },
+    notification: {
+      findUnique: async () => ({ link: null }),
+    },
+    notificationDelivery: {
+      create: async ({ data }: { data: Row }) => {
+        const row = { id: db.deliveries.length + 1, status: 'pending', attempts: 0, ...data };
+        db.deliveries.push(row);
+        return { ...row };
+      },
+      findUnique: async ({ where }: { where: Row }) => {
+        const row = findDelivery(where.id);
+        return row && { ...row };
+      },
+      updateMany: async ({ where, data }: { where: Row; data: Row }) => {
+        const row = findDelivery(where.id);
+        if (!row || row.status !== where.status || row.attempts !== where.attempts) {
+          return { count: 0 };
+        }
+        Object.assign(row, data, { attempts: row.attempts + data.attempts.increment });
+        return { count: 1 };
+      },
+      update: async ({ where, data }: { where: Row; data: Row }) => {
+        const row = findDelivery(where.id)!;
+        Object.assign(row, data);
+        return { ...row };
+      },
+    },
+  };
+
+  return { db, prisma };
+});
+
+vi.mock('../../core/config/database.js', () => ({ default: prisma, prisma }));
+
+vi.mock('../../modules/notification/notification.service.js', () => ({
+  NotificationService: class {
+    async createNotification() {
+      return { id: 1 };
+    }
+  },
+}));
+
+const withdrawal = {
+  userId: 1,
+  type: 'transaction' as const,
+  title: 'Withdrawal',
+  status: 'success' as const,
+  amount: '5000',
+  currency: 'NGN',
+  reference: 'WD-1',
+  metadata: { action: 'withdrawal' },
+};
+
+function prefer(category: string, channel: OutboundChannel, enabled: boolean) {
+  db.preferences.push({ userId: 1, category, channel, enabled });
+}
+
+function deliveriesOn(channel: OutboundChannel) {
+  return db.deliveries.filter((row) => row.channel === channel);
+}
+
+describe('NotificationDispatchService.dispatch', () => {
+  let fakes: Record<OutboundChannel, FakeChannelProvider>;
+  const service = new NotificationDispatchService();
+
+  beforeEach(() => {
+    db.user = {
+      email: 'ada@example.com',
+      phone: '+2348000000000',
+      isPhoneVerified: true,
+      locale: 'en',
+      pushDevices: [{ token: 'device-a' }, { token: 'device-b' }],
+    };
+    db.preferences = [];
+    db.deliveries = [];
+    fakes = installFakeChannelProviders();
+  });
+
+  it('sends on the default channels of the category', async () => {
+    const result = await service.dispatch(withdrawal);
+
+    expect(result.notification).toEqual({ id: 1 });
+    expect(fakes.email.sent.map((message) => message.to)).toEqual(['ada@example.com']);
+    expect(fakes.push.sent.map((message) => message.to)).toEqual(['device-a', 'device-b']);
+    expect(fakes.sms.sent).toHaveLength(0);
+    expect(db.deliveries.every((row) => row.status === 'sent')).toBe(true);
+  });
+
+  it('skips channels the user opted out of and adds the ones they opted into', async () => {
+    prefer('transactions', 'push', false);
+    prefer('transactions', 'sms', true);
+
+    await service.dispatch(withdrawal);
+
+    expect(fakes.push.sent).toHaveLength(0);
+    expect(deliveriesOn('push')).toHaveLength(0);
+    expect(fakes.sms.sent.map((message) => message.to)).toEqual(['+2348000000000']);
+    expect(fakes.email.sent).toHaveLength(1);
+  });
+
+  it('does not let a failing channel block the others', async () => {
+    prefer('transactions', 'sms', true);
+    fakes.email.failure = new Error('SMTP unavailable');
+
+    const result = await service.dispatch(withdrawal);
+
+    const [email] = deliveriesOn('email');
+    expect(email.status).toBe('failed');
+    expect(email.lastError).toBe('SMTP unavailable');
+    expect(email.nextAttemptAt).toBeInstanceOf(Date);
+    expect(fakes.sms.sent).toHaveLength(1);
+    expect(fakes.push.sent).toHaveLength(2);
+    expect(result.deliveries.filter((delivery) => delivery.status === 'sent')).toHaveLength(3);
+  });
+
+  it('keeps locked security channels on even when opted out', async () => {
+    prefer('security', 'email', false);
+    prefer('security', 'push', false);
+
+    await service.dispatch({ ...withdrawal, type: 'general', title: 'New login', metadata: { action: 'login' } });
+
+    expect(fakes.email.sent).toHaveLength(1);
+    expect(fakes.push.sent).toHaveLength(0);
+  });
+
+  it('skips SMS to an unverified phone number', async () => {
+    prefer('transactions', 'sms', true);
+    db.user!.isPhoneVerified = false;
+
+    await service.dispatch(withdrawal);
+
+    expect(deliveriesOn('sms')).toHaveLength(0);
+    expect(fakes.sms.sent).toHaveLength(0);
+  });
+});
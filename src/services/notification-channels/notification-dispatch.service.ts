@@ -0,0 +1,276 @@
+import type { NotificationDelivery } from '@prisma/client';
+import prisma from '../../core/config/database.js';
+import { NotificationService } from '../../modules/notification/notification.service.js';
+import { NotificationPreferencesService } from '../../modules/notification/notification-preferences.service.js';
+import {
+  DEFAULT_NOTIFICATION_DELIVERY_MAX_ATTEMPTS,
+  DEFAULT_NOTIFICATION_LOCALE,
+  EVENT_CATEGORIES,
+  NOTIFICATION_DELIVERY_BATCH_SIZE,
+  NOTIFICATION_RETRY_BASE_MS,
+  NOTIFICATION_RETRY_MAX_DELAY_MS,
+  NOTIFICATION_SENDING_LEASE_MS,
+  NOTIFICATION_TYPE_CATEGORIES,
+  PUSH_BODY_MAX_LENGTH,
+  type NotificationCategory,
+  type OutboundChannel,
+} from './notification-channels.constants.js';
+import { getChannelProvider } from './notification-channels.providers.js';
+import { normalizeLocale, renderNotification, renderNotificationEmail } from './notification-templates.js';
+
+export interface DispatchPayload {
+  userId: number;
+  type: 'transaction' | 'p2p' | 'conversion' | 'general' | 'promotional';
+  title: string;
+  message?: string;
+  status?: 'success' | 'error' | 'info' | 'warning';
+  amount?: string | number;
+  currency?: string;
+  reference?: string;
+  link?: string;
+  metadata?: Record<string, unknown>;
+  /** Detailed email used instead of the generic one when the user reads the default locale */
+  email?: { subject: string; html: string };
+}
+
+type PendingDelivery = {
+  channel: OutboundChannel;
+  recipient: string;
+  subject?: string | null;
+  body: string;
+  html?: string | null;
+};
+
+/**
+ * Notification Dispatch Service
+ * Fans a notification event out to in-app, email, SMS and push according to the
+ * user's preferences. Every outbound message is logged as a NotificationDelivery,
+ * tried once right away and retried with exponential backoff by the delivery job.
+ */
+export class NotificationDispatchService {
+  private notificationService = new NotificationService();
+  private preferencesService = new NotificationPreferencesService();
+
+  async dispatch(payload: DispatchPayload) {
+    const event = typeof payload.metadata?.action === 'string' ? payload.metadata.action : payload.type;
+    const category = this.getCategory(event, payload.type);
+
+    const [user, channels] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: payload.userId },
+        select: {
+          email: true,
+          phone: true,
+          isPhoneVerified: true,
+          locale: true,
+          pushDevices: { select: { token: true } },
+        },
+      }),
+      this.preferencesService.getEnabledChannels(payload.userId, category),
+    ]);
+    if (!user) {
+      return { notification: null, deliveries: [] };
+    }
+
+    const rendered = renderNotification(event, normalizeLocale(user.locale), payload);
+
+    const notification = channels.includes('in_app')
+      ? await this.notificationService.createNotification(payload.userId, {
+          type: payload.type,
+          title: rendered.title,
+          ...(rendered.message && { message: rendered.message }),
+          status: payload.status ?? 'success',
+          ...(payload.amount !== undefined && { amount: payload.amount }),
+          ...(payload.currency !== undefined && { currency: payload.currency }),
+          ...(payload.reference !== undefined && { reference: payload.reference }),
+          ...(payload.link !== undefined && { link: payload.link }),
+          ...(payload.metadata !== undefined && { metadata: payload.metadata }),
+        })
+      : null;
+
+    const pending: PendingDelivery[] = [];
+    if (channels.includes('email') && user.email) {
+      const detailed = payload.email && rendered.locale === DEFAULT_NOTIFICATION_LOCALE ? payload.email : null;
+      pending.push({
+        channel: 'email',
+        recipient: user.email,
+        subject: detailed?.subject ?? `${rendered.title} - Rhinox Pay`,
+        body: rendered.message,
+        html: detailed?.html ?? renderNotificationEmail(rendered.title, rendered.message, payload.link),
+      });
+    }
+    if (channels.includes('sms') && user.phone && user.isPhoneVerified) {
+      pending.push({ channel: 'sms', recipient: user.phone, body: rendered.sms });
+    }
+    if (channels.includes('push')) {
+      for (const device of user.pushDevices) {
+        pending.push({ channel: 'push', recipient: device.token, body: rendered.message.slice(0, PUSH_BODY_MAX_LENGTH) });
+      }
+    }
+
+    const deliveries: NotificationDelivery[] = [];
+    for (const item of pending) {
+      const delivery = await prisma.notificationDelivery.create({
+        data: {
+          userId: payload.userId,
+          notificationId: notification?.id ?? null,
+          event: event.slice(0, 50),
+          category,
+          channel: item.channel,
+          provider: getChannelProvider(item.channel).name,
+          locale: rendered.locale,
+          recipient: item.recipient,
+          subject: item.subject?.slice(0, 255) ?? rendered.title.slice(0, 255),
+          body: item.body,
+          html: item.html ?? null,
+          nextAttemptAt: new Date(),
+        },
+      });
+      deliveries.push(await this.attempt(delivery.id));
+    }
+
+    return { notification, deliveries };
+  }
+
+  /**
+   * Send a delivery if it is due. The claim is conditional on the status and
+   * attempt count, so concurrent workers never send the same attempt twice.
+   */
+  async attempt(id: number): Promise<NotificationDelivery> {
+    const delivery = await prisma.notificationDelivery.findUnique({ where: { id } });
+    if (!delivery) {
+      throw new Error('Notification delivery not found');
+    }
+
+    const now = new Date();
+    const due = !delivery.nextAttemptAt || delivery.nextAttemptAt <= now;
+    if (!due || !['pending', 'failed', 'sending'].includes(delivery.status)) {
+      return delivery;
+    }
+
+    const claimed = await prisma.notificationDelivery.updateMany({
+      where: { id, status: delivery.status, attempts: delivery.attempts },
+      data: {
+        status: 'sending',
+        attempts: { increment: 1 },
+        nextAttemptAt: new Date(now.getTime() + NOTIFICATION_SENDING_LEASE_MS),
+      },
+    });
+    if (claimed.count !== 1) {
+      return delivery;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const channel = delivery.channel as OutboundChannel;
+    const provider = getChannelProvider(channel);
+    try {
+      const link = delivery.notificationId
+        ? (await prisma.notification.findUnique({ where: { id: delivery.notificationId }, select: { link: true } }))
+            ?.link
+        : null;
+      const result = await provider.send({
+        channel,
+        to: delivery.recipient,
+        subject: delivery.subject,
+        title: delivery.subject ?? '',
+        body: delivery.body,
+        html: delivery.html,
+        data: {
+          event: delivery.event,
+          ...(delivery.notificationId && { notificationId: String(delivery.notificationId) }),
+          ...(link && { link }),
+        },
+      });
+
+      return await prisma.notificationDelivery.update({
+        where: { id },
+        data: {
+          status: 'sent',
+          provider: provider.name,
+          providerMessageId: result.providerMessageId?.slice(0, 255) ?? null,
+          sentAt: new Date(),
+          nextAttemptAt: null,
+          lastError: null,
+        },
+      });
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      const deadLetter = attempts >= this.getMaxAttempts();
+      if (deadLetter) {
+        console.error(`[Notifications] ${channel} delivery ${id} dead-lettered after ${attempts} attempts: ${message}`);
+      }
+
+      return prisma.notificationDelivery.update({
+        where: { id },
+        data: {
+          status: deadLetter ? 'dead_letter' : 'failed',
+          provider: provider.name,
+          lastError: message,
+          nextAttemptAt: deadLetter ? null : new Date(Date.now() + this.getRetryDelay(attempts)),
+        },
+      });
+    }
+  }
+
+  /**
+   * Retry due deliveries (including sending deliveries whose lease expired)
+   */
+  async processDue(now = new Date()) {
+    const due = await prisma.notificationDelivery.findMany({
+      where: {
+        status: { in: ['pending', 'failed', 'sending'] },
+        nextAttemptAt: { lte: now },
+      },
+      select: { id: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: NOTIFICATION_DELIVERY_BATCH_SIZE,
+    });
+
+    let sent = 0;
+    let failed = 0;
+    for (const { id } of due) {
+      const delivery = await this.attempt(id);
+      if (delivery.status === 'sent') sent++;
+      else if (delivery.status === 'failed' || delivery.status === 'dead_letter') failed++;
+    }
+
+    return { picked: due.length, sent, failed };
+  }
+
+  /**
+   * Send a failed or dead-lettered delivery again with a fresh retry budget
+   */
+  async retry(id: number) {
+    const delivery = await prisma.notificationDelivery.findUnique({ where: { id } });
+    if (!delivery) {
+      throw new Error('Notification delivery not found');
+    }
+    if (!['failed', 'dead_letter'].includes(delivery.status)) {
+      throw new Error(`Only failed deliveries can be retried; this one is ${delivery.status}`);
+    }
+
+    const reset = await prisma.notificationDelivery.updateMany({
+      where: { id, status: delivery.status, attempts: delivery.attempts },
+      data: { status: 'pending', attempts: 0, nextAttemptAt: new Date() },
+    });
+    if (reset.count !== 1) {
+      throw new Error('Notification delivery was updated concurrently. Reload and try again');
+    }
+
+    return this.attempt(id);
+  }
+
+  getMaxAttempts(): number {
+    const parsed = Number(process.env.NOTIFICATION_DELIVERY_MAX_ATTEMPTS);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_NOTIFICATION_DELIVERY_MAX_ATTEMPTS;
+  }
+
+  private getCategory(event: string, type: string): NotificationCategory {
+    return EVENT_CATEGORIES[event] ?? NOTIFICATION_TYPE_CATEGORIES[type] ?? 'account';
+  }
+
+  /** 1m, 2m, 4m ... capped at 1h */
+  private getRetryDelay(attempts: number): number {
+    return Math.min(NOTIFICATION_RETRY_BASE_MS * 2 ** (attempts - 1), NOTIFICATION_RETRY_MAX_DELAY_MS);
+  }
+}
@@ -0,0 +1,266 @@
+import {
+  DEFAULT_NOTIFICATION_LOCALE,
+  NOTIFICATION_LOCALES,
+  type NotificationLocale,
+} from './notification-channels.constants.js';
+
+export interface NotificationTemplate {
+  title: string;
+  message: string;
+  /** SMS text; defaults to "RhinoxPay: <title>. <message>" */
+  sms?: string;
+}
+
+/**
+ * Templates per event and locale. Keys are a NotificationAction, optionally
+ * followed by ":<variant>" (the decision, event or status of the notification).
+ * `{{name}}` placeholders read the payload's amount, currency, reference, title
+ * and message, and its metadata. The notify* helpers write the default-locale
+ * (en) copy themselves, so templates here only cover other locales.
+ */
+export const NOTIFICATION_TEMPLATES: Record<string, Partial<Record<NotificationLocale, NotificationTemplate>>> = {
+  login: {
+    fr: { title: 'Nouvelle connexion', message: 'Votre compte a été consulté depuis {{ipAddress}}.' },
+  },
+  register: {
+    fr: {
+      title: 'Bienvenue sur RhinoxPay',
+      message: 'Votre compte a été créé. Vérifiez votre e-mail pour accéder à toutes les fonctionnalités.',
+    },
+  },
+  email_verified: {
+    fr: { title: 'E-mail vérifié', message: 'Votre e-mail a été vérifié. Vos portefeuilles sont en cours de création.' },
+  },
+  pin_setup: {
+    fr: { title: 'Code PIN de transaction enregistré', message: 'Votre code PIN de transaction est actif.' },
+  },
+  pin_changed: {
+    fr: { title: 'Code PIN de transaction modifié', message: 'Votre code PIN de transaction a été modifié.' },
+  },
+  pin_locked: {
+    fr: {
+      title: 'Code PIN de transaction verrouillé',
+      message: 'Trop de codes PIN incorrects. Votre code PIN est verrouillé jusqu’au {{lockedUntil}}.',
+    },
+  },
+  password_reset: {
+    fr: {
+      title: 'Mot de passe réinitialisé',
+      message: 'Votre mot de passe a été réinitialisé. Connectez-vous avec votre nouveau mot de passe.',
+    },
+  },
+  crypto_deposit: {
+    fr: { title: 'Dépôt crypto reçu', message: 'Vous avez reçu {{amount}} {{currency}}.' },
+  },
+  fiat_deposit: {
+    fr: { title: 'Dépôt réussi', message: '{{amount}} {{currency}} ont été crédités sur votre portefeuille.' },
+  },
+  transfer_sent: {
+    fr: { title: 'Transfert envoyé', message: 'Vous avez envoyé {{amount}} {{currency}}.' },
+  },
+  transfer_received: {
+    fr: { title: 'Fonds reçus', message: 'Vous avez reçu {{amount}} {{currency}}.' },
+  },
+  'withdrawal:success': {
+    fr: { title: 'Retrait réussi', message: 'Votre retrait de {{amount}} {{currency}} a été traité.' },
+  },
+  withdrawal: {
+    fr: { title: 'Mise à jour du retrait', message: 'Votre retrait de {{amount}} {{currency}} a été mis à jour.' },
+  },
+  conversion: {
+    fr: {
+      title: 'Conversion terminée',
+      message: '{{fromAmount}} {{fromCurrency}} convertis en {{amount}} {{currency}}.',
+    },
+  },
+  'bill_payment:success': {
+    fr: { title: 'Paiement de facture réussi', message: 'Paiement de facture de {{amount}} {{currency}}.' },
+  },
+  'bill_payment:error': {
+    fr: { title: 'Échec du paiement de facture', message: 'Le paiement de facture de {{amount}} {{currency}} a échoué.' },
+  },
+  bill_payment: {
+    fr: { title: 'Mise à jour du paiement de facture', message: 'Paiement de facture de {{amount}} {{currency}}.' },
+  },
+  'transaction_review:held': {
+    fr: {
+      title: 'Transaction en cours de vérification',
+      message: 'Votre transaction de {{amount}} {{currency}} est en cours de vérification. Nous vous informerons du résultat.',
+    },
+  },
+  'transaction_review:approved': {
+    fr: { title: 'Transaction approuvée', message: 'Votre transaction de {{amount}} {{currency}} a été approuvée.' },
+  },
+  'transaction_review:rejected': {
+    fr: {
+      title: 'Transaction rejetée',
+      message: 'Votre transaction de {{amount}} {{currency}} a été rejetée et les fonds bloqués ont été restitués.',
+    },
+  },
+  'scheduled_payment:reminder': {
+    fr: {
+      title: 'Paiement programmé à venir',
+      message: 'Votre paiement programmé de {{amount}} {{currency}} sera exécuté le {{scheduledFor}}. Vérifiez votre solde.',
+    },
+  },
+  'scheduled_payment:skipped': {
+    fr: {
+      title: 'Paiement programmé ignoré',
+      message: 'Votre paiement programmé de {{amount}} {{currency}} a été ignoré : solde insuffisant.',
+    },
+  },
+  'scheduled_payment:failed': {
+    fr: {
+      title: 'Échec du paiement programmé',
+      message: 'Votre paiement programmé de {{amount}} {{currency}} n’a pas pu être effectué.',
+    },
+  },
+  'referral:qualified': {
+    fr: {
+      title: 'Parrainage validé',
+      message: '{{refereeName}} a vérifié son identité et effectué sa première transaction. Consultez vos récompenses de parrainage.',
+    },
+  },
+  'referral:bonus': {
+    fr: {
+      title: 'Bonus de parrainage débloqué',
+      message: 'Vous avez effectué votre première transaction après votre inscription avec un code de parrainage. Consultez vos récompenses.',
+    },
+  },
+  p2p_order_created: {
+    fr: { title: 'Nouvelle commande P2P', message: 'La commande P2P n°{{orderId}} a été créée.' },
+  },
+  p2p_order_accepted: {
+    fr: { title: 'Commande P2P acceptée', message: 'La commande P2P n°{{orderId}} a été acceptée.' },
+  },
+  p2p_payment_confirmed: {
+    fr: { title: 'Paiement P2P signalé', message: 'Le paiement de la commande P2P n°{{orderId}} a été signalé comme effectué.' },
+  },
+  p2p_order_completed: {
+    fr: { title: 'Commande P2P terminée', message: 'La commande P2P n°{{orderId}} est terminée.' },
+  },
+  p2p_order_cancelled: {
+    fr: { title: 'Commande P2P annulée', message: 'La commande P2P n°{{orderId}} a été annulée.' },
+  },
+  p2p_order_expired: {
+    fr: { title: 'Commande P2P expirée', message: 'La commande P2P n°{{orderId}} a expiré.' },
+  },
+  p2p_order_disputed: {
+    fr: { title: 'Commande P2P en litige', message: 'La commande P2P n°{{orderId}} fait l’objet d’un litige.' },
+  },
+  p2p_dispute_opened: {
+    fr: { title: 'Litige ouvert', message: 'Un litige a été ouvert sur la commande P2P n°{{orderId}}.' },
+  },
+  p2p_dispute_updated: {
+    fr: { title: 'Litige mis à jour', message: 'Le litige de la commande P2P n°{{orderId}} a été mis à jour.' },
+  },
+  p2p_appeal_resolved: {
+    fr: { title: 'Litige résolu', message: 'Le litige de la commande P2P n°{{orderId}} a été résolu.' },
+  },
+};
+
+const SMS_MAX_LENGTH = 320;
+
+export function normalizeLocale(locale?: string | null): NotificationLocale {
+  const language = (locale ?? '').trim().toLowerCase().split(/[-_]/)[0];
+  return NOTIFICATION_LOCALES.includes(language as NotificationLocale)
+    ? (language as NotificationLocale)
+    : DEFAULT_NOTIFICATION_LOCALE;
+}
+
+/**
+ * Title, message and SMS text of an event in the given locale. Falls back to the
+ * payload's own copy when no template matches or a placeholder has no value.
+ */
+export function renderNotification(
+  event: string,
+  locale: NotificationLocale,
+  payload: {
+    title: string;
+    message?: string;
+    status?: string;
+    amount?: string | number;
+    currency?: string;
+    reference?: string;
+    metadata?: Record<string, unknown>;
+  }
+): { locale: NotificationLocale; title: string; message: string; sms: string } {
+  const variables: Record<string, string> = {};
+  for (const [name, value] of Object.entries({ ...payload.metadata, ...payload })) {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      variables[name] = String(value);
+    }
+  }
+
+  const variants = [payload.metadata?.decision, payload.metadata?.event, payload.status].filter(
+    (variant): variant is string => typeof variant === 'string'
+  );
+  const keys = [...variants.map((variant) => `${event}:${variant}`), event];
+
+  for (const key of keys) {
+    const template = NOTIFICATION_TEMPLATES[key]?.[locale];
+    if (!template) continue;
+
+    const title = interpolate(template.title, variables);
+    const message = interpolate(template.message, variables);
+    const sms = template.sms ? interpolate(template.sms, variables) : null;
+    if (title !== null && message !== null && (sms !== null || !template.sms)) {
+      return { locale, title, message, sms: (sms ?? defaultSms(title, message)).slice(0, SMS_MAX_LENGTH) };
+    }
+  }
+
+  const message = payload.message ?? '';
+  return {
+    locale: DEFAULT_NOTIFICATION_LOCALE,
+    title: payload.title,
+    message,
+    sms: defaultSms(payload.title, message).slice(0, SMS_MAX_LENGTH),
+  };
+}
+
+/**
+ * Email body for a notification, in the layout of the other Rhinox Pay emails
+ */
+export function renderNotificationEmail(title: string, message: string, link?: string | null): string {
+  const appUrl = process.env.FRONTEND_URL?.trim().replace(/\/$/, '');
+  const action =
+    link && appUrl
+      ? `<p><a href="${escapeHtml(`${appUrl}${link}`)}" style="color: #0066cc;">View details</a></p>`
+      : '';
+
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <h2 style="color: #333;">${escapeHtml(title)}</h2>
+      <p>${escapeHtml(message)}</p>
+      ${action}
+      <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+      <p style="color: #999; font-size: 11px;">This is an automated message from Rhinox Pay. Please do not reply to this email.</p>
+    </div>
+  `;
+}
+
+function interpolate(template: string, variables: Record<string, string>): string | null {
+  let missing = false;
+  const result = template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    const value = variables[name];
+    if (value === undefined || value === '') {
+      missing = true;
+      return '';
+    }
+    return value;
+  });
+  return missing ? null : result;
+}
+
+function defaultSms(title: string, message: string): string {
+  return message ? `RhinoxPay: ${title}. ${message}` : `RhinoxPay: ${title}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -1,6 +1,6 @@
 import { Decimal } from 'decimal.js';
 import prisma from '../../core/config/database.js';
-import { sendDepositSuccessEmail } from '../../core/utils/transaction-email.service.js';
+import { buildDepositSuccessEmail } from '../../core/utils/transaction-email.service.js';
 import {
   notifyBillPayment,
   notifyFiatDeposit,
@@ -9,6 +9,7 @@ import {
 import { fromPalmPayAmount, mapPalmPayStatus } from './palmpay.utils.js';
 import { PalmPayDepositService } from './palmpay.deposit.service.js';
 import type { PalmPayWebhookPayload } from './palmpay.types.js';
+import { SystemAccount, creditWallet, refundWallet } from '../ledger/index.js';
 
 export class PalmPayWebhookService {
   private readonly palmPayDepositService = new PalmPayDepositService();
@@ -26,45 +27,21 @@ export class PalmPayWebhookService {
       completeTime: (order as any).completeTime ?? (order as any).completedTime,
     });
   }
-  async handleWebhook(payload: PalmPayWebhookPayload, context: { headers?: any; ipAddress?: string; userAgent?: string }) {
-    const rawWebhook = await prisma.palmPayRawWebhook.create({
-      data: {
-        rawData: payload as any,
-        headers: context.headers as any,
-        ipAddress: context.ipAddress,
-        userAgent: context.userAgent,
-      },
-    });
-
-    try {
-      if (payload.orderId?.startsWith('deposit_')) {
-        await this.processDepositWebhook(payload);
-      } else if (payload.orderId?.startsWith('payout_')) {
-        await this.processPayoutWebhook(payload);
-      } else if (payload.orderId?.startsWith('busha_sell_')) {
-        await this.processBushaSellWebhook(payload);
-      } else if (payload.orderId?.startsWith('busha_buy_')) {
-        await this.processBushaBuyWebhook(payload);
-      } else if (payload.outOrderNo?.startsWith('bill_')) {
-        await this.processBillPaymentWebhook(payload);
-      }
-
-      await prisma.palmPayRawWebhook.update({
-        where: { id: rawWebhook.id },
-        data: {
-          processed: true,
-          processedAt: new Date(),
-        },
-      });
-    } catch (error: any) {
-      await prisma.palmPayRawWebhook.update({
-        where: { id: rawWebhook.id },
-        data: {
-          processed: true,
-          processedAt: new Date(),
-          errorMessage: error.message || 'Webhook processing failed',
-        },
-      });
+  /**
+   * Apply a PalmPay notification. Persistence, dedupe and retries are handled by the
+   * webhook inbox; errors are thrown so the inbox can retry the event.
+   */
+  async handleWebhook(payload: PalmPayWebhookPayload) {
+    if (payload.orderId?.startsWith('deposit_')) {
+      await this.processDepositWebhook(payload);
+    } else if (payload.orderId?.startsWith('payout_')) {
+      await this.processPayoutWebhook(payload);
+    } else if (payload.orderId?.startsWith('busha_sell_')) {
+      await this.processBushaSellWebhook(payload);
+    } else if (payload.orderId?.startsWith('busha_buy_')) {
+      await this.processBushaBuyWebhook(payload);
+    } else if (payload.outOrderNo?.startsWith('bill_')) {
+      await this.processBillPaymentWebhook(payload);
     }
   }
 
@@ -106,13 +83,14 @@ export class PalmPayWebhookService {
 
       if (mappedStatus === 'completed') {
         const creditedAmount = fromPalmPayAmount(payload.amount || 0);
-        await tx.wallet.update({
-          where: { id: virtualAccount.transaction.walletId },
-          data: {
-            balance: {
-              increment: creditedAmount.toNumber(),
-            },
-          },
+        await creditWallet(tx, {
+          walletId: virtualAccount.transaction.walletId,
+          amount: creditedAmount,
+          currency: virtualAccount.transaction.currency,
+          from: SystemAccount.PROVIDER_FLOAT,
+          transactionId: virtualAccount.transactionId,
+          reference: virtualAccount.transaction.reference,
+          description: `PalmPay deposit ${payload.orderNo || payload.orderId}`,
         });
 
         await tx.transaction.update({
@@ -130,8 +108,12 @@ export class PalmPayWebhookService {
           },
         });
 
-        if (virtualAccount.transaction.wallet.user.email) {
-          await sendDepositSuccessEmail(virtualAccount.transaction.wallet.user.email, {
+        notifyFiatDeposit(virtualAccount.transaction.wallet.userId, {
+          amount: virtualAccount.transaction.amount.toString(),
+          currency: virtualAccount.transaction.currency,
+          reference: virtualAccount.transaction.reference,
+          creditedAmount: creditedAmount.toString(),
+          email: buildDepositSuccessEmail({
             amount: virtualAccount.transaction.amount.toString(),
             currency: virtualAccount.transaction.currency,
             creditedAmount: creditedAmount.toString(),
@@ -143,14 +125,7 @@ export class PalmPayWebhookService {
             paymentMethod: virtualAccount.transaction.paymentMethod || 'Bank Transfer',
             provider: 'Bank Transfer',
             date: new Date().toLocaleString(),
-          });
-        }
-
-        notifyFiatDeposit(virtualAccount.transaction.wallet.userId, {
-          amount: virtualAccount.transaction.amount.toString(),
-          currency: virtualAccount.transaction.currency,
-          reference: virtualAccount.transaction.reference,
-          creditedAmount: creditedAmount.toString(),
+          }),
         });
       } else if (mappedStatus === 'failed' || mappedStatus === 'cancelled') {
         await tx.transaction.update({
@@ -185,22 +160,52 @@ export class PalmPayWebhookService {
     if (!transaction) return;
 
     const mappedStatus = mapPalmPayStatus(payload.orderStatus);
-    await prisma.transaction.update({
-      where: { id: transaction.id },
-      data: {
-        status: mappedStatus === 'completed' ? 'completed' : mappedStatus,
-        completedAt: mappedStatus === 'completed'
-          ? (payload.completeTime ? new Date(payload.completeTime) : new Date())
-          : transaction.completedAt,
-        metadata: {
-          ...(transaction.metadata as any || {}),
-          palmpayOrderNo: payload.orderNo,
-          palmpayStatus: payload.orderStatus,
-          palmpaySessionId: payload.sessionId,
-          palmpayError: payload.errorMsg,
-          webhook: payload,
+    const isFailure = mappedStatus === 'failed' || mappedStatus === 'cancelled';
+
+    await prisma.$transaction(async (tx) => {
+      const locked = await tx.transaction.findUnique({ where: { id: transaction.id } });
+      if (!locked || ['completed', 'failed', 'cancelled'].includes(locked.status)) {
+        return;
+      }
+      const lockedMeta = (locked.metadata as any) || {};
+      const shouldRefund = isFailure && Boolean(lockedMeta.walletDebited) && !lockedMeta.refunded;
+
+      // Withdrawals are debited when they are submitted, so a failed payout gives the money back
+      if (shouldRefund) {
+        await refundWallet(tx, {
+          walletId: locked.walletId,
+          amount: new Decimal(locked.amount),
+          fee: new Decimal(locked.fee || 0),
+          currency: locked.currency,
+          from: SystemAccount.PROVIDER_FLOAT,
+          transactionId: locked.id,
+          reference: locked.reference,
+          description: `Withdrawal refund ${locked.reference}`,
+        });
+      }
+
+      const claimed = await tx.transaction.updateMany({
+        where: { id: locked.id, status: locked.status },
+        data: {
+          status: mappedStatus === 'completed' ? 'completed' : mappedStatus,
+          completedAt: mappedStatus === 'completed'
+            ? (payload.completeTime ? new Date(payload.completeTime) : new Date())
+            : locked.completedAt,
+          metadata: {
+            ...lockedMeta,
+            palmpayOrderNo: payload.orderNo,
+            palmpayStatus: payload.orderStatus,
+            palmpaySessionId: payload.sessionId,
+            palmpayError: payload.errorMsg,
+            refunded: lockedMeta.refunded || shouldRefund,
+            refundedAt: shouldRefund ? new Date().toISOString() : lockedMeta.refundedAt,
+            webhook: payload,
+          },
         },
-      },
+      });
+      if (claimed.count !== 1) {
+        throw new Error(`Withdrawal ${locked.reference} changed while applying the payout webhook`);
+      }
     });
 
     if (mappedStatus === 'completed') {
@@ -338,14 +343,15 @@ export class PalmPayWebhookService {
         !lockedMeta.refunded &&
         !lockedMeta.isRewardFulfillment
       ) {
-        const refundAmount = new Decimal(locked.amount).plus(new Decimal(locked.fee || 0));
-        await tx.wallet.update({
-          where: { id: locked.walletId },
-          data: {
-            balance: {
-              increment: refundAmount.toNumber(),
-            },
-          },
+        await refundWallet(tx, {
+          walletId: locked.walletId,
+          amount: new Decimal(locked.amount),
+          fee: new Decimal(locked.fee || 0),
+          currency: locked.currency,
+          from: SystemAccount.PROVIDER_FLOAT,
+          transactionId: locked.id,
+          reference: locked.reference,
+          description: `PalmPay refund ${locked.reference}`,
         });
       }
 
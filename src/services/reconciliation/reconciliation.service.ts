@@ -0,0 +1,320 @@
+import { Decimal } from 'decimal.js';
+import type { Prisma } from '@prisma/client';
+import prisma from '../../core/config/database.js';
+import { BushaAppService } from '../busha/busha.app.service.js';
+import { toBushaCurrency } from '../busha/busha.networks.js';
+import { getBaseSymbol } from '../crypto/unified-stablecoin.service.js';
+import { heldAccountCode } from '../ledger/index.js';
+
+export type ReconciliationCheck =
+  | 'transactions'
+  | 'ledger'
+  | 'locked_balance'
+  | 'virtual_account'
+  | 'busha';
+
+type MismatchInput = {
+  userId?: number | null;
+  walletId?: number | null;
+  currency: string;
+  check: ReconciliationCheck;
+  expected: Decimal;
+  actual: Decimal;
+  details?: Record<string, unknown>;
+};
+
+const BATCH_SIZE = 200;
+
+/** Debit transaction types: amount + fee leave the wallet once debited. */
+const DEBIT_TYPES = new Set(['withdrawal', 'transfer', 'bill_payment', 'crypto_buy']);
+/** Statuses where the wallet has already been debited but the provider has not settled. */
+const IN_FLIGHT_STATUSES = new Set(['pending', 'processing']);
+
+/**
+ * Reconciliation Service
+ * Recomputes wallet balances from their movements and records every disagreement.
+ *
+ * Checks per run:
+ * - transactions: fiat Wallet.balance vs the sum of its settled Transaction rows
+ * - ledger: Wallet.balance vs its LedgerAccount (credits - debits)
+ * - locked_balance: 0 <= lockedBalance <= balance, and lockedBalance vs its held LedgerAccount
+ * - virtual_account: crypto Wallet.balance vs Tatum VirtualAccount.accountBalance
+ * - busha: crypto Wallet.balance vs Busha custody balance (active Busha customers)
+ */
+export class ReconciliationService {
+  private readonly bushaService = new BushaAppService();
+
+  /**
+   * Signed effect of a transaction on its wallet's balance.
+   * Mirrors how each flow mutates Wallet.balance today.
+   */
+  private transactionEffect(tx: {
+    type: string;
+    status: string;
+    amount: Prisma.Decimal;
+    fee: Prisma.Decimal;
+    metadata: Prisma.JsonValue;
+  }): Decimal {
+    const amount = new Decimal(tx.amount.toString());
+    const fee = new Decimal(tx.fee.toString());
+    const meta = (tx.metadata as Record<string, any>) || {};
+
+    if (tx.type === 'deposit') {
+      return tx.status === 'completed' ? amount.minus(fee) : new Decimal(0);
+    }
+
+    if (tx.type === 'crypto_sell') {
+      return tx.status === 'completed' ? amount : new Decimal(0);
+    }
+
+    if (DEBIT_TYPES.has(tx.type)) {
+      if (meta.walletDebited === false) return new Decimal(0);
+      const debited =
+        tx.status === 'completed' ||
+        (IN_FLIGHT_STATUSES.has(tx.status) && (meta.walletDebited === true || tx.type === 'crypto_buy'));
+      return debited ? amount.plus(fee).negated() : new Decimal(0);
+    }
+
+    if (tx.type === 'p2p' && tx.status === 'completed') {
+      if (meta.p2pStep === 'payment_completed_rhinoxpay') return amount.negated();
+      if (meta.p2pStep === 'payment_received_rhinoxpay') return amount;
+    }
+
+    return new Decimal(0);
+  }
+
+  private toMismatchRow(runId: number, m: MismatchInput): Prisma.ReconciliationMismatchCreateManyInput {
+    return {
+      runId,
+      userId: m.userId ?? null,
+      walletId: m.walletId ?? null,
+      currency: m.currency,
+      check: m.check,
+      expected: m.expected.toString(),
+      actual: m.actual.toString(),
+      difference: m.actual.minus(m.expected).toString(),
+      details: (m.details as Prisma.InputJsonValue) ?? undefined,
+    };
+  }
+
+  private async checkWalletBatch(
+    wallets: Array<{
+      id: number;
+      userId: number;
+      currency: string;
+      type: string;
+      balance: Prisma.Decimal;
+      lockedBalance: Prisma.Decimal;
+    }>
+  ): Promise<MismatchInput[]> {
+    const mismatches: MismatchInput[] = [];
+    const walletIds = wallets.map((w) => w.id);
+    const userIds = Array.from(new Set(wallets.map((w) => w.userId)));
+
+    const [transactions, ledgerAccounts, virtualAccounts] = await Promise.all([
+      prisma.transaction.findMany({
+        where: { walletId: { in: walletIds } },
+        select: { walletId: true, type: true, status: true, amount: true, fee: true, metadata: true },
+      }),
+      prisma.ledgerAccount.findMany({
+        where: { OR: [{ walletId: { in: walletIds } }, { code: { in: walletIds.map(heldAccountCode) } }] },
+        select: { id: true, walletId: true, code: true },
+      }),
+      prisma.virtualAccount.findMany({
+        where: { userId: { in: userIds } },
+        select: { userId: true, currency: true, accountBalance: true },
+      }),
+    ]);
+
+    const txTotals = new Map<number, Decimal>();
+    for (const tx of transactions) {
+      const current = txTotals.get(tx.walletId) || new Decimal(0);
+      txTotals.set(tx.walletId, current.plus(this.transactionEffect(tx)));
+    }
+
+    const ledgerSums = ledgerAccounts.length
+      ? await prisma.ledgerEntry.groupBy({
+          by: ['accountId', 'direction'],
+          where: { accountId: { in: ledgerAccounts.map((a) => a.id) } },
+          _sum: { amount: true },
+        })
+      : [];
+    const ledgerTotals = new Map<number, Decimal>();
+    const heldTotals = new Map<number, Decimal>();
+    for (const account of ledgerAccounts) {
+      const net = ledgerSums
+        .filter((row) => row.accountId === account.id)
+        .reduce((acc, row) => {
+          const value = new Decimal(row._sum.amount?.toString() || '0');
+          return row.direction === 'credit' ? acc.plus(value) : acc.minus(value);
+        }, new Decimal(0));
+      if (account.walletId) ledgerTotals.set(account.walletId, net);
+      const heldWalletId = walletIds.find((id) => heldAccountCode(id) === account.code);
+      if (heldWalletId) heldTotals.set(heldWalletId, net);
+    }
+
+    for (const wallet of wallets) {
+      const balance = new Decimal(wallet.balance.toString());
+      const locked = new Decimal(wallet.lockedBalance.toString());
+      const base = { userId: wallet.userId, walletId: wallet.id, currency: wallet.currency };
+
+      if (wallet.type === 'fiat') {
+        const expected = txTotals.get(wallet.id) || new Decimal(0);
+        if (!expected.eq(balance)) {
+          mismatches.push({ ...base, check: 'transactions', expected, actual: balance });
+        }
+      }
+
+      const ledgerBalance = ledgerTotals.get(wallet.id);
+      if (ledgerBalance && !ledgerBalance.eq(balance)) {
+        mismatches.push({ ...base, check: 'ledger', expected: ledgerBalance, actual: balance });
+      }
+
+      if (locked.lt(0) || locked.gt(balance)) {
+        mismatches.push({
+          ...base,
+          check: 'locked_balance',
+          expected: Decimal.max(0, Decimal.min(locked, balance)),
+          actual: locked,
+          details: { balance: balance.toString() },
+        });
+      }
+
+      const heldBalance = heldTotals.get(wallet.id);
+      if (heldBalance && !heldBalance.eq(locked)) {
+        mismatches.push({
+          ...base,
+          check: 'locked_balance',
+          expected: heldBalance,
+          actual: locked,
+          details: { source: 'ledger' },
+        });
+      }
+
+      if (wallet.type === 'crypto') {
+        const accounts = virtualAccounts.filter(
+          (va) => va.userId === wallet.userId && getBaseSymbol(va.currency) === getBaseSymbol(wallet.currency)
+        );
+        if (accounts.length > 0) {
+          const vaTotal = accounts.reduce(
+            (acc, va) => acc.plus(new Decimal(va.accountBalance || '0')),
+            new Decimal(0)
+          );
+          if (!vaTotal.eq(balance)) {
+            mismatches.push({
+              ...base,
+              check: 'virtual_account',
+              expected: vaTotal,
+              actual: balance,
+              details: { virtualAccounts: accounts.map((va) => va.currency) },
+            });
+          }
+        }
+      }
+    }
+
+    return mismatches;
+  }
+
+  private async checkBushaBalances(): Promise<MismatchInput[]> {
+    const mismatches: MismatchInput[] = [];
+    const customers = await prisma.bushaCustomer.findMany({
+      where: { status: 'active' },
+      select: { userId: true },
+    });
+
+    for (const customer of customers) {
+      let balances: any[];
+      try {
+        balances = await this.bushaService.listBalances(customer.userId);
+      } catch (error) {
+        console.error(`[Reconciliation] Busha balances unavailable for user ${customer.userId}`, error);
+        continue;
+      }
+
+      const wallets = await prisma.wallet.findMany({
+        where: { userId: customer.userId, type: 'crypto' },
+        select: { id: true, currency: true, balance: true },
+      });
+
+      for (const item of balances) {
+        const currency = toBushaCurrency(item.currency);
+        const total = new Decimal(String(item.total?.amount || item.total || item.available?.amount || item.available || '0'));
+        const wallet = wallets.find((w) => getBaseSymbol(w.currency) === getBaseSymbol(currency));
+        const internal = new Decimal(wallet?.balance.toString() || '0');
+
+        if (!total.eq(internal)) {
+          mismatches.push({
+            userId: customer.userId,
+            walletId: wallet?.id ?? null,
+            currency,
+            check: 'busha',
+            expected: total,
+            actual: internal,
+            details: { bushaBalanceId: item.id ?? null },
+          });
+        }
+      }
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * Run a full reconciliation pass and persist its mismatches.
+   */
+  async run(trigger: 'schedule' | 'manual' = 'schedule') {
+    const run = await prisma.reconciliationRun.create({ data: { trigger } });
+    let walletsChecked = 0;
+    let mismatchCount = 0;
+
+    try {
+      let cursor = 0;
+      for (;;) {
+        const wallets = await prisma.wallet.findMany({
+          where: { id: { gt: cursor } },
+          orderBy: { id: 'asc' },
+          take: BATCH_SIZE,
+          select: { id: true, userId: true, currency: true, type: true, balance: true, lockedBalance: true },
+        });
+        if (wallets.length === 0) break;
+
+        const mismatches = await this.checkWalletBatch(wallets);
+        if (mismatches.length > 0) {
+          await prisma.reconciliationMismatch.createMany({
+            data: mismatches.map((m) => this.toMismatchRow(run.id, m)),
+          });
+        }
+
+        walletsChecked += wallets.length;
+        mismatchCount += mismatches.length;
+        cursor = wallets[wallets.length - 1].id;
+      }
+
+      const bushaMismatches = await this.checkBushaBalances();
+      if (bushaMismatches.length > 0) {
+        await prisma.reconciliationMismatch.createMany({
+          data: bushaMismatches.map((m) => this.toMismatchRow(run.id, m)),
+        });
+        mismatchCount += bushaMismatches.length;
+      }
+
+      return prisma.reconciliationRun.update({
+        where: { id: run.id },
+        data: { status: 'completed', walletsChecked, mismatchCount, finishedAt: new Date() },
+      });
+    } catch (error: any) {
+      await prisma.reconciliationRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'failed',
+          walletsChecked,
+          mismatchCount,
+          errorMessage: error?.message || String(error),
+          finishedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+  }
+}
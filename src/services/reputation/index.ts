@@ -0,0 +1,2 @@
+export * from './reputation.constants.js';
+export * from './vendor-reputation.service.js';
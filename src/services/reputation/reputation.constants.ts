@@ -0,0 +1,34 @@
+/** Rolling window for completion, cancellation, timing and volume metrics */
+export const REPUTATION_WINDOW_DAYS = 30;
+
+/** Computed reputations are reused for this long before hitting the database again */
+export const REPUTATION_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/** Order statuses that count as a finished trade for completion/cancellation rates */
+export const REPUTATION_FINISHED_STATUSES = ['completed', 'cancelled', 'refunded', 'expired'];
+
+/**
+ * Score weights (sum to 1). Speed scores full marks at or below FAST_MINUTES and
+ * zero at or above SLOW_MINUTES, linearly in between.
+ */
+export const REPUTATION_SCORE_WEIGHTS = {
+  completionRate: 0.4,
+  positiveReviewRatio: 0.3,
+  speed: 0.2,
+  cancellationRate: 0.1,
+};
+export const REPUTATION_FAST_MINUTES = 5;
+export const REPUTATION_SLOW_MINUTES = 60;
+
+/** browseAds `sortBy` values */
+export const AD_SORT_OPTIONS = [
+  'newest',
+  'price',
+  'score',
+  'completion_rate',
+  'accept_time',
+  'release_time',
+  'positive_ratio',
+  'volume',
+] as const;
+export type AdSortOption = (typeof AD_SORT_OPTIONS)[number];
@@ -0,0 +1,266 @@
+import { Decimal } from 'decimal.js';
+import prisma from '../../core/config/database.js';
+import {
+  REPUTATION_CACHE_TTL_MS,
+  REPUTATION_FAST_MINUTES,
+  REPUTATION_FINISHED_STATUSES,
+  REPUTATION_SCORE_WEIGHTS,
+  REPUTATION_SLOW_MINUTES,
+  REPUTATION_WINDOW_DAYS,
+  type AdSortOption,
+} from './reputation.constants.js';
+
+export interface VendorReputation {
+  vendorId: number;
+  windowDays: number;
+  /** Orders on the vendor's ads created in the window */
+  orders: number;
+  completedOrders: number;
+  cancelledOrders: number;
+  /** Percentages (0-100) of finished orders in the window; null with no finished orders */
+  completionRate: number | null;
+  cancellationRate: number | null;
+  /** Order created → vendor accepted */
+  medianAcceptMinutes: number | null;
+  /** Buyer marked paid → vendor released; only orders where the vendor is the seller */
+  medianReleaseMinutes: number | null;
+  positiveReviews: number;
+  negativeReviews: number;
+  /** Percentage (0-100) of thumbs-up among all reviews received; null with no reviews */
+  positiveReviewRatio: number | null;
+  /** Completed fiat volume in the window, per fiat currency */
+  volume: Record<string, string>;
+  /** All orders ever received on the vendor's ads */
+  lifetimeOrders: number;
+  /** Composite 0-100; null until the vendor has finished orders in the window */
+  score: number | null;
+  computedAt: Date;
+}
+
+type CacheEntry = { value: VendorReputation; expiresAt: number };
+
+const MINUTE_MS = 60 * 1000;
+
+const cache = new Map<number, CacheEntry>();
+
+/**
+ * Vendor Reputation Service
+ * Derives vendor metrics from P2P order timestamps and reviews instead of the
+ * static score/responseTime columns on P2PAd. Results are cached per vendor.
+ */
+export class VendorReputationService {
+  async getReputation(vendorId: number): Promise<VendorReputation> {
+    const map = await this.getReputations([vendorId]);
+    return map.get(vendorId)!;
+  }
+
+  /**
+   * Reputations for several vendors in a fixed number of queries
+   */
+  async getReputations(vendorIds: number[]): Promise<Map<number, VendorReputation>> {
+    const now = Date.now();
+    const result = new Map<number, VendorReputation>();
+    const missing: number[] = [];
+
+    for (const vendorId of new Set(vendorIds)) {
+      const cached = cache.get(vendorId);
+      if (cached && cached.expiresAt > now) {
+        result.set(vendorId, cached.value);
+      } else {
+        missing.push(vendorId);
+      }
+    }
+
+    if (missing.length) {
+      const computed = await this.compute(missing, new Date(now));
+      for (const [vendorId, value] of computed) {
+        cache.set(vendorId, { value, expiresAt: now + REPUTATION_CACHE_TTL_MS });
+        result.set(vendorId, value);
+      }
+    }
+
+    return result;
+  }
+
+  /** Drop cached values, e.g. after an order on the vendor's ad settles */
+  invalidate(vendorId: number) {
+    cache.delete(vendorId);
+  }
+
+  /**
+   * Sort ads by a ranking option, best first unless `sortOrder` says otherwise.
+   * Vendors without data for the chosen metric go last.
+   */
+  sortAds<T extends { userId: number; price: { toString(): string }; fiatCurrency: string; createdAt: Date }>(
+    ads: T[],
+    reputations: Map<number, VendorReputation>,
+    sortBy: AdSortOption,
+    sortOrder?: 'asc' | 'desc'
+  ): T[] {
+    const metric = (ad: T): number | null => {
+      const rep = reputations.get(ad.userId);
+      switch (sortBy) {
+        case 'price':
+          return new Decimal(ad.price.toString()).toNumber();
+        case 'score':
+          return rep?.score ?? null;
+        case 'completion_rate':
+          return rep?.completionRate ?? null;
+        case 'accept_time':
+          return rep?.medianAcceptMinutes ?? null;
+        case 'release_time':
+          return rep?.medianReleaseMinutes ?? null;
+        case 'positive_ratio':
+          return rep?.positiveReviewRatio ?? null;
+        case 'volume':
+          return rep?.volume[ad.fiatCurrency] ? Number(rep.volume[ad.fiatCurrency]) : null;
+        default:
+          return ad.createdAt.getTime();
+      }
+    };
+
+    const ascendingByDefault = ['price', 'accept_time', 'release_time'].includes(sortBy);
+    const direction = (sortOrder ?? (ascendingByDefault ? 'asc' : 'desc')) === 'asc' ? 1 : -1;
+
+    return [...ads].sort((a, b) => {
+      const left = metric(a);
+      const right = metric(b);
+      if (left === null && right === null) return b.createdAt.getTime() - a.createdAt.getTime();
+      if (left === null) return 1;
+      if (right === null) return -1;
+      return left === right ? b.createdAt.getTime() - a.createdAt.getTime() : (left - right) * direction;
+    });
+  }
+
+  private async compute(vendorIds: number[], now: Date): Promise<Map<number, VendorReputation>> {
+    const since = new Date(now.getTime() - REPUTATION_WINDOW_DAYS * 24 * 60 * MINUTE_MS);
+
+    const [orders, reviews, lifetime] = await Promise.all([
+      prisma.p2POrder.findMany({
+        where: { vendorId: { in: vendorIds }, createdAt: { gte: since } },
+        select: {
+          vendorId: true,
+          type: true,
+          status: true,
+          fiatAmount: true,
+          fiatCurrency: true,
+          createdAt: true,
+          acceptedAt: true,
+          paymentConfirmedAt: true,
+          coinReleasedAt: true,
+        },
+      }),
+      prisma.p2PReview.groupBy({
+        by: ['revieweeId', 'type'],
+        where: { revieweeId: { in: vendorIds } },
+        _count: { _all: true },
+      }),
+      prisma.p2POrder.groupBy({
+        by: ['vendorId'],
+        where: { vendorId: { in: vendorIds } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const result = new Map<number, VendorReputation>();
+    for (const vendorId of vendorIds) {
+      const vendorOrders = orders.filter((order) => order.vendorId === vendorId);
+      const finished = vendorOrders.filter((order) => REPUTATION_FINISHED_STATUSES.includes(order.status));
+      const completed = finished.filter((order) => order.status === 'completed');
+      const cancelled = finished.length - completed.length;
+
+      const acceptMinutes = vendorOrders
+        .filter((order) => order.acceptedAt)
+        .map((order) => (order.acceptedAt!.getTime() - order.createdAt.getTime()) / MINUTE_MS);
+      // Sell ad: the vendor is the seller and releases the crypto
+      const releaseMinutes = vendorOrders
+        .filter((order) => order.type === 'sell' && order.paymentConfirmedAt && order.coinReleasedAt)
+        .map((order) => (order.coinReleasedAt!.getTime() - order.paymentConfirmedAt!.getTime()) / MINUTE_MS);
+
+      const volume: Record<string, Decimal> = {};
+      for (const order of completed) {
+        volume[order.fiatCurrency] = (volume[order.fiatCurrency] ?? new Decimal(0)).plus(order.fiatAmount.toString());
+      }
+
+      const positiveReviews =
+        reviews.find((row) => row.revieweeId === vendorId && row.type === 'positive')?._count._all ?? 0;
+      const negativeReviews =
+        reviews.find((row) => row.revieweeId === vendorId && row.type === 'negative')?._count._all ?? 0;
+      const reviewTotal = positiveReviews + negativeReviews;
+
+      const completionRate = finished.length ? this.percent(completed.length, finished.length) : null;
+      const cancellationRate = finished.length ? this.percent(cancelled, finished.length) : null;
+      const positiveReviewRatio = reviewTotal ? this.percent(positiveReviews, reviewTotal) : null;
+      const medianAcceptMinutes = this.median(acceptMinutes);
+      const medianReleaseMinutes = this.median(releaseMinutes);
+
+      result.set(vendorId, {
+        vendorId,
+        windowDays: REPUTATION_WINDOW_DAYS,
+        orders: vendorOrders.length,
+        completedOrders: completed.length,
+        cancelledOrders: cancelled,
+        completionRate,
+        cancellationRate,
+        medianAcceptMinutes,
+        medianReleaseMinutes,
+        positiveReviews,
+        negativeReviews,
+        positiveReviewRatio,
+        volume: Object.fromEntries(Object.entries(volume).map(([currency, amount]) => [currency, amount.toFixed(2)])),
+        lifetimeOrders: lifetime.find((row) => row.vendorId === vendorId)?._count._all ?? 0,
+        score: this.score({
+          completionRate,
+          cancellationRate,
+          positiveReviewRatio,
+          medianAcceptMinutes,
+          medianReleaseMinutes,
+        }),
+        computedAt: now,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Weighted 0-100 score. Missing review or timing data counts as neutral (50).
+   */
+  private score(metrics: {
+    completionRate: number | null;
+    cancellationRate: number | null;
+    positiveReviewRatio: number | null;
+    medianAcceptMinutes: number | null;
+    medianReleaseMinutes: number | null;
+  }): number | null {
+    if (metrics.completionRate === null || metrics.cancellationRate === null) return null;
+
+    const speeds = [metrics.medianAcceptMinutes, metrics.medianReleaseMinutes]
+      .filter((minutes): minutes is number => minutes !== null)
+      .map((minutes) => {
+        if (minutes <= REPUTATION_FAST_MINUTES) return 100;
+        if (minutes >= REPUTATION_SLOW_MINUTES) return 0;
+        return (100 * (REPUTATION_SLOW_MINUTES - minutes)) / (REPUTATION_SLOW_MINUTES - REPUTATION_FAST_MINUTES);
+      });
+    const speed = speeds.length ? speeds.reduce((sum, value) => sum + value, 0) / speeds.length : 50;
+
+    const score =
+      REPUTATION_SCORE_WEIGHTS.completionRate * metrics.completionRate +
+      REPUTATION_SCORE_WEIGHTS.positiveReviewRatio * (metrics.positiveReviewRatio ?? 50) +
+      REPUTATION_SCORE_WEIGHTS.speed * speed +
+      REPUTATION_SCORE_WEIGHTS.cancellationRate * (100 - metrics.cancellationRate);
+    return Math.round(score * 100) / 100;
+  }
+
+  private percent(part: number, total: number): number {
+    return Math.round((part / total) * 10000) / 100;
+  }
+
+  private median(values: number[]): number | null {
+    if (!values.length) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const value = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+    return Math.round(value * 10) / 10;
+  }
+}
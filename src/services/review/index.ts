@@ -0,0 +1,2 @@
+export * from './review.constants.js';
+export * from './review.service.js';
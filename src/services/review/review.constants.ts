@@ -0,0 +1,34 @@
+export type ReviewSubjectType = 'transfer' | 'withdrawal' | 'conversion' | 'bill_payment' | 'crypto_send';
+
+export type ReviewReason = 'amount_threshold' | 'risk_score' | 'manual';
+
+/**
+ * pre_confirmation: held at initiation, the user confirms after approval.
+ * pre_payout: the user has confirmed and the funds are locked until a decision.
+ */
+export type ReviewStage = 'pre_confirmation' | 'pre_payout';
+
+/** Held transactions (and Busha trades) cannot be confirmed or paid out until reviewed */
+export const REVIEW_HOLD_STATUS = 'on_hold';
+
+export interface ReviewThreshold {
+  /** Amounts at or above this are held for review */
+  reviewAbove: number;
+  /** Amounts at or above this need two distinct approvers */
+  fourEyesAbove: number;
+}
+
+/**
+ * Built-in thresholds by currency. Override with REVIEW_THRESHOLD_<CURRENCY> and
+ * FOUR_EYES_THRESHOLD_<CURRENCY>. Currencies without a threshold are never held by amount.
+ */
+export const DEFAULT_REVIEW_THRESHOLDS: Record<string, ReviewThreshold> = {
+  NGN: { reviewAbove: 1_000_000, fourEyesAbove: 5_000_000 },
+  KES: { reviewAbove: 100_000, fourEyesAbove: 500_000 },
+  GHS: { reviewAbove: 10_000, fourEyesAbove: 50_000 },
+  USD: { reviewAbove: 1_000, fourEyesAbove: 5_000 },
+  USDT: { reviewAbove: 1_000, fourEyesAbove: 5_000 },
+  USDC: { reviewAbove: 1_000, fourEyesAbove: 5_000 },
+  BTC: { reviewAbove: 0.02, fourEyesAbove: 0.1 },
+  ETH: { reviewAbove: 0.5, fourEyesAbove: 2 },
+};
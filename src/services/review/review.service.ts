@@ -0,0 +1,203 @@
+import { Decimal } from 'decimal.js';
+import type { Prisma } from '@prisma/client';
+import prisma from '../../core/config/database.js';
+import { notifyTransactionReview } from '../../core/utils/notification.events.js';
+import { assertAvailableBalance, holdWalletFunds, releaseWalletHold } from '../ledger/index.js';
+import {
+  DEFAULT_REVIEW_THRESHOLDS,
+  REVIEW_HOLD_STATUS,
+  type ReviewReason,
+  type ReviewStage,
+  type ReviewSubjectType,
+  type ReviewThreshold,
+} from './review.constants.js';
+
+export interface HoldForReviewInput {
+  userId: number;
+  subjectType: ReviewSubjectType;
+  transactionIds?: number[];
+  bushaTradeId?: number;
+  amount: Decimal | string | number;
+  currency: string;
+  reason: ReviewReason;
+  stage: ReviewStage;
+  riskAssessmentId?: number | null;
+  reference?: string;
+  /** Lock this much of the wallet balance until the decision */
+  lock?: { walletId: number; amount: Decimal | string | number };
+}
+
+type ReviewClient = Prisma.TransactionClient | typeof prisma;
+
+export interface ReviewLock {
+  id: number;
+  lockedWalletId: number | null;
+  lockedAmount: Prisma.Decimal | Decimal | string | number;
+}
+
+/**
+ * Review Service
+ * Puts transactions and Busha sends on hold in the manual review queue,
+ * locking the user's funds when the hold happens after confirmation.
+ */
+export class ReviewService {
+  /**
+   * Amount thresholds for a currency, with env overrides applied
+   */
+  getThreshold(currency: string): ReviewThreshold | null {
+    const code = currency.toUpperCase();
+    const defaults = DEFAULT_REVIEW_THRESHOLDS[code];
+    const reviewAbove = this.readEnvAmount(`REVIEW_THRESHOLD_${code}`) ?? defaults?.reviewAbove;
+    if (reviewAbove == null) return null;
+
+    const fourEyesAbove =
+      this.readEnvAmount(`FOUR_EYES_THRESHOLD_${code}`) ?? defaults?.fourEyesAbove ?? Number.POSITIVE_INFINITY;
+    return { reviewAbove, fourEyesAbove };
+  }
+
+  requiresReview(amount: Decimal | string | number, currency: string): boolean {
+    const threshold = this.getThreshold(currency);
+    return Boolean(threshold && new Decimal(amount).greaterThanOrEqualTo(threshold.reviewAbove));
+  }
+
+  requiredApprovals(amount: Decimal | string | number, currency: string): number {
+    const threshold = this.getThreshold(currency);
+    return threshold && new Decimal(amount).greaterThanOrEqualTo(threshold.fourEyesAbove) ? 2 : 1;
+  }
+
+  /**
+   * Open a review and move the held transactions (or Busha trade) to on_hold.
+   * Only pending transactions are held; the funds lock and status changes commit together.
+   */
+  async holdForReview(input: HoldForReviewInput) {
+    const amount = new Decimal(input.amount);
+    const transactionIds = input.transactionIds || [];
+    const heldAt = new Date().toISOString();
+
+    const review = await prisma.$transaction(async (tx) => {
+      const created = await tx.transactionReview.create({
+        data: {
+          userId: input.userId,
+          subjectType: input.subjectType,
+          transactionId: transactionIds[0] ?? null,
+          transactionIds,
+          bushaTradeId: input.bushaTradeId ?? null,
+          amount: amount.toString(),
+          currency: input.currency.toUpperCase(),
+          reason: input.reason,
+          stage: input.stage,
+          riskAssessmentId: input.riskAssessmentId ?? null,
+          requiredApprovals: this.requiredApprovals(amount, input.currency),
+          approvals: [],
+          lockedWalletId: input.lock?.walletId ?? null,
+          lockedAmount: input.lock ? new Decimal(input.lock.amount).toString() : '0',
+        },
+      });
+
+      if (input.lock) {
+        await this.lockFunds(tx, created.id, input.lock.walletId, new Decimal(input.lock.amount));
+      }
+
+      // Claim each transaction out of pending so a concurrent confirm cannot slip past the hold
+      for (const transactionId of transactionIds) {
+        const transaction = await tx.transaction.findUnique({ where: { id: transactionId } });
+        if (!transaction) continue;
+
+        const held = await tx.transaction.updateMany({
+          where: { id: transactionId, status: 'pending' },
+          data: {
+            status: REVIEW_HOLD_STATUS,
+            metadata: {
+              ...((transaction.metadata as any) || {}),
+              reviewId: created.id,
+              reviewReason: input.reason,
+              riskAssessmentId: input.riskAssessmentId ?? null,
+              heldAt,
+            },
+          },
+        });
+        if (held.count !== 1) {
+          throw new Error(`Transaction ${transaction.reference} is no longer pending and cannot be held`);
+        }
+      }
+
+      if (input.bushaTradeId) {
+        await tx.bushaTradeLog.update({
+          where: { id: input.bushaTradeId },
+          data: { status: REVIEW_HOLD_STATUS },
+        });
+      }
+
+      return created;
+    });
+
+    notifyTransactionReview(input.userId, {
+      decision: 'held',
+      amount: amount.toString(),
+      currency: input.currency.toUpperCase(),
+      reference: input.reference,
+    });
+
+    return review;
+  }
+
+  /**
+   * Release funds locked by a review (rejection, or approval right before payout).
+   * The unlock is journaled on the wallet's held ledger account.
+   */
+  async releaseLock(client: ReviewClient, review: ReviewLock) {
+    const amount = new Decimal(review.lockedAmount.toString());
+    if (!review.lockedWalletId || amount.lessThanOrEqualTo(0)) return;
+
+    const wallet = await client.wallet.findUnique({ where: { id: review.lockedWalletId } });
+    if (!wallet) {
+      throw new Error('Wallet not found');
+    }
+
+    await releaseWalletHold(client, {
+      walletId: wallet.id,
+      amount,
+      currency: wallet.currency,
+      reference: `REVIEW-${review.id}`,
+      description: `Review ${review.id} funds released`,
+    });
+  }
+
+  /**
+   * Lock a review's funds again after its release failed before the payout ran
+   */
+  async restoreLock(client: ReviewClient, review: ReviewLock) {
+    const amount = new Decimal(review.lockedAmount.toString());
+    if (!review.lockedWalletId || amount.lessThanOrEqualTo(0)) return;
+
+    await this.lockFunds(client, review.id, review.lockedWalletId, amount);
+  }
+
+  private async lockFunds(client: ReviewClient, reviewId: number, walletId: number, amount: Decimal) {
+    const wallet = await client.wallet.findUnique({ where: { id: walletId } });
+    if (!wallet) {
+      throw new Error('Wallet not found');
+    }
+
+    const available = new Decimal(wallet.balance.toString()).minus(wallet.lockedBalance.toString());
+    if (amount.greaterThan(available)) {
+      throw new Error(`Insufficient balance. Available: ${available.toString()} ${wallet.currency}`);
+    }
+
+    await holdWalletFunds(client, {
+      walletId,
+      amount,
+      currency: wallet.currency,
+      reference: `REVIEW-${reviewId}`,
+      description: `Review ${reviewId} funds locked`,
+    });
+    await assertAvailableBalance(client, walletId);
+  }
+
+  private readEnvAmount(name: string): number | null {
+    const value = process.env[name];
+    if (value === undefined || value.trim() === '') return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+  }
+}
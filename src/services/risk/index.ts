@@ -0,0 +1,2 @@
+export * from './risk.rules.js';
+export * from './risk.service.js';
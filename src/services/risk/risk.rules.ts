@@ -0,0 +1,89 @@
+export type RiskServiceType = 'transfer' | 'conversion' | 'bill_payment' | 'p2p' | 'busha_sell';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export type RiskDecision = 'allow' | 'hold';
+
+export type RiskRuleCode =
+  | 'velocity'
+  | 'new_device_large_withdrawal'
+  | 'rapid_p2p_round_trip'
+  | 'many_recipients'
+  | 'kyc_name_mismatch';
+
+export interface RiskRuleDefinition {
+  code: RiskRuleCode;
+  name: string;
+  description: string;
+  weight: number;
+  params: Record<string, any>;
+  isActive: boolean;
+}
+
+// A type alias rather than an interface so it is assignable to Prisma JSON input
+export type TriggeredRiskRule = {
+  code: RiskRuleCode;
+  name: string;
+  weight: number;
+  details: Record<string, unknown>;
+};
+
+export const RISK_LEVEL_THRESHOLDS: Record<Exclude<RiskLevel, 'low'>, number> = {
+  medium: 30,
+  high: 60,
+};
+
+export const MAX_RISK_SCORE = 100;
+
+/**
+ * Built-in rules, used when no RiskRule row exists for the code.
+ * A RiskRule row overrides weight, params and isActive.
+ */
+export const DEFAULT_RISK_RULES: RiskRuleDefinition[] = [
+  {
+    code: 'velocity',
+    name: 'Transaction velocity',
+    description: 'More outgoing transactions than allowed within a short window',
+    weight: 25,
+    params: { maxTransactions: 10, windowMinutes: 60 },
+    isActive: true,
+  },
+  {
+    code: 'new_device_large_withdrawal',
+    name: 'New device with large withdrawal',
+    description: 'Large withdrawal from a device first seen recently',
+    weight: 40,
+    params: {
+      deviceAgeHours: 24,
+      amountThresholds: { NGN: 200_000, USD: 200 },
+      defaultThreshold: 200,
+    },
+    isActive: true,
+  },
+  {
+    code: 'rapid_p2p_round_trip',
+    name: 'Rapid P2P round-trip',
+    description: 'Buying and selling the same asset on P2P within a short window',
+    weight: 30,
+    params: { windowMinutes: 120 },
+    isActive: true,
+  },
+  {
+    code: 'many_recipients',
+    name: 'Many recipients',
+    description: 'Sending to many distinct recipients within a window',
+    weight: 25,
+    params: { maxRecipients: 5, windowHours: 24 },
+    isActive: true,
+  },
+  {
+    code: 'kyc_name_mismatch',
+    name: 'KYC name mismatch',
+    description: 'Bank account name does not match the verified KYC name',
+    weight: 35,
+    params: {},
+    isActive: true,
+  },
+];
+
+export const RISK_RULE_CODES = DEFAULT_RISK_RULES.map((rule) => rule.code);
@@ -0,0 +1,442 @@
+import { Decimal } from 'decimal.js';
+import type { Prisma } from '@prisma/client';
+import prisma from '../../core/config/database.js';
+import { ReviewService } from '../review/review.service.js';
+import {
+  DEFAULT_RISK_RULES,
+  MAX_RISK_SCORE,
+  RISK_LEVEL_THRESHOLDS,
+  RISK_RULE_CODES,
+  type RiskDecision,
+  type RiskLevel,
+  type RiskRuleCode,
+  type RiskRuleDefinition,
+  type RiskServiceType,
+  type TriggeredRiskRule,
+} from './risk.rules.js';
+
+export interface RiskAssessmentInput {
+  userId: number;
+  serviceType: RiskServiceType;
+  amount: Decimal | string | number;
+  currency: string;
+  channel?: string | null;
+  /** Funds leave the platform (bank, mobile money, on-chain) */
+  isWithdrawal?: boolean;
+  /** Stable identifier of the counterparty (user id, account number, phone) */
+  recipientKey?: string | null;
+  /** Name on the destination bank account */
+  recipientAccountName?: string | null;
+  /** P2P only: the asset and the user's side of the order */
+  cryptoCurrency?: string;
+  side?: 'buy' | 'sell';
+  /** Transactions created for this operation; held together for review when the score is too high */
+  transactionIds?: number[];
+  p2pOrderId?: number;
+  /** Score only; never hold (used where there is no pending transaction to hold) */
+  scoreOnly?: boolean;
+}
+
+export interface RiskAssessmentResult {
+  id: number;
+  score: number;
+  level: RiskLevel;
+  decision: RiskDecision;
+  triggeredRules: TriggeredRiskRule[];
+}
+
+const OUTGOING_TRANSACTION_TYPES = ['transfer', 'withdrawal', 'bill_payment'];
+const INACTIVE_P2P_ORDER_STATUSES = ['cancelled', 'expired'];
+
+/**
+ * Risk Service
+ * Scores each money movement against configurable fraud rules, stores the
+ * assessment per transaction and the running profile per user, and puts
+ * transactions on hold when the score reaches RISK_HOLD_SCORE.
+ */
+export class RiskService {
+  private reviewService = new ReviewService();
+
+  /**
+   * Evaluate the active rules for an operation and persist the result.
+   * Rule failures never block the payment; they are logged and the operation is allowed.
+   */
+  async assess(input: RiskAssessmentInput): Promise<RiskAssessmentResult | null> {
+    try {
+      const rules = await this.listRules();
+      const triggeredRules: TriggeredRiskRule[] = [];
+
+      for (const rule of rules) {
+        if (!rule.isActive) continue;
+        const details = await this.evaluateRule(rule, input);
+        if (details) {
+          triggeredRules.push({ code: rule.code, name: rule.name, weight: rule.weight, details });
+        }
+      }
+
+      const score = Math.min(
+        MAX_RISK_SCORE,
+        triggeredRules.reduce((sum, rule) => sum + rule.weight, 0)
+      );
+      const level = this.levelForScore(score);
+      const decision: RiskDecision =
+        !input.scoreOnly && input.transactionIds?.length && score >= this.getHoldScore() ? 'hold' : 'allow';
+
+      const assessment = await prisma.riskAssessment.create({
+        data: {
+          userId: input.userId,
+          transactionId: input.transactionIds?.[0] ?? null,
+          p2pOrderId: input.p2pOrderId ?? null,
+          serviceType: input.serviceType,
+          channel: input.channel || null,
+          amount: new Decimal(input.amount).toString(),
+          currency: input.currency.toUpperCase(),
+          score,
+          level,
+          decision,
+          triggeredRules: triggeredRules as Prisma.InputJsonValue,
+        },
+      });
+
+      await this.updateProfile(input.userId, score, level, decision, triggeredRules);
+
+      if (decision === 'hold') {
+        await this.reviewService.holdForReview({
+          userId: input.userId,
+          subjectType:
+            input.serviceType === 'transfer' && input.isWithdrawal
+              ? 'withdrawal'
+              : (input.serviceType as 'transfer' | 'conversion' | 'bill_payment'),
+          transactionIds: input.transactionIds,
+          amount: input.amount,
+          currency: input.currency,
+          reason: 'risk_score',
+          stage: 'pre_confirmation',
+          riskAssessmentId: assessment.id,
+        });
+      }
+
+      return { id: assessment.id, score, level, decision, triggeredRules };
+    } catch (error) {
+      console.error(`[Risk] Assessment failed for user ${input.userId}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Effective rules: configured rows override built-in defaults by code
+   */
+  async listRules(): Promise<RiskRuleDefinition[]> {
+    const rows = await prisma.riskRule.findMany();
+    const byCode = new Map(rows.map((row) => [row.code, row]));
+
+    return DEFAULT_RISK_RULES.map((rule) => {
+      const row = byCode.get(rule.code);
+      if (!row) return rule;
+      return {
+        code: rule.code,
+        name: row.name,
+        description: row.description || rule.description,
+        weight: row.weight,
+        params: { ...rule.params, ...((row.params as Record<string, any>) || {}) },
+        isActive: row.isActive,
+      };
+    });
+  }
+
+  /**
+   * Create or update the configuration for a built-in rule
+   */
+  async upsertRule(
+    code: string,
+    data: { name?: string; description?: string | null; weight?: number; params?: Record<string, any>; isActive?: boolean }
+  ) {
+    const rule = DEFAULT_RISK_RULES.find((item) => item.code === code);
+    if (!rule) {
+      throw new Error(`Unknown risk rule. Must be one of: ${RISK_RULE_CODES.join(', ')}`);
+    }
+    if (data.weight != null && (!Number.isInteger(Number(data.weight)) || Number(data.weight) < 0)) {
+      throw new Error('weight must be a non-negative integer');
+    }
+    if (data.params != null && (typeof data.params !== 'object' || Array.isArray(data.params))) {
+      throw new Error('params must be an object');
+    }
+
+    return prisma.riskRule.upsert({
+      where: { code },
+      update: {
+        ...(data.name !== undefined ? { name: data.name } : {}),
+        ...(data.description !== undefined ? { description: data.description } : {}),
+        ...(data.weight !== undefined ? { weight: Number(data.weight) } : {}),
+        ...(data.params !== undefined ? { params: data.params } : {}),
+        ...(data.isActive !== undefined ? { isActive: Boolean(data.isActive) } : {}),
+      },
+      create: {
+        code,
+        name: data.name || rule.name,
+        description: data.description ?? rule.description,
+        weight: data.weight != null ? Number(data.weight) : rule.weight,
+        params: { ...rule.params, ...(data.params || {}) },
+        isActive: data.isActive ?? rule.isActive,
+      },
+    });
+  }
+
+  levelForScore(score: number): RiskLevel {
+    if (score >= RISK_LEVEL_THRESHOLDS.high) return 'high';
+    if (score >= RISK_LEVEL_THRESHOLDS.medium) return 'medium';
+    return 'low';
+  }
+
+  getHoldScore(): number {
+    const configured = parseInt(process.env.RISK_HOLD_SCORE || '', 10);
+    return Number.isFinite(configured) && configured > 0 ? configured : RISK_LEVEL_THRESHOLDS.high;
+  }
+
+  private async evaluateRule(
+    rule: RiskRuleDefinition,
+    input: RiskAssessmentInput
+  ): Promise<Record<string, unknown> | null> {
+    const evaluators: Record<RiskRuleCode, () => Promise<Record<string, unknown> | null>> = {
+      velocity: () => this.checkVelocity(rule.params, input),
+      new_device_large_withdrawal: () => this.checkNewDeviceWithdrawal(rule.params, input),
+      rapid_p2p_round_trip: () => this.checkP2PRoundTrip(rule.params, input),
+      many_recipients: () => this.checkManyRecipients(rule.params, input),
+      kyc_name_mismatch: () => this.checkKycNameMismatch(input),
+    };
+    return evaluators[rule.code]();
+  }
+
+  /**
+   * Outgoing transactions and P2P orders within the window, including this one
+   */
+  private async checkVelocity(params: Record<string, any>, input: RiskAssessmentInput) {
+    const windowMinutes = Number(params.windowMinutes) || 60;
+    const maxTransactions = Number(params.maxTransactions) || 10;
+    const since = new Date(Date.now() - windowMinutes * 60 * 1000);
+
+    const [transactions, p2pOrders] = await Promise.all([
+      prisma.transaction.count({
+        where: {
+          wallet: { userId: input.userId },
+          type: { in: OUTGOING_TRANSACTION_TYPES },
+          createdAt: { gte: since },
+          id: { notIn: input.transactionIds || [] },
+        },
+      }),
+      prisma.p2POrder.count({
+        where: {
+          userId: input.userId,
+          createdAt: { gte: since },
+          ...(input.p2pOrderId ? { id: { not: input.p2pOrderId } } : {}),
+        },
+      }),
+    ]);
+
+    const count = transactions + p2pOrders + 1;
+    return count > maxTransactions ? { count, maxTransactions, windowMinutes } : null;
+  }
+
+  /**
+   * Large withdrawal while the latest session is on a device not seen before the window
+   */
+  private async checkNewDeviceWithdrawal(params: Record<string, any>, input: RiskAssessmentInput) {
+    if (!input.isWithdrawal) return null;
+
+    const currency = input.currency.toUpperCase();
+    const thresholds = (params.amountThresholds as Record<string, number>) || {};
+    const threshold = Number(thresholds[currency] ?? params.defaultThreshold);
+    if (!Number.isFinite(threshold) || new Decimal(input.amount).lessThan(threshold)) return null;
+
+    const deviceAgeHours = Number(params.deviceAgeHours) || 24;
+    const cutoff = new Date(Date.now() - deviceAgeHours * 60 * 60 * 1000);
+
+    const latestSession = await prisma.session.findFirst({
+      where: { userId: input.userId },
+      orderBy: { createdAt: 'desc' },
+      select: { deviceName: true, userAgent: true, createdAt: true },
+    });
+    if (!latestSession || latestSession.createdAt < cutoff) return null;
+
+    const deviceFilter = latestSession.deviceName
+      ? { deviceName: latestSession.deviceName }
+      : latestSession.userAgent
+        ? { userAgent: latestSession.userAgent }
+        : null;
+    if (!deviceFilter) return null;
+
+    const [earlierSessions, recentlyTrusted] = await Promise.all([
+      prisma.session.count({
+        where: { userId: input.userId, createdAt: { lt: cutoff }, ...deviceFilter },
+      }),
+      latestSession.deviceName
+        ? prisma.trustedDevice.count({
+            where: { userId: input.userId, deviceName: latestSession.deviceName, trustedAt: { gte: cutoff } },
+          })
+        : Promise.resolve(0),
+    ]);
+
+    if (earlierSessions > 0 && recentlyTrusted === 0) return null;
+
+    return {
+      deviceName: latestSession.deviceName,
+      firstSeenAt: latestSession.createdAt,
+      amount: new Decimal(input.amount).toString(),
+      threshold,
+    };
+  }
+
+  /**
+   * Opposite-side P2P order on the same asset within the window
+   */
+  private async checkP2PRoundTrip(params: Record<string, any>, input: RiskAssessmentInput) {
+    if (input.serviceType !== 'p2p' || !input.cryptoCurrency || !input.side) return null;
+
+    const windowMinutes = Number(params.windowMinutes) || 120;
+    const since = new Date(Date.now() - windowMinutes * 60 * 1000);
+
+    // Order creators take the opposite side of the ad; vendors take the ad's side
+    const oppositeSide = input.side === 'buy' ? 'sell' : 'buy';
+    const previous = await prisma.p2POrder.findFirst({
+      where: {
+        cryptoCurrency: input.cryptoCurrency,
+        status: { notIn: INACTIVE_P2P_ORDER_STATUSES },
+        createdAt: { gte: since },
+        ...(input.p2pOrderId ? { id: { not: input.p2pOrderId } } : {}),
+        OR: [
+          { userId: input.userId, type: input.side },
+          { vendorId: input.userId, type: oppositeSide },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, createdAt: true },
+    });
+
+    return previous
+      ? { previousOrderId: previous.id, previousOrderAt: previous.createdAt, side: input.side, windowMinutes }
+      : null;
+  }
+
+  /**
+   * Distinct transfer recipients within the window, including this one
+   */
+  private async checkManyRecipients(params: Record<string, any>, input: RiskAssessmentInput) {
+    if (input.serviceType !== 'transfer' || !input.recipientKey) return null;
+
+    const windowHours = Number(params.windowHours) || 24;
+    const maxRecipients = Number(params.maxRecipients) || 5;
+    const since = new Date(Date.now() - windowHours * 60 * 60 * 1000);
+
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        wallet: { userId: input.userId },
+        type: { in: ['transfer', 'withdrawal'] },
+        channel: { in: ['rhionx_user', 'bank_account', 'mobile_money'] },
+        createdAt: { gte: since },
+        id: { notIn: input.transactionIds || [] },
+      },
+      select: { metadata: true },
+    });
+
+    const recipients = new Set<string>([input.recipientKey]);
+    for (const transaction of transactions) {
+      const metadata = transaction.metadata as any;
+      const key = metadata ? buildRecipientKey(metadata) : null;
+      if (key) recipients.add(key);
+    }
+
+    return recipients.size > maxRecipients
+      ? { recipients: recipients.size, maxRecipients, windowHours }
+      : null;
+  }
+
+  /**
+   * Bank withdrawals must go to an account in the user's verified KYC name
+   */
+  private async checkKycNameMismatch(input: RiskAssessmentInput) {
+    if (input.channel !== 'bank_account' || !input.recipientAccountName) return null;
+
+    const kyc = await prisma.kYC.findUnique({
+      where: { userId: input.userId },
+      select: { firstName: true, lastName: true, status: true },
+    });
+    if (kyc?.status !== 'verified') return null;
+
+    const accountTokens = this.nameTokens(input.recipientAccountName);
+    const kycTokens = this.nameTokens(`${kyc.firstName || ''} ${kyc.lastName || ''}`);
+    if (kycTokens.length === 0 || accountTokens.length === 0) return null;
+
+    const matches = kycTokens.filter((token) => accountTokens.includes(token));
+    // Providers often reorder or abbreviate names; require at least two matching tokens (or all, if fewer)
+    if (matches.length >= Math.min(2, kycTokens.length)) return null;
+
+    return {
+      accountName: input.recipientAccountName,
+      kycName: [kyc.firstName, kyc.lastName].filter(Boolean).join(' '),
+    };
+  }
+
+  private async updateProfile(
+    userId: number,
+    score: number,
+    level: RiskLevel,
+    decision: RiskDecision,
+    triggeredRules: TriggeredRiskRule[]
+  ) {
+    const existing = await prisma.userRiskProfile.findUnique({ where: { userId } });
+    const lastRules = triggeredRules.map((rule) => rule.code);
+    const now = new Date();
+
+    if (!existing) {
+      await prisma.userRiskProfile.create({
+        data: {
+          userId,
+          score,
+          maxScore: score,
+          level,
+          assessmentCount: 1,
+          holdCount: decision === 'hold' ? 1 : 0,
+          lastRules,
+          lastAssessedAt: now,
+        },
+      });
+      return;
+    }
+
+    await prisma.userRiskProfile.update({
+      where: { userId },
+      data: {
+        score,
+        maxScore: Math.max(existing.maxScore, score),
+        level,
+        assessmentCount: { increment: 1 },
+        ...(decision === 'hold' ? { holdCount: { increment: 1 } } : {}),
+        lastRules,
+        lastAssessedAt: now,
+      },
+    });
+  }
+
+  private nameTokens(name: string): string[] {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z\s]/g, ' ')
+      .split(/\s+/)
+      .filter((token) => token.length > 1);
+  }
+}
+
+/**
+ * Stable counterparty key from transfer metadata (internal user, bank account or phone)
+ */
+export function buildRecipientKey(recipient: {
+  recipientUserId?: number | string | null;
+  accountNumber?: string | null;
+  bankCode?: string | null;
+  phoneNumber?: string | null;
+}): string | null {
+  if (recipient.recipientUserId) return `user:${recipient.recipientUserId}`;
+  if (recipient.accountNumber) return `bank:${recipient.bankCode || ''}:${recipient.accountNumber}`;
+  if (recipient.phoneNumber) return `momo:${recipient.phoneNumber}`;
+  return null;
+}
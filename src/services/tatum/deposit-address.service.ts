@@ -4,6 +4,7 @@ import { decryptPrivateKey, encryptPrivateKey } from '../../core/utils/encryptio
 import {
   isNonHdBlockchain,
   normalizeBlockchain,
+  normalizeDepositAddress,
 } from './tatum-blockchain.util.js';
 import { getTatumService } from './tatum.service.js';
 import { UserWalletService } from './user-wallet.service.js';
@@ -66,6 +67,7 @@ export class DepositAddressService {
           blockchain,
           currency: virtualAccount.currency,
           address: reused.address,
+          normalizedAddress: normalizeDepositAddress(reused.address),
           index: reused.index ?? 0,
           privateKey: reused.privateKey,
         },
@@ -124,6 +126,7 @@ export class DepositAddressService {
         blockchain,
         currency: virtualAccount.currency,
         address,
+        normalizedAddress: normalizeDepositAddress(address),
         index: 0,
         privateKey: encryptedPrivateKey,
       },
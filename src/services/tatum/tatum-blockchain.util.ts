@@ -76,6 +76,17 @@ export function getDerivationPath(blockchain: string): string | null {
   return paths[normalizeBlockchain(blockchain)] ?? null;
 }
 
+/**
+ * Lookup key for deposit addresses (deposit_addresses.normalized_address).
+ * EVM hex addresses are case-insensitive; other chains (TRON, Solana, BTC) are case-sensitive.
+ */
+export function normalizeDepositAddress(address: string | null | undefined): string | null {
+  if (!address) return null;
+  const trimmed = address.trim();
+  if (!trimmed) return null;
+  return trimmed.startsWith('0x') ? trimmed.toLowerCase() : trimmed;
+}
+
 export function canonicalEvmContract(address: string): string {
   return address.trim().toLowerCase();
 }
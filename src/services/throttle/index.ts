@@ -0,0 +1,3 @@
+export * from './throttle.constants.js';
+export * from './throttle.store.js';
+export * from './throttle.service.js';
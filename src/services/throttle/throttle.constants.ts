@@ -0,0 +1,69 @@
+export const THROTTLE_ACTIONS = ['login', 'device_login', 'email_otp', 'password_reset_otp', 'pin', 'two_factor', 'transaction_otp', 'password'] as const;
+
+export type ThrottleAction = (typeof THROTTLE_ACTIONS)[number];
+
+/** What a failed attempt is counted against */
+export type ThrottleScope = 'account' | 'ip' | 'device';
+
+export interface ThrottleRule {
+  /** Failures within `windowMs` that trigger a lockout */
+  maxFailures: number;
+  windowMs: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Attempt limits per action and scope. IP and device limits are looser than the
+ * account limit so users behind a shared address are not locked out together.
+ */
+export const THROTTLE_RULES: Record<ThrottleAction, Partial<Record<ThrottleScope, ThrottleRule>>> = {
+  login: {
+    account: { maxFailures: 5, windowMs: 15 * MINUTE_MS },
+    ip: { maxFailures: 20, windowMs: 15 * MINUTE_MS },
+    device: { maxFailures: 10, windowMs: 15 * MINUTE_MS },
+  },
+  device_login: {
+    account: { maxFailures: 5, windowMs: 10 * MINUTE_MS },
+    ip: { maxFailures: 20, windowMs: 15 * MINUTE_MS },
+    device: { maxFailures: 5, windowMs: 10 * MINUTE_MS },
+  },
+  email_otp: {
+    account: { maxFailures: 5, windowMs: 10 * MINUTE_MS },
+    ip: { maxFailures: 20, windowMs: 15 * MINUTE_MS },
+  },
+  password_reset_otp: {
+    account: { maxFailures: 5, windowMs: 10 * MINUTE_MS },
+    ip: { maxFailures: 20, windowMs: 15 * MINUTE_MS },
+  },
+  pin: {
+    account: { maxFailures: 5, windowMs: 60 * MINUTE_MS },
+  },
+  two_factor: {
+    account: { maxFailures: 5, windowMs: 15 * MINUTE_MS },
+    ip: { maxFailures: 20, windowMs: 15 * MINUTE_MS },
+  },
+  transaction_otp: {
+    account: { maxFailures: 5, windowMs: 10 * MINUTE_MS },
+  },
+  password: {
+    account: { maxFailures: 5, windowMs: 15 * MINUTE_MS },
+  },
+};
+
+/** Length of the 1st, 2nd, 3rd... lockout of the same key; the last step repeats */
+export const THROTTLE_LOCKOUT_STEPS_MS = [5 * MINUTE_MS, 15 * MINUTE_MS, 60 * MINUTE_MS, 24 * 60 * MINUTE_MS];
+
+/** Lockout history (and so the next lockout's length) is forgotten after this long without failures */
+export const THROTTLE_LOCKOUT_DECAY_MS = 24 * 60 * MINUTE_MS;
+
+export const THROTTLE_ACTION_LABELS: Record<ThrottleAction, string> = {
+  login: 'sign-in',
+  device_login: 'new device verification',
+  email_otp: 'email verification',
+  password_reset_otp: 'password reset',
+  pin: 'PIN',
+  two_factor: 'two-factor authentication',
+  transaction_otp: 'transaction verification',
+  password: 'password',
+};
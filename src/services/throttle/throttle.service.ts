@@ -0,0 +1,191 @@
+import {
+  THROTTLE_ACTIONS,
+  THROTTLE_ACTION_LABELS,
+  THROTTLE_LOCKOUT_DECAY_MS,
+  THROTTLE_LOCKOUT_STEPS_MS,
+  THROTTLE_RULES,
+  type ThrottleAction,
+  type ThrottleScope,
+} from './throttle.constants.js';
+import { getThrottleStore } from './throttle.store.js';
+
+/** Identifiers of one attempt; scopes without a value or a rule are skipped */
+export interface ThrottleSubject {
+  /** User id, or the submitted email when no account matches */
+  account?: string | number | null;
+  ip?: string | null;
+  device?: string | null;
+}
+
+export interface ThrottleLockout {
+  scope: ThrottleScope;
+  lockedUntil: Date;
+  /** 1 for the first lockout of this key, 2 for the next... */
+  lockoutNumber: number;
+}
+
+export class TooManyAttemptsError extends Error {
+  readonly code = 'TOO_MANY_ATTEMPTS';
+
+  constructor(
+    readonly retryAfterSeconds: number,
+    message = 'Too many failed attempts. Please try again later.'
+  ) {
+    super(message);
+    this.name = 'TooManyAttemptsError';
+  }
+}
+
+/**
+ * Throttle Service
+ * Counts attempts per account, IP and device for sensitive actions and locks a key
+ * out once it reaches the rule's limit of failures. Attempts are counted up front
+ * and given back when they succeed. Each further lockout of the same key lasts
+ * longer (THROTTLE_LOCKOUT_STEPS_MS). Successful attempts clear the account and
+ * device counters; IP counters only expire.
+ */
+export class ThrottleService {
+  /**
+   * Count an attempt before it is verified, so parallel attempts cannot all pass
+   * the check before any failure is recorded. Follow up with recordFailure,
+   * recordSuccess or releaseAttempt. Throws TooManyAttemptsError while any scope
+   * of the subject is locked out or already has its limit of attempts.
+   */
+  async assertAllowed(action: ThrottleAction, subject: ThrottleSubject): Promise<void> {
+    const now = Date.now();
+    const counted: { key: string; scope: ThrottleScope }[] = [];
+    let lockedUntil = 0;
+
+    for (const { key, scope } of this.keysFor(action, subject)) {
+      const rule = THROTTLE_RULES[action][scope]!;
+      const entry = await getThrottleStore().increment(key, 1, rule.windowMs, rule.windowMs + THROTTLE_LOCKOUT_DECAY_MS);
+      counted.push({ key, scope });
+
+      if (entry.lockedUntil && entry.lockedUntil > now) {
+        lockedUntil = Math.max(lockedUntil, entry.lockedUntil);
+      } else if (entry.failures > rule.maxFailures) {
+        // Attempts still being verified already use up the limit
+        lockedUntil = Math.max(lockedUntil, entry.windowStartedAt + rule.windowMs);
+      }
+    }
+
+    if (lockedUntil) {
+      for (const item of counted) {
+        await this.release(action, item.scope, item.key);
+      }
+      const retryAfterSeconds = Math.max(Math.ceil((lockedUntil - now) / 1000), 1);
+      throw new TooManyAttemptsError(retryAfterSeconds, this.lockedMessage(action, retryAfterSeconds));
+    }
+  }
+
+  /**
+   * Confirm the attempt counted by assertAllowed as failed. Returns the lockouts
+   * this failure started.
+   */
+  async recordFailure(action: ThrottleAction, subject: ThrottleSubject): Promise<ThrottleLockout[]> {
+    const now = Date.now();
+    const lockouts: ThrottleLockout[] = [];
+
+    for (const { key, scope } of this.keysFor(action, subject)) {
+      const rule = THROTTLE_RULES[action][scope]!;
+      const entry = await getThrottleStore().get(key);
+      if (!entry || entry.failures < rule.maxFailures || (entry.lockedUntil && entry.lockedUntil > now)) {
+        continue;
+      }
+
+      const step = THROTTLE_LOCKOUT_STEPS_MS[Math.min(entry.lockouts, THROTTLE_LOCKOUT_STEPS_MS.length - 1)];
+      entry.lockouts += 1;
+      entry.lockedUntil = now + step;
+      entry.failures = 0;
+      entry.windowStartedAt = now;
+      entry.lastFailureAt = now;
+      lockouts.push({ scope, lockedUntil: new Date(entry.lockedUntil), lockoutNumber: entry.lockouts });
+
+      await getThrottleStore().set(key, entry, Math.max(rule.windowMs, step) + THROTTLE_LOCKOUT_DECAY_MS);
+    }
+
+    return lockouts;
+  }
+
+  /**
+   * Clear the account and device counters after a successful attempt; the IP
+   * counter only gives the attempt back
+   */
+  async recordSuccess(action: ThrottleAction, subject: ThrottleSubject): Promise<void> {
+    for (const { key, scope } of this.keysFor(action, subject)) {
+      if (scope === 'ip') {
+        await this.release(action, scope, key);
+      } else {
+        await getThrottleStore().delete(key);
+      }
+    }
+  }
+
+  /**
+   * Give back the attempt counted by assertAllowed without clearing earlier
+   * failures, for steps that succeed but are verified again later
+   */
+  async releaseAttempt(action: ThrottleAction, subject: ThrottleSubject): Promise<void> {
+    for (const { key, scope } of this.keysFor(action, subject)) {
+      await this.release(action, scope, key);
+    }
+  }
+
+  /**
+   * Counters and lockouts of a user's account for every action
+   */
+  async getAccountStatus(userId: number) {
+    const now = Date.now();
+    return Promise.all(
+      THROTTLE_ACTIONS.map(async (action) => {
+        const entry = await getThrottleStore().get(this.key(action, 'account', userId));
+        const locked = Boolean(entry?.lockedUntil && entry.lockedUntil > now);
+        return {
+          action,
+          failures: entry?.failures ?? 0,
+          lockouts: entry?.lockouts ?? 0,
+          locked,
+          lockedUntil: locked ? new Date(entry!.lockedUntil!) : null,
+          lastFailureAt: entry ? new Date(entry.lastFailureAt) : null,
+        };
+      })
+    );
+  }
+
+  /**
+   * Lift lockouts on a user's account and reset its counters, for one action or all
+   */
+  async unlockAccount(userId: number, action?: ThrottleAction) {
+    if (action && !THROTTLE_ACTIONS.includes(action)) {
+      throw new Error(`action must be one of: ${THROTTLE_ACTIONS.join(', ')}`);
+    }
+
+    const actions = action ? [action] : [...THROTTLE_ACTIONS];
+    for (const item of actions) {
+      await getThrottleStore().delete(this.key(item, 'account', userId));
+    }
+    return { userId, unlocked: actions };
+  }
+
+  private async release(action: ThrottleAction, scope: ThrottleScope, key: string) {
+    const rule = THROTTLE_RULES[action][scope]!;
+    await getThrottleStore().increment(key, -1, rule.windowMs, rule.windowMs + THROTTLE_LOCKOUT_DECAY_MS);
+  }
+
+  private keysFor(action: ThrottleAction, subject: ThrottleSubject) {
+    const rules = THROTTLE_RULES[action];
+    return (['account', 'ip', 'device'] as ThrottleScope[])
+      .filter((scope) => rules[scope] && subject[scope] != null && subject[scope] !== '')
+      .map((scope) => ({ scope, key: this.key(action, scope, subject[scope]!) }));
+  }
+
+  private key(action: ThrottleAction, scope: ThrottleScope, identifier: string | number) {
+    return `${action}:${scope}:${String(identifier).trim().toLowerCase()}`;
+  }
+
+  private lockedMessage(action: ThrottleAction, retryAfterSeconds: number) {
+    const minutes = Math.ceil(retryAfterSeconds / 60);
+    const wait = minutes >= 60 ? `${Math.ceil(minutes / 60)} hour(s)` : `${minutes} minute(s)`;
+    return `Too many failed ${THROTTLE_ACTION_LABELS[action]} attempts. Please try again in ${wait}.`;
+  }
+}
@@ -0,0 +1,102 @@
+export interface ThrottleEntry {
+  /** Failures in the current window */
+  failures: number;
+  windowStartedAt: number;
+  /** Lockouts so far; sets the length of the next one */
+  lockouts: number;
+  lockedUntil: number | null;
+  lastFailureAt: number;
+}
+
+/**
+ * Holds attempt counters. Multi-node deployments plug in a store backed by a
+ * shared cache so counters and lockouts apply across every node.
+ */
+export interface ThrottleStore {
+  get(key: string): Promise<ThrottleEntry | null>;
+  /**
+   * Atomically add `delta` to the failures of the key's current window (a new
+   * window starts once `windowMs` has passed) and return the updated entry.
+   * Keeps the entry for at least `ttlMs`.
+   */
+  increment(key: string, delta: number, windowMs: number, ttlMs: number): Promise<ThrottleEntry>;
+  /** Store the entry; it may be dropped after `ttlMs` */
+  set(key: string, entry: ThrottleEntry, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const PRUNE_EVERY_WRITES = 1000;
+
+/**
+ * Single-node store: counters live in this process and reset on restart
+ */
+export class InMemoryThrottleStore implements ThrottleStore {
+  private entries = new Map<string, { entry: ThrottleEntry; expiresAt: number }>();
+  private writes = 0;
+
+  async get(key: string): Promise<ThrottleEntry | null> {
+    const item = this.entries.get(key);
+    if (!item) return null;
+    if (item.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return { ...item.entry };
+  }
+
+  async increment(key: string, delta: number, windowMs: number, ttlMs: number): Promise<ThrottleEntry> {
+    const now = Date.now();
+    const item = this.entries.get(key);
+    const current = item && item.expiresAt > now ? item.entry : null;
+    const entry: ThrottleEntry =
+      current && now - current.windowStartedAt < windowMs
+        ? { ...current }
+        : {
+            failures: 0,
+            windowStartedAt: now,
+            lockouts: current?.lockouts ?? 0,
+            lockedUntil: current?.lockedUntil ?? null,
+            lastFailureAt: now,
+          };
+
+    entry.failures = Math.max(entry.failures + delta, 0);
+    if (delta > 0) entry.lastFailureAt = now;
+
+    this.entries.set(key, { entry, expiresAt: Math.max(item?.expiresAt ?? 0, now + ttlMs) });
+    if (++this.writes % PRUNE_EVERY_WRITES === 0) {
+      this.prune();
+    }
+    return { ...entry };
+  }
+
+  async set(key: string, entry: ThrottleEntry, ttlMs: number): Promise<void> {
+    this.entries.set(key, { entry: { ...entry }, expiresAt: Date.now() + ttlMs });
+    if (++this.writes % PRUNE_EVERY_WRITES === 0) {
+      this.prune();
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [key, item] of this.entries) {
+      if (item.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+let store: ThrottleStore = new InMemoryThrottleStore();
+
+export function getThrottleStore(): ThrottleStore {
+  return store;
+}
+
+/** Swap the store implementation. Call before the server starts taking requests. */
+export function setThrottleStore(next: ThrottleStore): void {
+  store = next;
+}
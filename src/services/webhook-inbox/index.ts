@@ -0,0 +1,2 @@
+export * from './webhook-inbox.constants.js';
+export * from './webhook-inbox.service.js';
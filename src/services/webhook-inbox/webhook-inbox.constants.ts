@@ -0,0 +1,28 @@
+export const WEBHOOK_PROVIDERS = ['tatum', 'palmpay', 'flutterwave', 'busha'] as const;
+
+export type WebhookProvider = (typeof WEBHOOK_PROVIDERS)[number];
+export type WebhookInboxStatus = 'received' | 'processing' | 'processed' | 'failed' | 'dead_letter';
+
+/** Attempts before an event is dead-lettered (env WEBHOOK_MAX_ATTEMPTS) */
+export const DEFAULT_WEBHOOK_MAX_ATTEMPTS = 8;
+
+/** First retry delay; doubles on each attempt up to WEBHOOK_RETRY_MAX_DELAY_MS */
+export const WEBHOOK_RETRY_BASE_MS = 30 * 1000;
+export const WEBHOOK_RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/** How long a processing event is leased before another worker may pick it up */
+export const WEBHOOK_PROCESSING_LEASE_MS = 5 * 60 * 1000;
+
+/** Events processed per job tick */
+export const WEBHOOK_INBOX_BATCH_SIZE = 50;
+
+/** Headers that carry secrets or signatures are not stored */
+export const REDACTED_WEBHOOK_HEADERS = [
+  'authorization',
+  'cookie',
+  'verif-hash',
+  'x-busha-signature',
+  'x-bc-signature',
+  'x-signature',
+  'x-payload-hash',
+];
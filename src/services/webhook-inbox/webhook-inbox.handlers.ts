@@ -0,0 +1,109 @@
+import { createHash } from 'crypto';
+import { handleTatumWebhook } from '../../jobs/tatum/process-webhook.job.js';
+import { BushaAppService } from '../busha/busha.app.service.js';
+import { FlutterwaveWebhookService } from '../flutterwave/flutterwave.webhook.service.js';
+import { PalmPayWebhookService } from '../palmpay/palmpay.webhook.service.js';
+import { normalizeDepositAddress } from '../tatum/tatum-blockchain.util.js';
+import type { WebhookProvider } from './webhook-inbox.constants.js';
+
+export interface WebhookProviderHandler {
+  eventType(payload: any): string | null;
+  /** Same delivery (or same provider event + status) always maps to the same key */
+  dedupeKey(payload: any): string;
+  /** Apply the event; throw to have the inbox retry it. A returned string is stored as the outcome. */
+  handle(payload: any): Promise<string | void>;
+}
+
+const MAX_KEY_LENGTH = 255;
+
+function payloadHash(payload: unknown): string {
+  return createHash('sha256').update(JSON.stringify(payload ?? null)).digest('hex');
+}
+
+function buildKey(parts: Array<unknown>, payload: unknown): string {
+  const key = parts.map((part) => (part == null ? '' : String(part))).join(':');
+  if (key.length > MAX_KEY_LENGTH) {
+    return `sha256:${createHash('sha256').update(key).digest('hex')}`;
+  }
+  return key || `sha256:${payloadHash(payload)}`;
+}
+
+function palmPayEventType(payload: any): string | null {
+  const orderId = String(payload?.orderId || '');
+  if (orderId.startsWith('deposit_')) return 'deposit';
+  if (orderId.startsWith('payout_')) return 'payout';
+  if (orderId.startsWith('busha_sell_')) return 'busha_sell';
+  if (orderId.startsWith('busha_buy_')) return 'busha_buy';
+  if (String(payload?.outOrderNo || '').startsWith('bill_')) return 'bill_payment';
+  return null;
+}
+
+/**
+ * Per-provider dedupe keys and the existing handlers the inbox dispatches to
+ */
+export function createWebhookHandlers(): Record<WebhookProvider, WebhookProviderHandler> {
+  const palmPayWebhookService = new PalmPayWebhookService();
+  const flutterwaveWebhookService = new FlutterwaveWebhookService();
+  const bushaAppService = new BushaAppService();
+
+  return {
+    tatum: {
+      eventType: (payload) => (payload?.subscriptionType ? String(payload.subscriptionType) : null),
+      dedupeKey: (payload) =>
+        payload?.txId
+          ? buildKey(
+              [
+                payload.txId,
+                normalizeDepositAddress(String(payload.address ?? payload.to ?? '')),
+                payload.subscriptionType,
+                payload.contractAddress ? String(payload.contractAddress).toLowerCase() : null,
+              ],
+              payload
+            )
+          : `sha256:${payloadHash(payload)}`,
+      handle: async (payload) => {
+        const result = await handleTatumWebhook({ ...payload });
+        return result.processed ? 'processed' : result.reason ?? 'skipped';
+      },
+    },
+    palmpay: {
+      eventType: palmPayEventType,
+      dedupeKey: (payload) => {
+        const reference = payload?.orderId || payload?.outOrderNo;
+        return reference ? buildKey([reference, payload.orderStatus], payload) : `sha256:${payloadHash(payload)}`;
+      },
+      handle: async (payload) => {
+        await palmPayWebhookService.handleWebhook(payload);
+      },
+    },
+    flutterwave: {
+      eventType: (payload) => String(payload?.event || payload?.['event.type'] || '') || null,
+      dedupeKey: (payload) => {
+        const data = payload?.data || payload;
+        const id = data?.id ?? data?.tx_ref ?? data?.reference;
+        return id != null
+          ? buildKey([payload?.event || payload?.['event.type'], id, data?.status], payload)
+          : `sha256:${payloadHash(payload)}`;
+      },
+      handle: async (payload) => {
+        await flutterwaveWebhookService.handleWebhook(payload);
+      },
+    },
+    busha: {
+      eventType: (payload) => (payload?.event ? String(payload.event) : null),
+      dedupeKey: (payload) => {
+        const data = payload?.data || payload;
+        return data?.id
+          ? buildKey([payload?.event, data.id, data.status], payload)
+          : `sha256:${payloadHash(payload)}`;
+      },
+      handle: async (payload) => {
+        if (String(payload?.event || '').startsWith('customer')) {
+          await bushaAppService.handleCustomerWebhook(payload);
+        } else {
+          await bushaAppService.handleTransferWebhook(payload);
+        }
+      },
+    },
+  };
+}
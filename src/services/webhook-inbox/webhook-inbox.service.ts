@@ -0,0 +1,219 @@
+import { Prisma, type WebhookInboxEvent } from '@prisma/client';
+import prisma from '../../core/config/database.js';
+import { createWebhookHandlers, type WebhookProviderHandler } from './webhook-inbox.handlers.js';
+import {
+  DEFAULT_WEBHOOK_MAX_ATTEMPTS,
+  REDACTED_WEBHOOK_HEADERS,
+  WEBHOOK_INBOX_BATCH_SIZE,
+  WEBHOOK_PROCESSING_LEASE_MS,
+  WEBHOOK_PROVIDERS,
+  WEBHOOK_RETRY_BASE_MS,
+  WEBHOOK_RETRY_MAX_DELAY_MS,
+  type WebhookProvider,
+} from './webhook-inbox.constants.js';
+
+export interface WebhookContext {
+  headers?: Record<string, unknown>;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * Webhook Inbox Service
+ * Stores every provider webhook before it is applied, dedupes redeliveries by a
+ * provider-level key, retries failures with exponential backoff and dead-letters
+ * events that keep failing.
+ */
+export class WebhookInboxService {
+  private readonly handlers: Record<WebhookProvider, WebhookProviderHandler> = createWebhookHandlers();
+
+  /**
+   * Persist a delivery. A redelivery of a known event only bumps its receivedCount.
+   */
+  async receive(
+    provider: WebhookProvider,
+    payload: unknown,
+    context: WebhookContext = {}
+  ): Promise<{ event: WebhookInboxEvent; duplicate: boolean }> {
+    const handler = this.getHandler(provider);
+    const dedupeKey = handler.dedupeKey(payload);
+
+    try {
+      const event = await prisma.webhookInboxEvent.create({
+        data: {
+          provider,
+          eventType: handler.eventType(payload)?.slice(0, 100) ?? null,
+          dedupeKey,
+          payload: (payload ?? {}) as Prisma.InputJsonValue,
+          headers: context.headers ? (this.redactHeaders(context.headers) as Prisma.InputJsonValue) : undefined,
+          ipAddress: context.ipAddress?.slice(0, 100) ?? null,
+          userAgent: context.userAgent?.slice(0, 255) ?? null,
+          nextAttemptAt: new Date(),
+        },
+      });
+      return { event, duplicate: false };
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+
+      const event = await prisma.webhookInboxEvent.update({
+        where: { provider_dedupeKey: { provider, dedupeKey } },
+        data: { receivedCount: { increment: 1 } },
+      });
+      return { event, duplicate: true };
+    }
+  }
+
+  /**
+   * Persist a delivery and make the first attempt right away. Failures are left
+   * to the retry job, so this only throws when the event could not be stored.
+   */
+  async receiveAndProcess(provider: WebhookProvider, payload: unknown, context: WebhookContext = {}) {
+    const { event, duplicate } = await this.receive(provider, payload, context);
+    if (duplicate) {
+      return event;
+    }
+    return this.process(event.id);
+  }
+
+  /**
+   * Run one attempt for an event if it is due. The claim is conditional on the
+   * status and attempt count, so concurrent workers never run the same attempt twice.
+   */
+  async process(id: number): Promise<WebhookInboxEvent> {
+    const event = await prisma.webhookInboxEvent.findUnique({ where: { id } });
+    if (!event) {
+      throw new Error('Webhook event not found');
+    }
+
+    const now = new Date();
+    const due = !event.nextAttemptAt || event.nextAttemptAt <= now;
+    if (!due || !['received', 'failed', 'processing'].includes(event.status)) {
+      return event;
+    }
+
+    const claimed = await prisma.webhookInboxEvent.updateMany({
+      where: { id, status: event.status, attempts: event.attempts },
+      data: {
+        status: 'processing',
+        attempts: { increment: 1 },
+        nextAttemptAt: new Date(now.getTime() + WEBHOOK_PROCESSING_LEASE_MS),
+      },
+    });
+    if (claimed.count !== 1) {
+      return event;
+    }
+
+    const attempts = event.attempts + 1;
+    try {
+      const result = await this.getHandler(event.provider).handle(event.payload);
+      return await prisma.webhookInboxEvent.update({
+        where: { id },
+        data: {
+          status: 'processed',
+          processedAt: new Date(),
+          nextAttemptAt: null,
+          lastError: null,
+          result: result ? String(result).slice(0, 255) : null,
+        },
+      });
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      const deadLetter = attempts >= this.getMaxAttempts();
+      if (deadLetter) {
+        console.error(`[Webhook inbox] ${event.provider} event ${id} dead-lettered after ${attempts} attempts: ${message}`);
+      }
+
+      return prisma.webhookInboxEvent.update({
+        where: { id },
+        data: {
+          status: deadLetter ? 'dead_letter' : 'failed',
+          lastError: message,
+          nextAttemptAt: deadLetter ? null : new Date(Date.now() + this.getRetryDelay(attempts)),
+        },
+      });
+    }
+  }
+
+  /**
+   * Retry due events (including processing events whose lease expired)
+   */
+  async processDue(now = new Date()) {
+    const due = await prisma.webhookInboxEvent.findMany({
+      where: {
+        status: { in: ['received', 'failed', 'processing'] },
+        nextAttemptAt: { lte: now },
+      },
+      select: { id: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: WEBHOOK_INBOX_BATCH_SIZE,
+    });
+
+    let processed = 0;
+    let failed = 0;
+    for (const { id } of due) {
+      const event = await this.process(id);
+      if (event.status === 'processed') processed++;
+      else if (event.status === 'failed' || event.status === 'dead_letter') failed++;
+    }
+
+    return { picked: due.length, processed, failed };
+  }
+
+  /**
+   * Run an event through its handler again, resetting its retry budget.
+   * Handlers are idempotent, so replaying an already processed event is safe.
+   */
+  async replay(id: number, adminId?: number) {
+    const event = await prisma.webhookInboxEvent.findUnique({ where: { id } });
+    if (!event) {
+      throw new Error('Webhook event not found');
+    }
+    if (event.status === 'processing' && event.nextAttemptAt && event.nextAttemptAt > new Date()) {
+      throw new Error('Webhook event is being processed. Try again shortly');
+    }
+
+    const reset = await prisma.webhookInboxEvent.updateMany({
+      where: { id, status: event.status, attempts: event.attempts },
+      data: {
+        status: 'received',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        replayedAt: new Date(),
+        replayedById: adminId ?? null,
+      },
+    });
+    if (reset.count !== 1) {
+      throw new Error('Webhook event was updated concurrently. Reload and try again');
+    }
+
+    return this.process(id);
+  }
+
+  getMaxAttempts(): number {
+    const parsed = Number(process.env.WEBHOOK_MAX_ATTEMPTS);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_WEBHOOK_MAX_ATTEMPTS;
+  }
+
+  /** 30s, 1m, 2m, 4m ... capped at 6h */
+  private getRetryDelay(attempts: number): number {
+    return Math.min(WEBHOOK_RETRY_BASE_MS * 2 ** (attempts - 1), WEBHOOK_RETRY_MAX_DELAY_MS);
+  }
+
+  private getHandler(provider: string): WebhookProviderHandler {
+    if (!WEBHOOK_PROVIDERS.includes(provider as WebhookProvider)) {
+      throw new Error(`Unknown webhook provider: ${provider}`);
+    }
+    return this.handlers[provider as WebhookProvider];
+  }
+
+  private redactHeaders(headers: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name,
+        REDACTED_WEBHOOK_HEADERS.includes(name.toLowerCase()) ? '[redacted]' : value,
+      ])
+    );
+  }
+}